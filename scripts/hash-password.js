@@ -0,0 +1,28 @@
+/**
+ * Hash a password for ADMIN_PASSWORD_HASH
+ * Usage: node scripts/hash-password.js '<password>'
+ *
+ * Prints scrypt$<N>$<r>$<p>$<salt>$<hash>, the format src/lib/auth/credentials.ts stores and checks,
+ * for platform variables (Railway) and, with `$` escaped, for a .env file
+ */
+
+const crypto = require('crypto');
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+
+const password = process.argv[2];
+if (!password || password.length < MIN_PASSWORD_LENGTH) {
+  console.error(`Usage: node scripts/hash-password.js '<password>' (at least ${MIN_PASSWORD_LENGTH} characters)`);
+  process.exit(1);
+}
+
+const salt = crypto.randomBytes(16);
+const { N, r, p } = SCRYPT_PARAMS;
+const hash = crypto.scryptSync(password, salt, KEY_LENGTH, { N, r, p, maxmem: 64 * 1024 * 1024 });
+const encoded = ['scrypt', N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+
+console.log(encoded);
+// Next.js expands $VARS in .env files, so the dollar signs are escaped there
+console.log(`\nIn a .env file:\nADMIN_PASSWORD_HASH=${encoded.replace(/\$/g, '\\$')}`);
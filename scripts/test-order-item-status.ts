@@ -0,0 +1,34 @@
+/**
+ * Check the short-weight rules of the per-item order status
+ * Usage: npx tsx scripts/test-order-item-status.ts (or npm run test:items)
+ */
+
+import assert from 'node:assert/strict';
+import { isShortWeight, getAcceptedItemStatus } from '../src/lib/orderItemStatus';
+import type { OrderItem } from '../src/lib/types';
+
+const item = (quantity: number, unit: OrderItem['unit']): OrderItem => ({
+  id: 'item-1',
+  name: 'Test Item',
+  quantity,
+  unit
+});
+
+const cases: Array<[string, OrderItem, string, boolean]> = [
+  ['kg item weighed short', item(2, 'kg'), '1.5kg', true],
+  ['kg item within tolerance', item(2, 'kg'), '1.95kg', false],
+  ['kg item weighed in grams', item(1, 'kg'), '500g', true],
+  ['kg item with a bare number', item(1, 'kg'), '1', false],
+  ['nos item short on pieces', item(3, 'nos'), '2nos', true],
+  ['nos item with a bare number', item(2, 'nos'), '2', false],
+  ['nos item weighed in kg', item(2, 'nos'), '0.8kg', false],
+  ['nos item weighed in grams', item(2, 'nos'), '800g', false],
+  ['kg item counted in pieces', item(2, 'kg'), '1nos', false]
+];
+
+for (const [name, orderItem, weight, expected] of cases) {
+  assert.equal(isShortWeight(orderItem, weight), expected, name);
+}
+assert.equal(getAcceptedItemStatus(item(2, 'nos'), '0.8kg'), 'accepted', 'nos item weighed in kg is accepted');
+
+console.log(`All ${cases.length + 1} order item status checks passed`);
@@ -0,0 +1,83 @@
+/**
+ * Check that every API route has an access policy
+ * Usage: node scripts/test-route-policies.js (or npm run test:routes)
+ *
+ * Fails when a route under src/app/api or src/app/vcs is missing from ROUTE_POLICIES
+ * (src/lib/auth/routePolicies.ts), when a policy names a route that no longer exists, or when
+ * a per-method policy leaves out a method the route exports
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const ROOT = path.join(__dirname, '..');
+const APP_DIR = path.join(ROOT, 'src', 'app');
+const POLICY_FILE = path.join(ROOT, 'src', 'lib', 'auth', 'routePolicies.ts');
+const ROUTE_DIRS = ['api', 'vcs'];
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+
+// route.ts files below a directory, as route paths (e.g. /api/menu/[butcherId])
+function findRoutes(dir) {
+  const routes = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      routes.push(...findRoutes(fullPath));
+    } else if (entry.name === 'route.ts') {
+      routes.push({
+        route: '/' + path.relative(APP_DIR, dir).split(path.sep).join('/'),
+        methods: METHODS.filter(method => new RegExp(`export\\s+(async\\s+)?function\\s+${method}\\b`).test(fs.readFileSync(fullPath, 'utf8')))
+      });
+    }
+  }
+  return routes;
+}
+
+// Policy lines look like: '/api/route': POLICY, or '/api/route': { GET: POLICY, POST: POLICY },
+function readPolicies() {
+  const policies = new Map();
+  for (const line of fs.readFileSync(POLICY_FILE, 'utf8').split('\n')) {
+    const match = line.match(/^\s*'(\/[^']+)':\s*(.+?),?\s*$/);
+    if (!match) continue;
+
+    const value = match[2];
+    const methods = value.startsWith('{') && !/^\{\s*access:/.test(value)
+      ? METHODS.filter(method => new RegExp(`\\b${method}:`).test(value))
+      : null; // One policy for every method
+    policies.set(match[1], methods);
+  }
+  return policies;
+}
+
+const routes = ROUTE_DIRS
+  .filter(dir => fs.existsSync(path.join(APP_DIR, dir)))
+  .flatMap(dir => findRoutes(path.join(APP_DIR, dir)));
+const policies = readPolicies();
+const failures = [];
+
+for (const { route, methods } of routes) {
+  if (!policies.has(route)) {
+    failures.push(`${route} has no access policy`);
+    continue;
+  }
+  const policyMethods = policies.get(route);
+  if (policyMethods) {
+    methods
+      .filter(method => !policyMethods.includes(method))
+      .forEach(method => failures.push(`${route} exports ${method} but has no policy for it`));
+  }
+}
+
+for (const route of policies.keys()) {
+  if (!routes.some(found => found.route === route)) {
+    failures.push(`${route} has a policy but no route file`);
+  }
+}
+
+if (failures.length > 0) {
+  console.error(`❌ Route policy check failed (${POLICY_FILE}):`);
+  failures.forEach(failure => console.error(`   - ${failure}`));
+  process.exit(1);
+}
+
+console.log(`✅ All ${routes.length} routes have an access policy`);
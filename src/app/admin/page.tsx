@@ -32,7 +32,8 @@ import {
   LogOut,
   Trash2,
   Target,
-  ShoppingBag
+  ShoppingBag,
+  Server
 } from "lucide-react"
 import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartConfig } from "../../components/ui/chart"
 import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts"
@@ -46,6 +47,13 @@ import { OrdersAnalytics } from "../../components/admin/OrdersAnalytics"
 import DAMAnalysis from "../../components/admin/DAMAnalysis"
 import { OrdersTab } from "../../components/admin/OrdersTab"
 import { ButcherPerformance } from "../../components/admin/ButcherPerformance"
+import { DeadLetterQueue } from "../../components/admin/DeadLetterQueue"
+import { SheetSyncConflicts } from "../../components/admin/SheetSyncConflicts"
+import { ButcherOnboardingWizard } from "../../components/admin/ButcherOnboardingWizard"
+import { ButcherCredentials } from "../../components/admin/ButcherCredentials"
+import { ButcherSessions } from "../../components/admin/ButcherSessions"
+import { ButcherPresenceBoard } from "../../components/admin/ButcherPresenceBoard"
+import { RateLimitMonitor } from "../../components/admin/RateLimitMonitor"
 import { ThemeToggle } from "../../components/ThemeToggle"
 
 const getDisplayOrderId = (orderId: string): string => {
@@ -255,7 +263,9 @@ export default function AdminPage() {
         setIsRefreshing(true);
       }
       
-      const response = await fetch('/api/contact');
+      const response = await fetch('/api/contact', {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` },
+      });
       if (response.ok) {
         const contentType = response.headers.get('content-type');
         if (contentType && contentType.includes('application/json')) {
@@ -293,6 +303,7 @@ export default function AdminPage() {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`,
         },
         body: JSON.stringify({
           requestId,
@@ -336,6 +347,7 @@ export default function AdminPage() {
     try {
       const response = await fetch(`/api/contact?requestId=${requestToDelete}`, {
         method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` },
       });
 
       if (response.ok) {
@@ -567,7 +579,7 @@ export default function AdminPage() {
           <Tabs defaultValue="overview" className="w-full">
             <TabsList 
               ref={tabsListRef} 
-              className="w-full overflow-x-auto flex sm:grid sm:grid-cols-6 gap-1 sm:gap-2 p-1 sm:p-1 h-auto sm:h-10 px-0 sm:px-1 scrollbar-hide justify-start"
+              className="w-full overflow-x-auto flex sm:grid sm:grid-cols-7 gap-1 sm:gap-2 p-1 sm:p-1 h-auto sm:h-10 px-0 sm:px-1 scrollbar-hide justify-start"
               style={{ scrollBehavior: 'smooth' }}
             >
               <TabsTrigger value="overview" className="flex items-center gap-2 whitespace-nowrap pl-4 pr-3 sm:px-4 flex-shrink-0 min-w-fit">
@@ -590,6 +602,10 @@ export default function AdminPage() {
                 <Target className="h-4 w-4 flex-shrink-0" />
                 <span>Target</span>
               </TabsTrigger>
+              <TabsTrigger value="system" className="flex items-center gap-2 whitespace-nowrap px-3 sm:px-4 flex-shrink-0 min-w-fit">
+                <Server className="h-4 w-4 flex-shrink-0" />
+                <span>System</span>
+              </TabsTrigger>
               <TabsTrigger value="support" className="flex items-center gap-2 whitespace-nowrap pl-3 pr-4 sm:px-4 flex-shrink-0 min-w-fit relative">
                 <MessageSquare className="h-4 w-4 flex-shrink-0" />
                 <span>Support</span>
@@ -870,11 +886,15 @@ export default function AdminPage() {
 
         {/* Butchers Tab */}
         <TabsContent value="butchers" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+          <ButcherPresenceBoard />
           <OrdersAnalytics 
             allOrders={allOrders} 
             onRefresh={fetchAllOrders}
             isLoading={isLoading}
           />
+          <ButcherOnboardingWizard />
+          <ButcherCredentials />
+          <ButcherSessions />
         </TabsContent>
 
         {/* Billing Tab */}
@@ -900,6 +920,13 @@ export default function AdminPage() {
           />
         </TabsContent>
 
+        {/* System Tab */}
+            <TabsContent value="system" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+          <DeadLetterQueue />
+          <SheetSyncConflicts />
+          <RateLimitMonitor />
+        </TabsContent>
+
         {/* Support Tab */}
             <TabsContent value="support" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
           <div className="flex justify-between items-center">
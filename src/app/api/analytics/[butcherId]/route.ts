@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getOrdersFromSheet } from '@/lib/sheets';
+import { getRepositories } from '@/lib/repositories';
 import { verifyUserToken } from '@/lib/auth/jwt';
+import { authorizeButcherAction } from '@/lib/auth/staff';
 
 const ORDERS_PER_PAGE = 100;
 
@@ -32,16 +33,17 @@ export async function GET(
       );
     }
 
-    // Check if user has access to this butcher's data
-    if (decoded.role !== 'admin' && decoded.butcherId !== butcherId) {
+    // Check if user has access to this butcher's data (staff need the earnings:view permission)
+    const access = await authorizeButcherAction(decoded, butcherId, 'earnings:view');
+    if (!access.allowed) {
       return NextResponse.json(
-        { error: 'Forbidden', message: 'Access denied' },
-        { status: 403 }
+        { error: access.status === 401 ? 'Unauthorized' : 'Forbidden', message: access.message },
+        { status: access.status }
       );
     }
 
     // Fetch from Butcher POS Sheet for all users (admin and butchers)
-    const allOrders = await getOrdersFromSheet(butcherId);
+    const allOrders = await getRepositories().orders.getOrders(butcherId);
 
     // Calculate pagination
     const totalCount = allOrders.length;
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { changeButcherPassword, CredentialError } from '@/lib/auth/credentials';
+import { changeStaffPassword, StaffError } from '@/lib/auth/staff';
+import { ensureButchersLoaded } from '@/lib/butcherRegistry';
+
+/**
+ * POST /api/auth/change-password
+ * Change the logged-in butcher's password (or the staff member's own password for a staff login)
+ * Without a token the shop login's password is changed by butcher ID - how a butcher whose login answered
+ * mustChangePassword sets their own password (the current password is checked either way)
+ *
+ * Headers: Authorization: Bearer <butcher-jwt-token> (optional with id)
+ * Body: { currentPassword: string, newPassword: string, id?: string }
+ */
+export async function POST(request: NextRequest) {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  try {
+    const { currentPassword, newPassword, id } = await request.json().catch(() => ({}));
+
+    if ((!user && !id) || user?.role === 'admin' || (user && !user.butcherId)) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Butcher login required' },
+        { status: 401 }
+      );
+    }
+
+    if (!currentPassword || !newPassword) {
+      return NextResponse.json(
+        { error: 'Missing required fields: currentPassword, newPassword' },
+        { status: 400 }
+      );
+    }
+
+    await ensureButchersLoaded();
+    if (!user) {
+      await changeButcherPassword(String(id), String(currentPassword), String(newPassword));
+    } else if (user.staffId) {
+      await changeStaffPassword(user.butcherId, user.staffId, String(currentPassword), String(newPassword));
+    } else {
+      await changeButcherPassword(user.butcherId, String(currentPassword), String(newPassword));
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Password changed'
+    });
+  } catch (error) {
+    if (error instanceof CredentialError || error instanceof StaffError) {
+      return NextResponse.json(
+        { error: 'Cannot change password', message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error changing password:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to change password'
+      },
+      { status: 500 }
+    );
+  }
+}
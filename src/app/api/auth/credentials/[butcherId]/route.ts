@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { resetButcherPassword, unlockButcher, CredentialError } from '@/lib/auth/credentials';
+import { ensureButchersLoaded } from '@/lib/butcherRegistry';
+
+type RouteContext = { params: Promise<{ butcherId: string }> };
+
+/**
+ * Verify the request carries an admin token, returns an error response otherwise
+ */
+function authorizeAdmin(request: NextRequest): NextResponse | null {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or expired token' },
+      { status: 401 }
+    );
+  }
+
+  if (user.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Forbidden', message: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * POST /api/auth/credentials/[butcherId]
+ * Reset a butcher's password and clear their lockout (admin only)
+ *
+ * Body: { password?: string } - without a password a temporary one is generated and returned once
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  const butcherId = decodeURIComponent((await params).butcherId);
+  const admin = verifyUserToken(extractTokenFromHeader(request.headers.get('Authorization')) as string);
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    await ensureButchersLoaded();
+    const { temporaryPassword } = await resetButcherPassword(
+      butcherId,
+      admin?.id || 'admin',
+      body?.password ? String(body.password) : undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `Password for ${butcherId} reset`,
+      temporaryPassword
+    });
+  } catch (error) {
+    if (error instanceof CredentialError) {
+      return NextResponse.json(
+        { error: 'Cannot reset password', message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[Credentials] Error resetting password:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to reset password'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/credentials/[butcherId]
+ * Clear a butcher's failed logins and lockout without changing the password (admin only)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  const butcherId = decodeURIComponent((await params).butcherId);
+  const cleared = unlockButcher(butcherId);
+
+  return NextResponse.json({
+    success: true,
+    message: cleared ? `${butcherId} unlocked` : `${butcherId} was not locked out`
+  });
+}
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { getCredentialStatuses, migrateLegacyPasswords } from '@/lib/auth/credentials';
+import { BUTCHER_CONFIGS } from '@/lib/butcherConfig';
+import { ensureButchersLoaded } from '@/lib/butcherRegistry';
+
+/**
+ * Verify the request carries an admin token, returns an error response otherwise
+ */
+function authorizeAdmin(request: NextRequest): NextResponse | null {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or expired token' },
+      { status: 401 }
+    );
+  }
+
+  if (user.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Forbidden', message: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/auth/credentials
+ * Password state of every butcher: hashed or legacy, failed attempts, lockout (admin only)
+ *
+ * Headers: Authorization: Bearer <admin-jwt-token>
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    await ensureButchersLoaded();
+    const credentials = await getCredentialStatuses(Object.keys(BUTCHER_CONFIGS));
+    return NextResponse.json({ credentials });
+  } catch (error) {
+    console.error('[Credentials] Error loading credentials:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load credentials',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/auth/credentials
+ * Hash every legacy plaintext password that hasn't been migrated yet (admin only)
+ *
+ * Body: { dryRun?: boolean } - with dryRun the butchers that would be migrated are returned
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    await ensureButchersLoaded();
+    const result = await migrateLegacyPasswords({ dryRun: body?.dryRun === true });
+
+    return NextResponse.json({
+      success: true,
+      message: body?.dryRun === true
+        ? `${result.migrated.length} legacy password(s) would be hashed`
+        : `Hashed ${result.migrated.length} legacy password(s)`,
+      ...result
+    });
+  } catch (error) {
+    console.error('[Credentials] Error migrating legacy passwords:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to migrate passwords'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateAdmin, authenticateButcher, ADMIN_ID, type LoginResult } from '@/lib/auth/credentials';
+import { authenticateStaff, type StaffLoginResult } from '@/lib/auth/staff';
+import { getStaffActorId } from '@/lib/auth/staffRoles';
+import { createSession, getDeviceInfo } from '@/lib/auth/sessions';
+import { getButcherConfig } from '@/lib/butcherConfig';
+import { ensureButchersLoaded } from '@/lib/butcherRegistry';
+
+/**
+ * POST /api/auth/login
+ * Log in a butcher - the password is checked against its stored hash (or legacy password until migrated)
+ * With a username the staff account of that butcher logs in instead of the shop's shared login
+ * The id `admin` logs in the admin, checked against ADMIN_PASSWORD_HASH (the response then has `admin`, no config)
+ *
+ * Body: { id: string, password: string, username?: string }
+ * Returns a short-lived access token and a refresh token for POST /api/auth/refresh-token (one session per device)
+ * 401 for a wrong ID, username or password, 429 with Retry-After while the login is locked out,
+ * 403 with mustChangePassword while a migrated or admin-set password hasn't been changed (no session is created)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { id, password, username } = await request.json().catch(() => ({}));
+
+    if (!id || !password) {
+      return NextResponse.json(
+        { error: 'Missing required fields: id, password' },
+        { status: 400 }
+      );
+    }
+
+    await ensureButchersLoaded();
+
+    const isAdminLogin = !username && String(id) === ADMIN_ID;
+    const result: LoginResult | StaffLoginResult = isAdminLogin
+      ? await authenticateAdmin(String(password))
+      : username
+        ? await authenticateStaff(String(id), String(username), String(password))
+        : await authenticateButcher(String(id), String(password));
+    if (!result.authenticated) {
+      if (result.reason === 'locked') {
+        return NextResponse.json(
+          {
+            error: 'Too many attempts',
+            message: `Too many failed logins. Try again in ${Math.ceil((result.retryAfterSeconds || 0) / 60)} minutes.`,
+            retryAfterSeconds: result.retryAfterSeconds
+          },
+          { status: 429, headers: { 'Retry-After': String(result.retryAfterSeconds || 0) } }
+        );
+      }
+
+      return NextResponse.json(
+        { error: 'Unauthorized', message: username ? 'Invalid butcher ID, username or password' : 'Invalid butcher ID or password' },
+        { status: 401 }
+      );
+    }
+
+    if (isAdminLogin) {
+      const admin = { id: ADMIN_ID, name: 'System Administrator' };
+      const { token, refreshToken, expiresIn } = await createSession({
+        id: admin.id,
+        butcherId: admin.id,
+        name: admin.name,
+        role: 'admin'
+      }, getDeviceInfo(request.headers));
+
+      return NextResponse.json({ success: true, token, refreshToken, expiresIn, admin });
+    }
+
+    const config = getButcherConfig(id);
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Invalid butcher ID or password' },
+        { status: 401 }
+      );
+    }
+
+    if ('mustChangePassword' in result && result.mustChangePassword) {
+      return NextResponse.json(
+        {
+          error: 'Password change required',
+          message: 'Set a new password to finish logging in.',
+          mustChangePassword: true
+        },
+        { status: 403 }
+      );
+    }
+
+    const member = 'member' in result ? result.member : null;
+    const { token, refreshToken, expiresIn } = await createSession(member
+      ? {
+          id: getStaffActorId(config.id, member.username),
+          butcherId: config.id,
+          name: member.name,
+          role: 'butcher',
+          staffId: member.username,
+          staffRole: member.role
+        }
+      : {
+          id: config.id,
+          butcherId: config.id,
+          name: config.name,
+          role: 'butcher'
+        }, getDeviceInfo(request.headers));
+
+    return NextResponse.json({
+      success: true,
+      token,
+      refreshToken,
+      expiresIn,
+      config,
+      ...(member ? { staff: { username: member.username, name: member.name, role: member.role } } : {})
+    });
+  } catch (error) {
+    console.error('Error logging in:', error);
+    return NextResponse.json(
+      { error: 'Failed to log in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { revokeSession, revokeSessionByRefreshToken } from '@/lib/auth/sessions';
+
+/**
+ * POST /api/auth/logout
+ * End the current device's session - its refresh token stops working and its SSE stream closes
+ *
+ * Headers: Authorization: Bearer <jwt-token>
+ * Body: { refreshToken?: string } - identifies the session when the access token has already expired
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = extractTokenFromHeader(request.headers.get('Authorization'));
+    const user = token ? verifyUserToken(token) : null;
+    const { refreshToken } = await request.json().catch(() => ({}));
+
+    let revoked = false;
+    if (user?.sid) {
+      revoked = await revokeSession(user.sid, user.id, 'Logged out');
+    } else if (refreshToken) {
+      revoked = await revokeSessionByRefreshToken(String(refreshToken));
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: revoked ? 'Logged out' : 'Session already ended'
+    });
+  } catch (error) {
+    console.error('Error logging out:', error);
+    return NextResponse.json(
+      { error: 'Failed to log out' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,41 +1,71 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { generateUserToken, verifyUserToken } from '@/lib/auth/jwt';
+import { verifyUserToken } from '@/lib/auth/jwt';
+import { getActiveStaffMember } from '@/lib/auth/staff';
+import { exchangeLegacyToken, getDeviceInfo, rotateRefreshToken, SessionError } from '@/lib/auth/sessions';
 
+/**
+ * POST /api/auth/refresh-token
+ * Swap a refresh token for a new access token and a new refresh token (the old one stops working)
+ *
+ * Body: { refreshToken: string }
+ * 401 when the session expired, was revoked or the refresh token was reused (which revokes the session),
+ * 409 when another request rotated the same refresh token a moment ago - re-read the stored tokens and retry
+ *
+ * Legacy body { token } exchanges a still-valid token from before sessions for a session - once per token, and not
+ * when it was issued before the butcher or user was logged out everywhere (401). Turn off with LEGACY_ACCESS_TOKENS=off
+ */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-    const { token } = body;
+    const body = await request.json().catch(() => ({}));
+    const { refreshToken, token } = body;
+
+    if (refreshToken) {
+      const tokens = await rotateRefreshToken(String(refreshToken), getDeviceInfo(request.headers));
+      return NextResponse.json({ success: true, ...tokens });
+    }
 
     if (!token) {
       return NextResponse.json(
-        { error: 'Token required' },
+        { error: 'Refresh token required' },
         { status: 400 }
       );
     }
 
-    // Verify token (even if expired)
-    const decoded = verifyUserToken(token, true); // Allow expired
-    
-    if (!decoded) {
+    // Only unexpired legacy tokens (no session id) can be exchanged
+    const decoded = verifyUserToken(token);
+    if (!decoded || decoded.sid) {
       return NextResponse.json(
         { error: 'Invalid token' },
         { status: 401 }
       );
     }
 
-    // Generate new token
-    const newToken = generateUserToken({
+    // Staff tokens are only exchanged while the account is active, with its current role
+    const member = decoded.staffId ? await getActiveStaffMember(decoded.butcherId, decoded.staffId) : null;
+    if (decoded.staffId && !member) {
+      return NextResponse.json(
+        { error: 'Staff account is no longer active' },
+        { status: 401 }
+      );
+    }
+
+    const tokens = await exchangeLegacyToken(decoded, {
       id: decoded.id,
       butcherId: decoded.butcherId,
-      name: decoded.name,
-      role: decoded.role || 'butcher'
-    });
-
-    return NextResponse.json({
-      success: true,
-      token: newToken
-    });
+      name: member?.name || decoded.name,
+      role: decoded.role || 'butcher',
+      ...(member ? { staffId: member.username, staffRole: member.role } : {})
+    }, getDeviceInfo(request.headers));
+
+    return NextResponse.json({ success: true, ...tokens });
   } catch (error) {
+    if (error instanceof SessionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
     console.error('Error refreshing token:', error);
     return NextResponse.json(
       { error: 'Failed to refresh token' },
@@ -43,4 +73,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { authorizeButcherAction } from '@/lib/auth/staff';
+import { listSessions, revokeSession } from '@/lib/auth/sessions';
+
+type RouteContext = { params: Promise<{ sessionId: string }> };
+
+/**
+ * DELETE /api/auth/sessions/[sessionId]
+ * Log out one device (admin, or the butcher's owner for their own butcher's sessions)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or expired token' },
+      { status: 401 }
+    );
+  }
+
+  const { sessionId } = await params;
+
+  try {
+    const session = (await listSessions({ includeInactive: true })).find(stored => stored.id === sessionId);
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      );
+    }
+
+    if (user.role !== 'admin') {
+      const access = await authorizeButcherAction(user, session.butcherId, 'staff:manage');
+      if (!access.allowed) {
+        return NextResponse.json(
+          { error: access.status === 401 ? 'Unauthorized' : 'Forbidden', message: access.message },
+          { status: access.status }
+        );
+      }
+    }
+
+    const revokedBy = user.role === 'admin' ? `admin:${user.id}` : user.id;
+    const revoked = await revokeSession(sessionId, revokedBy, `Logged out by ${revokedBy}`);
+    return NextResponse.json({
+      success: true,
+      message: revoked ? `Logged out ${session.name} (${session.userAgent})` : 'Session already ended'
+    });
+  } catch (error) {
+    console.error('[Sessions] Error revoking session:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to revoke session'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { authorizeButcherAction } from '@/lib/auth/staff';
+import { listSessions, revokeAllSessions } from '@/lib/auth/sessions';
+
+/**
+ * GET /api/auth/sessions
+ * Active login sessions (devices), newest first
+ *
+ * Headers: Authorization: Bearer <jwt-token>
+ * Query: butcherId?, includeInactive=true
+ * Admins see every butcher's sessions; a butcher's owner (staff:manage) sees only their own butcher's
+ */
+export async function GET(request: NextRequest) {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or expired token' },
+      { status: 401 }
+    );
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const butcherId = user.role === 'admin' ? searchParams.get('butcherId') || undefined : user.butcherId;
+
+  if (user.role !== 'admin') {
+    const access = await authorizeButcherAction(user, user.butcherId, 'staff:manage');
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.status === 401 ? 'Unauthorized' : 'Forbidden', message: access.message },
+        { status: access.status }
+      );
+    }
+  }
+
+  try {
+    const sessions = await listSessions({
+      butcherId,
+      includeInactive: searchParams.get('includeInactive') === 'true'
+    });
+    return NextResponse.json({ sessions });
+  } catch (error) {
+    console.error('[Sessions] Error loading sessions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load sessions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/auth/sessions?butcherId=<id>[&userId=<id>]
+ * Log a butcher out everywhere: every session (shared login and staff) is revoked and open streams close (admin only)
+ * With userId only that user's sessions are revoked
+ */
+export async function DELETE(request: NextRequest) {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or expired token' },
+      { status: 401 }
+    );
+  }
+
+  if (user.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Forbidden', message: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  const butcherId = request.nextUrl.searchParams.get('butcherId');
+  const userId = request.nextUrl.searchParams.get('userId') || undefined;
+  if (!butcherId) {
+    return NextResponse.json(
+      { error: 'Missing required parameter: butcherId' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const revoked = await revokeAllSessions(butcherId, `admin:${user.id}`, { userId });
+    return NextResponse.json({
+      success: true,
+      message: `Logged out ${revoked.length} session(s) of ${userId || butcherId}`,
+      revoked
+    });
+  } catch (error) {
+    console.error('[Sessions] Error revoking sessions:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to revoke sessions'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { BUTCHER_CONFIGS, isBuiltInButcher } from '@/lib/butcherConfig';
+import { ensureButchersLoaded } from '@/lib/butcherRegistry';
+import { onboardButcher, ButcherOnboardingError } from '@/lib/butcherOnboarding';
+
+/**
+ * Verify the request carries an admin token, returns an error response otherwise
+ */
+function authorizeAdmin(request: NextRequest): NextResponse | null {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or expired token' },
+      { status: 401 }
+    );
+  }
+
+  if (user.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Forbidden', message: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/butchers
+ * Every butcher config (built-in and onboarded), without passwords
+ * The client registers onboarded butchers from this list so menus, routing and labels know about them
+ */
+export async function GET() {
+  try {
+    await ensureButchersLoaded();
+
+    return NextResponse.json({
+      butchers: Object.values(BUTCHER_CONFIGS).map(config => ({
+        ...config,
+        builtIn: isBuiltInButcher(config.id)
+      }))
+    });
+  } catch (error) {
+    console.error('[Butchers] Error loading butchers:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load butchers',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/butchers
+ * Onboard a new butcher: validate, create sheet tabs, register and seed the default menu (admin only)
+ *
+ * Body: { config: ButcherConfig, password: string, dryRun?: boolean }
+ * - with dryRun only the validation runs and the planned steps are returned
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    if (!body?.config) {
+      return NextResponse.json(
+        { error: 'Missing required field: config' },
+        { status: 400 }
+      );
+    }
+
+    const result = await onboardButcher(
+      { config: body.config, password: String(body.password || '') },
+      { dryRun: body.dryRun === true }
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: result.dryRun
+        ? `Config for ${result.butcherId} is valid`
+        : `Butcher ${result.butcherId} onboarded`,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof ButcherOnboardingError) {
+      return NextResponse.json(
+        { error: 'Cannot onboard butcher', message: error.message, problems: error.problems, steps: error.steps },
+        { status: error.steps.length > 0 ? 500 : 400 }
+      );
+    }
+
+    console.error('[Butchers] Error onboarding butcher:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to onboard butcher'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { completeOrder } from '@/lib/sheets';
+import { getRepositories } from '@/lib/repositories';
 import { sendOrderStatusUpdate } from '@/lib/sseConnectionManager';
 import { updateOrderInCache } from '@/lib/orderCache';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { assertTransition, transitionOrder, findServerOrder, InvalidOrderTransitionError } from '@/lib/orderStateMachine';
+import { authorizeButcherAction, getOrderActor } from '@/lib/auth/staff';
 import type { Order } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
@@ -20,22 +23,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    await completeOrder(order, butcherId);
-    
+    // Actor for the audit trail (token is optional for backward compatibility, a staff token must allow it)
+    const token = extractTokenFromHeader(request.headers.get('Authorization'));
+    const user = token ? verifyUserToken(token) : null;
+    const actor = getOrderActor(user, butcherId);
+
+    if (user) {
+      const access = await authorizeButcherAction(user, butcherId, 'orders:prepare');
+      if (!access.allowed) {
+        return NextResponse.json(
+          { error: access.status === 401 ? 'Unauthorized' : 'Forbidden', message: access.message },
+          { status: access.status }
+        );
+      }
+    }
+
     // Extract order number from order ID (ORD-123 -> 123 or ORD-2025-01-15-123 -> 123)
     const orderIdParts = order.id.replace('ORD-', '').split('-');
     const orderNo = parseInt(orderIdParts[orderIdParts.length - 1], 10);
+
+    // The server's copy (cache, else the order store) is authoritative, and it preserves revenue and other fields
+    const serverOrder = await findServerOrder(butcherId, order.id);
+    if (!serverOrder) {
+      return NextResponse.json(
+        { error: 'Unknown order', message: `Order ${order.id} is not known to the server - its status can't be checked` },
+        { status: 409 }
+      );
+    }
+
+    // Reject illegal jumps (e.g. rejected → completed) before touching the sheets
+    try {
+      assertTransition(serverOrder, 'completed');
+    } catch (transitionError) {
+      if (transitionError instanceof InvalidOrderTransitionError) {
+        return NextResponse.json(
+          { error: 'Invalid transition', message: transitionError.message, currentStatus: transitionError.from },
+          { status: 409 }
+        );
+      }
+      throw transitionError;
+    }
+
+    await getRepositories().orders.completeOrder(order, butcherId);
     
     if (!isNaN(orderNo)) {
-      // Get the full order from cache FIRST to preserve revenue and other fields
-      const { getOrderFromCache } = await import('@/lib/orderCache');
-      const cachedOrder = getOrderFromCache(butcherId, orderNo);
-      
       // Merge incoming order updates with cached order (preserves revenue, itemRevenues, etc.)
-      const completedOrder: Order = {
-        ...(cachedOrder || order), // Use cached order as base (has revenue), fallback to incoming order
+      const mergedOrder: Order = {
+        ...serverOrder, // Server's order as base (has revenue)
         ...order, // Apply any updates from incoming order
-        status: 'completed',
+        status: serverOrder.status,
+        statusHistory: serverOrder.statusHistory
+      };
+      const completedOrder: Order = {
+        ...transitionOrder(mergedOrder, 'completed', actor),
         preparationEndTime: new Date(),
         completionTime: Date.now()
       };
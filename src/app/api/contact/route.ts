@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { saveSupportRequest, getSupportRequests, updateSupportRequest, deleteSupportRequest } from '../../../lib/supportSheets';
+import { getRepositories } from '../../../lib/repositories';
 
 export async function POST(request: NextRequest) {
   try {
@@ -34,8 +34,8 @@ export async function POST(request: NextRequest) {
       adminResponse: null
     };
 
-    // Save to Google Sheets
-    const requestId = await saveSupportRequest(supportRequest);
+    // Save to the support store
+    const requestId = await getRepositories().support.saveRequest(supportRequest);
 
 
     return NextResponse.json({
@@ -58,8 +58,8 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const butcherId = searchParams.get('butcherId');
 
-    // Get support requests from Google Sheets
-    let requests = await getSupportRequests(butcherId || undefined);
+    // Get support requests from the support store
+    let requests = await getRepositories().support.getRequests(butcherId || undefined);
 
     // Filter by status if provided
     const status = searchParams.get('status');
@@ -94,8 +94,8 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Update the request in Google Sheets
-    await updateSupportRequest(requestId, {
+    // Update the request in the support store
+    await getRepositories().support.updateRequest(requestId, {
       status: status || undefined,
       adminResponse: adminResponse || undefined
     });
@@ -127,8 +127,20 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Delete the request from Google Sheets
-    await deleteSupportRequest(requestId);
+    // Butchers delete their own requests only (the route policy checks butcherId is theirs; admins may omit it)
+    const butcherId = searchParams.get('butcherId');
+    if (butcherId) {
+      const ownRequests = await getRepositories().support.getRequests(butcherId);
+      if (!ownRequests.some(req => req.id === requestId)) {
+        return NextResponse.json(
+          { error: 'Support request not found' },
+          { status: 404 }
+        );
+      }
+    }
+
+    // Delete the request from the support store
+    await getRepositories().support.deleteRequest(requestId);
 
 
     return NextResponse.json({
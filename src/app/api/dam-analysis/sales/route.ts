@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getSalesDataFromSheet, calculateWeeklyTargets } from '@/lib/salesSheets';
+import { getRepositories } from '@/lib/repositories';
 
 const SALES_DATA_PER_PAGE = 100;
 
@@ -11,7 +11,7 @@ export async function GET(request: NextRequest) {
     const page = parseInt(searchParams.get('page') || '1', 10);
 
     // Fetch all sales data from sheet (filtered by month/year)
-    const allSalesData = await getSalesDataFromSheet(month, year);
+    const allSalesData = await getRepositories().sales.getSales(month, year);
     
     // Calculate pagination
     const totalCount = allSalesData.length;
@@ -25,7 +25,7 @@ export async function GET(request: NextRequest) {
     const butcherSummary = calculateButcherSummary(allSalesData);
     
     // Calculate weekly targets
-    const weeklyTargets = await calculateWeeklyTargets(month, year);
+    const weeklyTargets = await getRepositories().sales.getWeeklyTargets(month, year);
     
     
     return NextResponse.json({
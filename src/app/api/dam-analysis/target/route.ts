@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getDAMTargetFromSheet, saveDAMTargetToSheet } from '@/lib/salesSheets';
+import { getRepositories } from '@/lib/repositories';
 
 export async function GET(request: NextRequest) {
   try {
@@ -7,7 +7,7 @@ export async function GET(request: NextRequest) {
     const month = parseInt(searchParams.get('month') || '1', 10);
     const year = parseInt(searchParams.get('year') || String(new Date().getFullYear()), 10);
 
-    const target = await getDAMTargetFromSheet(month, year);
+    const target = await getRepositories().sales.getMonthlyTarget(month, year);
     
     return NextResponse.json(target);
   } catch (error) {
@@ -31,7 +31,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Save with optional butcher-specific targets
-    await saveDAMTargetToSheet(month, year, totalTarget, butcherTargets);
+    await getRepositories().sales.saveMonthlyTarget(month, year, totalTarget, butcherTargets);
     
     return NextResponse.json({ success: true });
   } catch (error) {
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { getDeadLetter, replayDeadLetter, discardDeadLetter } from '@/lib/orderQueue';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+/**
+ * Verify the request carries an admin token, returns an error response otherwise
+ */
+function authorizeAdmin(request: NextRequest): NextResponse | null {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or expired token' },
+      { status: 401 }
+    );
+  }
+
+  if (user.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Forbidden', message: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+function notFound(id: string): NextResponse {
+  return NextResponse.json(
+    { error: 'Not found', message: `Dead letter ${id} not found` },
+    { status: 404 }
+  );
+}
+
+/**
+ * GET /api/dead-letters/[id]
+ * Inspect a single dead-letter entry (admin only)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  const id = decodeURIComponent((await params).id);
+  const entry = getDeadLetter(id);
+  if (!entry) {
+    return notFound(id);
+  }
+
+  return NextResponse.json({ deadLetter: entry });
+}
+
+/**
+ * POST /api/dead-letters/[id]
+ * Replay a dead-letter entry - puts it back on its queue with a fresh retry budget (admin only)
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  const id = decodeURIComponent((await params).id);
+  if (!replayDeadLetter(id)) {
+    return notFound(id);
+  }
+
+  console.log(`[DeadLetters] Replayed ${id}`);
+  return NextResponse.json({
+    success: true,
+    message: `Dead letter ${id} re-queued for delivery`
+  });
+}
+
+/**
+ * DELETE /api/dead-letters/[id]
+ * Discard a dead-letter entry permanently (admin only)
+ */
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  const id = decodeURIComponent((await params).id);
+  if (!discardDeadLetter(id)) {
+    return notFound(id);
+  }
+
+  console.log(`[DeadLetters] Discarded ${id}`);
+  return NextResponse.json({
+    success: true,
+    message: `Dead letter ${id} discarded`
+  });
+}
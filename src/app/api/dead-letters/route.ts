@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { getDeadLetters, getQueueStats } from '@/lib/orderQueue';
+
+/**
+ * GET /api/dead-letters
+ * List queued orders, responses and menu updates that exhausted their retries (admin only)
+ *
+ * Headers: Authorization: Bearer <admin-jwt-token>
+ * Query: type?: 'order' | 'response' | 'menuUpdate'
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = extractTokenFromHeader(request.headers.get('Authorization'));
+    const user = token ? verifyUserToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    if (user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const type = request.nextUrl.searchParams.get('type');
+    const deadLetters = getDeadLetters().filter(entry => !type || entry.type === type);
+
+    return NextResponse.json({
+      deadLetters,
+      stats: getQueueStats()
+    });
+  } catch (error) {
+    console.error('[DeadLetters] Error listing dead letters:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch dead letters',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
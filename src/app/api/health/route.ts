@@ -1,12 +1,18 @@
 import { NextResponse } from 'next/server';
 import { apiMonitor } from '@/lib/apiMonitor';
-// Import menu update worker to ensure it starts
+// Import background workers to ensure they start
 import '@/lib/menuUpdateWorker';
+import '@/lib/responseWorker';
+import '@/lib/orderQueueWorker';
+import '@/lib/orderReconciliation';
+import '@/lib/butcherRegistry';
+import { getLastSheetSchemaReport } from '@/lib/sheetSchema';
 
 export async function GET() {
   try {
     const systemHealth = apiMonitor.getSystemHealth();
     const metrics = apiMonitor.getMetrics();
+    const schemaReport = getLastSheetSchemaReport();
     
     return NextResponse.json({ 
       status: systemHealth.status,
@@ -28,7 +34,14 @@ export async function GET() {
         percentage: Math.round(systemHealth.quotaPercentage),
         status: systemHealth.quotaPercentage > 90 ? 'critical' : 
                 systemHealth.quotaPercentage > 70 ? 'warning' : 'healthy'
-      }
+      },
+      sheetSchema: schemaReport ? {
+        valid: schemaReport.valid,
+        checkedAt: schemaReport.checkedAt,
+        tabsNeedingAttention: schemaReport.tabs
+          .filter(check => check.status !== 'ok')
+          .map(check => ({ tab: check.tab, layout: check.layout, status: check.status }))
+      } : null
     });
   } catch (error) {
     return NextResponse.json({
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getMenuFromSheet, saveMenuToSheet } from '../../../../lib/sheets';
+import { getRepositories } from '../../../../lib/repositories';
+import { verifyUserToken, extractTokenFromHeader } from '../../../../lib/auth/jwt';
+import { authorizeButcherAction } from '../../../../lib/auth/staff';
 import type { MenuCategory } from '../../../../lib/types';
 
 // GET /api/menu/[butcherId] - Get menu for a butcher
@@ -14,7 +16,7 @@ export async function GET(
       return NextResponse.json({ error: 'Butcher ID is required' }, { status: 400 });
     }
 
-    const menu = await getMenuFromSheet(butcherId);
+    const menu = await getRepositories().menus.getMenu(butcherId);
     return NextResponse.json({ menu });
     
   } catch (error: any) {
@@ -25,20 +27,38 @@ export async function GET(
   }
 }
 
-// POST /api/menu/[butcherId] - Save menu for a butcher
+// POST /api/menu/[butcherId] - Save menu for a butcher (admin, or the butcher's staff with the menu:edit permission)
 export async function POST(
   request: NextRequest,
   { params }: { params: { butcherId: string } }
 ) {
   try {
     const { butcherId } = params;
+
+    const token = extractTokenFromHeader(request.headers.get('Authorization'));
+    const user = token ? verifyUserToken(token) : null;
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const access = await authorizeButcherAction(user, butcherId, 'menu:edit');
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.status === 401 ? 'Unauthorized' : 'Forbidden', message: access.message },
+        { status: access.status }
+      );
+    }
+
     const { menu }: { menu: MenuCategory[] } = await request.json();
     
     if (!butcherId || !menu) {
       return NextResponse.json({ error: 'Missing required data' }, { status: 400 });
     }
 
-    await saveMenuToSheet(butcherId, menu);
+    await getRepositories().menus.saveMenu(butcherId, menu);
     return NextResponse.json({ success: true, message: 'Menu saved successfully' });
     
   } catch (error: any) {
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-// In a real application, you would store this in a database
-// For now, we'll use a simple in-memory store
-let notifications: any[] = [];
+import {
+  createNotification,
+  getNotifications,
+  getUnreadNotificationCount,
+  updateNotification
+} from '@/lib/notifications';
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    
+
     const {
       type,
       butcherId,
@@ -28,29 +30,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Create notification
-    const notification = {
-      id: `notif-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    const notification = createNotification({
       type,
       butcherId,
       butcherName,
-      orderId: orderId || null,
-      orderNumber: orderNumber || null,
-      reason: reason || null,
+      orderId,
+      orderNumber,
+      reason,
       timestamp,
-      data: data || null,
-      read: false,
-      createdAt: new Date().toISOString()
-    };
-
-    // Add to notifications
-    notifications.push(notification);
-
-    // In a real application, you would:
-    // 1. Save to database
-    // 2. Send email notification to admin
-    // 3. Send push notification
-    // 4. Send real-time notification via WebSocket
-
+      data
+    });
 
     return NextResponse.json({
       success: true,
@@ -74,36 +63,17 @@ export async function GET(request: NextRequest) {
     const read = searchParams.get('read');
     const limit = parseInt(searchParams.get('limit') || '50');
 
-    // Ensure notifications array is initialized
-    if (!notifications) {
-      notifications = [];
-    }
-
-    let filteredNotifications = notifications;
-
-    // Filter by type if provided
-    if (type) {
-      filteredNotifications = filteredNotifications.filter(notif => notif.type === type);
-    }
-
-    // Filter by read status if provided
-    if (read !== null) {
-      const isRead = read === 'true';
-      filteredNotifications = filteredNotifications.filter(notif => notif.read === isRead);
-    }
-
-    // Sort by creation date (newest first)
-    filteredNotifications.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
-
-    // Limit results
-    filteredNotifications = filteredNotifications.slice(0, limit);
-
+    const filteredNotifications = getNotifications({
+      type,
+      read: read !== null ? read === 'true' : undefined,
+      limit
+    });
 
     return NextResponse.json({
       success: true,
       notifications: filteredNotifications,
       total: filteredNotifications.length,
-      unreadCount: notifications.filter(n => !n.read).length
+      unreadCount: getUnreadNotificationCount()
     });
 
   } catch (error) {
@@ -128,23 +98,13 @@ export async function PUT(request: NextRequest) {
     }
 
     // Find and update the notification
-    const notificationIndex = notifications.findIndex(notif => notif.id === notificationId);
-    
-    if (notificationIndex === -1) {
+    if (!updateNotification(notificationId, read)) {
       return NextResponse.json(
         { error: 'Notification not found' },
         { status: 404 }
       );
     }
 
-    // Update the notification
-    notifications[notificationIndex] = {
-      ...notifications[notificationIndex],
-      read: read !== undefined ? read : notifications[notificationIndex].read,
-      updatedAt: new Date().toISOString()
-    };
-
-
     return NextResponse.json({
       success: true,
       message: 'Notification updated successfully'
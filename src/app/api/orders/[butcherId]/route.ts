@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAllOrdersFromCache } from '../../../../lib/orderCache';
-import { saveOrderToSheet, updateOrderInSheet } from '../../../../lib/sheets';
+import { getRepositories } from '../../../../lib/repositories';
 import type { Order } from '../../../../lib/types';
 
 export async function GET(
@@ -56,7 +56,7 @@ export async function POST(
       return NextResponse.json({ error: 'Missing required data' }, { status: 400 });
     }
 
-    await saveOrderToSheet(orderData, butcherId);
+    await getRepositories().orders.saveOrder(orderData, butcherId);
     
     return NextResponse.json({ success: true, message: 'Order created successfully' });
     
@@ -82,7 +82,7 @@ export async function PUT(
       return NextResponse.json({ error: 'Missing required data' }, { status: 400 });
     }
 
-    await updateOrderInSheet(orderData, butcherId);
+    await getRepositories().orders.updateOrder(orderData, butcherId);
     
     return NextResponse.json({ success: true, message: 'Order updated successfully' });
     
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { getOrderActor } from '@/lib/auth/staff';
+import { getButcherNameFromId } from '@/lib/butcherMapping';
+import { getOrderFromCache } from '@/lib/orderCache';
+import { recordOrderAck, forwardOrderAck, isOrderAckEvent, ORDER_ACK_EVENTS } from '@/lib/orderAcknowledgement';
+
+/**
+ * POST /api/orders/ack
+ * Dashboard device acknowledges an order event, stored on the order and forwarded to the Central API
+ *
+ * Headers: Authorization: Bearer <user-jwt-token>
+ * Body: {
+ *   orderNo: number,
+ *   event: 'delivered' | 'seen' | 'alarm-silenced',
+ *   at?: string // ISO timestamp on the device, defaults to now
+ * }
+ *
+ * Only the first ack of each kind counts; repeats answer with recorded: false.
+ * The ack is kept even when the Central API is unreachable (202) - the next ack for the order carries it along.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = extractTokenFromHeader(request.headers.get('Authorization'));
+    const user = token ? verifyUserToken(token) : null;
+    if (!user || !user.butcherId) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json();
+    const { orderNo, event, at }: { orderNo: number; event: unknown; at?: string } = body;
+
+    if (!orderNo || !isOrderAckEvent(event)) {
+      return NextResponse.json(
+        { error: 'Invalid request', message: `orderNo and event (${ORDER_ACK_EVENTS.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+
+    const order = getOrderFromCache(user.butcherId, orderNo);
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found', message: `Order ${orderNo} not found in cache` },
+        { status: 404 }
+      );
+    }
+
+    const updatedOrder = recordOrderAck(user.butcherId, orderNo, order, event, {
+      ...getOrderActor(user, user.butcherId),
+      sessionId: user.sid
+    }, at);
+
+    if (!updatedOrder) {
+      return NextResponse.json({
+        success: true,
+        recorded: false,
+        message: `Order ${orderNo} was already acknowledged as ${event}`
+      });
+    }
+
+    const butcherName = getButcherNameFromId(user.butcherId);
+    const forwarded = butcherName ? await forwardOrderAck(butcherName, orderNo, updatedOrder, event) : false;
+
+    if (!forwarded) {
+      return NextResponse.json(
+        {
+          success: true,
+          recorded: true,
+          message: `Order ${orderNo} acknowledged as ${event}`,
+          warning: 'Central API unavailable - the ack is sent with the next one for this order'
+        },
+        { status: 202 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      recorded: true,
+      message: `Order ${orderNo} acknowledged as ${event}`
+    });
+  } catch (error) {
+    console.error('[Order Ack] Error:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to acknowledge order'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { reassignOrder, OrderReassignmentError } from '@/lib/orderReassignment';
+
+/**
+ * POST /api/orders/reassign
+ * Hand a new order to another butcher (admin only)
+ * Used to act on 'order-sla-breach' notifications when ORDER_AUTO_REASSIGN=false
+ *
+ * Headers: Authorization: Bearer <admin-jwt-token>
+ * Body: {
+ *   butcherId: string, // Current butcher
+ *   orderNo: number,
+ *   toButcherId?: string, // Defaults to the next candidate from order routing
+ *   reason?: string
+ * }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = extractTokenFromHeader(request.headers.get('Authorization'));
+    const user = token ? verifyUserToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    if (user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { butcherId, orderNo, toButcherId, reason } = await request.json();
+
+    if (!butcherId || typeof orderNo !== 'number') {
+      return NextResponse.json(
+        { error: 'Invalid request', message: 'butcherId and orderNo are required' },
+        { status: 400 }
+      );
+    }
+
+    const order = await reassignOrder(butcherId, orderNo, {
+      reason: reason || 'Reassigned by admin',
+      toButcherId
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: `Order ${orderNo} reassigned to ${order.butcherName}`,
+      butcherId: order.butcherId
+    });
+  } catch (error) {
+    if (error instanceof OrderReassignmentError) {
+      return NextResponse.json(
+        { error: 'Cannot reassign order', message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('[Reassignment] Error reassigning order:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to reassign order'
+      },
+      { status: 500 }
+    );
+  }
+}
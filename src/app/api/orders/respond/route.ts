@@ -1,25 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
 import { getButcherNameFromId } from '@/lib/butcherMapping';
-import { getOrderFromCache, updateOrderInCache, removeOrderFromCache } from '@/lib/orderCache';
+import { getOrderFromCache, updateOrderInCache } from '@/lib/orderCache';
 import { centralAPIClient } from '@/lib/centralAPIClient';
-import { queueResponse, removeQueuedResponse } from '@/lib/orderQueue';
-import { saveOrderToSheetAfterAccept } from '@/lib/sheets';
+import { getRepositories } from '@/lib/repositories';
+import { sendOrderStatusUpdate } from '@/lib/sseConnectionManager';
+import { deliverOrderResponse, withPreparingWeights } from '@/lib/orderResponse';
+import { transitionOrder, InvalidOrderTransitionError } from '@/lib/orderStateMachine';
+import { getAcceptedItemStatus, isItemRejected } from '@/lib/orderItemStatus';
+import { authorizeButcherAction, getOrderActor } from '@/lib/auth/staff';
+// Import response worker so queued responses get retried
+import '@/lib/responseWorker';
 import type { Order, OrderItem } from '@/lib/types';
 
+interface OrderResponseItem {
+  itemId: string;
+  preparingWeight?: string;
+  rejected?: string;
+  substitute?: { name: string; size?: string; preparingWeight: string };
+}
+
 /**
  * POST /api/orders/respond
  * Submit order response (accept/reject items) to Central API
  * 
- * Headers: Authorization: Bearer <user-jwt-token>
+ * Headers: Authorization: Bearer <user-jwt-token> (needs the orders:respond permission)
  * Body: {
  *   orderNo: number,
  *   items: Array<{
  *     itemId: string,
  *     preparingWeight?: string, // "1.5kg" or "500g"
- *     rejected?: string // Rejection reason
+ *     rejected?: string, // Rejection reason
+ *     substitute?: { name: string, size?: string, preparingWeight: string } // Replacement from the butcher's menu
  *   }>
  * }
+ *
+ * Each item is recorded as accepted, short-weight (preparing weight under the ordered
+ * quantity) or rejected, so partially accepted orders stay distinguishable.
+ * If any item has a substitute the order moves to 'awaiting customer' and the proposal
+ * goes to the Central API; the customer's answer arrives on POST /vcs/orders/{orderNo}/substitution
  */
 export async function POST(request: NextRequest) {
   try {
@@ -42,9 +61,17 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const access = await authorizeButcherAction(user, user.butcherId, 'orders:respond');
+    if (!access.allowed) {
+      return NextResponse.json(
+        { error: access.status === 401 ? 'Unauthorized' : 'Forbidden', message: access.message },
+        { status: access.status }
+      );
+    }
+
     // Parse request body
     const body = await request.json();
-    const { orderNo, items } = body;
+    const { orderNo, items }: { orderNo: number; items: OrderResponseItem[] } = body;
 
     if (!orderNo || !items || !Array.isArray(items) || items.length === 0) {
       return NextResponse.json(
@@ -71,9 +98,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Update order items with preparing weights and rejection reasons
+    // Substitutes must come from the butcher's own menu
+    const substituteError = await validateSubstitutes(user.butcherId, items);
+    if (substituteError) {
+      return NextResponse.json(
+        { error: 'Invalid substitute', message: substituteError },
+        { status: 400 }
+      );
+    }
+
+    // Update order items with preparing weights, rejection reasons or proposed substitutes
     const updatedItems: OrderItem[] = order.items.map(orderItem => {
-      const responseItem = items.find((r: any) => r.itemId === orderItem.id);
+      const responseItem = items.find(r => r.itemId === orderItem.id);
       if (!responseItem) {
         return orderItem; // Item not processed, keep original
       }
@@ -81,141 +117,117 @@ export async function POST(request: NextRequest) {
       // Create updated item with preparing weight or rejection
       const updatedItem: OrderItem = { ...orderItem };
       
-      if (responseItem.preparingWeight) {
-        // Item accepted - store preparing weight
-        (updatedItem as any).preparingWeight = responseItem.preparingWeight;
-        (updatedItem as any).rejected = undefined;
+      if (responseItem.substitute) {
+        // Item out of stock - offer a replacement, the customer decides
+        updatedItem.proposedSubstitute = {
+          name: responseItem.substitute.name,
+          size: responseItem.substitute.size,
+          preparingWeight: responseItem.substitute.preparingWeight,
+          proposedAt: new Date()
+        };
+        updatedItem.preparingWeight = undefined;
+        updatedItem.rejected = undefined;
+        updatedItem.status = undefined;
+      } else if (responseItem.preparingWeight) {
+        // Item accepted - store preparing weight (short-weight if under the ordered quantity)
+        updatedItem.preparingWeight = responseItem.preparingWeight;
+        updatedItem.rejected = undefined;
+        updatedItem.status = getAcceptedItemStatus(orderItem, responseItem.preparingWeight);
       } else if (responseItem.rejected) {
         // Item rejected - store rejection reason
-        (updatedItem as any).rejected = responseItem.rejected;
-        (updatedItem as any).preparingWeight = undefined;
+        updatedItem.rejected = responseItem.rejected;
+        updatedItem.preparingWeight = undefined;
+        updatedItem.status = 'rejected';
       }
 
       return updatedItem;
     });
 
+    const proposals = updatedItems.filter(item => item.proposedSubstitute);
+
     // Check if all items are rejected
-    const allItemsRejected = updatedItems.every(item => (item as any).rejected);
+    const allItemsRejected = updatedItems.every(isItemRejected);
     const rejectionReason = allItemsRejected && updatedItems.length > 0 
-      ? (updatedItems[0] as any).rejected 
+      ? updatedItems[0].rejected 
       : undefined;
 
-    // Determine order status
-    let orderStatus: 'preparing' | 'rejected' = 'preparing';
-    if (allItemsRejected) {
+    // Determine order status (substitutions wait for the customer before preparing starts)
+    let orderStatus: 'preparing' | 'rejected' | 'awaiting customer' = 'preparing';
+    if (proposals.length > 0) {
+      orderStatus = 'awaiting customer';
+    } else if (allItemsRejected) {
       orderStatus = 'rejected';
     }
 
-    // Build itemWeights/itemQuantities from item.preparingWeight for cache storage
-    // This ensures preparing weights are available when marking as prepared
-    const itemWeights: {[itemName: string]: string} = {};
-    const itemQuantities: {[itemName: string]: string} = {};
-    const isMeat = ['usaj', 'usaj_mutton', 'pkd', 'test_meat'].includes(user.butcherId);
-    
-    updatedItems.forEach(item => {
-      const preparingWeight = (item as any).preparingWeight;
-      if (preparingWeight && !(item as any).rejected) {
-        if (isMeat) {
-          itemQuantities[item.name] = preparingWeight;
-        } else {
-          itemWeights[item.name] = preparingWeight;
-        }
+    // Validate and record the status change (only 'new' orders can be responded to)
+    let transitionedOrder: Order;
+    try {
+      transitionedOrder = transitionOrder(order, orderStatus, {
+        ...getOrderActor(user, user.butcherId),
+        reason: rejectionReason
+      });
+    } catch (error) {
+      if (error instanceof InvalidOrderTransitionError) {
+        return NextResponse.json(
+          { error: 'Invalid transition', message: error.message, currentStatus: error.from },
+          { status: 409 }
+        );
       }
-    });
+      throw error;
+    }
+
+    if (orderStatus === 'awaiting customer') {
+      // Ask the Central API to check with the customer; nothing is saved to the sheet yet
+      try {
+        await centralAPIClient.sendSubstitutionProposal(orderNo, butcherName, proposals.map(item => ({
+          itemId: item.id,
+          substitute: {
+            name: item.proposedSubstitute!.name,
+            size: item.proposedSubstitute!.size,
+            preparingWeight: item.proposedSubstitute!.preparingWeight
+          }
+        })));
+      } catch (error) {
+        return NextResponse.json(
+          {
+            error: 'Central API unavailable',
+            message: error instanceof Error ? error.message : 'Failed to send substitution proposal'
+          },
+          { status: 502 }
+        );
+      }
+
+      const awaitingOrder: Order = { ...transitionedOrder, items: updatedItems };
+      updateOrderInCache(user.butcherId, orderNo, awaitingOrder);
+      sendOrderStatusUpdate(user.butcherId, awaitingOrder);
+
+      return NextResponse.json({
+        success: true,
+        message: 'Substitution proposed - waiting for the customer',
+        order: awaitingOrder
+      });
+    }
 
     // Update order in cache
-    const updatedOrder: Order = {
-      ...order,
+    // Preparing weights go in itemWeights/itemQuantities for easy access when marking as prepared
+    const updatedOrder: Order = withPreparingWeights({
+      ...transitionedOrder,
       items: updatedItems,
-      status: orderStatus,
       ...(allItemsRejected && rejectionReason ? { rejectionReason } : {}),
-      ...(orderStatus === 'preparing' ? { preparationStartTime: new Date() } : {}),
-      // Store preparing weights in itemWeights/itemQuantities for easy access when marking as prepared
-      ...(isMeat ? { itemQuantities } : { itemWeights })
-    };
+      ...(orderStatus === 'preparing' ? { preparationStartTime: new Date() } : {})
+    }, user.butcherId);
 
     updateOrderInCache(user.butcherId, orderNo, updatedOrder);
 
-    // Helper function to parse weight string (e.g., "1.5kg" -> 1.5, "500g" -> 0.5)
-    const parseWeightString = (weightStr: string, unit: string): number => {
-      if (!weightStr) return 0;
-      
-      // Remove unit if present and extract numeric part
-      const numericPart = weightStr.replace(/[^0-9.]/g, '');
-      const weight = parseFloat(numericPart) || 0;
-      
-      // Convert grams to kg if needed
-      if (weightStr.toLowerCase().includes('g') && !weightStr.toLowerCase().includes('kg')) {
-        return weight / 1000; // Convert grams to kg
-      }
-      
-      return weight;
-    };
-
-    // Prepare response items for Central API (revenue will be added after sheet save)
-    const centralAPIItems = items.map((item: any) => {
-      return {
-      itemId: item.itemId,
-      ...(item.preparingWeight && { preparingWeight: item.preparingWeight }),
-      ...(item.rejected && { rejected: item.rejected })
-      };
-    });
-      
-    // Step 1: Calculate revenue and save to sheet immediately (before Central API call)
-      // For completely rejected orders, revenue will be 0
-      const { totalRevenue, itemRevenues } = await saveOrderToSheetAfterAccept(updatedOrder, user.butcherId);
-      
-      // Update order in cache with calculated revenue (preserve itemWeights/itemQuantities)
-      const orderWithRevenue: Order = {
-        ...updatedOrder,
-        revenue: totalRevenue,
-        itemRevenues: itemRevenues,
-        // Preserve itemWeights/itemQuantities that were set above
-        ...(isMeat ? { itemQuantities } : { itemWeights })
-      };
-      updateOrderInCache(user.butcherId, orderNo, orderWithRevenue);
-      
-    // Step 2: Add item revenue to Central API response items
-    const centralAPIItemsWithRevenue = centralAPIItems.map((item: any) => {
-      // Find corresponding order item to get name
-      const orderItem = updatedItems.find(oi => oi.id === item.itemId);
-      if (orderItem && itemRevenues) {
-        // Find revenue for this item (itemKey format: itemName_size)
-        const itemSize = orderItem.size || 'default';
-        const itemKey = `${orderItem.name}_${itemSize}`;
-        const itemRevenue = itemRevenues[itemKey];
-        if (itemRevenue !== undefined && itemRevenue > 0) {
-          item.revenue = parseFloat(itemRevenue.toFixed(2));
-        }
-      }
-      return item;
-    });
-    
-    // Step 3: Send response to Central API (after saving to sheet)
-    try {
-      await centralAPIClient.sendOrderResponse(orderNo, butcherName, centralAPIItemsWithRevenue);
-      console.log(`[Order] Status updated: ${orderStatus} - Order ${orderNo}`);
-      
-      // Remove from queue if it was queued
-      removeQueuedResponse(orderNo);
-      
-      // Send SSE update with full order data (includes preparing weights, revenue, etc.)
-      const { sendOrderStatusUpdate } = await import('@/lib/sseConnectionManager');
-      sendOrderStatusUpdate(user.butcherId, orderWithRevenue);
-      
-      return NextResponse.json({
-        success: true,
-        message: 'Order response submitted successfully',
-        order: orderWithRevenue
-      });
-    } catch (error: any) {
-      // Queue the response for retry (sheet already saved)
-      queueResponse(orderNo, butcherName, centralAPIItemsWithRevenue);
-      
-      // Send SSE update with full order data even if queued
-      const { sendOrderStatusUpdate } = await import('@/lib/sseConnectionManager');
-      sendOrderStatusUpdate(user.butcherId, orderWithRevenue);
-      
+    // Save to sheet, then send to Central API (queued for retry when unavailable)
+    const { order: orderWithRevenue, queued } = await deliverOrderResponse(
+      user.butcherId,
+      butcherName,
+      orderNo,
+      updatedOrder
+    );
+
+    if (queued) {
       return NextResponse.json(
         {
           success: true,
@@ -226,6 +238,12 @@ export async function POST(request: NextRequest) {
         { status: 202 } // Accepted but queued
       );
     }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Order response submitted successfully',
+      order: orderWithRevenue
+    });
   } catch (error: any) {
     console.error('[Order Response] Error:', error);
     return NextResponse.json(
@@ -238,3 +256,34 @@ export async function POST(request: NextRequest) {
   }
 }
 
+
+/**
+ * Check every proposed substitute is an available item (and size) on the butcher's menu
+ * Returns an error message, or null when all substitutes are valid
+ */
+async function validateSubstitutes(butcherId: string, items: OrderResponseItem[]): Promise<string | null> {
+  const substitutes = items.filter(item => item.substitute);
+  if (substitutes.length === 0) {
+    return null;
+  }
+
+  const menu = await getRepositories().menus.getMenu(butcherId);
+  const menuItems = menu.flatMap(category => category.items);
+
+  for (const { substitute } of substitutes) {
+    if (!substitute || !substitute.name || !substitute.preparingWeight) {
+      return 'Substitutes need a name and preparingWeight';
+    }
+
+    const menuItem = menuItems.find(item => item.name.toLowerCase() === String(substitute.name).toLowerCase());
+    if (!menuItem || !menuItem.available) {
+      return `${substitute.name} is not available on your menu`;
+    }
+
+    if (substitute.size && substitute.size !== 'default' && !menuItem.sizes.some(size => size.size === substitute.size)) {
+      return `${substitute.name} is not available in size ${substitute.size}`;
+    }
+  }
+
+  return null;
+}
@@ -1,7 +1,11 @@
 import { NextRequest } from 'next/server';
 import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
-import { addConnection, removeConnection } from '@/lib/sseConnectionManager';
+import { addConnection, removeConnection, closeSessionConnections, getReplayEvents, getLastEventId } from '@/lib/sseConnectionManager';
+import { recordStreamHeartbeat } from '@/lib/butcherPresence';
+import { isSessionActive } from '@/lib/auth/sessions';
 import { getAllOrdersFromCache } from '@/lib/orderCache';
+// Import reconciliation so open orders are restored after a restart
+import '@/lib/orderReconciliation';
 
 /**
  * GET /api/orders/stream
@@ -11,6 +15,13 @@ import { getAllOrdersFromCache } from '@/lib/orderCache';
  * - Requires JWT authentication
  * - Validates user has access to requested butcher
  * - Connection limits per user/butcher
+ * - Closed with a 'session-revoked' event when the login session is revoked (checked on every keep-alive)
+ *
+ * Resume:
+ * - Order events carry IDs; a reconnect with Last-Event-ID (header, or lastEventId query for a new EventSource)
+ *   replays the events missed since then instead of the full order snapshot
+ * - When they are no longer buffered (gap too large, server restarted) a 'resync-required' event is sent,
+ *   followed by the full snapshot
  */
 export async function GET(request: NextRequest) {
   try {
@@ -25,7 +36,7 @@ export async function GET(request: NextRequest) {
     }
 
     const user = verifyUserToken(token);
-    if (!user) {
+    if (!user || (user.sid && !(await isSessionActive(user.sid)))) {
       return new Response('Invalid token', { status: 401 });
     }
 
@@ -42,6 +53,8 @@ export async function GET(request: NextRequest) {
       return new Response('Forbidden', { status: 403 });
     }
 
+    const lastEventId = request.headers.get('Last-Event-ID') || searchParams.get('lastEventId');
+
     // 3. Create SSE stream
     const stream = new ReadableStream({
       start(controller) {
@@ -49,32 +62,60 @@ export async function GET(request: NextRequest) {
         const connectionAdded = addConnection(
           requestedButcherId,
           user.id || user.butcherId,
-          controller
+          controller,
+          user.sid,
+          user.role === 'admin'
         );
 
         if (!connectionAdded) {
           controller.close();
           return;
         }
+        recordStreamHeartbeat(requestedButcherId);
+
+        const encoder = new TextEncoder();
+        const connectedData = JSON.stringify({ type: 'connected', butcherId: requestedButcherId });
+        const replay = lastEventId ? getReplayEvents(requestedButcherId, lastEventId) : null;
+
+        if (replay && !replay.resync) {
+          // Resume: only the events missed since Last-Event-ID
+          controller.enqueue(encoder.encode(`data: ${connectedData}\n\n`));
+          replay.messages.forEach(message => controller.enqueue(encoder.encode(message)));
+          if (replay.messages.length > 0) {
+            console.log(`[SSE] Replayed ${replay.messages.length} event(s) for butcher ${requestedButcherId}`);
+          }
+        } else {
+          if (replay?.resync) {
+            console.log(`[SSE] Full resync for butcher ${requestedButcherId}: ${replay.reason}`);
+            const resyncMessage = `data: ${JSON.stringify({ type: 'resync-required', reason: replay.reason })}\n\n`;
+            controller.enqueue(encoder.encode(resyncMessage));
+          }
 
-        // Send initial connection message
-        const initialMessage = `data: ${JSON.stringify({ type: 'connected', butcherId: requestedButcherId })}\n\n`;
-        controller.enqueue(new TextEncoder().encode(initialMessage));
-
-        // Send existing cached orders immediately
-        const cachedOrders = getAllOrdersFromCache(requestedButcherId);
-        if (cachedOrders.length > 0) {
-          const ordersMessage = `data: ${JSON.stringify({ 
-            type: 'initial-orders', 
-            orders: cachedOrders 
-          })}\n\n`;
-          controller.enqueue(new TextEncoder().encode(ordersMessage));
+          // Send initial connection message (its ID is where a later reconnect resumes from)
+          const initialMessage = `id: ${getLastEventId(requestedButcherId)}\ndata: ${connectedData}\n\n`;
+          controller.enqueue(encoder.encode(initialMessage));
+
+          // Send existing cached orders immediately (always after a resync, so the client replaces its list)
+          const cachedOrders = getAllOrdersFromCache(requestedButcherId);
+          if (cachedOrders.length > 0 || replay?.resync) {
+            const ordersMessage = `data: ${JSON.stringify({ 
+              type: 'initial-orders', 
+              orders: cachedOrders 
+            })}\n\n`;
+            controller.enqueue(encoder.encode(ordersMessage));
+          }
         }
 
-        // Keep-alive ping every 30 seconds
-        const keepAliveInterval = setInterval(() => {
+        // Keep-alive ping every 30 seconds, closing the stream if its session was revoked on any instance
+        const keepAliveInterval = setInterval(async () => {
+          if (user.sid && !(await isSessionActive(user.sid).catch(() => true))) {
+            clearInterval(keepAliveInterval);
+            closeSessionConnections([user.sid]);
+            return;
+          }
           try {
             controller.enqueue(new TextEncoder().encode(': keep-alive\n\n'));
+            recordStreamHeartbeat(requestedButcherId);
           } catch (error) {
             // Connection closed
             clearInterval(keepAliveInterval);
@@ -89,6 +130,7 @@ export async function GET(request: NextRequest) {
             user.id || user.butcherId,
             controller
           );
+          recordStreamHeartbeat(requestedButcherId);
           try {
             controller.close();
           } catch (error) {
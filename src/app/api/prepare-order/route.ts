@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { prepareOrder } from '@/lib/sheets';
+import { getRepositories } from '@/lib/repositories';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { transitionOrder, findServerOrder, InvalidOrderTransitionError } from '@/lib/orderStateMachine';
+import { authorizeButcherAction, getOrderActor } from '@/lib/auth/staff';
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,9 +16,50 @@ export async function POST(request: NextRequest) {
       );
     }
 
+
+    const token = extractTokenFromHeader(request.headers.get('Authorization'));
+    const user = token ? verifyUserToken(token) : null;
+
+    // Token is optional for backward compatibility, but a staff token must allow preparing orders
+    if (user) {
+      const access = await authorizeButcherAction(user, butcherId, 'orders:prepare');
+      if (!access.allowed) {
+        return NextResponse.json(
+          { error: access.status === 401 ? 'Unauthorized' : 'Forbidden', message: access.message },
+          { status: access.status }
+        );
+      }
+    }
+
+    // The server's status (cache, else the order store) is authoritative, never the submitted one
+    const serverOrder = await findServerOrder(butcherId, order.id);
+    if (!serverOrder) {
+      return NextResponse.json(
+        { error: 'Unknown order', message: `Order ${order.id} is not known to the server - its status can't be checked` },
+        { status: 409 }
+      );
+    }
+
+    let transitionedOrder;
+    try {
+      transitionedOrder = transitionOrder(
+        { ...order, status: serverOrder.status, statusHistory: serverOrder.statusHistory },
+        'preparing',
+        getOrderActor(user, butcherId)
+      );
+    } catch (transitionError) {
+      if (transitionError instanceof InvalidOrderTransitionError) {
+        return NextResponse.json(
+          { error: 'Invalid transition', message: transitionError.message, currentStatus: transitionError.from },
+          { status: 409 }
+        );
+      }
+      throw transitionError;
+    }
+
     console.log('Preparing order:', order.id, 'for butcher:', butcherId);
     
-    const updatedOrder = await prepareOrder(order, butcherId);
+    const updatedOrder = await getRepositories().orders.prepareOrder(transitionedOrder, butcherId);
     
     return NextResponse.json({ 
       success: true, 
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { getAllButcherPresence, recordDashboardActivity } from '@/lib/butcherPresence';
+import type { DashboardActivity, PresenceStatus } from '@/lib/types';
+
+const STATUS_ORDER: PresenceStatus[] = ['online', 'idle', 'offline'];
+
+/**
+ * GET /api/presence
+ * Live board: online / idle / offline with last-seen for every butcher (admin only)
+ *
+ * Headers: Authorization: Bearer <admin-jwt-token>
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const token = extractTokenFromHeader(request.headers.get('Authorization'));
+    const user = token ? verifyUserToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    if (user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const butchers = getAllButcherPresence().sort((a, b) =>
+      STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) || a.butcherName.localeCompare(b.butcherName)
+    );
+
+    return NextResponse.json({
+      butchers,
+      counts: Object.fromEntries(STATUS_ORDER.map(status => [status, butchers.filter(b => b.status === status).length])),
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('[Presence] Error listing presence:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch presence',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/presence
+ * Dashboard activity: sent while the butcher uses a visible dashboard, and when it is hidden
+ *
+ * Headers: Authorization: Bearer <user-jwt-token>
+ * Body: { activity: 'active' | 'hidden' }
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = extractTokenFromHeader(request.headers.get('Authorization'));
+    const user = token ? verifyUserToken(token) : null;
+
+    if (!user || !user.butcherId) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    const { activity }: { activity: DashboardActivity } = await request.json();
+    if (activity !== 'active' && activity !== 'hidden') {
+      return NextResponse.json(
+        { error: 'Invalid request', message: "activity must be 'active' or 'hidden'" },
+        { status: 400 }
+      );
+    }
+
+    // Admins looking at a butcher's screens don't make the shop present
+    if (user.role !== 'admin') {
+      recordDashboardActivity(user.butcherId, activity);
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[Presence] Error recording activity:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to record activity'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getItemPurchasePricesFromSheet } from '../../../../lib/sheets';
+import { getRepositories } from '../../../../lib/repositories';
 
 // Simple in-memory cache with TTL
 const cache = new Map<string, { data: any; timestamp: number; ttl: number }>();
@@ -53,7 +53,7 @@ export async function GET(
       }
     }
 
-    const prices = await getItemPurchasePricesFromSheet(butcherId, itemNames, orderItems);
+    const prices = await getRepositories().menus.getPurchasePrices(butcherId, itemNames, orderItems);
     
     // Cache for 30 seconds to reduce API calls
     setCached(cacheKey, prices, 30000);
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { apiMonitor } from '@/lib/apiMonitor';
+import { getSheetWriteBufferStats } from '@/lib/sheetWriteBuffer';
+import { getRowIndexStats } from '@/lib/sheetRowIndex';
 
 export async function GET() {
   try {
@@ -64,7 +66,9 @@ export async function GET() {
           perHour: metrics.callsPerHour,
           percentage: systemHealth.quotaPercentage
         },
-        recommendations: getQuotaRecommendations(systemHealth, metrics)
+        recommendations: getQuotaRecommendations(systemHealth, metrics),
+        writeBuffer: getSheetWriteBufferStats(),
+        rowIndex: getRowIndexStats()
       },
       sheetsInfo: {
         butcherPosSheet: {
@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { saveRatesToSheet, getRatesFromSheet } from '../../../lib/sheets';
+import { getRepositories } from '../../../lib/repositories';
 import type { ButcherRates } from '../../../lib/types';
 
 export async function GET() {
   try {
-    const rates = await getRatesFromSheet();
+    const rates = await getRepositories().rates.getRates();
     return NextResponse.json({ rates });
   } catch (error) {
     return NextResponse.json(
@@ -26,7 +26,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    await saveRatesToSheet(rates);
+    await getRepositories().rates.saveRates(rates);
     
     return NextResponse.json({ 
       success: true, 
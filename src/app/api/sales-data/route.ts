@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { saveSalesDataToSheet } from '@/lib/salesSheets';
+import { getRepositories } from '@/lib/repositories';
 
 export async function POST(request: NextRequest) {
   
@@ -17,7 +17,7 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    await saveSalesDataToSheet(orderId, butcherId, orderData);
+    await getRepositories().sales.saveSale(orderId, butcherId, orderData);
     
     return NextResponse.json({ success: true, message: 'Sales data saved successfully' });
   } catch (error) {
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { migrateSheetSchemas, validateSheetSchemas, SheetSchemaError } from '@/lib/sheetSchema';
+
+/**
+ * Verify the request carries an admin token, returns an error response otherwise
+ */
+function authorizeAdmin(request: NextRequest): NextResponse | null {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or expired token' },
+      { status: 401 }
+    );
+  }
+
+  if (user.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Forbidden', message: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/sheet-schema
+ * Check every butcher tab's header row and schema version against the declared layouts (admin only)
+ *
+ * Headers: Authorization: Bearer <admin-jwt-token>
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    return NextResponse.json(await validateSheetSchemas());
+  } catch (error) {
+    console.error('[SheetSchema] Error checking sheet schemas:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to check sheet schemas',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/sheet-schema
+ * Migrate outdated tabs to their declared layout (admin only)
+ *
+ * Body: { dryRun?: boolean } - with dryRun the planned column changes are returned without touching the sheets
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const result = await migrateSheetSchemas({ dryRun: body?.dryRun === true });
+
+    return NextResponse.json({
+      success: result.report.valid,
+      message: result.dryRun
+        ? `${result.migrated.length} tab(s) would be migrated, ${result.skipped.length} need manual attention`
+        : `Migrated ${result.migrated.length} tab(s), ${result.skipped.length} need manual attention`,
+      ...result
+    });
+  } catch (error) {
+    if (error instanceof SheetSchemaError) {
+      return NextResponse.json(
+        { error: 'Cannot migrate sheets', message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('[SheetSchema] Error migrating sheet schemas:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to migrate sheet schemas'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { resolveSyncConflict, SheetSyncError, type SyncResolution } from '@/lib/sheetSync';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+const RESOLUTIONS: SyncResolution[] = ['local', 'sheet'];
+
+/**
+ * POST /api/sheet-sync/conflicts/[id]
+ * Resolve a sync conflict (admin only)
+ *
+ * Headers: Authorization: Bearer <admin-jwt-token>
+ * Body: {
+ *   resolution: 'local' | 'sheet' // Which side wins
+ * }
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const token = extractTokenFromHeader(request.headers.get('Authorization'));
+    const user = token ? verifyUserToken(token) : null;
+
+    if (!user) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: 'Invalid or expired token' },
+        { status: 401 }
+      );
+    }
+
+    if (user.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const conflictId = parseInt((await params).id, 10);
+    const { resolution } = await request.json();
+
+    if (isNaN(conflictId) || !RESOLUTIONS.includes(resolution)) {
+      return NextResponse.json(
+        { error: 'Invalid request', message: "resolution must be 'local' or 'sheet'" },
+        { status: 400 }
+      );
+    }
+
+    await resolveSyncConflict(conflictId, resolution);
+
+    console.log(`[SheetSync] Conflict ${conflictId} resolved (${resolution} wins) by ${user.butcherId}`);
+    return NextResponse.json({
+      success: true,
+      message: resolution === 'local'
+        ? `Conflict ${conflictId} resolved - local data will be written to the sheet`
+        : `Conflict ${conflictId} resolved - sheet data kept`
+    });
+  } catch (error) {
+    if (error instanceof SheetSyncError) {
+      return NextResponse.json(
+        { error: 'Cannot resolve conflict', message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('[SheetSync] Error resolving conflict:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to resolve conflict'
+      },
+      { status: 500 }
+    );
+  }
+}
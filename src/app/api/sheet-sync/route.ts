@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { getSheetSyncStatus, getSyncConflicts, runSheetSync, SheetSyncError } from '@/lib/sheetSync';
+
+/**
+ * Verify the request carries an admin token, returns an error response otherwise
+ */
+function authorizeAdmin(request: NextRequest): NextResponse | null {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or expired token' },
+      { status: 401 }
+    );
+  }
+
+  if (user.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Forbidden', message: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * GET /api/sheet-sync
+ * Sheet sync status and the open conflicts waiting for an admin (admin only)
+ *
+ * Headers: Authorization: Bearer <admin-jwt-token>
+ */
+export async function GET(request: NextRequest) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    return NextResponse.json({
+      status: getSheetSyncStatus(),
+      conflicts: await getSyncConflicts()
+    });
+  } catch (error) {
+    console.error('[SheetSync] Error fetching sync status:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to fetch sync status',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/sheet-sync
+ * Run a sync pass now instead of waiting for the worker (admin only)
+ */
+export async function POST(request: NextRequest) {
+  const unauthorized = authorizeAdmin(request);
+  if (unauthorized) return unauthorized;
+
+  try {
+    const result = await runSheetSync();
+    return NextResponse.json({
+      success: result.errors.length === 0,
+      message: `Pushed ${result.pushed} rows, adopted ${result.adopted} sheet edits, ${result.conflicts} new conflicts`,
+      result
+    });
+  } catch (error) {
+    if (error instanceof SheetSyncError) {
+      return NextResponse.json(
+        { error: 'Cannot run sheet sync', message: error.message },
+        { status: 409 }
+      );
+    }
+
+    console.error('[SheetSync] Error running sync:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to run sheet sync'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader, type UserTokenPayload } from '@/lib/auth/jwt';
+import { authorizeButcherAction, updateStaffMember, StaffError } from '@/lib/auth/staff';
+import { CredentialError } from '@/lib/auth/credentials';
+import { revokeAllSessions } from '@/lib/auth/sessions';
+
+type RouteContext = { params: Promise<{ butcherId: string; username: string }> };
+
+/**
+ * Verify the request may manage the butcher's staff (admin, owner or the shop's shared login)
+ * Returns the token payload, or an error response
+ */
+async function authorizeStaffManager(request: NextRequest, butcherId: string): Promise<UserTokenPayload | NextResponse> {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or expired token' },
+      { status: 401 }
+    );
+  }
+
+  const access = await authorizeButcherAction(user, butcherId, 'staff:manage');
+  if (!access.allowed) {
+    return NextResponse.json(
+      { error: access.status === 401 ? 'Unauthorized' : 'Forbidden', message: access.message },
+      { status: access.status }
+    );
+  }
+
+  return user;
+}
+
+/**
+ * PATCH /api/staff/[butcherId]/[username]
+ * Change a staff account's name, role or active flag, or set a new password (clears its lockout)
+ *
+ * Body: { name?: string, role?: 'owner' | 'counter' | 'cutter', active?: boolean, password?: string }
+ * Owners can't change their own role or deactivate themselves. Deactivating logs the account out on every device
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { butcherId: rawButcherId, username: rawUsername } = await params;
+  const butcherId = decodeURIComponent(rawButcherId);
+  const username = decodeURIComponent(rawUsername).toLowerCase();
+
+  const user = await authorizeStaffManager(request, butcherId);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { name, role, active, password } = await request.json().catch(() => ({}));
+
+    if (user.staffId === username && (role !== undefined || active === false)) {
+      return NextResponse.json(
+        { error: 'Cannot update staff member', message: 'Ask another owner to change your own role or access' },
+        { status: 400 }
+      );
+    }
+
+    const updatedBy = user.role === 'admin' ? `admin:${user.id}` : user.id;
+    const member = await updateStaffMember(
+      butcherId,
+      username,
+      {
+        name: name !== undefined ? String(name) : undefined,
+        role: role !== undefined ? String(role) : undefined,
+        active: typeof active === 'boolean' ? active : undefined,
+        password: password ? String(password) : undefined
+      },
+      updatedBy
+    );
+
+    if (active === false) {
+      await revokeAllSessions(butcherId, updatedBy, { userId: member.id, reason: 'Staff account deactivated' });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `${member.name} updated`,
+      member
+    });
+  } catch (error) {
+    if (error instanceof StaffError || error instanceof CredentialError) {
+      return NextResponse.json(
+        { error: 'Cannot update staff member', message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[Staff] Error updating staff member:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to update staff member'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyUserToken, extractTokenFromHeader, type UserTokenPayload } from '@/lib/auth/jwt';
+import { authorizeButcherAction, createStaffMember, listStaff, StaffError } from '@/lib/auth/staff';
+import { CredentialError } from '@/lib/auth/credentials';
+import { ensureButchersLoaded } from '@/lib/butcherRegistry';
+
+type RouteContext = { params: Promise<{ butcherId: string }> };
+
+/**
+ * Verify the request may manage the butcher's staff (admin, owner or the shop's shared login)
+ * Returns the token payload, or an error response
+ */
+async function authorizeStaffManager(request: NextRequest, butcherId: string): Promise<UserTokenPayload | NextResponse> {
+  const token = extractTokenFromHeader(request.headers.get('Authorization'));
+  const user = token ? verifyUserToken(token) : null;
+
+  if (!user) {
+    return NextResponse.json(
+      { error: 'Unauthorized', message: 'Invalid or expired token' },
+      { status: 401 }
+    );
+  }
+
+  const access = await authorizeButcherAction(user, butcherId, 'staff:manage');
+  if (!access.allowed) {
+    return NextResponse.json(
+      { error: access.status === 401 ? 'Unauthorized' : 'Forbidden', message: access.message },
+      { status: access.status }
+    );
+  }
+
+  return user;
+}
+
+/**
+ * GET /api/staff/[butcherId]
+ * List the butcher's staff accounts with their roles and permissions
+ *
+ * Headers: Authorization: Bearer <jwt-token> (admin, or the butcher with staff:manage)
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const butcherId = decodeURIComponent((await params).butcherId);
+  const user = await authorizeStaffManager(request, butcherId);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const staff = await listStaff(butcherId);
+    return NextResponse.json({ staff });
+  } catch (error) {
+    console.error('[Staff] Error loading staff:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load staff',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/staff/[butcherId]
+ * Add a staff account
+ *
+ * Body: { username: string, name?: string, role: 'owner' | 'counter' | 'cutter', password: string }
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const butcherId = decodeURIComponent((await params).butcherId);
+  const user = await authorizeStaffManager(request, butcherId);
+  if (user instanceof NextResponse) return user;
+
+  try {
+    const { username, name, role, password } = await request.json().catch(() => ({}));
+    if (!username || !role || !password) {
+      return NextResponse.json(
+        { error: 'Missing required fields: username, role, password' },
+        { status: 400 }
+      );
+    }
+
+    await ensureButchersLoaded();
+    const member = await createStaffMember(
+      butcherId,
+      { username: String(username), name: name ? String(name) : undefined, role: String(role), password: String(password) },
+      user.role === 'admin' ? `admin:${user.id}` : user.id
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: `${member.name} added`,
+      member
+    });
+  } catch (error) {
+    if (error instanceof StaffError || error instanceof CredentialError) {
+      return NextResponse.json(
+        { error: 'Cannot add staff member', message: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('[Staff] Error adding staff member:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to add staff member'
+      },
+      { status: 500 }
+    );
+  }
+}
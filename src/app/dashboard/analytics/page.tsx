@@ -16,6 +16,7 @@ import { format } from "date-fns"
 import { useState, useEffect, useCallback } from "react"
 import { toDate, getTimeValue } from "../../../lib/utils"
 import { extractEnglishName } from "../../../lib/butcherConfig"
+import { isItemRejected } from "../../../lib/orderItemStatus"
 
 // Helper function to extract order number from full order ID for display
 const getDisplayOrderId = (orderId: string): string => {
@@ -80,7 +81,8 @@ const getLastDayOfMonth = (date: Date): Date => {
 };
 
 export default function AnalyticsPage() {
-  const { butcher, admin, isAdmin } = useAuth();
+  const { butcher, admin, isAdmin, can } = useAuth();
+  const canViewEarnings = can('earnings:view');
   const { toast } = useToast();
   const [orders, setOrders] = useState<Order[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -204,13 +206,27 @@ export default function AnalyticsPage() {
   useEffect(() => {
     if (isAdmin) {
       fetchAllOrders();
-    } else if (butcher?.id) {
+    } else if (butcher?.id && canViewEarnings) {
       fetchOrdersFromSheet(butcher.id);
     }
-  }, [isAdmin, butcher?.id, fetchAllOrders, fetchOrdersFromSheet]);
+  }, [isAdmin, butcher?.id, canViewEarnings, fetchAllOrders, fetchOrdersFromSheet]);
 
   if (!butcher && !isAdmin) return null;
 
+  if (!canViewEarnings) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertCircle className="h-5 w-5" />
+            Analytics
+          </CardTitle>
+          <CardDescription>Your staff role doesn&apos;t include earnings. Ask the shop owner if you need access.</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
   // Get today's date in IST format for filtering
   const today = new Date();
   const todayIST = getISTDateString(today);
@@ -486,7 +502,7 @@ export default function AnalyticsPage() {
     
     order.items.forEach((item) => {
       // Skip rejected items
-      if ((item as any).rejected) {
+      if (isItemRejected(item)) {
         return;
       }
       
@@ -80,6 +80,7 @@ export default function ContactPage() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`,
         },
         body: JSON.stringify(contactData),
       });
@@ -121,7 +122,9 @@ export default function ContactPage() {
     }
     
     try {
-      const response = await fetch(`/api/contact?butcherId=${butcher.id}`);
+      const response = await fetch(`/api/contact?butcherId=${butcher.id}`, {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` },
+      });
       if (response.ok) {
         const contentType = response.headers.get('content-type');
         if (contentType && contentType.includes('application/json')) {
@@ -168,8 +171,9 @@ export default function ContactPage() {
 
     setIsDeleting(true);
     try {
-      const response = await fetch(`/api/contact?requestId=${requestToDelete}`, {
+      const response = await fetch(`/api/contact?requestId=${requestToDelete}&butcherId=${butcher?.id}`, {
         method: 'DELETE',
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` },
       });
 
       if (response.ok) {
@@ -14,24 +14,29 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "../../components/ui/dropdown-menu";
-import { LogOut, LayoutDashboard, UtensilsCrossed, LineChart, Menu as MenuIcon, MessageSquare, AlertCircle } from 'lucide-react';
+import { LogOut, LayoutDashboard, UtensilsCrossed, LineChart, Menu as MenuIcon, MessageSquare, AlertCircle, KeyRound, Users } from 'lucide-react';
 import Link from 'next/link';
 import { Sheet, SheetContent, SheetTrigger, SheetHeader, SheetTitle } from '../../components/ui/sheet';
 import { ThemeToggle } from '../../components/ThemeToggle';
 import { cn } from '../../lib/utils';
 import { useOrderCache } from '../../hooks/useOrderCache';
 import { useOrderAlert } from '../../hooks/useOrderAlert';
+import { useDashboardPresence } from '../../hooks/useDashboardPresence';
+import { acknowledgeOrder } from '../../lib/orderAckClient';
 import { ErrorBoundary } from '../../components/ErrorBoundary';
+import ChangePasswordDialog from '../../components/auth/ChangePasswordDialog';
+import { STAFF_ROLE_LABELS, type StaffPermission } from '../../lib/auth/staffRoles';
 
 export default function DashboardLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
-  const { butcher, logout } = useAuth();
+  const { butcher, staff, can, logout } = useAuth();
   const router = useRouter();
   const pathname = usePathname();
   const [prevNewOrderCount, setPrevNewOrderCount] = useState(0);
+  const [isChangingPassword, setIsChangingPassword] = useState(false);
   const { startAlert, stopAlert, isAlerting } = useOrderAlert();
   
   // Create a global stopAlert function that can be called from anywhere
@@ -53,9 +58,14 @@ export default function DashboardLayout({
   const { orders } = useOrderCache({
     butcherId: butcher?.id || '',
     // No refreshInterval - SSE provides real-time updates!
-    enabled: !!butcher
+    enabled: !!butcher,
+    // Order still not accepted after the SLA - sound the alarm again
+    onOrderReminder: startAlert
   });
 
+  // Tell the server the shop is using the dashboard (online vs idle on the admin presence board)
+  useDashboardPresence(!!butcher);
+
   // Filter new orders
   const newOrders = orders.filter(order => order.status === 'new');
 
@@ -80,6 +90,12 @@ export default function DashboardLayout({
     setPrevNewOrderCount(newOrders.length);
   }, [newOrders.length, prevNewOrderCount, startAlert, stopAlert, isAlerting]);
 
+  // Butcher silenced the alarm without handling the orders yet - reported per order
+  const silenceAlert = () => {
+    stopAlert();
+    newOrders.forEach(order => acknowledgeOrder(order, 'alarm-silenced'));
+  };
+
   if (!butcher) {
     return (
         <div className="flex h-screen w-full items-center justify-center">
@@ -88,12 +104,15 @@ export default function DashboardLayout({
     )
   }
 
-  const navItems = [
+  // Pages a staff role can't use are hidden (the API routes enforce the same permissions)
+  const allNavItems: Array<{ href: string; icon: typeof LayoutDashboard; label: string; permission?: StaffPermission }> = [
     { href: "/dashboard", icon: LayoutDashboard, label: "Order Management" },
     { href: "/dashboard/menu", icon: UtensilsCrossed, label: "Menu Management" },
-    { href: "/dashboard/analytics", icon: LineChart, label: "Analytics" },
+    { href: "/dashboard/analytics", icon: LineChart, label: "Analytics", permission: 'earnings:view' },
+    { href: "/dashboard/staff", icon: Users, label: "Staff", permission: 'staff:manage' },
     { href: "/dashboard/contact", icon: MessageSquare, label: "Contact Admin" },
   ];
+  const navItems = allNavItems.filter(item => !item.permission || can(item.permission));
   
   const NavLinks = () => (
     <nav className="grid items-start gap-1 text-sm font-medium">
@@ -172,10 +191,15 @@ export default function DashboardLayout({
           {/* Global Alert Indicator */}
           {isAlerting && (
             <div className="flex items-center gap-2 animate-bounce-in">
-              <div className="flex items-center gap-2 bg-gradient-to-r from-red-500 to-red-600 text-white px-4 py-2 rounded-full text-sm font-semibold shadow-modern-lg animate-pulse-slow">
+              <button
+                type="button"
+                onClick={silenceAlert}
+                title="Tap to silence the alarm"
+                className="flex items-center gap-2 bg-gradient-to-r from-red-500 to-red-600 text-white px-4 py-2 rounded-full text-sm font-semibold shadow-modern-lg animate-pulse-slow"
+              >
                 <AlertCircle className="h-4 w-4" />
                 NEW ORDERS ALERT!
-              </div>
+              </button>
             </div>
           )}
           
@@ -195,15 +219,20 @@ export default function DashboardLayout({
             <DropdownMenuContent align="end" className="w-56 shadow-modern-lg">
               <DropdownMenuLabel className="font-semibold">My Account</DropdownMenuLabel>
               <DropdownMenuLabel className="text-sm text-muted-foreground font-normal">
-                {butcher.name}
+                {staff ? `${staff.name} (${STAFF_ROLE_LABELS[staff.role]}) - ${butcher.name}` : butcher.name}
               </DropdownMenuLabel>
               <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={() => setIsChangingPassword(true)}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                Change Password
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={logout} className="text-red-500 focus:text-red-500 focus:bg-red-500/10 transition-colors">
                 <LogOut className="mr-2 h-4 w-4" />
                 Logout
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+          <ChangePasswordDialog open={isChangingPassword} onOpenChange={setIsChangingPassword} />
         </header>
         <main className="flex flex-1 flex-col gap-6 p-4 lg:gap-8 lg:p-6 bg-gradient-to-br from-background via-background to-muted/20">
           <ErrorBoundary>
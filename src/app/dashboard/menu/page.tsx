@@ -14,7 +14,7 @@ import { Tabs, TabsList, TabsTrigger } from "../../../components/ui/tabs"
 import { useToast } from "../../../hooks/use-toast"
 import React, { useState, useEffect } from "react"
 import type { Butcher, MenuCategory, MenuItem, MenuItemSize } from "../../../lib/types"
-import { saveMenuToSheet, mergeMenuFromSheet } from "../../../lib/sheets"
+import { mergeMenuFromSheet } from "../../../lib/sheets"
 import { Loader2, RefreshCw, Beef, Fish } from "lucide-react"
 import { cn } from "../../../lib/utils"
 
@@ -254,7 +254,8 @@ const MenuItemEditor = ({ item, onUpdate, onRemoveSize, butcherId, categoryName
 }
 
 export default function MenuManagementPage() {
-  const { butcher, refreshButcherData } = useAuth();
+  const { butcher, refreshButcherData, can } = useAuth();
+  const canEditMenu = can('menu:edit');
   const [menu, setMenu] = useState<MenuCategory[]>([]);
   
   const { toast } = useToast();
@@ -611,7 +612,19 @@ export default function MenuManagementPage() {
           })
         : menu;
       
-      await saveMenuToSheet(butcher.id, menuToSave);
+      // Saved through the API so the staff member's menu:edit permission is checked
+      const response = await fetch(`/api/menu/${encodeURIComponent(butcher.id)}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`
+        },
+        body: JSON.stringify({ menu: menuToSave })
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || errorData.details || 'Could not save the menu.');
+      }
       setIsDataFromSheet(false); // Reset flag after saving
       toast({
         title: "Menu Updated",
@@ -621,7 +634,7 @@ export default function MenuManagementPage() {
         toast({
             variant: "destructive",
             title: "Update Failed",
-            description: "Could not save the menu.",
+            description: error?.message || "Could not save the menu.",
         });
     } finally {
       setIsLoading(false);
@@ -945,7 +958,10 @@ export default function MenuManagementPage() {
           </CardContent>
         </Card>
         <div className="mt-6 flex justify-end">
-          <Button type="submit" disabled={isLoading}>
+          {!canEditMenu && (
+            <p className="mr-4 self-center text-sm text-muted-foreground">Your staff role can view the menu but not save changes.</p>
+          )}
+          <Button type="submit" disabled={isLoading || !canEditMenu}>
             {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
             {isLoading ? "Saving..." : isMixed ? `Save ${activeTab === 'meat' ? 'Meat' : 'Fish'} Menu` : "Save Menu"}
           </Button>
@@ -15,11 +15,13 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { AlertCircle, CheckCircle, Clock, X, Package, Timer, AlertTriangle, Loader2, ThumbsUp, ThumbsDown, MapPin, Weight, IndianRupee, PackageCheck, CookingPot } from 'lucide-react';
+import { AlertCircle, CheckCircle, Clock, X, Package, Timer, AlertTriangle, Loader2, ThumbsUp, ThumbsDown, MapPin, Weight, IndianRupee, PackageCheck, CookingPot, Replace, Hourglass } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
-import { Order, OrderItem } from '@/lib/types';
+import { Order, OrderItem, OrderItemStatus, MenuItem } from '@/lib/types';
+import { getAcceptedItemStatus, getItemStatus, isItemRejected, ITEM_STATUS_LABELS } from '@/lib/orderItemStatus';
 import { useOrderCache } from '@/hooks/useOrderCache';
+import { acknowledgeOrder } from '@/lib/orderAckClient';
 import { Skeleton } from '@/components/ui/skeleton';
 
 // Helper function to determine if a butcher is a meat butcher (uses getButcherType)
@@ -110,6 +112,14 @@ function getItemDisplayName(itemName: string, butcherId: string): string {
     return itemName;
 }
 
+// Badge colours for accepted items (rejected items use the destructive badge with their reason)
+const ITEM_STATUS_BADGE_CLASSES: Record<OrderItemStatus, string> = {
+    'accepted': "bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400 border-green-200 dark:border-green-800",
+    'short-weight': "bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400 border-amber-200 dark:border-amber-800",
+    'substituted': "bg-purple-50 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400 border-purple-200 dark:border-purple-800",
+    'rejected': "bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-400 border-red-200 dark:border-red-800"
+};
+
 // Countdown Timer Component
 const CountdownTimer = ({ startTime, orderStatus }: { startTime: Date; orderStatus: string }) => {
     const [timeLeft, setTimeLeft] = useState<number>(0);
@@ -236,6 +246,108 @@ const RejectDialog = ({
     );
 };
 
+// Substitute Dialog Component - offer a replacement from the butcher's own menu
+const SubstituteDialog = ({
+    item,
+    substituteDialogState,
+    updateSubstituteDialogState,
+    menuItems,
+    isMenuLoading,
+    handleSubstituteConfirm,
+    butcherId
+}: {
+    item: OrderItem | undefined;
+    substituteDialogState: { isOpen: boolean; itemId: string; name: string; size: string; weight: string };
+    updateSubstituteDialogState: (updates: any) => void;
+    menuItems: MenuItem[];
+    isMenuLoading: boolean;
+    handleSubstituteConfirm: () => void;
+    butcherId: string;
+}) => {
+    if (!item) return null;
+
+    const availableItems = menuItems.filter(menuItem => menuItem.available && menuItem.name !== item.name);
+    const selectedItem = availableItems.find(menuItem => menuItem.name === substituteDialogState.name);
+    const sizes = selectedItem?.sizes.filter(size => size.size !== 'default') || [];
+    const weight = parseFloat(substituteDialogState.weight);
+    const isValid = !!selectedItem && !isNaN(weight) && weight > 0;
+
+    return (
+        <Dialog open={substituteDialogState.isOpen} onOpenChange={(open) => updateSubstituteDialogState({ isOpen: open })}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>Offer a Substitute</DialogTitle>
+                    <DialogDescription>
+                        Out of {getItemDisplayName(item.name, butcherId)}? Pick a replacement - the customer will be asked to approve it.
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="space-y-4">
+                    <div>
+                        <Label htmlFor="substitute-item">Replacement item</Label>
+                        <Select
+                            value={substituteDialogState.name}
+                            onValueChange={(value) => updateSubstituteDialogState({ name: value, size: 'default' })}
+                            disabled={isMenuLoading}
+                        >
+                            <SelectTrigger id="substitute-item" className="mt-2">
+                                <SelectValue placeholder={isMenuLoading ? 'Loading menu...' : 'Select an item'} />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {availableItems.map(menuItem => (
+                                    <SelectItem key={menuItem.id} value={menuItem.name}>
+                                        {getItemDisplayName(menuItem.name, butcherId)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    {sizes.length > 0 && (
+                        <div>
+                            <Label htmlFor="substitute-size">Size</Label>
+                            <Select
+                                value={substituteDialogState.size}
+                                onValueChange={(value) => updateSubstituteDialogState({ size: value })}
+                            >
+                                <SelectTrigger id="substitute-size" className="mt-2">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="default">Any size</SelectItem>
+                                    {sizes.map(size => (
+                                        <SelectItem key={size.id} value={size.size}>{size.size}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                    <div>
+                        <Label htmlFor="substitute-weight">
+                            {item.unit === 'nos' ? 'Preparing Quantity (pieces)' : 'Preparing Weight (kilograms)'}
+                        </Label>
+                        <Input
+                            id="substitute-weight"
+                            type="text"
+                            inputMode="decimal"
+                            placeholder={`Ordered: ${item.quantity}${item.unit}`}
+                            value={substituteDialogState.weight}
+                            onChange={(e) => updateSubstituteDialogState({ weight: e.target.value.replace(/[^0-9.]/g, '') })}
+                            className="mt-2"
+                        />
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => updateSubstituteDialogState({ isOpen: false })}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSubstituteConfirm} disabled={!isValid}>
+                        Propose Substitute
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    );
+};
+
 // Weight Dialog Component
 const ItemAcceptDialog = ({
     order,
@@ -289,6 +401,15 @@ const ItemAcceptDialog = ({
                     >
                         Reject Item
                     </Button>
+                    <Button
+                        variant="outline"
+                        onClick={() => updateDialogState({
+                            itemSubstituteDialog: { isOpen: true, itemId: currentItem.id, name: '', size: 'default', weight: '' }
+                        })}
+                    >
+                        <Replace className="h-4 w-4 mr-1" />
+                        Substitute
+                    </Button>
                     <Button 
                         onClick={handleItemAccept}
                     >
@@ -484,6 +605,15 @@ const WeightDialog = ({
                     >
                         Reject Item
                     </Button>
+                    <Button
+                        variant="outline"
+                        onClick={() => updateDialogState({
+                            itemSubstituteDialog: { isOpen: true, itemId: currentItem.id, name: '', size: 'default', weight: '' }
+                        })}
+                    >
+                        <Replace className="h-4 w-4 mr-1" />
+                        Substitute
+                    </Button>
                     <Button 
                         onClick={handleWeightSubmit}
                         disabled={(() => {
@@ -579,6 +709,21 @@ const OrderCard = ({
         }
     }, [globalDialogState, order.id]);
 
+    // New order card on screen while the page is visible - the butcher has seen it
+    useEffect(() => {
+        if (order.status !== 'new') {
+            return;
+        }
+        const ackIfVisible = () => {
+            if (document.visibilityState === 'visible') {
+                acknowledgeOrder(order, 'seen');
+            }
+        };
+        ackIfVisible();
+        document.addEventListener('visibilitychange', ackIfVisible);
+        return () => document.removeEventListener('visibilitychange', ackIfVisible);
+    }, [order]);
+
     const itemAcceptDialogState = globalDialogState[order.id]?.itemAcceptDialog || {
         isOpen: false,
         currentIndex: 0
@@ -594,6 +739,36 @@ const OrderCard = ({
         reason: '',
         itemId: ''
     };
+
+    const itemSubstituteDialogState = globalDialogState[order.id]?.itemSubstituteDialog || {
+        isOpen: false,
+        itemId: '',
+        name: '',
+        size: 'default',
+        weight: ''
+    };
+
+    // Butcher's own menu, loaded the first time a substitute is picked
+    const [menuItems, setMenuItems] = useState<MenuItem[]>([]);
+    const [isMenuLoading, setIsMenuLoading] = useState(false);
+
+    useEffect(() => {
+        if (!itemSubstituteDialogState.isOpen || menuItems.length > 0 || isMenuLoading) return;
+
+        setIsMenuLoading(true);
+        fetch(`/api/menu/${butcherId}`, {
+            headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` }
+        })
+            .then(response => response.json())
+            .then(result => {
+                const categories: { items: MenuItem[] }[] = result.menu || [];
+                setMenuItems(categories.flatMap(category => category.items));
+            })
+            .catch(() => {
+                toast({ variant: "destructive", title: "Menu unavailable", description: "Could not load your menu for substitutes." });
+            })
+            .finally(() => setIsMenuLoading(false));
+    }, [itemSubstituteDialogState.isOpen, menuItems.length, isMenuLoading, butcherId, toast]);
     
     // Helper function to update dialog state
     // ✅ FIX: Use functional update and also update ref immediately
@@ -654,6 +829,26 @@ const OrderCard = ({
         });
     };
 
+    const updateItemSubstituteDialogState = (updates: any) => {
+        setGlobalDialogState((prev: any) => {
+            const updatedState = {
+                ...prev[order.id],
+                itemSubstituteDialog: {
+                    ...itemSubstituteDialogState,
+                    ...updates
+                }
+            };
+            dialogStateRef.current[order.id] = {
+                ...(dialogStateRef.current[order.id] || dialogState),
+                ...updatedState
+            };
+            return {
+                ...prev,
+                [order.id]: updatedState
+            };
+        });
+    };
+
     const getStatusStyling = () => {
         switch (order.status) {
             case 'new':
@@ -663,6 +858,13 @@ const OrderCard = ({
                     icon: Clock,
                     pulse: true
                 };
+            case 'awaiting customer':
+                return {
+                    cardClass: "border-l-4 border-purple-500",
+                    statusClass: "bg-purple-500 text-white",
+                    icon: Hourglass,
+                    pulse: false
+                };
             case 'preparing':
                 return {
                     cardClass: "border-l-4 border-orange-500",
@@ -824,6 +1026,40 @@ const OrderCard = ({
             itemId: ''
         });
         
+        moveToNextItem();
+    };
+
+    const handleItemSubstitute = () => {
+        const { itemId, name, size, weight } = itemSubstituteDialogState;
+        const item = order.items.find(orderItem => orderItem.id === itemId);
+        if (!item || !name || !(parseFloat(weight) > 0)) {
+            return;
+        }
+
+        const unit = item.unit === 'nos' ? 'nos' : 'kg';
+        setGlobalDialogState((prev: any) => {
+            const currentState = prev[order.id] || dialogState;
+            const updatedState = {
+                ...currentState,
+                substitutedItems: {
+                    ...currentState.substitutedItems,
+                    [itemId]: { name, size: size !== 'default' ? size : undefined, preparingWeight: `${parseFloat(weight)}${unit}` }
+                }
+            };
+            dialogStateRef.current[order.id] = updatedState;
+            return {
+                ...prev,
+                [order.id]: updatedState
+            };
+        });
+
+        updateItemSubstituteDialogState({ isOpen: false, itemId: '', name: '', size: 'default', weight: '' });
+
+        moveToNextItem();
+    };
+
+    // After an item is rejected or substituted, move to the next item (or submit when done)
+    const moveToNextItem = () => {
         // Determine which dialog we're in and find next item accordingly
         const isInItemAcceptDialog = dialogState.itemAcceptDialog?.isOpen || false;
         let nextIndex: number;
@@ -962,7 +1198,11 @@ const OrderCard = ({
         const updatedItems = order.items.map(item => {
             const rejected = currentDialogState.rejectedItems[item.id];
             if (rejected) {
-                return { ...item, rejected };  // Include rejection in optimistic update
+                return { ...item, rejected, status: 'rejected' as const };  // Include rejection in optimistic update
+            }
+            const substitute = currentDialogState.substitutedItems?.[item.id];
+            if (substitute) {
+                return { ...item, proposedSubstitute: { ...substitute, proposedAt: new Date() } };
             }
             // ✅ FIX: Include preparing weight on item for immediate display
             const weight = currentDialogState.weights[item.name];
@@ -972,13 +1212,15 @@ const OrderCard = ({
             if (needsWeight && weight) {
                 return {
                     ...item,
-                    preparingWeight: `${weight}${unit}` as any  // Include preparing weight
+                    preparingWeight: `${weight}${unit}`,  // Include preparing weight
+                    status: getAcceptedItemStatus(item, `${weight}${unit}`)
                 };
             } else if (!needsWeight) {
                 // Item doesn't need weight - use original quantity as preparing weight
                 return {
                     ...item,
-                    preparingWeight: `${item.quantity}${item.unit}` as any
+                    preparingWeight: `${item.quantity}${item.unit}`,
+                    status: 'accepted' as const
                 };
             }
             return item;
@@ -989,7 +1231,7 @@ const OrderCard = ({
         const itemQuantities: {[itemName: string]: string} = {};
         
         order.items.forEach(item => {
-            const rejected = currentDialogState.rejectedItems[item.id];
+            const rejected = currentDialogState.rejectedItems[item.id] || currentDialogState.substitutedItems?.[item.id];
             if (!rejected) {
                 const weight = currentDialogState.weights[item.name];
                 const unit = currentDialogState.unit || (item.unit === 'nos' ? 'nos' : 'kg');
@@ -1013,13 +1255,17 @@ const OrderCard = ({
             }
         });
         
-        const allItemsRejected = updatedItems.every(item => (item as any).rejected);
+        const allItemsRejected = updatedItems.every(isItemRejected);
         const rejectionReason = allItemsRejected && updatedItems.length > 0 
-            ? (updatedItems[0] as any).rejected 
+            ? updatedItems[0].rejected 
             : undefined;
 
         // ✅ FIX: Determine order status based on whether all items are rejected
-        const orderStatus: 'preparing' | 'rejected' = allItemsRejected ? 'rejected' : 'preparing';
+        // Substitutions wait for the customer's answer before preparing starts
+        const hasSubstitutes = updatedItems.some(item => item.proposedSubstitute);
+        const orderStatus: 'preparing' | 'rejected' | 'awaiting customer' = hasSubstitutes
+            ? 'awaiting customer'
+            : allItemsRejected ? 'rejected' : 'preparing';
         
         // ✅ FIX: Optimistic update with correct status AND preparing weights
         const optimisticOrder: Order = {
@@ -1066,11 +1312,17 @@ const OrderCard = ({
             // ✅ FIX: Prepare response items using current state (not stale closure)
             const responseItems = order.items.map(item => {
                 const rejected = currentDialogState.rejectedItems[item.id];
+                const substitute = currentDialogState.substitutedItems?.[item.id];
                 if (rejected) {
                     return {
                         itemId: item.id,
                         rejected: rejected
                     };
+                } else if (substitute) {
+                    return {
+                        itemId: item.id,
+                        substitute
+                    };
                 } else {
                     // Item accepted - get preparing weight
                     // ✅ FIX: Read from current state
@@ -1137,7 +1389,7 @@ const OrderCard = ({
             });
             
             toast({
-                title: "Order accepted successfully",
+                title: hasSubstitutes ? "Substitute sent to customer" : "Order accepted successfully",
                 variant: "default"
             });
             
@@ -1222,7 +1474,8 @@ const OrderCard = ({
             rejectionReason: rejectionReason.trim(),
             items: order.items.map(item => ({
                 ...item,
-                rejected: rejectionReason.trim()  // Mark all items as rejected
+                rejected: rejectionReason.trim(),  // Mark all items as rejected
+                status: 'rejected' as const
             }))
         };
 
@@ -1411,6 +1664,7 @@ const OrderCard = ({
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
+                    'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`,
                 },
                 body: JSON.stringify({
                     order: orderWithWeights,
@@ -1502,8 +1756,8 @@ const OrderCard = ({
     // Helper function to get preparing weight for an item
     const getItemPreparingWeight = (item: OrderItem): string | null => {
         // First check if item has preparingWeight directly
-        if ((item as any).preparingWeight) {
-            return (item as any).preparingWeight;
+        if (item.preparingWeight) {
+            return item.preparingWeight;
         }
         
         // Then check order.itemWeights or itemQuantities
@@ -1543,16 +1797,17 @@ const OrderCard = ({
         return null;
     };
 
-    // Helper function to check if item is rejected
-    const isItemRejected = (item: OrderItem): boolean => {
-        return !!(item as any).rejected;
-    };
-
     // Helper function to get item rejection reason
     const getItemRejectionReason = (item: OrderItem): string | null => {
-        return (item as any).rejected || null;
+        return item.rejected || null;
     };
 
+    // Partially accepted orders get a summary badge so they don't read as fully accepted
+    const respondedItemStatuses = order.items.map(getItemStatus).filter((status): status is OrderItemStatus => !!status);
+    const acceptedItemCount = respondedItemStatuses.filter(status => status !== 'rejected').length;
+    const isPartialOrder = order.status !== 'new' && order.status !== 'awaiting customer' && order.status !== 'rejected' &&
+        respondedItemStatuses.some(status => status !== 'accepted');
+
     const statusStyling = getStatusStyling();
     const StatusIcon = statusStyling.icon;
 
@@ -1586,8 +1841,14 @@ const OrderCard = ({
                                 {order.status === 'rejected' && (order.rejectionReason || 'Declined')}
                                 {order.status === 'completed' && 'Completed'}
                                 {order.status === 'new' && 'New Order'}
+                                {order.status === 'awaiting customer' && 'Awaiting Customer'}
                                 {order.status === 'preparing' && 'Preparing'}
                             </div>
+                            {isPartialOrder && (
+                                <Badge variant="outline" className="text-sm px-2 py-0.5 bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400 border-amber-200 dark:border-amber-800">
+                                    Partial: {acceptedItemCount}/{order.items.length} items
+                                </Badge>
+                            )}
                         </div>
                     </div>
                 </CardHeader>
@@ -1595,6 +1856,7 @@ const OrderCard = ({
                     <div className="space-y-2">
                         {order.items.map((item, index) => {
                             const itemRejected = isItemRejected(item);
+                            const itemStatus = getItemStatus(item);
                             const rejectionReason = getItemRejectionReason(item);
                             const preparingWeight = getItemPreparingWeight(item);
                             const itemRevenue = getItemRevenue(item);
@@ -1635,9 +1897,17 @@ const OrderCard = ({
                                                         {rejectionReason.length > 20 ? rejectionReason.substring(0, 20) + '...' : rejectionReason}
                                                     </Badge>
                                                 )}
-                                                {!itemRejected && (order.status === 'preparing' || order.status === 'completed') && (
-                                                    <Badge variant="outline" className="text-sm px-2 py-0.5 bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400 border-green-200 dark:border-green-800">
-                                                        Accepted
+                                                {item.proposedSubstitute && (
+                                                    <Badge variant="outline" className={cn("text-sm px-2 py-0.5", ITEM_STATUS_BADGE_CLASSES['substituted'])}>
+                                                        Proposed: {getItemDisplayName(item.proposedSubstitute.name, butcherId)}
+                                                        {item.proposedSubstitute.size ? ` (${item.proposedSubstitute.size})` : ''} · {item.proposedSubstitute.preparingWeight}
+                                                    </Badge>
+                                                )}
+                                                {!itemRejected && !item.proposedSubstitute && order.status !== 'new' && order.status !== 'rejected' && (
+                                                    <Badge variant="outline" className={cn("text-sm px-2 py-0.5", ITEM_STATUS_BADGE_CLASSES[itemStatus || 'accepted'])}>
+                                                        {ITEM_STATUS_LABELS[itemStatus || 'accepted']}
+                                                        {itemStatus === 'short-weight' && ` (ordered ${item.quantity}${item.unit})`}
+                                                        {itemStatus === 'substituted' && item.substitutedWith && `: ${getItemDisplayName(item.substitutedWith.name, butcherId)}`}
                                                     </Badge>
                                                 )}
                                             {item.size && (
@@ -1787,13 +2057,16 @@ const OrderCard = ({
                         order={order}
                         dialogState={itemAcceptDialogState}
                         updateDialogState={(updates: any) => {
-                            // Update both itemAcceptDialog and potentially itemRejectDialog
+                            // Update itemAcceptDialog and potentially itemRejectDialog / itemSubstituteDialog
                             const newState: any = { 
                                 itemAcceptDialog: { ...itemAcceptDialogState, ...updates }
                             };
                             if (updates.itemRejectDialog) {
                                 newState.itemRejectDialog = updates.itemRejectDialog;
                             }
+                            if (updates.itemSubstituteDialog) {
+                                newState.itemSubstituteDialog = updates.itemSubstituteDialog;
+                            }
                             updateDialogState(newState);
                         }}
                         handleItemAccept={handleItemAccept}
@@ -1853,6 +2126,16 @@ const OrderCard = ({
                             </DialogFooter>
                         </DialogContent>
                     </Dialog>
+
+                    <SubstituteDialog
+                        item={order.items.find(item => item.id === itemSubstituteDialogState.itemId)}
+                        substituteDialogState={itemSubstituteDialogState}
+                        updateSubstituteDialogState={updateItemSubstituteDialogState}
+                        menuItems={menuItems}
+                        isMenuLoading={isMenuLoading}
+                        handleSubstituteConfirm={handleItemSubstitute}
+                        butcherId={butcherId}
+                    />
                 </>
             )}
         </>
@@ -1881,6 +2164,14 @@ export default function OrderManagementPage() {
         reason: string;
         itemId: string;
       };
+      substitutedItems?: {[itemId: string]: { name: string; size?: string; preparingWeight: string }};
+      itemSubstituteDialog?: {
+        isOpen: boolean;
+        itemId: string;
+        name: string;
+        size: string;
+        weight: string;
+      };
       rejectDialog?: {
         isOpen: boolean;
         reason: string;
@@ -1904,7 +2195,21 @@ export default function OrderManagementPage() {
   // SSE provides real-time updates, so no refreshInterval needed
   const { orders: allOrders, isLoading, error, refetch } = useOrderCache({
     butcherId: butcher?.id || '',
-    enabled: !!butcher
+    enabled: !!butcher,
+    onResponseDelivery: ({ orderNo, status }) => {
+      if (status === 'delivered') {
+        toast({
+          title: "Response Sent",
+          description: `Order ${orderNo} response reached the Central API.`
+        });
+      } else {
+        toast({
+          variant: "destructive",
+          title: "Response Failed",
+          description: `Order ${orderNo} response could not be delivered after several retries. Please contact admin.`
+        });
+      }
+    }
   });
 
   // Show error if there's an issue fetching orders
@@ -1934,9 +2239,15 @@ export default function OrderManagementPage() {
   
   // ✅ FIX: Include optimistic transitions in order lists AND exclude from original tabs
   // This ensures orders move instantly between tabs without waiting for SSE
-  const newOrders = todayOrders.filter(o => 
-    o.status === 'new' && !optimisticOrderIds.has(o.id)  // Exclude orders in optimistic transitions
-  );
+  // Orders waiting on a substitution answer stay in the New tab until the customer replies
+  const newOrders = [
+    ...todayOrders.filter(o => 
+      (o.status === 'new' || o.status === 'awaiting customer') && !optimisticOrderIds.has(o.id)  // Exclude orders in optimistic transitions
+    ),
+    ...Object.values(optimisticTransitions)
+      .filter(t => t.targetStatus === 'awaiting customer')
+      .map(t => t.order)
+  ];
   const preparingOrders = [
     ...todayOrders.filter(o => 
       o.status === 'preparing' && !optimisticOrderIds.has(o.id)  // Exclude orders in optimistic transitions
@@ -0,0 +1,293 @@
+"use client"
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "../../../components/ui/card"
+import { Button } from "../../../components/ui/button"
+import { Input } from "../../../components/ui/input"
+import { Label } from "../../../components/ui/label"
+import { Switch } from "../../../components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../../../components/ui/select"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "../../../components/ui/dialog"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../../../components/ui/table"
+import { useToast } from "../../../hooks/use-toast"
+import { useAuth } from "../../../context/AuthContext"
+import { STAFF_ROLES, STAFF_ROLE_LABELS, ROLE_PERMISSIONS, type StaffRole } from "../../../lib/auth/staffRoles"
+import { KeyRound, Lock, RefreshCw, UserPlus, Users } from "lucide-react"
+import { format } from "date-fns"
+import { useState, useEffect, useCallback } from "react"
+
+interface StaffMember {
+  id: string;
+  username: string;
+  name: string;
+  role: StaffRole;
+  active: boolean;
+  updatedAt: string;
+  updatedBy: string;
+  failedAttempts: number;
+  lockedUntil: string | null;
+}
+
+const PERMISSION_LABELS: Record<string, string> = {
+  'orders:respond': 'accept orders',
+  'orders:prepare': 'prepare orders',
+  'menu:edit': 'edit menu',
+  'earnings:view': 'see earnings',
+  'staff:manage': 'manage staff'
+}
+
+export default function StaffPage() {
+  const { butcher, staff: currentStaff, can } = useAuth()
+  const canManage = can('staff:manage')
+  const { toast } = useToast()
+  const [members, setMembers] = useState<StaffMember[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [busyUsername, setBusyUsername] = useState<string | null>(null)
+  const [newMember, setNewMember] = useState({ username: '', name: '', role: 'counter' as StaffRole, password: '' })
+  const [passwordFor, setPasswordFor] = useState<StaffMember | null>(null)
+  const [newPassword, setNewPassword] = useState('')
+
+  const staffUrl = butcher ? `/api/staff/${encodeURIComponent(butcher.id)}` : null
+  const authHeaders = () => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`
+  })
+
+  const fetchStaff = useCallback(async () => {
+    if (!staffUrl) return
+    setIsLoading(true)
+    try {
+      const response = await fetch(staffUrl, { headers: authHeaders() })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.message || `HTTP ${response.status}`)
+      }
+      setMembers(result.staff || [])
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Failed to load staff",
+        description: error instanceof Error ? error.message : 'Unknown error'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [staffUrl, toast])
+
+  useEffect(() => {
+    if (canManage) {
+      fetchStaff()
+    }
+  }, [canManage, fetchStaff])
+
+  const send = async (busyKey: string, url: string, method: 'POST' | 'PATCH', body: object, title: string) => {
+    setBusyUsername(busyKey)
+    try {
+      const response = await fetch(url, { method, headers: authHeaders(), body: JSON.stringify(body) })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.message || result.error || `HTTP ${response.status}`)
+      }
+      toast({ title, description: result.message })
+      await fetchStaff()
+      return true
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: `${title} Failed`,
+        description: error instanceof Error ? error.message : 'Unknown error'
+      })
+      return false
+    } finally {
+      setBusyUsername(null)
+    }
+  }
+
+  const memberUrl = (member: StaffMember) => `${staffUrl}/${encodeURIComponent(member.username)}`
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!staffUrl) return
+    if (await send('new', staffUrl, 'POST', newMember, "Staff Member Added")) {
+      setNewMember({ username: '', name: '', role: 'counter', password: '' })
+    }
+  }
+
+  const handleSetPassword = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!passwordFor) return
+    if (await send(passwordFor.username, memberUrl(passwordFor), 'PATCH', { password: newPassword }, "Password Set")) {
+      setPasswordFor(null)
+      setNewPassword('')
+    }
+  }
+
+  if (!butcher) return null
+
+  if (!canManage) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Staff</CardTitle>
+          <CardDescription>Only the shop owner can manage staff accounts.</CardDescription>
+        </CardHeader>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="h-5 w-5" />
+                Staff Accounts
+              </CardTitle>
+              <CardDescription>
+                Each staff member logs in with {butcher.id}, their username and their own password. Order actions are recorded under their name.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={fetchStaff} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Staff member</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Last changed</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {members.length === 0 && !isLoading && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center text-muted-foreground">
+                    No staff accounts yet - everyone uses the shop login.
+                  </TableCell>
+                </TableRow>
+              )}
+              {members.map(member => {
+                const isSelf = currentStaff?.username === member.username
+                return (
+                  <TableRow key={member.id} className={member.active ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <div className="font-medium">{member.name}</div>
+                      <div className="text-xs text-muted-foreground">{member.username}</div>
+                      {member.lockedUntil && (
+                        <span className="flex items-center gap-1 text-xs text-red-500">
+                          <Lock className="h-3 w-3" />
+                          Locked until {format(new Date(member.lockedUntil), 'HH:mm')}
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={member.role}
+                        disabled={isSelf || busyUsername !== null}
+                        onValueChange={role => send(member.username, memberUrl(member), 'PATCH', { role }, "Role Changed")}
+                      >
+                        <SelectTrigger className="w-[150px]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {STAFF_ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{STAFF_ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={member.active}
+                        disabled={isSelf || busyUsername !== null}
+                        onCheckedChange={active => send(member.username, memberUrl(member), 'PATCH', { active }, active ? "Account Activated" : "Account Deactivated")}
+                      />
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {member.updatedAt ? format(new Date(member.updatedAt), 'dd MMM yyyy HH:mm') : '-'}
+                      <div className="text-xs text-muted-foreground">{member.updatedBy}</div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="outline" size="sm" disabled={busyUsername !== null} onClick={() => setPasswordFor(member)}>
+                        <KeyRound className="h-4 w-4 mr-1" />
+                        Set password
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            Add Staff Member
+          </CardTitle>
+          <CardDescription>
+            {STAFF_ROLES.map(role => `${STAFF_ROLE_LABELS[role]}: ${ROLE_PERMISSIONS[role].map(permission => PERMISSION_LABELS[permission]).join(', ')}`).join(' · ')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAdd} className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="staff-username">Username</Label>
+              <Input id="staff-username" value={newMember.username} onChange={e => setNewMember({ ...newMember, username: e.target.value })} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staff-name">Name</Label>
+              <Input id="staff-name" value={newMember.name} onChange={e => setNewMember({ ...newMember, name: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+              <Label>Role</Label>
+              <Select value={newMember.role} onValueChange={role => setNewMember({ ...newMember, role: role as StaffRole })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STAFF_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{STAFF_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staff-password">Password</Label>
+              <Input id="staff-password" type="password" minLength={8} value={newMember.password} onChange={e => setNewMember({ ...newMember, password: e.target.value })} required />
+            </div>
+            <div className="sm:col-span-2 flex justify-end">
+              <Button type="submit" disabled={busyUsername !== null}>
+                {busyUsername === 'new' ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" /> : <UserPlus className="h-4 w-4 mr-1" />}
+                Add
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Dialog open={passwordFor !== null} onOpenChange={open => { if (!open) { setPasswordFor(null); setNewPassword('') } }}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Set Password</DialogTitle>
+            <DialogDescription>New password for {passwordFor?.name}. This also clears a lockout.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSetPassword} className="space-y-4">
+            <Input type="password" minLength={8} value={newPassword} onChange={e => setNewPassword(e.target.value)} required />
+            <DialogFooter>
+              <Button type="submit" disabled={busyUsername !== null}>Set password</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { verifyCentralAPIRequest } from '@/lib/auth/webhookSignature';
+import { getButcherIdFromName } from '@/lib/butcherMapping';
+import { getOrderFromCache, updateOrderInCache } from '@/lib/orderCache';
+import { transitionOrder, InvalidOrderTransitionError } from '@/lib/orderStateMachine';
+import { deliverOrderResponse, withPreparingWeights } from '@/lib/orderResponse';
+import { getAcceptedItemStatus, isItemRejected } from '@/lib/orderItemStatus';
+// Import response worker so queued responses get retried
+import '@/lib/responseWorker';
+import type { Order, OrderItem } from '@/lib/types';
+
+const SUBSTITUTION_DECLINED_REASON = 'Substitution declined by customer';
+
+/**
+ * POST /vcs/orders/{orderNo}/substitution
+ * Customer's answer to a substitution proposal, relayed by the Central API
+ *
+ * Headers: same as POST /vcs/orders/new (signed webhook or legacy API secret)
+ * Body: {
+ *   butcher: string, // "Usaj Meat Hub"
+ *   items: Array<{
+ *     itemId: string,
+ *     approved: boolean
+ *   }>,
+ *   timestamp: string
+ * }
+ *
+ * Approved items become 'substituted' with the proposed weight, declined items are rejected.
+ * The order then leaves 'awaiting customer' (preparing, or rejected if nothing is left)
+ * and the final response is sent back to the Central API as for /api/orders/respond.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ orderNo: string }> }
+) {
+  try {
+    const rawBody = await request.text();
+
+    const auth = verifyCentralAPIRequest(request.headers, rawBody);
+    if (!auth.valid) {
+      return NextResponse.json(
+        { error: 'Unauthorized', message: auth.message },
+        { status: 401 }
+      );
+    }
+
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid substitution data', message: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+
+    const { orderNo: orderNoParam } = await params;
+    const orderNo = parseInt(orderNoParam, 10);
+    const { butcher, items }: { butcher: string; items: Array<{ itemId: string; approved: boolean }> } = body;
+
+    if (isNaN(orderNo) || !butcher || !Array.isArray(items) || items.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid substitution data', message: 'orderNo, butcher, and items array are required' },
+        { status: 400 }
+      );
+    }
+
+    const butcherId = getButcherIdFromName(butcher);
+    if (!butcherId) {
+      return NextResponse.json(
+        { error: 'Invalid butcher name', message: `Butcher "${butcher}" not found` },
+        { status: 400 }
+      );
+    }
+
+    const order = getOrderFromCache(butcherId, orderNo);
+    if (!order) {
+      return NextResponse.json(
+        { error: 'Order not found', message: `Order ${orderNo} not found in cache` },
+        { status: 404 }
+      );
+    }
+
+    if (order.status !== 'awaiting customer') {
+      return NextResponse.json(
+        { error: 'Invalid transition', message: `Order ${orderNo} is not awaiting a substitution answer`, currentStatus: order.status },
+        { status: 409 }
+      );
+    }
+
+    // Every proposed item needs an answer
+    const unanswered = order.items.filter(item =>
+      item.proposedSubstitute && !items.some(decision => decision.itemId === item.id)
+    );
+    if (unanswered.length > 0) {
+      return NextResponse.json(
+        { error: 'Invalid substitution data', message: `Missing decision for items: ${unanswered.map(item => item.id).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Apply the customer's decisions
+    const updatedItems: OrderItem[] = order.items.map(item => {
+      const proposal = item.proposedSubstitute;
+      if (!proposal) {
+        return item;
+      }
+
+      const approved = items.find(decision => decision.itemId === item.id)?.approved === true;
+      const rest: OrderItem = { ...item, proposedSubstitute: undefined };
+
+      if (!approved) {
+        return { ...rest, status: 'rejected', rejected: SUBSTITUTION_DECLINED_REASON };
+      }
+
+      const substituted: OrderItem = {
+        ...rest,
+        substitutedWith: { name: proposal.name, ...(proposal.size ? { size: proposal.size } : {}) },
+        preparingWeight: proposal.preparingWeight
+      };
+      return { ...substituted, status: getAcceptedItemStatus(substituted, proposal.preparingWeight) };
+    });
+
+    const allItemsRejected = updatedItems.every(isItemRejected);
+    const nextStatus = allItemsRejected ? 'rejected' : 'preparing';
+    const rejectionReason = allItemsRejected ? updatedItems[0]?.rejected : undefined;
+
+    let transitionedOrder: Order;
+    try {
+      transitionedOrder = transitionOrder(order, nextStatus, {
+        by: 'central-api',
+        reason: allItemsRejected ? rejectionReason : 'Substitution answered by customer'
+      });
+    } catch (error) {
+      if (error instanceof InvalidOrderTransitionError) {
+        return NextResponse.json(
+          { error: 'Invalid transition', message: error.message, currentStatus: error.from },
+          { status: 409 }
+        );
+      }
+      throw error;
+    }
+
+    const updatedOrder: Order = withPreparingWeights({
+      ...transitionedOrder,
+      items: updatedItems,
+      ...(rejectionReason ? { rejectionReason } : {}),
+      ...(nextStatus === 'preparing' ? { preparationStartTime: new Date() } : {})
+    }, butcherId);
+
+    updateOrderInCache(butcherId, orderNo, updatedOrder);
+    console.log(`[Order] Substitution answered: Order ${orderNo} for ${butcher} → ${nextStatus}`);
+
+    // Save to sheet, then send the final response to the Central API (queued if unavailable)
+    const { order: orderWithRevenue, queued } = await deliverOrderResponse(butcherId, butcher, orderNo, updatedOrder);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Order ${orderNo} ${nextStatus === 'preparing' ? 'moved to preparing' : 'rejected'}`,
+        orderId: orderWithRevenue.id,
+        ...(queued ? { warning: 'Response will be sent when Central API is available' } : {})
+      },
+      { status: queued ? 202 : 200 }
+    );
+  } catch (error) {
+    console.error('[Order] Error handling substitution answer:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Failed to process substitution answer'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { verifyAPISecret, extractTokenFromHeader } from '@/lib/auth/jwt';
+import { verifyCentralAPIRequest } from '@/lib/auth/webhookSignature';
 import { getButcherIdFromName } from '@/lib/butcherMapping';
 import { cacheOrder } from '@/lib/orderCache';
 import { queueOrder as queueOrderToQueue } from '@/lib/orderQueue';
 import { sendOrderUpdate } from '@/lib/sseConnectionManager';
-import { getFishItemFullName, isFishButcher, getItemTypeFromCategory, findCategoryForItem } from '@/lib/butcherConfig';
-import type { Order, OrderItem } from '@/lib/types';
+import { convertCentralAPIOrder } from '@/lib/centralAPIOrder';
+import { routeIncomingOrder } from '@/lib/orderReassignment';
+import { getButcherConfig } from '@/lib/butcherConfig';
+import { checkOrderDelivery, recordOrderDelivery } from '@/lib/orderIdempotency';
+import type { Order } from '@/lib/types';
+// Import order queue worker so queued orders get retried
+import '@/lib/orderQueueWorker';
+// Import SLA worker so unaccepted orders get escalated
+import '@/lib/orderSlaWorker';
 
 /**
  * POST /vcs/orders/new
  * Receives orders from Central API Middleware
  * 
- * Headers: Authorization: Bearer API_SECRET
+ * Headers (signed, when WEBHOOK_SECRET is set):
+ *   X-Webhook-Timestamp, X-Webhook-Nonce, X-Webhook-Signature
+ * Headers (legacy): Authorization: Bearer API_SECRET
  * Body: {
  *   orderNo: number,
  *   butcher: string, // "Usaj Meat Hub"
@@ -24,23 +33,41 @@ import type { Order, OrderItem } from '@/lib/types';
  *   }>,
  *   timestamp: string
  * }
+ *
+ * The order is published on the pub/sub bus (PUBSUB), so dashboards connected to any instance get it.
+ * With ORDER_ROUTING=on the routing engine may hand it to a better-placed butcher first (the Central API is told).
+ *
+ * Re-deliveries are idempotent per butcher + orderNo:
+ * - same payload → the original status and result (no second alarm)
+ * - different payload → 409 Conflict
+ * Deliveries are remembered per instance (QUEUE_STORE), so this only holds when the retry reaches
+ * the instance that received the order
  */
 export async function POST(request: NextRequest) {
   try {
-    // Verify API secret
-    const authHeader = request.headers.get('Authorization');
-    const token = extractTokenFromHeader(authHeader);
-    
-    if (!token || !verifyAPISecret(token)) {
+    // Read raw body - the signature covers the exact bytes sent
+    const rawBody = await request.text();
+
+    // Verify HMAC signature, or the legacy API secret while it's still allowed
+    const auth = verifyCentralAPIRequest(request.headers, rawBody);
+    if (!auth.valid) {
       return NextResponse.json(
-        { error: 'Unauthorized', message: 'Invalid API secret' },
+        { error: 'Unauthorized', message: auth.message },
         { status: 401 }
       );
     }
 
     // Parse request body
-    const body = await request.json();
-    const { orderNo, butcher, items, timestamp } = body;
+    let body;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json(
+        { error: 'Invalid order data', message: 'Request body must be valid JSON' },
+        { status: 400 }
+      );
+    }
+    const { orderNo, butcher, items } = body;
 
     // Validate required fields
     if (!orderNo || !butcher || !items || !Array.isArray(items) || items.length === 0) {
@@ -65,90 +92,77 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Detect Central API retries of an order we already accepted
+    const delivery = checkOrderDelivery(orderNo, butcher, body);
+    if (delivery.result === 'duplicate') {
+      console.log(`[Order] Duplicate delivery ignored: Order ${orderNo} for ${butcher}`);
+      return NextResponse.json(
+        { ...delivery.record.body, duplicate: true },
+        { status: delivery.record.status }
+      );
+    }
+    if (delivery.result === 'conflict') {
+      console.warn(`[Order] Conflicting re-delivery rejected: Order ${orderNo} for ${butcher}`);
+      return NextResponse.json(
+        {
+          error: 'Conflict',
+          message: `Order ${orderNo} was already received for ${butcher} with a different payload`,
+          orderId: `ORD-${orderNo}`
+        },
+        { status: 409 }
+      );
+    }
+
     // Convert Central API format to VCS Order format
-    const orderId = `ORD-${orderNo}`; // Convert 123 -> "ORD-123"
-    const orderDate = timestamp ? new Date(timestamp) : new Date();
+    let order: Order = convertCentralAPIOrder(body, butcherId);
+    const orderId = order.id;
 
-    // Convert items - convert to three-language format for fish items (works for both fish and mixed butchers)
-    const orderItems: OrderItem[] = items.map((item: any) => {
-      let displayName = item.name;
-      
-      // Check if the item name already has three languages (contains ' - ')
-      const hasThreeLanguages = item.name.includes(' - ') && item.name.split(' - ').length >= 3;
-      
-      if (!hasThreeLanguages) {
-        // Try to determine if this is a fish item by finding its category
-        const category = findCategoryForItem(butcherId, item.name);
-        if (category) {
-          const itemType = getItemTypeFromCategory(category);
-          // If it's a fish item, convert to three-language format
-          if (itemType === 'fish') {
-            displayName = getFishItemFullName(item.name);
-          }
-          // For meat items, keep the single name as is
-        } else {
-          // Fallback: For pure fish butchers, try to convert (backward compatibility)
-          if (isFishButcher(butcherId)) {
-            displayName = getFishItemFullName(item.name);
-          }
-        }
-      }
-      // If already has three-language format, use as is
-      
-      return {
-      id: item.itemId, // "57788-1"
-        name: displayName,
-      quantity: item.quantityParsed.value,
-      unit: item.quantityParsed.unit as 'kg' | 'g' | 'nos',
-      size: item.size || undefined,
-      cutType: item.cutType || undefined
+    // Routing engine (ORDER_ROUTING=on) - converted again for the new butcher's menu categories
+    const assignedButcherId = await routeIncomingOrder(butcherId, orderNo, order);
+    if (assignedButcherId !== butcherId) {
+      order = {
+        ...convertCentralAPIOrder(body, assignedButcherId),
+        butcherName: getButcherConfig(assignedButcherId)?.name || butcher,
+        reassignedFrom: [butcherId]
       };
-    });
-
-    // Create Order object
-    const order: Order = {
-      id: orderId,
-      customerName: 'Unknown', // Not provided by Central API
-      items: orderItems,
-      status: 'new',
-      orderTime: orderDate,
-      butcherId,
-      butcherName: butcher,
-      // Store source information
-      _source: 'central-api' as any,
-      _receivedAt: new Date() as any
-    };
+    }
 
-    // Cache the order
+    // Cache the order (published to every instance's cache through the pub/sub bus)
     try {
-      cacheOrder(butcherId, order);
-      console.log(`[Order] New order arrived: Order ${orderNo} for ${butcher}`);
+      cacheOrder(assignedButcherId, order);
+      console.log(`[Order] New order arrived: Order ${orderNo} for ${order.butcherName}`);
       
-      // Send SSE message to all connected clients for this butcher
+      // Send SSE message to all connected clients for this butcher, whichever instance they're connected to
       try {
-        sendOrderUpdate(butcherId, order);
+        sendOrderUpdate(assignedButcherId, order);
       } catch (sseError: any) {
         // SSE failure shouldn't break the order processing
       }
       
-      return NextResponse.json({
+      const result = {
         success: true,
-        message: `Order ${orderNo} received for ${butcher}`,
+        message: `Order ${orderNo} received for ${order.butcherName}`,
         orderId: orderId
-      });
+      };
+      recordOrderDelivery(orderNo, butcher, delivery.payloadHash, 200, result);
+
+      return NextResponse.json(result);
     } catch (error: any) {
       console.error(`[Order] Error caching order:`, error);
       
       // Queue the order if caching fails
       queueOrderToQueue(order);
       
+      const result = {
+        success: true,
+        message: `Order ${orderNo} queued for ${order.butcherName}`,
+        orderId: orderId,
+        warning: 'Order cached in queue due to error'
+      };
+      recordOrderDelivery(orderNo, butcher, delivery.payloadHash, 202, result);
+
       return NextResponse.json(
-        {
-          success: true,
-          message: `Order ${orderNo} queued for ${butcher}`,
-          orderId: orderId,
-          warning: 'Order cached in queue due to error'
-        },
+        result,
         { status: 202 } // Accepted but queued
       );
     }
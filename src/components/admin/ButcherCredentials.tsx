@@ -0,0 +1,207 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "../ui/card"
+import { Badge } from "../ui/badge"
+import { Button } from "../ui/button"
+import { Alert, AlertDescription } from "../ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table"
+import { useToast } from "../../hooks/use-toast"
+import { AlertCircle, KeyRound, Lock, RefreshCw, ShieldCheck, Unlock } from "lucide-react"
+import { format } from "date-fns"
+
+interface CredentialStatus {
+  butcherId: string;
+  name: string;
+  builtIn: boolean;
+  hashed: boolean;
+  legacy: boolean;
+  updatedAt: string | null;
+  updatedBy: string | null;
+  mustChangePassword: boolean;
+  failedAttempts: number;
+  lockedUntil: string | null;
+}
+
+export function ButcherCredentials() {
+  const { toast } = useToast()
+  const [credentials, setCredentials] = useState<CredentialStatus[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [temporaryPassword, setTemporaryPassword] = useState<{ butcherId: string; password: string } | null>(null)
+
+  const authHeaders = () => ({ 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` })
+
+  const fetchCredentials = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch('/api/auth/credentials', { headers: authHeaders() })
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+      const result = await response.json()
+      setCredentials(result.credentials || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch credentials')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCredentials()
+  }, [fetchCredentials])
+
+  const run = async (busyKey: string, url: string, method: 'POST' | 'DELETE', title: string) => {
+    setBusyId(busyKey)
+    try {
+      const response = await fetch(url, { method, headers: authHeaders() })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.message || `HTTP ${response.status}`)
+      }
+      toast({ title, description: result.message })
+      await fetchCredentials()
+      return result
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: `${title} Failed`,
+        description: err instanceof Error ? err.message : 'Unknown error'
+      })
+      return null
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const resetPassword = async (butcherId: string) => {
+    const result = await run(butcherId, `/api/auth/credentials/${encodeURIComponent(butcherId)}`, 'POST', "Password Reset")
+    if (result?.temporaryPassword) {
+      setTemporaryPassword({ butcherId, password: result.temporaryPassword })
+    }
+  }
+
+  const legacyCount = credentials.filter(credential => credential.legacy).length
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Butcher Logins
+            </CardTitle>
+            <CardDescription>
+              Passwords are stored as scrypt hashes. Reset gives the butcher a temporary password and clears any lockout.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            {legacyCount > 0 && (
+              <Button size="sm" disabled={busyId !== null} onClick={() => run('migrate', '/api/auth/credentials', 'POST', "Migration")}>
+                <ShieldCheck className="h-4 w-4 mr-1" />
+                Hash {legacyCount} legacy password{legacyCount === 1 ? '' : 's'}
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={fetchCredentials} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {temporaryPassword && (
+          <Alert>
+            <KeyRound className="h-4 w-4" />
+            <AlertDescription>
+              Temporary password for <span className="font-medium">{temporaryPassword.butcherId}</span>:{' '}
+              <code className="rounded bg-muted px-1.5 py-0.5">{temporaryPassword.password}</code>{' '}
+              - share it with the butcher now, it won&apos;t be shown again. They pick their own password at their next login.
+              <Button variant="link" size="sm" onClick={() => setTemporaryPassword(null)}>Dismiss</Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Butcher</TableHead>
+              <TableHead>Password</TableHead>
+              <TableHead>Last changed</TableHead>
+              <TableHead>Failed logins</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {credentials.map(credential => (
+              <TableRow key={credential.butcherId}>
+                <TableCell>
+                  <div className="font-medium">{credential.name}</div>
+                  <div className="text-xs text-muted-foreground">{credential.butcherId}</div>
+                </TableCell>
+                <TableCell>
+                  {credential.hashed && credential.mustChangePassword ? (
+                    <Badge variant="outline">Must change</Badge>
+                  ) : credential.hashed ? (
+                    <Badge variant="secondary">Hashed</Badge>
+                  ) : credential.legacy ? (
+                    <Badge variant="destructive">Legacy plaintext</Badge>
+                  ) : (
+                    <Badge variant="outline">Not set</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {credential.updatedAt ? (
+                    <>
+                      {format(new Date(credential.updatedAt), 'dd MMM yyyy HH:mm')}
+                      <div className="text-xs text-muted-foreground">{credential.updatedBy}</div>
+                    </>
+                  ) : '-'}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {credential.lockedUntil ? (
+                    <span className="flex items-center gap-1 text-red-500">
+                      <Lock className="h-3 w-3" />
+                      Locked until {format(new Date(credential.lockedUntil), 'HH:mm')}
+                    </span>
+                  ) : credential.failedAttempts}
+                </TableCell>
+                <TableCell className="text-right space-x-2">
+                  {credential.lockedUntil && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={busyId !== null}
+                      onClick={() => run(credential.butcherId, `/api/auth/credentials/${encodeURIComponent(credential.butcherId)}`, 'DELETE', "Unlock")}
+                    >
+                      <Unlock className="h-4 w-4 mr-1" />
+                      Unlock
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busyId !== null}
+                    onClick={() => resetPassword(credential.butcherId)}
+                  >
+                    {busyId === credential.butcherId ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" /> : <KeyRound className="h-4 w-4 mr-1" />}
+                    Reset
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
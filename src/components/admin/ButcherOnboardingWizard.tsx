@@ -0,0 +1,477 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "../ui/card"
+import { Badge } from "../ui/badge"
+import { Button } from "../ui/button"
+import { Input } from "../ui/input"
+import { Label } from "../ui/label"
+import { Checkbox } from "../ui/checkbox"
+import { Alert, AlertDescription } from "../ui/alert"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "../ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table"
+import { useToast } from "../../hooks/use-toast"
+import {
+  AlertCircle,
+  CheckCircle2,
+  ChevronLeft,
+  ChevronRight,
+  RefreshCw,
+  Store,
+  UserPlus
+} from "lucide-react"
+import { CATEGORIES, getItemTypeFromCategory, registerButcherConfig, type ButcherConfig } from "../../lib/butcherConfig"
+
+type ButcherType = ButcherConfig['type']
+
+interface ListedButcher extends ButcherConfig {
+  builtIn: boolean;
+}
+
+interface OnboardingStep {
+  step: string;
+  status: 'done' | 'skipped' | 'planned';
+  details: string[];
+}
+
+interface WizardForm {
+  id: string;
+  name: string;
+  centralApiName: string;
+  type: ButcherType;
+  categories: string[];
+  commission: Record<string, string>; // Category name -> percent
+  markup: Record<string, string>; // Category name -> percent
+  orderSheetTab: string;
+  meatSheetTab: string;
+  fishSheetTab: string;
+  password: string;
+}
+
+const WIZARD_STEPS = ['Details', 'Categories & rates', 'Sheets & login', 'Review']
+
+const EMPTY_FORM: WizardForm = {
+  id: '',
+  name: '',
+  centralApiName: '',
+  type: 'meat',
+  categories: [],
+  commission: {},
+  markup: {},
+  orderSheetTab: '',
+  meatSheetTab: '',
+  fishSheetTab: '',
+  password: ''
+}
+
+const ALL_CATEGORIES = Object.values(CATEGORIES).map(category => ({ id: category.id as string, name: category.name }))
+
+// "Fresh Fish Mart" -> "Fresh_Fish_Mart"
+const toTabName = (name: string) => name.trim().replace(/[^A-Za-z0-9]+/g, '_').replace(/^_|_$/g, '')
+
+// "Fresh Fish Mart" -> "fresh_fish_mart"
+const toButcherId = (name: string) => toTabName(name).toLowerCase().slice(0, 32)
+
+function categoryFitsType(categoryName: string, type: ButcherType): boolean {
+  return type === 'mixed' || getItemTypeFromCategory(categoryName) === type
+}
+
+function toConfig(form: WizardForm): ButcherConfig {
+  const selected = ALL_CATEGORIES.filter(category => form.categories.includes(category.id))
+  const rates = (source: Record<string, string>) => Object.fromEntries(
+    selected
+      .filter(category => source[category.name] !== undefined && source[category.name] !== '')
+      .map(category => [category.name, parseFloat(source[category.name]) / 100])
+  )
+
+  return {
+    id: form.id,
+    name: form.name,
+    centralApiName: form.centralApiName,
+    type: form.type,
+    categories: form.categories,
+    commissionRates: rates(form.commission),
+    markupRates: rates(form.markup),
+    orderSheetTab: form.orderSheetTab,
+    meatSheetTab: form.type === 'fish' ? undefined : form.meatSheetTab,
+    fishSheetTab: form.type === 'meat' ? undefined : form.fishSheetTab
+  }
+}
+
+export function ButcherOnboardingWizard() {
+  const { toast } = useToast()
+  const [butchers, setButchers] = useState<ListedButcher[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [form, setForm] = useState<WizardForm>(EMPTY_FORM)
+  const [stepIndex, setStepIndex] = useState(0)
+  const [problems, setProblems] = useState<string[]>([])
+  const [plannedSteps, setPlannedSteps] = useState<OnboardingStep[] | null>(null)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const fetchButchers = useCallback(async () => {
+    try {
+      const response = await fetch('/api/butchers')
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+      const result = await response.json()
+      setButchers(result.butchers || [])
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Failed to load butchers",
+        description: err instanceof Error ? err.message : 'Unknown error'
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }, [toast])
+
+  useEffect(() => {
+    fetchButchers()
+  }, [fetchButchers])
+
+  const update = (changes: Partial<WizardForm>) => {
+    setForm(current => ({ ...current, ...changes }))
+    setProblems([])
+    setPlannedSteps(null)
+  }
+
+  // Default the id and tab names from the display name until they are edited
+  const updateName = (name: string) => {
+    const tab = toTabName(name)
+    update({
+      name,
+      id: form.id === toButcherId(form.name) ? toButcherId(name) : form.id,
+      centralApiName: form.centralApiName === form.name ? name : form.centralApiName,
+      orderSheetTab: form.orderSheetTab === toTabName(form.name) ? tab : form.orderSheetTab,
+      meatSheetTab: form.meatSheetTab === toTabName(form.name) || form.meatSheetTab === `${toTabName(form.name)}_Meat` ? (form.type === 'mixed' ? `${tab}_Meat` : tab) : form.meatSheetTab,
+      fishSheetTab: form.fishSheetTab === toTabName(form.name) || form.fishSheetTab === `${toTabName(form.name)}_Fish` ? (form.type === 'mixed' ? `${tab}_Fish` : tab) : form.fishSheetTab
+    })
+  }
+
+  const updateType = (type: ButcherType) => {
+    const tab = toTabName(form.name)
+    update({
+      type,
+      categories: form.categories.filter(id => {
+        const category = ALL_CATEGORIES.find(cat => cat.id === id)
+        return category ? categoryFitsType(category.name, type) : false
+      }),
+      meatSheetTab: type === 'mixed' ? `${tab}_Meat` : tab,
+      fishSheetTab: type === 'mixed' ? `${tab}_Fish` : tab
+    })
+  }
+
+  const toggleCategory = (categoryId: string, checked: boolean) => {
+    update({
+      categories: checked
+        ? [...form.categories, categoryId]
+        : form.categories.filter(id => id !== categoryId)
+    })
+  }
+
+  const submit = async (dryRun: boolean) => {
+    setIsSubmitting(true)
+    try {
+      const token = localStorage.getItem('jwt_token')
+      const response = await fetch('/api/butchers', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({ config: toConfig(form), password: form.password, dryRun })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        setProblems(result.problems?.length ? result.problems : [result.message || `HTTP ${response.status}`])
+        setPlannedSteps(result.steps?.length ? result.steps : null)
+        return
+      }
+
+      setProblems([])
+      setPlannedSteps(result.steps || null)
+      if (!dryRun) {
+        registerButcherConfig(toConfig(form))
+        toast({ title: "Butcher Onboarded", description: result.message })
+        setForm(EMPTY_FORM)
+        setStepIndex(0)
+        await fetchButchers()
+      }
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: dryRun ? "Validation Failed" : "Onboarding Failed",
+        description: err instanceof Error ? err.message : 'Unknown error'
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const config = toConfig(form)
+  const availableCategories = ALL_CATEGORIES.filter(category => categoryFitsType(category.name, form.type))
+  const selectedCategories = ALL_CATEGORIES.filter(category => form.categories.includes(category.id))
+
+  const stepComplete = [
+    !!form.id && !!form.name && !!form.centralApiName,
+    selectedCategories.length > 0 && selectedCategories.every(category => form.commission[category.name]),
+    !!form.orderSheetTab && form.password.length >= 8 &&
+      (form.type === 'fish' || !!form.meatSheetTab) && (form.type === 'meat' || !!form.fishSheetTab),
+    true
+  ]
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <UserPlus className="h-5 w-5" />
+            Onboard a Butcher
+          </CardTitle>
+          <CardDescription>
+            Add a butcher without a deploy: the sheet tabs are created with headers and the default menu is seeded
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex flex-wrap gap-2">
+            {WIZARD_STEPS.map((label, index) => (
+              <Badge
+                key={label}
+                variant={index === stepIndex ? "default" : "outline"}
+                className="cursor-pointer"
+                onClick={() => index < stepIndex && setStepIndex(index)}
+              >
+                {index + 1}. {label}
+              </Badge>
+            ))}
+          </div>
+
+          {stepIndex === 0 && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="butcher-name">Display name</Label>
+                <Input id="butcher-name" value={form.name} onChange={e => updateName(e.target.value)} placeholder="Fresh Fish Mart" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="butcher-id">Butcher ID</Label>
+                <Input id="butcher-id" value={form.id} onChange={e => update({ id: e.target.value.toLowerCase() })} placeholder="fresh_fish_mart" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="butcher-central-name">Central API name</Label>
+                <Input id="butcher-central-name" value={form.centralApiName} onChange={e => update({ centralApiName: e.target.value })} />
+                <p className="text-xs text-muted-foreground">Butcher name used in orders from the Central API</p>
+              </div>
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select value={form.type} onValueChange={value => updateType(value as ButcherType)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="meat">Meat</SelectItem>
+                    <SelectItem value="fish">Fish</SelectItem>
+                    <SelectItem value="mixed">Mixed (meat and fish)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          )}
+
+          {stepIndex === 1 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Commission %</TableHead>
+                  <TableHead>Markup %</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {availableCategories.map(category => {
+                  const selected = form.categories.includes(category.id)
+                  return (
+                    <TableRow key={category.id}>
+                      <TableCell>
+                        <label className="flex items-center gap-2">
+                          <Checkbox checked={selected} onCheckedChange={checked => toggleCategory(category.id, checked === true)} />
+                          {category.name}
+                        </label>
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.1"
+                          className="w-28"
+                          disabled={!selected}
+                          value={form.commission[category.name] ?? ''}
+                          onChange={e => update({ commission: { ...form.commission, [category.name]: e.target.value } })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          step="0.1"
+                          className="w-28"
+                          disabled={!selected}
+                          value={form.markup[category.name] ?? ''}
+                          onChange={e => update({ markup: { ...form.markup, [category.name]: e.target.value } })}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+          )}
+
+          {stepIndex === 2 && (
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="butcher-order-tab">Butcher POS tab</Label>
+                <Input id="butcher-order-tab" value={form.orderSheetTab} onChange={e => update({ orderSheetTab: e.target.value })} />
+              </div>
+              {form.type !== 'fish' && (
+                <div className="space-y-2">
+                  <Label htmlFor="butcher-meat-tab">Menu POS meat tab</Label>
+                  <Input id="butcher-meat-tab" value={form.meatSheetTab} onChange={e => update({ meatSheetTab: e.target.value })} />
+                </div>
+              )}
+              {form.type !== 'meat' && (
+                <div className="space-y-2">
+                  <Label htmlFor="butcher-fish-tab">Menu POS fish tab</Label>
+                  <Input id="butcher-fish-tab" value={form.fishSheetTab} onChange={e => update({ fishSheetTab: e.target.value })} />
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="butcher-password">Login password</Label>
+                <Input id="butcher-password" type="password" value={form.password} onChange={e => update({ password: e.target.value })} />
+                <p className="text-xs text-muted-foreground">At least 8 characters, not containing the butcher ID</p>
+              </div>
+            </div>
+          )}
+
+          {stepIndex === 3 && (
+            <div className="grid gap-2 text-sm sm:grid-cols-2">
+              <div><span className="text-muted-foreground">Butcher:</span> {config.name} ({config.id})</div>
+              <div><span className="text-muted-foreground">Central API name:</span> {config.centralApiName}</div>
+              <div><span className="text-muted-foreground">Type:</span> {config.type}</div>
+              <div>
+                <span className="text-muted-foreground">Categories:</span>{' '}
+                {selectedCategories.map(category =>
+                  `${category.name} (${form.commission[category.name]}%${form.markup[category.name] ? ` + ${form.markup[category.name]}% markup` : ''})`
+                ).join(', ')}
+              </div>
+              <div><span className="text-muted-foreground">Butcher POS tab:</span> {config.orderSheetTab}</div>
+              <div>
+                <span className="text-muted-foreground">Menu POS tabs:</span>{' '}
+                {[config.meatSheetTab, config.fishSheetTab].filter(Boolean).join(', ')}
+              </div>
+            </div>
+          )}
+
+          {problems.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                <ul className="list-disc pl-4">
+                  {problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {plannedSteps && (
+            <div className="space-y-1 text-sm">
+              {plannedSteps.map(step => (
+                <div key={step.step} className="flex items-start gap-2">
+                  <CheckCircle2 className={`h-4 w-4 mt-0.5 ${step.status === 'skipped' ? 'text-muted-foreground' : 'text-green-600'}`} />
+                  <span>
+                    <span className="font-medium capitalize">{step.step}</span> ({step.status}): {step.details.join('; ')}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex justify-between">
+            <Button variant="outline" disabled={stepIndex === 0 || isSubmitting} onClick={() => setStepIndex(stepIndex - 1)}>
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Back
+            </Button>
+            {stepIndex < WIZARD_STEPS.length - 1 ? (
+              <Button disabled={!stepComplete[stepIndex]} onClick={() => setStepIndex(stepIndex + 1)}>
+                Next
+                <ChevronRight className="h-4 w-4 ml-1" />
+              </Button>
+            ) : (
+              <div className="flex gap-2">
+                <Button variant="outline" disabled={isSubmitting} onClick={() => submit(true)}>
+                  Validate
+                </Button>
+                <Button disabled={isSubmitting} onClick={() => submit(false)}>
+                  {isSubmitting ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" /> : <UserPlus className="h-4 w-4 mr-1" />}
+                  Create Butcher
+                </Button>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Store className="h-5 w-5" />
+            Butchers
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading butchers...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Butcher</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Central API name</TableHead>
+                  <TableHead>Tabs</TableHead>
+                  <TableHead>Source</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {butchers.map(butcher => (
+                  <TableRow key={butcher.id}>
+                    <TableCell>
+                      <div className="font-medium">{butcher.name}</div>
+                      <div className="text-xs text-muted-foreground">{butcher.id}</div>
+                    </TableCell>
+                    <TableCell className="capitalize">{butcher.type}</TableCell>
+                    <TableCell>{butcher.centralApiName || '-'}</TableCell>
+                    <TableCell className="text-xs">
+                      {[butcher.orderSheetTab, butcher.meatSheetTab, butcher.fishSheetTab]
+                        .filter((tab, index, tabs) => tab && tabs.indexOf(tab) === index)
+                        .join(', ')}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={butcher.builtIn ? "secondary" : "default"}>
+                        {butcher.builtIn ? 'Built-in' : 'Onboarded'}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
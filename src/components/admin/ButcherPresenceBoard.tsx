@@ -0,0 +1,130 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "../ui/card"
+import { Badge } from "../ui/badge"
+import { Button } from "../ui/button"
+import { Alert, AlertDescription } from "../ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table"
+import { AlertCircle, Radio, RefreshCw } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import type { PresenceStatus } from "../../lib/types"
+
+interface PresenceRow {
+  butcherId: string;
+  butcherName: string;
+  status: PresenceStatus;
+  since?: string;
+  lastSeenAt?: string;
+  lastActivityAt?: string;
+  connections: number;
+}
+
+const STATUS_STYLES: Record<PresenceStatus, { label: string; className: string }> = {
+  online: { label: 'Online', className: 'bg-green-600 hover:bg-green-600 text-white' },
+  idle: { label: 'Idle', className: 'bg-yellow-500 hover:bg-yellow-500 text-white' },
+  offline: { label: 'Offline', className: 'bg-gray-500 hover:bg-gray-500 text-white' }
+}
+
+export function ButcherPresenceBoard() {
+  const [butchers, setButchers] = useState<PresenceRow[]>([])
+  const [counts, setCounts] = useState<Partial<Record<PresenceStatus, number>>>({})
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchPresence = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch('/api/presence', {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` }
+      })
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+      const result = await response.json()
+      setButchers(result.butchers || [])
+      setCounts(result.counts || {})
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch presence')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchPresence()
+    const interval = setInterval(fetchPresence, 15000) // Live board - refresh every 15 seconds
+    return () => clearInterval(interval)
+  }, [fetchPresence])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Radio className="h-5 w-5" />
+              Butcher Presence
+            </CardTitle>
+            <CardDescription>
+              Whose dashboard is up right now. Idle means the order stream is open but nobody has used the screen lately;
+              offline shops are reported to the Central API.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchPresence} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2 pt-2">
+          {(Object.keys(STATUS_STYLES) as PresenceStatus[]).map(status => (
+            <Badge key={status} className={STATUS_STYLES[status].className}>
+              {STATUS_STYLES[status].label}: {counts[status] || 0}
+            </Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && (
+          <Alert variant="destructive" className="mb-4">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Butcher</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Since</TableHead>
+              <TableHead>Last seen</TableHead>
+              <TableHead className="text-right">Devices</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {butchers.map(butcher => (
+              <TableRow key={butcher.butcherId}>
+                <TableCell>
+                  <div className="font-medium">{butcher.butcherName}</div>
+                  <div className="text-xs text-muted-foreground">{butcher.butcherId}</div>
+                </TableCell>
+                <TableCell>
+                  <Badge className={STATUS_STYLES[butcher.status].className}>{STATUS_STYLES[butcher.status].label}</Badge>
+                </TableCell>
+                <TableCell className="text-sm">
+                  {butcher.since ? formatDistanceToNow(new Date(butcher.since), { addSuffix: true }) : '-'}
+                </TableCell>
+                <TableCell className="text-sm">
+                  {butcher.status === 'online'
+                    ? 'Now'
+                    : butcher.lastSeenAt ? formatDistanceToNow(new Date(butcher.lastSeenAt), { addSuffix: true }) : 'Never'}
+                </TableCell>
+                <TableCell className="text-right text-sm">{butcher.connections}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  )
+}
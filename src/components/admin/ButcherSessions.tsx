@@ -0,0 +1,182 @@
+"use client"
+
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "../ui/card"
+import { Badge } from "../ui/badge"
+import { Button } from "../ui/button"
+import { Alert, AlertDescription } from "../ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table"
+import { useToast } from "../../hooks/use-toast"
+import { AlertCircle, LogOut, MonitorSmartphone, RefreshCw } from "lucide-react"
+import { format, formatDistanceToNow } from "date-fns"
+
+interface SessionSummary {
+  id: string;
+  butcherId: string;
+  userId: string;
+  name: string;
+  role: 'butcher' | 'admin';
+  staffId?: string;
+  staffRole?: string;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string;
+}
+
+export function ButcherSessions() {
+  const { toast } = useToast()
+  const [sessions, setSessions] = useState<SessionSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const authHeaders = () => ({ 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` })
+
+  const fetchSessions = useCallback(async () => {
+    try {
+      setError(null)
+      const response = await fetch('/api/auth/sessions', { headers: authHeaders() })
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+      const result = await response.json()
+      setSessions(result.sessions || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch sessions')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSessions()
+  }, [fetchSessions])
+
+  const revoke = async (busyKey: string, url: string, title: string) => {
+    setBusyId(busyKey)
+    try {
+      const response = await fetch(url, { method: 'DELETE', headers: authHeaders() })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.message || `HTTP ${response.status}`)
+      }
+      toast({ title, description: result.message })
+      await fetchSessions()
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: `${title} Failed`,
+        description: err instanceof Error ? err.message : 'Unknown error'
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  // Admin sessions are listed too, under their own heading
+  const butcherIds = Array.from(new Set(sessions.map(session => session.butcherId)))
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <MonitorSmartphone className="h-5 w-5" />
+              Active Sessions
+            </CardTitle>
+            <CardDescription>
+              Devices signed in per butcher. Logging a device out stops its token refresh and closes its live order stream.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchSessions} disabled={isLoading}>
+            <RefreshCw className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {!isLoading && sessions.length === 0 && !error && (
+          <p className="text-sm text-muted-foreground">No active sessions.</p>
+        )}
+
+        {butcherIds.map(butcherId => {
+          const butcherSessions = sessions.filter(session => session.butcherId === butcherId)
+          return (
+            <div key={butcherId || 'admin'} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <div className="font-medium">
+                  {butcherId || 'Admin'}
+                  <span className="ml-2 text-xs text-muted-foreground">{butcherSessions.length} device{butcherSessions.length === 1 ? '' : 's'}</span>
+                </div>
+                {butcherId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={busyId !== null}
+                    onClick={() => revoke(butcherId, `/api/auth/sessions?butcherId=${encodeURIComponent(butcherId)}`, "Logged Out Everywhere")}
+                  >
+                    {busyId === butcherId ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" /> : <LogOut className="h-4 w-4 mr-1" />}
+                    Log out everywhere
+                  </Button>
+                )}
+              </div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Device</TableHead>
+                    <TableHead>Signed in</TableHead>
+                    <TableHead>Last active</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {butcherSessions.map(session => (
+                    <TableRow key={session.id}>
+                      <TableCell>
+                        <div className="font-medium">{session.name}</div>
+                        {session.staffRole ? (
+                          <Badge variant="secondary" className="text-xs">{session.staffId} · {session.staffRole}</Badge>
+                        ) : (
+                          <div className="text-xs text-muted-foreground">{session.role === 'admin' ? 'Admin' : 'Shared login'}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm max-w-xs">
+                        <div className="truncate" title={session.userAgent}>{session.userAgent}</div>
+                        <div className="text-xs text-muted-foreground">{session.ip}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{format(new Date(session.createdAt), 'dd MMM yyyy HH:mm')}</TableCell>
+                      <TableCell className="text-sm">
+                        {session.lastUsedAt ? formatDistanceToNow(new Date(session.lastUsedAt), { addSuffix: true }) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={busyId !== null}
+                          onClick={() => revoke(session.id, `/api/auth/sessions/${encodeURIComponent(session.id)}`, "Device Logged Out")}
+                        >
+                          {busyId === session.id ? <RefreshCw className="h-4 w-4 mr-1 animate-spin" /> : <LogOut className="h-4 w-4 mr-1" />}
+                          Log out
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )
+        })}
+      </CardContent>
+    </Card>
+  )
+}
@@ -32,7 +32,9 @@ export function CommissionMarkupSettings() {
   useEffect(() => {
     const loadRates = async () => {
       try {
-        const response = await fetch('/api/rates')
+        const response = await fetch('/api/rates', {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` },
+      })
         if (response.ok) {
           const data = await response.json()
           setButcherRates(data.rates)
@@ -131,6 +133,7 @@ export function CommissionMarkupSettings() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`,
         },
         body: JSON.stringify({ rates: butcherRates }),
       })
@@ -80,7 +80,9 @@ export function CreateInvoiceModal({ isOpen, onClose, onSuccess }: CreateInvoice
     
     setIsSearchingContacts(true)
     try {
-      const response = await fetch(`/api/zoho/contacts?search=${encodeURIComponent(search)}`)
+      const response = await fetch(`/api/zoho/contacts?search=${encodeURIComponent(search)}`, {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` },
+      })
       if (response.ok) {
         const data = await response.json()
         setContacts(data.contacts || [])
@@ -204,6 +206,7 @@ export function CreateInvoiceModal({ isOpen, onClose, onSuccess }: CreateInvoice
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`,
         },
         body: JSON.stringify({
           customer_id: formData.customer_id,
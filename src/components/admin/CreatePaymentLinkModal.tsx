@@ -66,6 +66,7 @@ export function CreatePaymentLinkModal({ isOpen, onClose, onSuccess }: CreatePay
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`,
         },
         body: JSON.stringify(formData),
       })
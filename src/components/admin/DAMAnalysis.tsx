@@ -92,18 +92,8 @@ interface DAMAnalysisProps {
   isLoading?: boolean;
 }
 
-// Butcher list for targets
-const BUTCHER_LIST = [
-  { id: 'usaj', name: 'Usaj Meat Hub' },
-  { id: 'usaj_mutton', name: 'Usaj Mutton Shop' },
-  { id: 'pkd', name: 'PKD Stall' },
-  { id: 'tender_chops', name: 'Tender Chops' },
-  { id: 'kak', name: 'KAK' },
-  { id: 'ka_sons', name: 'KA Sons' },
-  { id: 'alif', name: 'Alif' },
-  { id: 'test_fish', name: 'Test Fish' },
-  { id: 'test_meat', name: 'Test Meat' },
-];
+// Butcher list for targets (includes butchers onboarded at runtime)
+const getButcherList = () => Object.values(BUTCHER_CONFIGS).map(({ id, name }) => ({ id, name }));
 
 const DAMAnalysis: React.FC<DAMAnalysisProps> = ({ allOrders = [], onRefresh, isLoading: externalIsLoading = false }) => {
   const [monthlyTarget, setMonthlyTarget] = useState<MonthlyTarget | null>(null);
@@ -180,7 +170,9 @@ const DAMAnalysis: React.FC<DAMAnalysisProps> = ({ allOrders = [], onRefresh, is
   const loadMonthlyTarget = useCallback(async () => {
     try {
       setError(null);
-      const response = await fetch(`/api/dam-analysis/target?month=${selectedMonth}&year=${selectedYear}`);
+      const response = await fetch(`/api/dam-analysis/target?month=${selectedMonth}&year=${selectedYear}`, {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` },
+      });
       
       if (response.ok) {
         const data = await response.json();
@@ -454,7 +446,7 @@ const DAMAnalysis: React.FC<DAMAnalysisProps> = ({ allOrders = [], onRefresh, is
 
     // Validate butcher targets if enabled
     if (enableButcherTargets) {
-      const butcherTotal = BUTCHER_LIST.reduce((sum, butcher) => {
+      const butcherTotal = getButcherList().reduce((sum, butcher) => {
         return sum + (parseFloat(butcherTargetInputs[butcher.id]) || 0);
       }, 0);
       
@@ -474,7 +466,7 @@ const DAMAnalysis: React.FC<DAMAnalysisProps> = ({ allOrders = [], onRefresh, is
       // Prepare butcher targets if enabled
       let butcherTargets = undefined;
       if (enableButcherTargets) {
-        butcherTargets = BUTCHER_LIST
+        butcherTargets = getButcherList()
           .filter(butcher => parseFloat(butcherTargetInputs[butcher.id]) > 0)
           .map(butcher => ({
             butcherId: butcher.id,
@@ -487,6 +479,7 @@ const DAMAnalysis: React.FC<DAMAnalysisProps> = ({ allOrders = [], onRefresh, is
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`,
         },
         body: JSON.stringify({
           month: selectedMonth,
@@ -941,7 +934,7 @@ const DAMAnalysis: React.FC<DAMAnalysisProps> = ({ allOrders = [], onRefresh, is
                     Butcher-specific Targets
                   </h4>
                   <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
-                    {BUTCHER_LIST.map((butcher) => (
+                    {getButcherList().map((butcher) => (
                       <div key={butcher.id} className="space-y-1">
                         <Label htmlFor={`butcher-target-${butcher.id}`} className="text-xs text-muted-foreground">
                           {butcher.name}
@@ -961,7 +954,7 @@ const DAMAnalysis: React.FC<DAMAnalysisProps> = ({ allOrders = [], onRefresh, is
                     ))}
                   </div>
                   <p className="text-xs text-muted-foreground mt-2">
-                    Total: {formatCurrency(BUTCHER_LIST.reduce((sum, b) => sum + (parseFloat(butcherTargetInputs[b.id]) || 0), 0))}
+                    Total: {formatCurrency(getButcherList().reduce((sum, b) => sum + (parseFloat(butcherTargetInputs[b.id]) || 0), 0))}
                   </p>
                 </div>
               )}
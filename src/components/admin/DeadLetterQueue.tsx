@@ -0,0 +1,251 @@
+"use client"
+
+import { Fragment, useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "../ui/card"
+import { Badge } from "../ui/badge"
+import { Button } from "../ui/button"
+import { Alert, AlertDescription } from "../ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table"
+import { ConfirmationDialog } from "../ui/confirmation-dialog"
+import { useToast } from "../../hooks/use-toast"
+import {
+  AlertCircle,
+  Inbox,
+  RefreshCw,
+  RotateCcw,
+  Trash2,
+  Eye,
+  EyeOff
+} from "lucide-react"
+import { format } from "date-fns"
+
+type DeadLetterType = 'order' | 'response' | 'menuUpdate'
+
+interface DeadLetter {
+  id: string;
+  type: DeadLetterType;
+  reason: string;
+  failedAt: string;
+  payload: {
+    retryCount: number;
+    order?: { id: string; butcherName?: string };
+    orderNo?: number;
+    butcher?: string;
+    butcherName?: string;
+    menuType?: 'meat' | 'fish';
+  };
+}
+
+interface QueueStats {
+  orders: number;
+  responses: number;
+  menuUpdates: number;
+  deadLetters: number;
+}
+
+const TYPE_LABELS: Record<DeadLetterType, string> = {
+  order: 'Order',
+  response: 'Order Response',
+  menuUpdate: 'Menu Update'
+}
+
+function describeDeadLetter(entry: DeadLetter): string {
+  switch (entry.type) {
+    case 'order':
+      return `${entry.payload.order?.id} (${entry.payload.order?.butcherName || 'unknown butcher'})`
+    case 'response':
+      return `Order ${entry.payload.orderNo} from ${entry.payload.butcher}`
+    case 'menuUpdate':
+      return `${entry.payload.butcherName}${entry.payload.menuType ? ` (${entry.payload.menuType})` : ''}`
+  }
+}
+
+export function DeadLetterQueue() {
+  const { toast } = useToast()
+  const [deadLetters, setDeadLetters] = useState<DeadLetter[]>([])
+  const [stats, setStats] = useState<QueueStats | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [discardTarget, setDiscardTarget] = useState<DeadLetter | null>(null)
+
+  const fetchData = useCallback(async () => {
+    try {
+      setError(null)
+      const token = localStorage.getItem('jwt_token')
+      const response = await fetch('/api/dead-letters', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+      const result = await response.json()
+      setDeadLetters(result.deadLetters || [])
+      setStats(result.stats || null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch dead letters')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const runAction = async (entry: DeadLetter, method: 'POST' | 'DELETE') => {
+    setBusyId(entry.id)
+    try {
+      const token = localStorage.getItem('jwt_token')
+      const response = await fetch(`/api/dead-letters/${encodeURIComponent(entry.id)}`, {
+        method,
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.message || `HTTP ${response.status}`)
+      }
+      toast({
+        title: method === 'POST' ? "Re-queued" : "Discarded",
+        description: result.message
+      })
+      await fetchData()
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: method === 'POST' ? "Replay Failed" : "Discard Failed",
+        description: err instanceof Error ? err.message : 'Unknown error'
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <Card>
+        <CardHeader className="pb-3 pt-4 px-4 sm:px-6">
+          <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+                <Inbox className="h-5 w-5 flex-shrink-0" />
+                Dead Letters
+              </CardTitle>
+              <CardDescription className="text-sm mt-1">
+                Orders, responses and menu updates that failed after all retries
+              </CardDescription>
+            </div>
+            <Button onClick={fetchData} disabled={isLoading} variant="outline" size="sm" className="text-xs sm:text-sm">
+              <RefreshCw className={`h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+          {stats && (
+            <div className="flex flex-wrap gap-2 pt-2">
+              <Badge variant="outline">Queued orders: {stats.orders}</Badge>
+              <Badge variant="outline">Queued responses: {stats.responses}</Badge>
+              <Badge variant="outline">Queued menu updates: {stats.menuUpdates}</Badge>
+              <Badge variant={stats.deadLetters > 0 ? "destructive" : "secondary"}>Dead letters: {stats.deadLetters}</Badge>
+            </div>
+          )}
+        </CardHeader>
+        <CardContent className="px-4 sm:px-6">
+          {error ? (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>
+                Failed to load dead letters: {error}
+              </AlertDescription>
+            </Alert>
+          ) : deadLetters.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              {isLoading ? 'Loading...' : 'Nothing has been lost - all queues are delivering.'}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Entry</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Failed At</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deadLetters.map(entry => (
+                    <Fragment key={entry.id}>
+                      <TableRow>
+                        <TableCell>
+                          <Badge variant="secondary">{TYPE_LABELS[entry.type]}</Badge>
+                        </TableCell>
+                        <TableCell className="font-medium">{describeDeadLetter(entry)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground max-w-[280px] truncate" title={entry.reason}>
+                          {entry.reason}
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">
+                          {format(new Date(entry.failedAt), 'dd MMM, HH:mm:ss')}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                          >
+                            {expandedId === entry.id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={busyId === entry.id}
+                            onClick={() => runAction(entry, 'POST')}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={busyId === entry.id}
+                            onClick={() => setDiscardTarget(entry)}
+                          >
+                            <Trash2 className="h-4 w-4 text-destructive" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                      {expandedId === entry.id && (
+                        <TableRow>
+                          <TableCell colSpan={5}>
+                            <pre className="text-xs bg-muted rounded p-3 overflow-x-auto max-h-64">
+                              {JSON.stringify(entry.payload, null, 2)}
+                            </pre>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <ConfirmationDialog
+        open={!!discardTarget}
+        onOpenChange={(open) => !open && setDiscardTarget(null)}
+        title="Discard dead letter?"
+        description={discardTarget ? `${TYPE_LABELS[discardTarget.type]} "${describeDeadLetter(discardTarget)}" will be deleted and never delivered.` : ''}
+        confirmText="Discard"
+        variant="destructive"
+        onConfirm={() => {
+          if (discardTarget) {
+            runAction(discardTarget, 'DELETE')
+          }
+          setDiscardTarget(null)
+        }}
+      />
+    </div>
+  )
+}
@@ -42,6 +42,7 @@ export function InvoiceModal({ invoice, isOpen, onClose, onUpdate }: InvoiceModa
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`,
         },
         body: JSON.stringify(editedInvoice),
       })
@@ -55,7 +55,9 @@ export const InvoicesTab = React.forwardRef<InvoicesTabRef, InvoicesTabProps>(
 
     setIsLoading(true)
     try {
-      const response = await fetch(`/api/zoho/invoices?date=${selectedDate}`)
+      const response = await fetch(`/api/zoho/invoices?date=${selectedDate}`, {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` },
+      })
       const data = await response.json()
       
       // Handle 429 rate limit specifically
@@ -132,7 +134,9 @@ export const InvoicesTab = React.forwardRef<InvoicesTabRef, InvoicesTabProps>(
 
   const handleInvoiceClick = async (invoice: ZohoInvoice) => {
     try {
-      const response = await fetch(`/api/zoho/invoices?invoice_id=${invoice.invoice_id}`)
+      const response = await fetch(`/api/zoho/invoices?invoice_id=${invoice.invoice_id}`, {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` },
+      })
       if (response.ok) {
         const { invoice: fullInvoice } = await response.json()
         setSelectedInvoice(fullInvoice)
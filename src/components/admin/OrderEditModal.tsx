@@ -64,6 +64,7 @@ export function OrderEditModal({ order, isOpen, onClose, onUpdate }: OrderEditMo
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`,
         },
         body: JSON.stringify(editedOrder),
       })
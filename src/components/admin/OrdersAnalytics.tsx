@@ -258,6 +258,7 @@ export function OrdersAnalytics({ className, allOrders, onRefresh, isLoading: ex
   const getStatusBadge = (status: string, rejectionReason?: string) => {
     const statusConfig = {
       'new': { color: 'bg-gray-100 text-gray-800', icon: Clock, label: 'New' },
+      'awaiting customer': { color: 'bg-purple-100 text-purple-800', icon: Clock, label: 'Awaiting Customer' },
       'preparing': { color: 'bg-yellow-100 text-yellow-800', icon: Timer, label: 'Preparing' },
       'prepared': { color: 'bg-blue-100 text-blue-800', icon: CheckCircle, label: 'Prepared' },
       'completed': { color: 'bg-blue-100 text-blue-800', icon: CheckCircle, label: 'Completed' },
@@ -280,6 +281,7 @@ export function OrdersAnalytics({ className, allOrders, onRefresh, isLoading: ex
   const getOrderRowStyle = (status: string) => {
     const statusStyles = {
       'new': 'border-l-4 border-l-gray-400',
+      'awaiting customer': 'border-l-4 border-l-purple-400',
       'preparing': 'border-l-4 border-l-yellow-400',
       'prepared': 'border-l-4 border-l-blue-400',
       'completed': 'border-l-4 border-l-blue-400',
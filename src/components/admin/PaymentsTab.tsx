@@ -54,7 +54,9 @@ export const PaymentsTab = React.forwardRef<PaymentsTabRef, PaymentsTabProps>(
 
     setIsLoading(true)
     try {
-      const response = await fetch(`/api/zoho/payments?date=${selectedDate}`)
+      const response = await fetch(`/api/zoho/payments?date=${selectedDate}`, {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` },
+      })
       const data = await response.json()
       
       // Handle 429 rate limit specifically
@@ -107,6 +107,22 @@ interface RateMonitorData {
       percentage: number;
     };
     recommendations: string[];
+    writeBuffer: {
+      pendingUpdates: number;
+      pendingAppends: number;
+      coalescedWrites: number;
+      batchesSent: number;
+      tokens: number;
+      throttled: number;
+    };
+    rowIndex?: {
+      tabs: number;
+      rows: number;
+      hits: number;
+      misses: number;
+      rebuilds: number;
+      invalidations: number;
+    };
   };
   sheetsInfo: {
     [key: string]: {
@@ -141,7 +157,9 @@ export function RateLimitMonitor() {
   const fetchData = async () => {
     try {
       setError(null)
-      const response = await fetch('/api/rate-monitor')
+      const response = await fetch('/api/rate-monitor', {
+        headers: { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` },
+      })
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`)
       }
@@ -428,6 +446,19 @@ export function RateLimitMonitor() {
                 <div className="text-sm text-muted-foreground">
                   Daily quota: {data.quotaInfo.googleSheetsLimits.dailyQuota} requests
                 </div>
+                {data.quotaInfo.writeBuffer && (
+                  <div className="text-sm text-muted-foreground">
+                    Write buffer: {data.quotaInfo.writeBuffer.pendingUpdates + data.quotaInfo.writeBuffer.pendingAppends} pending,{' '}
+                    {data.quotaInfo.writeBuffer.coalescedWrites} coalesced, {data.quotaInfo.writeBuffer.batchesSent} batches sent,{' '}
+                    {data.quotaInfo.writeBuffer.tokens} tokens left
+                  </div>
+                )}
+                {data.quotaInfo.rowIndex && (
+                  <div className="text-sm text-muted-foreground">
+                    Row index: {data.quotaInfo.rowIndex.rows} orders in {data.quotaInfo.rowIndex.tabs} tabs,{' '}
+                    {data.quotaInfo.rowIndex.hits} hits, {data.quotaInfo.rowIndex.misses} misses, {data.quotaInfo.rowIndex.rebuilds} rebuilds
+                  </div>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -0,0 +1,300 @@
+"use client"
+
+import { Fragment, useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "../ui/card"
+import { Badge } from "../ui/badge"
+import { Button } from "../ui/button"
+import { Alert, AlertDescription } from "../ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "../ui/table"
+import { useToast } from "../../hooks/use-toast"
+import {
+  AlertCircle,
+  ArrowLeftRight,
+  RefreshCw,
+  Database,
+  FileSpreadsheet,
+  Eye,
+  EyeOff
+} from "lucide-react"
+import { format } from "date-fns"
+
+type SyncEntity = 'order' | 'menu' | 'sale'
+
+interface SyncConflict {
+  id: number;
+  tableId: string;
+  entity: SyncEntity;
+  butcherId: string;
+  rowKey: string;
+  headers: string[];
+  localRow: string[] | null;
+  sheetRow: string[] | null;
+  detectedAt: string;
+}
+
+interface SyncStatus {
+  enabled: boolean;
+  running: boolean;
+  openConflicts: number;
+  lastResult: {
+    finishedAt: string;
+    pushed: number;
+    adopted: number;
+    conflicts: number;
+    deferred: number;
+    errors: string[];
+  } | null;
+}
+
+const ENTITY_LABELS: Record<SyncEntity, string> = {
+  order: 'Order',
+  menu: 'Menu Item',
+  sale: 'Sale'
+}
+
+function describeConflict(conflict: SyncConflict): string {
+  const tab = conflict.tableId.split(':').slice(1).join(':')
+  if (!conflict.localRow) return `${tab} - removed locally, edited in sheet`
+  if (!conflict.sheetRow) return `${tab} - deleted from sheet`
+  return `${tab} - changed on both sides`
+}
+
+export function SheetSyncConflicts() {
+  const { toast } = useToast()
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([])
+  const [status, setStatus] = useState<SyncStatus | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSyncing, setIsSyncing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<number | null>(null)
+  const [busyId, setBusyId] = useState<number | null>(null)
+
+  const fetchData = useCallback(async () => {
+    try {
+      setError(null)
+      const token = localStorage.getItem('jwt_token')
+      const response = await fetch('/api/sheet-sync', {
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+      const result = await response.json()
+      setConflicts(result.conflicts || [])
+      setStatus(result.status || null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch sync status')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchData()
+  }, [fetchData])
+
+  const syncNow = async () => {
+    setIsSyncing(true)
+    try {
+      const token = localStorage.getItem('jwt_token')
+      const response = await fetch('/api/sheet-sync', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` }
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.message || `HTTP ${response.status}`)
+      }
+      toast({ title: "Sync Complete", description: result.message })
+      await fetchData()
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Sync Failed",
+        description: err instanceof Error ? err.message : 'Unknown error'
+      })
+    } finally {
+      setIsSyncing(false)
+    }
+  }
+
+  const resolve = async (conflict: SyncConflict, resolution: 'local' | 'sheet') => {
+    setBusyId(conflict.id)
+    try {
+      const token = localStorage.getItem('jwt_token')
+      const response = await fetch(`/api/sheet-sync/conflicts/${conflict.id}`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ resolution })
+      })
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.message || `HTTP ${response.status}`)
+      }
+      toast({ title: "Conflict Resolved", description: result.message })
+      await fetchData()
+    } catch (err) {
+      toast({
+        variant: "destructive",
+        title: "Resolve Failed",
+        description: err instanceof Error ? err.message : 'Unknown error'
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  if (status && !status.enabled) {
+    return null
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 pt-4 px-4 sm:px-6">
+        <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-3 sm:gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-lg sm:text-xl">
+              <ArrowLeftRight className="h-5 w-5 flex-shrink-0" />
+              Sheet Sync
+            </CardTitle>
+            <CardDescription className="text-sm mt-1">
+              Rows changed both locally and in Google Sheets - choose which side to keep
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={syncNow} disabled={isSyncing || status?.running} variant="outline" size="sm" className="text-xs sm:text-sm">
+              <ArrowLeftRight className={`h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2 ${isSyncing ? 'animate-pulse' : ''}`} />
+              Sync Now
+            </Button>
+            <Button onClick={fetchData} disabled={isLoading} variant="outline" size="sm" className="text-xs sm:text-sm">
+              <RefreshCw className={`h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+        </div>
+        {status && (
+          <div className="flex flex-wrap gap-2 pt-2">
+            <Badge variant={status.openConflicts > 0 ? "destructive" : "secondary"}>Open conflicts: {status.openConflicts}</Badge>
+            {status.lastResult ? (
+              <>
+                <Badge variant="outline">Last sync: {format(new Date(status.lastResult.finishedAt), 'dd MMM, HH:mm:ss')}</Badge>
+                <Badge variant="outline">Pushed: {status.lastResult.pushed}</Badge>
+                <Badge variant="outline">Adopted: {status.lastResult.adopted}</Badge>
+                {status.lastResult.deferred > 0 && (
+                  <Badge variant="outline">Deferred (quota): {status.lastResult.deferred}</Badge>
+                )}
+                {status.lastResult.errors.length > 0 && (
+                  <Badge variant="destructive" title={status.lastResult.errors.join('\n')}>Errors: {status.lastResult.errors.length}</Badge>
+                )}
+              </>
+            ) : (
+              <Badge variant="outline">Not synced yet</Badge>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="px-4 sm:px-6">
+        {error ? (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>
+              Failed to load sync status: {error}
+            </AlertDescription>
+          </Alert>
+        ) : conflicts.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            {isLoading ? 'Loading...' : 'No conflicts - local data and Google Sheets agree.'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Row</TableHead>
+                  <TableHead>Conflict</TableHead>
+                  <TableHead>Detected At</TableHead>
+                  <TableHead className="text-right">Keep</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {conflicts.map(conflict => (
+                  <Fragment key={conflict.id}>
+                    <TableRow>
+                      <TableCell>
+                        <Badge variant="secondary">{ENTITY_LABELS[conflict.entity] || conflict.entity}</Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{conflict.rowKey}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{describeConflict(conflict)}</TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {format(new Date(conflict.detectedAt), 'dd MMM, HH:mm:ss')}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setExpandedId(expandedId === conflict.id ? null : conflict.id)}
+                        >
+                          {expandedId === conflict.id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Keep local data"
+                          disabled={busyId === conflict.id}
+                          onClick={() => resolve(conflict, 'local')}
+                        >
+                          <Database className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Keep sheet data"
+                          disabled={busyId === conflict.id}
+                          onClick={() => resolve(conflict, 'sheet')}
+                        >
+                          <FileSpreadsheet className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                    {expandedId === conflict.id && (
+                      <TableRow>
+                        <TableCell colSpan={5}>
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>Column</TableHead>
+                                <TableHead>Local</TableHead>
+                                <TableHead>Sheet</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {conflict.headers.map((header, index) => {
+                                const local = conflict.localRow?.[index] ?? ''
+                                const sheet = conflict.sheetRow?.[index] ?? ''
+                                return (
+                                  <TableRow key={header} className={local !== sheet ? 'bg-yellow-50' : ''}>
+                                    <TableCell className="text-xs font-medium">{header}</TableCell>
+                                    <TableCell className="text-xs">{conflict.localRow ? local : <em>removed</em>}</TableCell>
+                                    <TableCell className="text-xs">{conflict.sheetRow ? sheet : <em>deleted</em>}</TableCell>
+                                  </TableRow>
+                                )
+                              })}
+                            </TableBody>
+                          </Table>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
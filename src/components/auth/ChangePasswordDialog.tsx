@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from 'react';
+import { useAuth } from '../../context/AuthContext';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '../ui/dialog';
+import { useToast } from '../../hooks/use-toast';
+import { Loader2 } from 'lucide-react';
+
+interface ChangePasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  butcherId?: string; // Required change before logging in - the shop login of this butcher, no session yet
+  initialPassword?: string; // Current password the login was tried with
+  onChanged?: (newPassword: string) => void;
+}
+
+export default function ChangePasswordDialog({ open, onOpenChange, butcherId, initialPassword, onChanged }: ChangePasswordDialogProps) {
+  const { changePassword } = useAuth();
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState(initialPassword || '');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const close = () => {
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmPassword('');
+    setError(null);
+    onOpenChange(false);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      setError('New passwords do not match');
+      return;
+    }
+
+    setIsSaving(true);
+    const { success, message } = await changePassword(currentPassword, newPassword, butcherId);
+    setIsSaving(false);
+
+    if (!success) {
+      setError(message || 'Could not change the password. Please try again.');
+      return;
+    }
+
+    if (!butcherId) {
+      toast({ title: "Password Changed", description: "Use your new password next time you log in." });
+    }
+    close();
+    onChanged?.(newPassword);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={isOpen => (isOpen ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{butcherId ? 'Set a New Password' : 'Change Password'}</DialogTitle>
+          <DialogDescription>
+            {butcherId ? 'Your password was set for you - choose your own to log in. ' : ''}
+            At least 8 characters, and not the old default password.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="current-password">Current password</Label>
+            <Input id="current-password" type="password" value={currentPassword} onChange={(e) => setCurrentPassword(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-password">New password</Label>
+            <Input id="new-password" type="password" value={newPassword} onChange={(e) => setNewPassword(e.target.value)} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirm-password">Confirm new password</Label>
+            <Input id="confirm-password" type="password" value={confirmPassword} onChange={(e) => setConfirmPassword(e.target.value)} required />
+          </div>
+          {error && <p className="text-sm text-red-500">{error}</p>}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={close} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : null}
+              Change Password
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,28 +8,44 @@ import { Label } from '../ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { useToast } from '../../hooks/use-toast';
 import { Loader2, UtensilsCrossed } from 'lucide-react';
+import ChangePasswordDialog from './ChangePasswordDialog';
 
 export default function LoginPage() {
   const { login } = useAuth();
   const { toast } = useToast();
   const [id, setId] = useState('');
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [mustChangePassword, setMustChangePassword] = useState(false);
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
-    const success = await login(id, password);
-    if (!success) {
+    const { success, message, mustChangePassword } = await login(id, password, username.trim() || undefined);
+    if (mustChangePassword) {
+      setMustChangePassword(true);
+    } else if (!success) {
       toast({
         variant: "destructive",
         title: "Login Failed",
-        description: "Invalid ID or password. Please try again.",
+        description: message || "Invalid ID or password. Please try again.",
       });
     }
     setIsLoading(false);
   };
 
+  // Log straight in with the password the butcher just chose
+  const handlePasswordChanged = async (newPassword: string) => {
+    setPassword(newPassword);
+    setIsLoading(true);
+    const { success, message } = await login(id, newPassword);
+    if (!success) {
+      toast({ variant: "destructive", title: "Login Failed", description: message || "Please log in with your new password." });
+    }
+    setIsLoading(false);
+  };
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-background p-4">
       <Card className="w-full max-w-sm">
@@ -52,6 +68,17 @@ export default function LoginPage() {
                 disabled={isLoading}
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="username">Staff username <span className="text-muted-foreground">(optional)</span></Label>
+              <Input
+                id="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Leave empty for the shop login"
+                autoComplete="username"
+                disabled={isLoading}
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="password">Password</Label>
               <Input
@@ -69,6 +96,15 @@ export default function LoginPage() {
           </form>
         </CardContent>
       </Card>
+      {mustChangePassword && (
+        <ChangePasswordDialog
+          open={mustChangePassword}
+          onOpenChange={setMustChangePassword}
+          butcherId={id}
+          initialPassword={password}
+          onChanged={handlePasswordChanged}
+        />
+      )}
     </div>
   );
 }
@@ -1,30 +1,81 @@
 "use client";
 
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import type { Butcher } from '../lib/types';
-import { freshButchers as butchers } from '../lib/butcherConfig';
+import { freshButchers as butchers, getButcherConfig, registerButcherConfig } from '../lib/butcherConfig';
+import type { ButcherConfig } from '../lib/butcherConfig';
 import { decodeUserToken, isTokenExpired } from '../lib/auth/jwtClient';
+import { roleHasPermission, type StaffPermission, type StaffRole } from '../lib/auth/staffRoles';
+
+// Refresh access tokens this long before they expire
+const REFRESH_AHEAD_SECONDS = 120;
+
+// Swap the stored refresh token for new tokens via API (the refresh token rotates on every use)
+// A token from before sessions is exchanged once. Returns false only when the session is over (expired, revoked, reused)
+async function refreshSession(): Promise<boolean> {
+  const refreshToken = localStorage.getItem('refresh_token');
+  const token = localStorage.getItem('jwt_token');
+  if (!refreshToken && !token) return false;
 
-// ✅ FIX: Helper to refresh token via API (client-side can't generate tokens)
-async function refreshTokenFromAPI(token: string): Promise<string | null> {
   try {
     const response = await fetch('/api/auth/refresh-token', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ token })
+      body: JSON.stringify(refreshToken ? { refreshToken } : { token })
     });
-    if (response.ok) {
-      const data = await response.json();
-      return data.token || null;
+    if (response.status === 409) {
+      return true; // Another tab rotated it a moment ago and stored the new tokens
+    }
+    if (response.status === 400 || response.status === 401) {
+      // An old token is exchanged once - another tab may have just done it and stored the session
+      return !refreshToken && !!localStorage.getItem('refresh_token');
+    }
+    if (!response.ok) {
+      return true; // Server trouble - keep the session and try again later
     }
-    return null;
+
+    const data = await response.json();
+    localStorage.setItem('jwt_token', data.token);
+    localStorage.setItem('refresh_token', data.refreshToken);
+    return true;
   } catch (error) {
     console.error('Error refreshing token:', error);
-    return null;
+    return true;
+  }
+}
+
+// Whether the stored access token is missing, from before sessions, or about to expire
+function needsRefresh(): boolean {
+  const token = localStorage.getItem('jwt_token');
+  const decoded = token ? decodeUserToken(token) : null;
+  if (!decoded?.exp || !decoded.sid) return true;
+  return decoded.exp - Math.floor(Date.now() / 1000) < REFRESH_AHEAD_SECONDS;
+}
+
+// Register butchers onboarded on the server, so their menus and labels resolve in the browser
+async function loadOnboardedButchers(): Promise<void> {
+  try {
+    const response = await fetch('/api/butchers');
+    if (!response.ok) return;
+
+    const data = await response.json();
+    (data.butchers || []).forEach(({ builtIn, ...config }: ButcherConfig & { builtIn?: boolean }) => {
+      if (!builtIn && !getButcherConfig(config.id)) {
+        registerButcherConfig(config);
+      }
+    });
+  } catch (error) {
+    console.warn('Could not load onboarded butchers:', error);
   }
 }
 
+interface LoginResult {
+  success: boolean;
+  message?: string; // Why it failed, when the server said (e.g. locked out, password too short)
+  mustChangePassword?: boolean; // Password was right but is migrated or admin-set - change it, then log in again
+}
+
 interface AdminUser {
   id: string;
   username: string;
@@ -32,13 +83,31 @@ interface AdminUser {
   role: 'admin';
 }
 
+interface StaffUser {
+  username: string;
+  name: string;
+  role: StaffRole;
+}
+
+// Staff account behind the stored token (null for the shop's shared login)
+function getStaffFromToken(): StaffUser | null {
+  const token = localStorage.getItem('jwt_token');
+  const decoded = token ? decodeUserToken(token) : null;
+  return decoded?.staffId && decoded.staffRole
+    ? { username: decoded.staffId, name: decoded.name, role: decoded.staffRole }
+    : null;
+}
+
 interface AuthContextType {
   butcher: Butcher | null;
   admin: AdminUser | null;
+  staff: StaffUser | null;
   user: Butcher | AdminUser | null;
-  login: (id: string, password: string) => Promise<boolean>;
+  login: (id: string, password: string, username?: string) => Promise<LoginResult>;
+  changePassword: (currentPassword: string, newPassword: string, butcherId?: string) => Promise<LoginResult>;
   logout: () => void;
   refreshButcherData: () => void;
+  can: (permission: StaffPermission) => boolean; // UI hint only - the API routes enforce permissions
   isAdmin: boolean;
 }
 
@@ -47,6 +116,7 @@ const AuthContext = createContext<AuthContextType | null>(null);
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [butcher, setButcher] = useState<Butcher | null>(null);
   const [admin, setAdmin] = useState<AdminUser | null>(null);
+  const [staff, setStaff] = useState<StaffUser | null>(null);
   const [loading, setLoading] = useState(true);
   const router = useRouter();
 
@@ -61,6 +131,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const user = butcher || admin;
   const isAdmin = !!admin;
 
+  useEffect(() => {
+    loadOnboardedButchers();
+  }, []);
+
   useEffect(() => {
     try {
       // ✅ FIX: Check for stored user data first (more reliable for persistence)
@@ -79,14 +153,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
             setAdmin(adminUser);
             localStorage.setItem('user', JSON.stringify(adminUser));
             localStorage.setItem('userType', 'admin');
-            // ✅ FIX: Refresh token if expired via API
-            if (token && isTokenExpired(token)) {
-              refreshTokenFromAPI(token).then(newToken => {
-                if (newToken) {
-                  localStorage.setItem('jwt_token', newToken);
-                }
-              }).catch(err => console.warn('Token refresh failed:', err));
-            }
+            // Access tokens are short-lived - the refresh timer below renews them
           } else if (storedUserType === 'butcher') {
             const parsedButcher = JSON.parse(storedUser);
             // Always use the latest menu data from mockData
@@ -95,14 +162,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
               setButcher(latestButcherData);
               localStorage.setItem('user', JSON.stringify(latestButcherData));
               localStorage.setItem('userType', 'butcher');
-              // ✅ FIX: Refresh token if expired via API
-              if (token && isTokenExpired(token)) {
-                refreshTokenFromAPI(token).then(newToken => {
-                  if (newToken) {
-                    localStorage.setItem('jwt_token', newToken);
-                  }
-                }).catch(err => console.warn('Token refresh failed:', err));
-              }
+              // Access tokens are short-lived - the refresh timer below renews them
             } else {
               setButcher(parsedButcher);
             }
@@ -111,6 +171,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           console.error('Error parsing stored user:', parseError);
           // Clear invalid data
           localStorage.removeItem('jwt_token');
+          localStorage.removeItem('refresh_token');
           localStorage.removeItem('user');
           localStorage.removeItem('userType');
         }
@@ -144,6 +205,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         } else {
           // Token invalid, clear it
           localStorage.removeItem('jwt_token');
+          localStorage.removeItem('refresh_token');
           localStorage.removeItem('user');
           localStorage.removeItem('userType');
         }
@@ -152,96 +214,135 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     } catch (error) {
       console.error('Error loading auth state:', error);
       localStorage.removeItem('jwt_token');
+      localStorage.removeItem('refresh_token');
       localStorage.removeItem('user');
       localStorage.removeItem('userType');
     } finally {
+      setStaff(getStaffFromToken());
       setLoading(false);
     }
   }, []);
 
-  const login = async (id: string, password: string): Promise<boolean> => {
-    // Check for admin login
-    if (id === 'admin' && password === 'admin') {
-      setAdmin(adminUser);
-      
-      // ✅ FIX: Generate JWT token via API (client-side can't use Node.js crypto)
-      try {
-        const response = await fetch('/api/auth/generate-token', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            id: adminUser.id,
-            butcherId: '',
-            name: adminUser.name,
-            role: 'admin'
-          })
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
-          const token = data.token;
-          
-          // Store both JWT and user data
-          localStorage.setItem('jwt_token', token);
-          localStorage.setItem('user', JSON.stringify(adminUser));
-          localStorage.setItem('userType', 'admin');
-          
-          router.push('/admin');
-          return true;
-        }
-      } catch (error) {
-        console.error('Error generating token:', error);
-        return false;
+  const login = async (id: string, password: string, username?: string): Promise<LoginResult> => {
+    // Admin, butcher and staff passwords are all checked on the server, which returns the tokens
+    // (with the butcher's config for a butcher login)
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, password, ...(username ? { username } : {}) })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        return { success: false, message: data.message, mustChangePassword: !!data.mustChangePassword };
       }
-    }
-    
-    // Check for butcher login
-    const foundButcher = butchers.find(b => b.id === id && b.password === password);
-    if (foundButcher) {
-      setButcher(foundButcher);
-      
-      // ✅ FIX: Generate JWT token via API (client-side can't use Node.js crypto)
-      try {
-        const response = await fetch('/api/auth/generate-token', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            id: foundButcher.id,
-            butcherId: foundButcher.id,
-            name: foundButcher.name,
-            role: 'butcher'
-          })
-        });
-        
-        if (response.ok) {
-          const data = await response.json();
-          const token = data.token;
-          
-          // Store both JWT and user data
-          localStorage.setItem('jwt_token', token);
-          localStorage.setItem('user', JSON.stringify(foundButcher));
-          localStorage.setItem('userType', 'butcher');
-          
-          router.push('/dashboard');
-          return true;
-        }
-      } catch (error) {
-        console.error('Error generating token:', error);
-        return false;
+
+      if (data.admin) {
+        setAdmin(adminUser);
+        localStorage.setItem('jwt_token', data.token);
+        localStorage.setItem('refresh_token', data.refreshToken);
+        localStorage.setItem('user', JSON.stringify(adminUser));
+        localStorage.setItem('userType', 'admin');
+
+        router.push('/admin');
+        return { success: true };
       }
+
+      if (!getButcherConfig(id)) {
+        registerButcherConfig(data.config); // Onboarded butcher this bundle doesn't know yet
+      }
+      const foundButcher = butchers.find(b => b.id === id);
+      if (!foundButcher) {
+        return { success: false };
+      }
+
+      setButcher(foundButcher);
+      setStaff(data.staff || null);
+      localStorage.setItem('jwt_token', data.token);
+      localStorage.setItem('refresh_token', data.refreshToken);
+      localStorage.setItem('user', JSON.stringify(foundButcher));
+      localStorage.setItem('userType', 'butcher');
+
+      router.push('/dashboard');
+      return { success: true };
+    } catch (error) {
+      console.error('Error logging in:', error);
+      return { success: false };
     }
-    
-    return false;
   };
 
-  const logout = () => {
+  // With a butcher ID the shop password is changed before logging in (login answered mustChangePassword)
+  const changePassword = async (currentPassword: string, newPassword: string, butcherId?: string): Promise<LoginResult> => {
+    try {
+      const response = await fetch('/api/auth/change-password', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(butcherId ? {} : { 'Authorization': `Bearer ${localStorage.getItem('jwt_token')}` })
+        },
+        body: JSON.stringify({ currentPassword, newPassword, ...(butcherId ? { id: butcherId } : {}) })
+      });
+      const data = await response.json();
+      return response.ok ? { success: true } : { success: false, message: data.message };
+    } catch (error) {
+      console.error('Error changing password:', error);
+      return { success: false };
+    }
+  };
+
+  // Clear the stored session; the server-side session is ended too unless it already was (revoked elsewhere)
+  const endSession = useCallback((notifyServer: boolean) => {
+    const token = localStorage.getItem('jwt_token');
+    const refreshToken = localStorage.getItem('refresh_token');
+    if (notifyServer && (token || refreshToken)) {
+      fetch('/api/auth/logout', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+        },
+        body: JSON.stringify(refreshToken ? { refreshToken } : {})
+      }).catch(error => console.warn('Error ending session:', error));
+    }
+
     setButcher(null);
     setAdmin(null);
+    setStaff(null);
     localStorage.removeItem('jwt_token');
+    localStorage.removeItem('refresh_token');
     localStorage.removeItem('user');
     localStorage.removeItem('userType');
     router.push('/');
-  };
+  }, [router]);
+
+  const logout = () => endSession(true);
+
+  // Keep the short-lived access token fresh while signed in; a revoked or expired session signs the device out
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+
+    const check = () => {
+      if (!needsRefresh()) return;
+      refreshSession().then(active => {
+        if (active) {
+          setStaff(getStaffFromToken());
+        } else {
+          console.warn('[Auth] Session ended, signing out');
+          endSession(false);
+        }
+      });
+    };
+    const handleRevoked = () => endSession(false);
+
+    check();
+    const interval = setInterval(check, 60 * 1000);
+    window.addEventListener('vcs:session-revoked', handleRevoked);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('vcs:session-revoked', handleRevoked);
+    };
+  }, [userId, endSession]);
 
   const refreshButcherData = () => {
     if (butcher) {
@@ -256,7 +357,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const value = { butcher, admin, user, login, logout, refreshButcherData, isAdmin };
+  const can = (permission: StaffPermission) => isAdmin || roleHasPermission(staff?.role, permission);
+
+  const value = { butcher, admin, staff, user, login, changePassword, logout, refreshButcherData, can, isAdmin };
 
   return (
     <AuthContext.Provider value={value}>
@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect } from 'react';
+import type { DashboardActivity } from '../lib/types';
+
+const ACTIVITY_REPORT_INTERVAL = 60000; // At most one 'active' report a minute
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'scroll'] as const;
+
+/**
+ * Hook reporting dashboard use for the butcher's presence (POST /api/presence)
+ * 'active' while the page is visible and being used, 'hidden' as soon as it's put away
+ * (the open order stream itself keeps the butcher from going offline)
+ */
+export const useDashboardPresence = (enabled: boolean): void => {
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    let lastReportAt = 0;
+
+    const report = (activity: DashboardActivity) => {
+      fetch('/api/presence', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`
+        },
+        body: JSON.stringify({ activity }),
+        keepalive: true // Still delivered when the tab is being closed
+      }).catch(() => {
+        // Presence is best effort - the next interaction reports again
+      });
+    };
+
+    const onActivity = () => {
+      const now = Date.now();
+      if (document.visibilityState !== 'visible' || now - lastReportAt < ACTIVITY_REPORT_INTERVAL) {
+        return;
+      }
+      lastReportAt = now;
+      report('active');
+    };
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') {
+        lastReportAt = 0;
+        onActivity();
+      } else {
+        report('hidden');
+      }
+    };
+
+    onActivity();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, onActivity));
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [enabled]);
+};
@@ -19,6 +19,7 @@ export const useOptimizedOrderUpdate = (): UseOptimizedOrderUpdateReturn => {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`,
         },
         body: JSON.stringify(order),
       });
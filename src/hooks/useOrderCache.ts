@@ -3,10 +3,19 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import type { Order } from '../lib/types';
 import { useAuth } from '../context/AuthContext';
+import { acknowledgeOrder } from '../lib/orderAckClient';
+
+export interface ResponseDeliveryUpdate {
+  orderNo: number;
+  status: 'delivered' | 'failed';
+  error?: string;
+}
 
 interface UseOrderCacheOptions {
   butcherId: string;
   enabled?: boolean;
+  onResponseDelivery?: (update: ResponseDeliveryUpdate) => void; // Queued Central API response landed or gave up
+  onOrderReminder?: (order: Order) => void; // New order is past the butcher's acceptance SLA
 }
 
 interface UseOrderCacheReturn {
@@ -19,10 +28,13 @@ interface UseOrderCacheReturn {
 /**
  * Hook to fetch orders from cache using SSE (Server-Sent Events)
  * Orders are pushed from Central API in real-time with polling fallback
+ * Reconnects resume from the last event ID, so updates sent while offline are replayed
  */
 export const useOrderCache = ({
   butcherId,
-  enabled = true
+  enabled = true,
+  onResponseDelivery,
+  onOrderReminder
 }: UseOrderCacheOptions): UseOrderCacheReturn => {
   const [orders, setOrders] = useState<Order[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -35,6 +47,11 @@ export const useOrderCache = ({
   const lastMessageTimeRef = useRef<number>(Date.now());
   const reconnectAttemptRef = useRef<number>(0);
   const isPollingActiveRef = useRef<boolean>(false);
+  const lastEventIdRef = useRef<{ butcherId: string; id: string } | null>(null); // Where a reconnect resumes
+  const onResponseDeliveryRef = useRef(onResponseDelivery);
+  onResponseDeliveryRef.current = onResponseDelivery;
+  const onOrderReminderRef = useRef(onOrderReminder);
+  onOrderReminderRef.current = onOrderReminder;
 
   // Batch update orders (debounced)
   const batchUpdateOrders = useCallback((newOrders: Order[]) => {
@@ -97,6 +114,7 @@ export const useOrderCache = ({
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
+          'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`,
         },
       });
 
@@ -135,6 +153,9 @@ export const useOrderCache = ({
           return bNo - aNo; // Newest first
         });
       });
+      ordersWithDates
+        .filter((order: Order) => order.status === 'new')
+        .forEach((order: Order) => acknowledgeOrder(order, 'delivered'));
       
       setError(null);
     } catch (err: any) {
@@ -241,7 +262,10 @@ export const useOrderCache = ({
 
       // EventSource doesn't support custom headers, so pass token in URL
       // This is acceptable since token is in localStorage (client-side) and validated server-side
-      const url = `/api/orders/stream?butcherId=${butcherId}&token=${encodeURIComponent(token)}`;
+      // A new EventSource doesn't send Last-Event-ID, so the last seen ID goes in the URL too
+      const lastEventId = lastEventIdRef.current?.butcherId === butcherId ? lastEventIdRef.current.id : null;
+      const url = `/api/orders/stream?butcherId=${butcherId}&token=${encodeURIComponent(localStorage.getItem('jwt_token') || token)}`
+        + (lastEventId ? `&lastEventId=${encodeURIComponent(lastEventId)}` : '');
       const eventSource = new EventSource(url);
       eventSourceRef.current = eventSource;
       
@@ -262,6 +286,9 @@ export const useOrderCache = ({
         try {
           // Update last message time
           lastMessageTimeRef.current = Date.now();
+          if (event.lastEventId) {
+            lastEventIdRef.current = { butcherId, id: event.lastEventId };
+          }
           
           // Handle keep-alive pings (no data)
           if (event.data === ': keep-alive' || event.data.trim() === '') {
@@ -279,6 +306,10 @@ export const useOrderCache = ({
               preparationEndTime: order.preparationEndTime ? new Date(order.preparationEndTime) : undefined,
             }));
             setOrders(ordersWithDates);
+            // Orders still waiting for the butcher reached this device
+            ordersWithDates
+              .filter((order: Order) => order.status === 'new')
+              .forEach((order: Order) => acknowledgeOrder(order, 'delivered'));
           } else if (data.type === 'new-order') {
             console.log(`[OrderCache] Received new order via SSE: ${data.order?.id}`);
             const orderWithDates = {
@@ -289,6 +320,7 @@ export const useOrderCache = ({
             };
             pendingOrdersRef.current.push(orderWithDates);
             setPendingCount(prev => prev + 1);
+            acknowledgeOrder(orderWithDates, 'delivered');
           } else if (data.type === 'order-status-update') {
             console.log(`[OrderCache] Received order status update via SSE: ${data.order?.id}`);
             const updatedOrder = {
@@ -302,6 +334,28 @@ export const useOrderCache = ({
                 ? updatedOrder
                 : order
             ));
+          } else if (data.type === 'response-delivery') {
+            console.log(`[OrderCache] Queued response for order ${data.orderNo}: ${data.status}`);
+            onResponseDeliveryRef.current?.({
+              orderNo: data.orderNo,
+              status: data.status,
+              error: data.error
+            });
+          } else if (data.type === 'order-reminder') {
+            console.log(`[OrderCache] Reminder for unaccepted order: ${data.order?.id}`);
+            acknowledgeOrder(data.order, 'delivered');
+            onOrderReminderRef.current?.(data.order);
+          } else if (data.type === 'order-reassigned') {
+            console.log(`[OrderCache] Order ${data.orderId} reassigned: ${data.reason}`);
+            setOrders(prev => prev.filter(order => order.id !== data.orderId));
+          } else if (data.type === 'resync-required') {
+            // Missed too much to replay - the snapshot that follows replaces the list
+            console.warn(`[OrderCache] Full resync required: ${data.reason}`);
+            pendingOrdersRef.current = [];
+            setPendingCount(0);
+          } else if (data.type === 'session-revoked') {
+            console.log('[OrderCache] Session revoked, signing out');
+            window.dispatchEvent(new CustomEvent('vcs:session-revoked'));
           } else if (data.type === 'connected') {
             console.log(`[OrderCache] SSE connection confirmed for butcher: ${data.butcherId}`);
           }
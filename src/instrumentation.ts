@@ -0,0 +1,44 @@
+/**
+ * Instrumentation
+ * Runs once when the Next.js server starts (Node.js runtime only)
+ * - Opens the data store before the first request
+ * - Starts the sheet sync worker, so syncing doesn't wait for a request to load it
+ * - Flushes pending Sheets writes on SIGTERM/SIGINT, capped at SHUTDOWN_FLUSH_TIMEOUT_MS, then exits
+ *   (NEXT_MANUAL_SIG_HANDLE=true makes Next.js leave these signals to us)
+ */
+
+const SHUTDOWN_FLUSH_TIMEOUT_MS = parseInt(process.env.SHUTDOWN_FLUSH_TIMEOUT_MS || '8000', 10);
+
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') {
+    return;
+  }
+
+  const { initRepositories } = await import('./lib/repositories');
+  await initRepositories();
+
+  const { flushSheetWrites } = await import('./lib/sheetWriteBuffer');
+  const { startSheetSyncWorker } = await import('./lib/sheetSyncWorker');
+  startSheetSyncWorker();
+
+  let shuttingDown = false;
+
+  const flushAndExit = (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`[Shutdown] ${signal} received, flushing pending Sheets writes`);
+
+    // Don't let a stuck flush keep the process alive past the orchestrator's kill timeout
+    const timeout = new Promise<void>(resolve => setTimeout(() => {
+      console.warn(`[Shutdown] Flush did not finish within ${SHUTDOWN_FLUSH_TIMEOUT_MS}ms, exiting anyway`);
+      resolve();
+    }, SHUTDOWN_FLUSH_TIMEOUT_MS));
+
+    Promise.race([flushSheetWrites({ force: true }), timeout])
+      .catch(error => console.error('[Shutdown] Flush on shutdown failed:', error))
+      .finally(() => process.exit(0));
+  };
+
+  process.once('SIGTERM', () => flushAndExit('SIGTERM'));
+  process.once('SIGINT', () => flushAndExit('SIGINT'));
+}
@@ -40,7 +40,7 @@ let apiCalls: ApiCall[] = [];
 let systemStartTime = new Date();
 
 // Google Sheets API quota limits
-const GOOGLE_SHEETS_QUOTA = {
+export const GOOGLE_SHEETS_QUOTA = {
   requestsPerMinute: 100,
   requestsPer100Seconds: 100,
   dailyQuota: 50000
@@ -136,6 +136,12 @@ export class ApiMonitor {
     };
   }
 
+  // Get how many calls are left in the current minute, keeping `reserve` (fraction of the limit) free for live traffic
+  getRemainingQuota(reserve: number = 0): number {
+    const limit = Math.floor(GOOGLE_SHEETS_QUOTA.requestsPerMinute * (1 - reserve));
+    return Math.max(0, limit - this.getMetrics().callsPerMinute);
+  }
+
   // Get API calls for a specific time range
   getCallsInRange(startTime: Date, endTime: Date): ApiCall[] {
     return apiCalls.filter(call => 
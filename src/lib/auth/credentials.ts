@@ -0,0 +1,394 @@
+/**
+ * Butcher Credentials
+ * Password hashing, login checks with lockout, password change/reset and migration of legacy plaintext passwords
+ *
+ * - Passwords are hashed with scrypt (Node crypto) and stored through the credential repository
+ *   Format: scrypt$<N>$<r>$<p>$<salt base64>$<hash base64>, so the cost can be raised later without breaking old hashes
+ * - A butcher without a stored hash logs in with their legacy password (the static map below, or the plaintext
+ *   password of an early onboarded butcher); a successful legacy login hashes and stores the password.
+ *   Set LEGACY_BUTCHER_PASSWORDS=off once every butcher has a hash
+ * - Migrated and admin-set passwords are marked mustChangePassword: login gives no session until the butcher
+ *   sets their own password (POST /api/auth/change-password with their ID)
+ * - LOGIN_MAX_ATTEMPTS failed logins in a row lock the butcher out for LOGIN_LOCKOUT_MINUTES
+ *   (kept in memory - a restart or an admin reset clears it)
+ * - The admin logs in with id `admin` against ADMIN_PASSWORD_HASH (same scrypt format, see scripts/hash-password.js);
+ *   without it admin login is disabled
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+import { getButcherConfig, isBuiltInButcher } from '../butcherConfig';
+import { getRepositories } from '../repositories';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+
+const MAX_ATTEMPTS = parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5', 10);
+const LOCKOUT_MS = parseFloat(process.env.LOGIN_LOCKOUT_MINUTES || '15') * 60 * 1000;
+const LEGACY_ENABLED = process.env.LEGACY_BUTCHER_PASSWORDS !== 'off';
+// .env files need each `$` escaped as `\$` (Next.js expands $VARS there) - accept both spellings
+const ADMIN_PASSWORD_HASH = (process.env.ADMIN_PASSWORD_HASH || '').replace(/\\\$/g, '$');
+
+export const ADMIN_ID = 'admin';
+
+// Plaintext passwords of the built-in butchers from before hashing - only used until each one is migrated
+const LEGACY_BUTCHER_PASSWORDS: Record<string, string> = {
+  'usaj': 'password',
+  'usaj_mutton': 'password',
+  'pkd': 'password',
+  'kak': 'password',
+  'ka_sons': 'password',
+  'alif': 'password',
+  'test_meat': 'test',
+  'test_fish': 'test',
+  'tender_chops': 'password'
+};
+
+// Plaintext passwords of butchers onboarded before hashing, registered by the butcher registry
+const legacyOnboardedPasswords = new Map<string, string>();
+
+const failedLogins = new Map<string, { failures: number; lockedUntil: number | null }>();
+
+export type LoginResult =
+  | { authenticated: true; migrated: boolean; mustChangePassword: boolean }
+  | { authenticated: false; reason: 'invalid' | 'locked'; retryAfterSeconds?: number };
+
+export interface CredentialStatus {
+  butcherId: string;
+  name: string;
+  builtIn: boolean;
+  hashed: boolean; // Has a stored scrypt hash
+  legacy: boolean; // Still logs in with a plaintext legacy password
+  updatedAt: string | null;
+  updatedBy: string | null;
+  mustChangePassword: boolean;
+  failedAttempts: number;
+  lockedUntil: string | null;
+}
+
+export class CredentialError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CredentialError';
+  }
+}
+
+function scryptAsync(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, options, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+/**
+ * Hash a password for storage
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const { N, r, p } = SCRYPT_PARAMS;
+  const hash = await scryptAsync(password, salt, KEY_LENGTH, { N, r, p, maxmem: 64 * 1024 * 1024 });
+  return ['scrypt', N, r, p, salt.toString('base64'), hash.toString('base64')].join('$');
+}
+
+/**
+ * Check a password against a stored hash (constant time)
+ */
+export async function verifyPasswordHash(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+
+  const expected = Buffer.from(hash, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length, {
+    N: parseInt(N, 10),
+    r: parseInt(r, 10),
+    p: parseInt(p, 10),
+    maxmem: 64 * 1024 * 1024
+  });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+const plaintextMatches = (given: string, expected: string) => {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+function getLegacyPassword(butcherId: string): string | null {
+  if (!LEGACY_ENABLED) return null;
+  return legacyOnboardedPasswords.get(butcherId) ?? LEGACY_BUTCHER_PASSWORDS[butcherId] ?? null;
+}
+
+/**
+ * Remember the plaintext password of a butcher onboarded before hashing (butcher registry)
+ */
+export function registerLegacyPassword(butcherId: string, password: string): void {
+  legacyOnboardedPasswords.set(butcherId, password);
+}
+
+/**
+ * Check a new password against the password rules, throws CredentialError when it doesn't pass
+ */
+export function checkPasswordStrength(password: string, butcherId?: string): void {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    throw new CredentialError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (butcherId && password.toLowerCase().includes(butcherId.toLowerCase())) {
+    throw new CredentialError('Password must not contain the butcher ID');
+  }
+  if (Object.values(LEGACY_BUTCHER_PASSWORDS).includes(password)) {
+    throw new CredentialError('Choose a password other than the old default');
+  }
+}
+
+async function storePassword(butcherId: string, password: string, updatedBy: string, mustChangePassword: boolean = false): Promise<void> {
+  await getRepositories().credentials.saveCredential({
+    butcherId,
+    passwordHash: await hashPassword(password),
+    updatedAt: new Date().toISOString(),
+    updatedBy,
+    ...(mustChangePassword ? { mustChangePassword } : {})
+  });
+  legacyOnboardedPasswords.delete(butcherId);
+}
+
+/**
+ * Milliseconds left on a login's lockout (0 when not locked)
+ * Logins are keyed by butcher id, or by staff id (`<butcherId>:<username>`) for staff accounts
+ */
+export function lockoutRemaining(loginId: string): number {
+  const entry = failedLogins.get(loginId);
+  if (!entry?.lockedUntil) return 0;
+
+  const remaining = entry.lockedUntil - Date.now();
+  if (remaining <= 0) {
+    failedLogins.delete(loginId);
+    return 0;
+  }
+  return remaining;
+}
+
+/**
+ * Count a failed login, locking the login out after LOGIN_MAX_ATTEMPTS in a row
+ */
+export function recordFailure(loginId: string): void {
+  const entry = failedLogins.get(loginId) || { failures: 0, lockedUntil: null };
+  entry.failures++;
+  if (entry.failures >= MAX_ATTEMPTS) {
+    entry.lockedUntil = Date.now() + LOCKOUT_MS;
+    console.warn(`[Credentials] ${loginId} locked out for ${Math.round(LOCKOUT_MS / 60000)} minutes after ${entry.failures} failed logins`);
+  }
+  failedLogins.set(loginId, entry);
+}
+
+/**
+ * Failed logins in a row for a login (0 after a successful login or an unlock)
+ */
+export function getFailedAttempts(loginId: string): number {
+  return failedLogins.get(loginId)?.failures || 0;
+}
+
+/**
+ * Check a butcher's login
+ * Unknown butchers take as long as known ones, so the response time doesn't reveal which ids exist
+ */
+export async function authenticateButcher(butcherId: string, password: string): Promise<LoginResult> {
+  if (!getButcherConfig(butcherId)) {
+    await hashPassword(password);
+    return { authenticated: false, reason: 'invalid' };
+  }
+
+  const remaining = lockoutRemaining(butcherId);
+  if (remaining > 0) {
+    return { authenticated: false, reason: 'locked', retryAfterSeconds: Math.ceil(remaining / 1000) };
+  }
+
+  const credential = await getRepositories().credentials.getCredential(butcherId);
+  let valid = false;
+  let migrated = false;
+  let mustChangePassword = !!credential?.mustChangePassword;
+
+  if (credential) {
+    valid = await verifyPasswordHash(password, credential.passwordHash);
+  } else {
+    const legacy = getLegacyPassword(butcherId);
+    valid = !!legacy && plaintextMatches(password, legacy);
+
+    if (valid) {
+      // Hash the legacy password now that it's known to be right - the login still succeeds if storing fails
+      // The old default has to be replaced before the butcher gets a session
+      mustChangePassword = true;
+      try {
+        await storePassword(butcherId, password, 'migration', true);
+        migrated = true;
+      } catch (error) {
+        console.error(`[Credentials] Could not store migrated password for ${butcherId}:`, error);
+      }
+    }
+  }
+
+  if (!valid) {
+    recordFailure(butcherId);
+    const lockedFor = lockoutRemaining(butcherId);
+    return lockedFor > 0
+      ? { authenticated: false, reason: 'locked', retryAfterSeconds: Math.ceil(lockedFor / 1000) }
+      : { authenticated: false, reason: 'invalid' };
+  }
+
+  failedLogins.delete(butcherId);
+  return { authenticated: true, migrated, mustChangePassword };
+}
+
+/**
+ * Check the admin login against ADMIN_PASSWORD_HASH, with the same lockout as butcher logins
+ */
+export async function authenticateAdmin(password: string): Promise<LoginResult> {
+  const loginId = `admin:${ADMIN_ID}`;
+  const remaining = lockoutRemaining(loginId);
+  if (remaining > 0) {
+    return { authenticated: false, reason: 'locked', retryAfterSeconds: Math.ceil(remaining / 1000) };
+  }
+
+  if (!ADMIN_PASSWORD_HASH) {
+    console.warn('[Credentials] Admin login refused: ADMIN_PASSWORD_HASH is not set');
+    await hashPassword(password);
+    return { authenticated: false, reason: 'invalid' };
+  }
+
+  if (!(await verifyPasswordHash(password, ADMIN_PASSWORD_HASH))) {
+    recordFailure(loginId);
+    const lockedFor = lockoutRemaining(loginId);
+    return lockedFor > 0
+      ? { authenticated: false, reason: 'locked', retryAfterSeconds: Math.ceil(lockedFor / 1000) }
+      : { authenticated: false, reason: 'invalid' };
+  }
+
+  failedLogins.delete(loginId);
+  return { authenticated: true, migrated: false, mustChangePassword: false };
+}
+
+/**
+ * Change a butcher's own password (the current password must be given)
+ * Clears mustChangePassword - this is how a butcher with a migrated or admin-set password gets to log in
+ */
+export async function changeButcherPassword(butcherId: string, currentPassword: string, newPassword: string): Promise<void> {
+  const result = await authenticateButcher(butcherId, currentPassword);
+  if (!result.authenticated) {
+    throw result.reason === 'locked'
+      ? new CredentialError(`Too many failed attempts, try again in ${Math.ceil((result.retryAfterSeconds || 0) / 60)} minutes`, 429)
+      : new CredentialError('Current password is incorrect', 401);
+  }
+  if (newPassword === currentPassword) {
+    throw new CredentialError('New password must be different from the current one');
+  }
+
+  checkPasswordStrength(newPassword, butcherId);
+  await storePassword(butcherId, newPassword, butcherId);
+  console.log(`[Credentials] ${butcherId} changed their password`);
+}
+
+/**
+ * Set a butcher's password as an admin, and clear any lockout
+ * Without a password a temporary one is generated - it is returned once and never stored in plaintext
+ * Either way the butcher has to change it before their next session
+ */
+export async function resetButcherPassword(butcherId: string, adminId: string, newPassword?: string): Promise<{ temporaryPassword?: string }> {
+  if (!getButcherConfig(butcherId)) {
+    throw new CredentialError(`Butcher ${butcherId} not found`, 404);
+  }
+
+  const temporaryPassword = newPassword ? undefined : randomBytes(9).toString('base64url');
+  const password = newPassword || (temporaryPassword as string);
+  if (newPassword) {
+    checkPasswordStrength(newPassword, butcherId);
+  }
+
+  await storePassword(butcherId, password, `admin:${adminId}`, true);
+  failedLogins.delete(butcherId);
+  console.log(`[Credentials] Password for ${butcherId} reset by ${adminId}`);
+  return { temporaryPassword };
+}
+
+/**
+ * Set the first password of a newly onboarded butcher
+ */
+export async function setInitialPassword(butcherId: string, password: string): Promise<void> {
+  checkPasswordStrength(password, butcherId);
+  await storePassword(butcherId, password, 'onboarding');
+}
+
+/**
+ * Clear a butcher's (or staff member's) failed logins and lockout
+ */
+export function unlockButcher(loginId: string): boolean {
+  return failedLogins.delete(loginId);
+}
+
+/**
+ * Hash every legacy password that doesn't have a stored hash yet
+ * Onboarded butchers have their plaintext password cleared from the butcher store afterwards
+ */
+export async function migrateLegacyPasswords(options: { dryRun?: boolean } = {}): Promise<{ migrated: string[]; alreadyHashed: string[] }> {
+  const repositories = getRepositories();
+  const hashed = new Set((await repositories.credentials.getCredentials()).map(credential => credential.butcherId));
+  const legacyIds = Array.from(new Set([...Object.keys(LEGACY_BUTCHER_PASSWORDS), ...legacyOnboardedPasswords.keys()]))
+    .filter(butcherId => getButcherConfig(butcherId));
+
+  const migrated: string[] = [];
+  const alreadyHashed: string[] = [];
+
+  for (const butcherId of legacyIds) {
+    if (hashed.has(butcherId)) {
+      alreadyHashed.push(butcherId);
+      continue;
+    }
+
+    const legacy = legacyOnboardedPasswords.get(butcherId) ?? LEGACY_BUTCHER_PASSWORDS[butcherId];
+    if (!options.dryRun) {
+      await storePassword(butcherId, legacy, 'migration', true);
+    }
+    migrated.push(butcherId);
+  }
+
+  if (!options.dryRun) {
+    // Drop plaintext passwords from the butcher store once they are hashed
+    for (const stored of await repositories.butchers.getButchers()) {
+      if (stored.password) {
+        await repositories.butchers.saveButcher({ ...stored, password: undefined, updatedAt: new Date().toISOString() });
+      }
+    }
+    if (migrated.length > 0) {
+      console.log(`[Credentials] Migrated ${migrated.length} legacy password(s): ${migrated.join(', ')}`);
+    }
+  }
+
+  return { migrated, alreadyHashed };
+}
+
+/**
+ * Credential state of every butcher (admin view)
+ */
+export async function getCredentialStatuses(butcherIds: string[]): Promise<CredentialStatus[]> {
+  const credentials = new Map((await getRepositories().credentials.getCredentials()).map(credential => [credential.butcherId, credential]));
+
+  return butcherIds.map(butcherId => {
+    const credential = credentials.get(butcherId);
+    const lockedFor = lockoutRemaining(butcherId);
+    return {
+      butcherId,
+      name: getButcherConfig(butcherId)?.name || butcherId,
+      builtIn: isBuiltInButcher(butcherId),
+      hashed: !!credential,
+      legacy: !credential && !!getLegacyPassword(butcherId),
+      updatedAt: credential?.updatedAt || null,
+      updatedBy: credential?.updatedBy || null,
+      mustChangePassword: !!credential?.mustChangePassword,
+      failedAttempts: getFailedAttempts(butcherId),
+      lockedUntil: lockedFor > 0 ? new Date(Date.now() + lockedFor).toISOString() : null
+    };
+  });
+}
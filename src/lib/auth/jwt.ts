@@ -4,6 +4,7 @@
  */
 
 import { createHmac, timingSafeEqual } from 'crypto';
+import type { StaffRole } from './staffRoles';
 
 function base64UrlEncode(buffer: Buffer): string {
   return buffer
@@ -36,6 +37,8 @@ function createJWT(payload: any, secret: string, expiresIn: string): string {
     exp = now + (30 * 24 * 60 * 60); // 30 days
   } else if (expiresIn === '90d') {
     exp = now + (90 * 24 * 60 * 60); // 90 days
+  } else if (/^\d+m$/.test(expiresIn)) {
+    exp = now + parseInt(expiresIn, 10) * 60; // Access tokens, e.g. '15m'
   } else {
     exp = now + 3600; // Default 1 hour
   }
@@ -102,16 +105,28 @@ function verifyJWT(token: string, secret: string): any | null {
 const JWT_SECRET = process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production';
 const API_SECRET = process.env.API_SECRET || process.env.JWT_SECRET || 'your-super-secret-jwt-key-change-this-in-production';
 
+// Access tokens are short-lived; sessions (auth/sessions.ts) renew them with rotating refresh tokens
+const ACCESS_TOKEN_TTL_MINUTES = Math.max(1, parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || '15', 10));
+// 30-day tokens issued before sessions existed carry no session id; accepted until they expire unless turned off
+const LEGACY_TOKENS_ENABLED = process.env.LEGACY_ACCESS_TOKENS !== 'off';
+
+// Sessions revoked on this instance - their access tokens are refused straight away instead of at expiry
+const revokedSessionIds = new Set<string>();
+
 export interface UserTokenPayload {
   id: string;
   butcherId: string;
   name: string;
   role?: 'butcher' | 'admin';
+  staffId?: string; // Username of a staff account (absent for the shop's shared login)
+  staffRole?: StaffRole;
+  sid?: string; // Session the token belongs to (absent on legacy tokens)
+  iat?: number; // Issued at (seconds), set when the token is signed
 }
 
 /**
- * Generate JWT token for user authentication
- * ✅ FIX: Use 30 days expiration for persistent login
+ * Generate a short-lived access token for a session (ACCESS_TOKEN_TTL_MINUTES)
+ * Persistent login comes from the session's refresh token, see auth/sessions.ts
  */
 export function generateUserToken(user: UserTokenPayload): string {
   return createJWT(
@@ -119,13 +134,36 @@ export function generateUserToken(user: UserTokenPayload): string {
       id: user.id,
       butcherId: user.butcherId,
       name: user.name,
-      role: user.role || 'butcher'
+      role: user.role || 'butcher',
+      ...(user.staffId ? { staffId: user.staffId, staffRole: user.staffRole } : {}),
+      ...(user.sid ? { sid: user.sid } : {})
     },
     JWT_SECRET,
-    '30d' // ✅ FIX: 30 days instead of 24h for persistent login
+    `${ACCESS_TOKEN_TTL_MINUTES}m`
   );
 }
 
+/**
+ * Refuse access tokens of a session from now on (called when the session is revoked)
+ */
+export function markSessionRevoked(sessionId: string): void {
+  revokedSessionIds.add(sessionId);
+}
+
+/**
+ * Check if a session was revoked on this instance
+ */
+export function isSessionMarkedRevoked(sessionId: string): boolean {
+  return revokedSessionIds.has(sessionId);
+}
+
+/**
+ * Access token lifetime in seconds (returned to clients so they refresh ahead of expiry)
+ */
+export function getAccessTokenTtlSeconds(): number {
+  return ACCESS_TOKEN_TTL_MINUTES * 60;
+}
+
 /**
  * Verify and decode user JWT token
  * ✅ FIX: Returns token payload even if expired (for auto-refresh)
@@ -134,6 +172,9 @@ export function verifyUserToken(token: string, allowExpired: boolean = false): U
   try {
     const decoded = verifyJWT(token, JWT_SECRET);
     if (decoded) {
+      if (decoded.sid ? revokedSessionIds.has(decoded.sid) : !LEGACY_TOKENS_ENABLED) {
+        return null;
+      }
       return decoded as UserTokenPayload;
     }
     
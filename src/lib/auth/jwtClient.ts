@@ -4,6 +4,8 @@
  * Signature verification happens server-side
  */
 
+import type { StaffRole } from './staffRoles';
+
 function base64UrlDecode(str: string): string {
   let base64 = str.replace(/-/g, '+').replace(/_/g, '/');
   while (base64.length % 4) {
@@ -21,6 +23,9 @@ export interface UserTokenPayload {
   butcherId: string;
   name: string;
   role?: 'butcher' | 'admin';
+  staffId?: string;
+  staffRole?: StaffRole;
+  sid?: string; // Session the token belongs to (absent on legacy tokens)
   exp?: number;
   iat?: number;
 }
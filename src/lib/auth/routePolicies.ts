@@ -0,0 +1,197 @@
+/**
+ * Route Access Policies
+ * Who may call each /api and /vcs route, enforced for every request by src/middleware.ts
+ *
+ * - public: anyone (login, the forced password change before a first session, health, the butcher list the login page needs)
+ * - butcher: a signed-in butcher, staff member or admin. When the policy names where the resource's
+ *   butcher ID is (path segment or query parameter) a butcher can only reach their own; without the ID only admins pass
+ * - admin: admin tokens only
+ * - machine: Central API and other servers, with the API secret as bearer. `signed` routes also accept
+ *   HMAC-signed webhooks, which the handler verifies (the signature covers the raw body)
+ *
+ * Handlers still check staff permissions and resources named in the body (e.g. the order a butcher responds to).
+ * A route or method missing from ROUTE_POLICIES is refused, and scripts/test-route-policies.js fails,
+ * so keep one route per line here - that script reads this table.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { verifyUserToken, verifyAPISecret, extractTokenFromHeader, type UserTokenPayload } from './jwt';
+import { WEBHOOK_SIGNATURE_HEADER } from './webhookSignature';
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export type RoutePolicy =
+  | { access: 'public' }
+  | {
+      access: 'butcher';
+      butcherParam?: string; // Path segment holding the resource's butcher ID
+      butcherQuery?: string; // Query parameter holding the resource's butcher ID
+      tokenQuery?: boolean; // Token may come as ?token= (EventSource can't send headers)
+    }
+  | { access: 'admin' }
+  | { access: 'machine'; signed?: boolean };
+
+// One policy for every method, or one per method
+export type RouteRule = RoutePolicy | Partial<Record<HttpMethod, RoutePolicy>>;
+
+const PUBLIC: RoutePolicy = { access: 'public' };
+const SIGNED_IN: RoutePolicy = { access: 'butcher' };
+const ADMIN: RoutePolicy = { access: 'admin' };
+const MACHINE: RoutePolicy = { access: 'machine' };
+const CENTRAL_API_WEBHOOK: RoutePolicy = { access: 'machine', signed: true };
+const OWN_BUTCHER: RoutePolicy = { access: 'butcher', butcherParam: 'butcherId' };
+
+/**
+ * Policy per route, keyed by its path under src/app
+ */
+export const ROUTE_POLICIES: Record<string, RouteRule> = {
+  '/api/analytics/[butcherId]': OWN_BUTCHER,
+  '/api/auth/change-password': PUBLIC,
+  '/api/auth/credentials': ADMIN,
+  '/api/auth/credentials/[butcherId]': ADMIN,
+  '/api/auth/login': PUBLIC,
+  '/api/auth/logout': PUBLIC,
+  '/api/auth/refresh-token': PUBLIC,
+  '/api/auth/sessions': { GET: SIGNED_IN, DELETE: ADMIN },
+  '/api/auth/sessions/[sessionId]': SIGNED_IN,
+  '/api/butchers': { GET: PUBLIC, POST: ADMIN },
+  '/api/complete-order': SIGNED_IN,
+  '/api/contact': { GET: { access: 'butcher', butcherQuery: 'butcherId' }, POST: SIGNED_IN, PUT: ADMIN, DELETE: { access: 'butcher', butcherQuery: 'butcherId' } },
+  '/api/dam-analysis/sales': ADMIN,
+  '/api/dam-analysis/target': ADMIN,
+  '/api/dead-letters': ADMIN,
+  '/api/dead-letters/[id]': ADMIN,
+  '/api/health': PUBLIC,
+  '/api/menu/[butcherId]': OWN_BUTCHER,
+  '/api/notifications': { GET: ADMIN, POST: MACHINE, PUT: ADMIN },
+  '/api/orders-cache/[butcherId]': OWN_BUTCHER,
+  '/api/orders/[butcherId]': OWN_BUTCHER,
+  '/api/orders/ack': SIGNED_IN,
+  '/api/orders/reassign': ADMIN,
+  '/api/orders/respond': SIGNED_IN,
+  '/api/orders/stream': { GET: { access: 'butcher', butcherQuery: 'butcherId', tokenQuery: true } },
+  '/api/prepare-order': SIGNED_IN,
+  '/api/presence': { GET: ADMIN, POST: SIGNED_IN },
+  '/api/purchase-prices/[butcherId]': OWN_BUTCHER,
+  '/api/rate-monitor': ADMIN,
+  '/api/rates': ADMIN,
+  '/api/sales-data': MACHINE,
+  '/api/sheet-schema': ADMIN,
+  '/api/sheet-sync': ADMIN,
+  '/api/sheet-sync/conflicts/[id]': ADMIN,
+  '/api/staff/[butcherId]': OWN_BUTCHER,
+  '/api/staff/[butcherId]/[username]': OWN_BUTCHER,
+  '/api/zoho/contacts': ADMIN,
+  '/api/zoho/invoices': ADMIN,
+  '/api/zoho/payment-links': ADMIN,
+  '/api/zoho/payments': ADMIN,
+  '/api/zoho/test': ADMIN,
+  '/vcs/orders/[orderNo]/substitution': CENTRAL_API_WEBHOOK,
+  '/vcs/orders/new': CENTRAL_API_WEBHOOK
+};
+
+interface CompiledRoute {
+  route: string;
+  pattern: RegExp;
+  params: string[];
+  rule: RouteRule;
+}
+
+// Static segments win over dynamic ones, as in Next's router (/api/orders/stream before /api/orders/[butcherId])
+const compiledRoutes: CompiledRoute[] = Object.entries(ROUTE_POLICIES)
+  .map(([route, rule]) => {
+    const params: string[] = [];
+    const source = route.split('/').map(segment => {
+      const dynamic = segment.match(/^\[(.+)\]$/);
+      if (!dynamic) return segment.replace(/[.*+?^${}()|\\]/g, '\\$&');
+      params.push(dynamic[1]);
+      return '([^/]+)';
+    }).join('/');
+    return { route, pattern: new RegExp(`^${source}/?$`), params, rule };
+  })
+  .sort((a, b) => a.params.length - b.params.length);
+
+export type RouteMatch = { route: string; policy: RoutePolicy | null; params: Record<string, string> };
+
+/**
+ * Find the policy for a request path and method
+ * Returns null for an unknown route; `policy` is null when the route has no policy for the method
+ */
+export function matchRoutePolicy(pathname: string, method: string): RouteMatch | null {
+  for (const compiled of compiledRoutes) {
+    const match = pathname.match(compiled.pattern);
+    if (!match) continue;
+
+    const params: Record<string, string> = {};
+    compiled.params.forEach((name, index) => {
+      params[name] = decodeURIComponent(match[index + 1]);
+    });
+
+    const rule = compiled.rule;
+    const policyMethod = method === 'HEAD' ? 'GET' : method as HttpMethod;
+    const policy = 'access' in rule ? rule as RoutePolicy : (rule as Partial<Record<HttpMethod, RoutePolicy>>)[policyMethod] || null;
+    return { route: compiled.route, policy, params };
+  }
+  return null;
+}
+
+const unauthorized = (message: string) =>
+  NextResponse.json({ error: 'Unauthorized', message }, { status: 401 });
+
+const forbidden = (message: string) =>
+  NextResponse.json({ error: 'Forbidden', message }, { status: 403 });
+
+/**
+ * Check a request against its route's policy
+ * Returns null when it may proceed, or the error response
+ */
+export function authorizeRoute(request: NextRequest): NextResponse | null {
+  // CORS preflights carry no credentials
+  if (request.method === 'OPTIONS') return null;
+
+  const { pathname, searchParams } = request.nextUrl;
+  const match = matchRoutePolicy(pathname, request.method);
+
+  if (!match) {
+    console.error(`[RouteAuth] No access policy for ${pathname} - add it to ROUTE_POLICIES`);
+    return forbidden('No access policy for this route');
+  }
+  if (!match.policy) {
+    return NextResponse.json(
+      { error: 'Method not allowed', message: `${request.method} is not allowed on ${match.route}` },
+      { status: 405 }
+    );
+  }
+
+  const policy = match.policy;
+  const bearer = extractTokenFromHeader(request.headers.get('Authorization'));
+
+  switch (policy.access) {
+    case 'public':
+      return null;
+
+    case 'machine':
+      if (policy.signed && request.headers.has(WEBHOOK_SIGNATURE_HEADER)) {
+        return null;
+      }
+      return bearer && verifyAPISecret(bearer) ? null : unauthorized('Invalid API secret');
+
+    case 'admin': {
+      const user = bearer ? verifyUserToken(bearer) : null;
+      if (!user) return unauthorized('Invalid or expired token');
+      return user.role === 'admin' ? null : forbidden('Admin access required');
+    }
+
+    case 'butcher': {
+      const token = bearer || (policy.tokenQuery ? searchParams.get('token') : null);
+      const user: UserTokenPayload | null = token ? verifyUserToken(token) : null;
+      if (!user) return unauthorized('Invalid or expired token');
+      if (user.role === 'admin') return null;
+
+      if (!policy.butcherParam && !policy.butcherQuery) return null;
+      const butcherId = policy.butcherParam ? match.params[policy.butcherParam] : searchParams.get(policy.butcherQuery!);
+      if (!butcherId) return forbidden('Admin access required');
+      return butcherId === user.butcherId ? null : forbidden('Access denied');
+    }
+  }
+}
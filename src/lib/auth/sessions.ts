@@ -0,0 +1,325 @@
+/**
+ * Login Sessions
+ * Every login creates a session (one per device) that issues short-lived access tokens and a rotating refresh token
+ *
+ * - Refresh tokens look like `<sessionId>.<secret>` and are stored only as sha256 hashes
+ * - Each refresh replaces the refresh token; presenting an earlier one again means it was copied, so the whole
+ *   session is revoked (reuse detection). A second refresh with the token that was just rotated (two tabs refreshing
+ *   at once) gets a 409 within REUSE_GRACE_MS instead
+ * - Revoking a session refuses its access tokens on this instance straight away and closes its SSE streams;
+ *   other instances see the revocation within SESSION_CACHE_MS and their access tokens expire within ACCESS_TOKEN_TTL_MINUTES
+ * - A token from before sessions is exchanged for a session once (the session records which token started it),
+ *   and not at all when it was issued before its butcher or user was logged out everywhere
+ */
+
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { getRepositories } from '../repositories';
+import type { StoredSession } from '../repositories/types';
+import { closeSessionConnections } from '../sseConnectionManager';
+import { generateUserToken, markSessionRevoked, getAccessTokenTtlSeconds, type UserTokenPayload } from './jwt';
+import { getActiveStaffMember } from './staff';
+
+const REFRESH_TOKEN_TTL_MS = parseFloat(process.env.REFRESH_TOKEN_TTL_DAYS || '30') * 24 * 60 * 60 * 1000;
+const SESSION_CACHE_MS = 60 * 1000;
+const REUSE_GRACE_MS = 30 * 1000;
+const MAX_ROTATED_HASHES = 20;
+
+// Legacy tokens being exchanged on this instance right now (two tabs refreshing at once)
+const exchangingLegacyTokens = new Set<string>();
+
+let sessionCache: { sessions: StoredSession[]; loadedAt: number } | null = null;
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+}
+
+export interface DeviceInfo {
+  userAgent: string;
+  ip: string;
+}
+
+// Session as shown to admins - without token hashes
+export type SessionSummary = Omit<StoredSession, 'refreshTokenHash' | 'rotatedTokenHashes'> & { active: boolean };
+
+export class SessionError extends Error {
+  constructor(message: string, public status: number = 401) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const hashesMatch = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+const isActive = (session: StoredSession) => !session.revokedAt && new Date(session.expiresAt).getTime() > Date.now();
+
+const toSummary = (session: StoredSession): SessionSummary => ({
+  id: session.id,
+  butcherId: session.butcherId,
+  userId: session.userId,
+  name: session.name,
+  role: session.role,
+  ...(session.staffId ? { staffId: session.staffId, staffRole: session.staffRole } : {}),
+  rotatedAt: session.rotatedAt,
+  userAgent: session.userAgent,
+  ip: session.ip,
+  createdAt: session.createdAt,
+  lastUsedAt: session.lastUsedAt,
+  expiresAt: session.expiresAt,
+  revokedAt: session.revokedAt,
+  revokedBy: session.revokedBy,
+  revokedReason: session.revokedReason,
+  active: isActive(session)
+});
+
+function issueTokens(session: StoredSession): { tokens: SessionTokens; refreshTokenHash: string } {
+  const refreshToken = `${session.id}.${randomBytes(32).toString('base64url')}`;
+  const token = generateUserToken({
+    id: session.userId,
+    butcherId: session.butcherId,
+    name: session.name,
+    role: session.role,
+    ...(session.staffId ? { staffId: session.staffId, staffRole: session.staffRole } : {}),
+    sid: session.id
+  });
+
+  return {
+    tokens: { token, refreshToken, expiresIn: getAccessTokenTtlSeconds() },
+    refreshTokenHash: hashToken(refreshToken)
+  };
+}
+
+async function saveSession(session: StoredSession): Promise<void> {
+  await getRepositories().sessions.saveSession(session);
+  sessionCache = null;
+}
+
+/**
+ * Read the device a request comes from (stored on the session so admins can tell devices apart)
+ */
+export function getDeviceInfo(headers: Headers): DeviceInfo {
+  return {
+    userAgent: (headers.get('user-agent') || 'unknown').slice(0, 200),
+    ip: headers.get('x-forwarded-for')?.split(',')[0].trim() || headers.get('x-real-ip') || ''
+  };
+}
+
+/**
+ * Start a session after a successful login, returning its first access and refresh tokens
+ */
+export async function createSession(user: UserTokenPayload, device: DeviceInfo, legacyTokenKey?: string): Promise<SessionTokens> {
+  const now = new Date();
+  const session: StoredSession = {
+    id: randomBytes(12).toString('base64url'),
+    butcherId: user.butcherId || '',
+    userId: user.id,
+    name: user.name,
+    role: user.role || 'butcher',
+    ...(user.staffId ? { staffId: user.staffId, staffRole: user.staffRole } : {}),
+    refreshTokenHash: '',
+    rotatedTokenHashes: [],
+    rotatedAt: null,
+    userAgent: device.userAgent,
+    ip: device.ip,
+    createdAt: now.toISOString(),
+    lastUsedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS).toISOString(),
+    revokedAt: null,
+    revokedBy: null,
+    revokedReason: null,
+    ...(legacyTokenKey ? { legacyTokenKey } : {})
+  };
+
+  const { tokens, refreshTokenHash } = issueTokens(session);
+  await saveSession({ ...session, refreshTokenHash });
+  return tokens;
+}
+
+/**
+ * Start a session for a still-valid token from before sessions (`token` is its verified payload)
+ * Throws SessionError 401 when the token was exchanged already, or was issued before its butcher or user
+ * was logged out everywhere
+ */
+export async function exchangeLegacyToken(token: UserTokenPayload, user: UserTokenPayload, device: DeviceInfo): Promise<SessionTokens> {
+  if (!token.iat) {
+    throw new SessionError('Token has no issue time');
+  }
+
+  const legacyTokenKey = `${token.id}:${token.iat}`;
+  if (exchangingLegacyTokens.has(legacyTokenKey)) {
+    throw new SessionError('Token is already being exchanged', 409);
+  }
+
+  exchangingLegacyTokens.add(legacyTokenKey);
+  try {
+    const repositories = getRepositories();
+    if ((await repositories.sessions.getSessions()).some(session => session.legacyTokenKey === legacyTokenKey)) {
+      console.warn(`[Sessions] Refused a second exchange of the legacy token of ${token.id} issued at ${token.iat}`);
+      throw new SessionError('Token was already exchanged for a session');
+    }
+
+    const scopes = [`user:${token.id}`, ...(token.butcherId ? [`butcher:${token.butcherId}`] : [])];
+    const issuedAt = token.iat * 1000;
+    const cutoff = (await repositories.sessions.getCutoffs())
+      .find(entry => scopes.includes(entry.scope) && issuedAt < new Date(entry.revokedAt).getTime());
+    if (cutoff) {
+      throw new SessionError('Token was revoked');
+    }
+
+    return await createSession(user, device, legacyTokenKey);
+  } finally {
+    exchangingLegacyTokens.delete(legacyTokenKey);
+  }
+}
+
+/**
+ * Swap a refresh token for a new access token and refresh token
+ * Throws SessionError: 401 for unknown, expired or revoked sessions (and on reuse, which revokes the session),
+ * 409 when the token was rotated by another request a moment ago
+ */
+export async function rotateRefreshToken(refreshToken: string, device: DeviceInfo): Promise<SessionTokens> {
+  const sessionId = String(refreshToken || '').split('.')[0];
+  const session = sessionId ? await getRepositories().sessions.getSession(sessionId) : null;
+  if (!session || !isActive(session)) {
+    throw new SessionError('Session expired or logged out');
+  }
+
+  const presentedHash = hashToken(refreshToken);
+  if (!hashesMatch(presentedHash, session.refreshTokenHash)) {
+    const lastRotated = session.rotatedTokenHashes[session.rotatedTokenHashes.length - 1];
+    const rotatedAgo = session.rotatedAt ? Date.now() - new Date(session.rotatedAt).getTime() : Infinity;
+
+    if (lastRotated && hashesMatch(presentedHash, lastRotated) && rotatedAgo < REUSE_GRACE_MS) {
+      throw new SessionError('Refresh token was just rotated by another request', 409);
+    }
+    if (session.rotatedTokenHashes.some(hash => hashesMatch(presentedHash, hash))) {
+      console.warn(`[Sessions] Refresh token reuse on session ${session.id} (${session.userId}) - revoking it`);
+      await revokeSession(session.id, 'system', 'Refresh token reused');
+    }
+    throw new SessionError('Session expired or logged out');
+  }
+
+  // Staff sessions end when the account is deactivated, and pick up role changes
+  let current = session;
+  if (session.staffId) {
+    const member = await getActiveStaffMember(session.butcherId, session.staffId);
+    if (!member) {
+      await revokeSession(session.id, 'system', 'Staff account deactivated');
+      throw new SessionError('Staff account is no longer active');
+    }
+    current = { ...session, name: member.name, staffRole: member.role };
+  }
+
+  const { tokens, refreshTokenHash } = issueTokens(current);
+  const now = new Date().toISOString();
+  await saveSession({
+    ...current,
+    refreshTokenHash,
+    rotatedTokenHashes: [...session.rotatedTokenHashes, session.refreshTokenHash].slice(-MAX_ROTATED_HASHES),
+    rotatedAt: now,
+    lastUsedAt: now,
+    userAgent: device.userAgent || session.userAgent,
+    ip: device.ip || session.ip
+  });
+  return tokens;
+}
+
+/**
+ * Revoke a session: its refresh token stops working, its access tokens are refused and its SSE streams close
+ */
+export async function revokeSession(sessionId: string, revokedBy: string, reason: string): Promise<boolean> {
+  const session = await getRepositories().sessions.getSession(sessionId);
+  if (!session || session.revokedAt) {
+    return false;
+  }
+
+  await saveSession({ ...session, revokedAt: new Date().toISOString(), revokedBy, revokedReason: reason });
+  markSessionRevoked(sessionId);
+  closeSessionConnections([sessionId]);
+  console.log(`[Sessions] Session ${sessionId} (${session.userId}) revoked by ${revokedBy}: ${reason}`);
+  return true;
+}
+
+/**
+ * Revoke the session a refresh token belongs to (logout after the access token expired)
+ * Only the current refresh token works, so a session id alone can't end someone else's session
+ */
+export async function revokeSessionByRefreshToken(refreshToken: string): Promise<boolean> {
+  const sessionId = String(refreshToken || '').split('.')[0];
+  const session = sessionId ? await getRepositories().sessions.getSession(sessionId) : null;
+  if (!session || !hashesMatch(hashToken(refreshToken), session.refreshTokenHash)) {
+    return false;
+  }
+  return revokeSession(session.id, session.userId, 'Logged out');
+}
+
+/**
+ * Log out every device of a butcher (shared login and staff), or only one user's devices
+ * Tokens from before sessions issued until now can no longer be exchanged for a session either
+ */
+export async function revokeAllSessions(butcherId: string, revokedBy: string, options: { userId?: string; reason?: string } = {}): Promise<string[]> {
+  const sessions = (await getRepositories().sessions.getSessions())
+    .filter(session => session.butcherId === butcherId && isActive(session))
+    .filter(session => !options.userId || session.userId === options.userId);
+
+  const revokedAt = new Date().toISOString();
+  await getRepositories().sessions.saveCutoff({
+    scope: options.userId ? `user:${options.userId}` : `butcher:${butcherId}`,
+    revokedAt,
+    revokedBy
+  });
+
+  for (const session of sessions) {
+    await getRepositories().sessions.saveSession({
+      ...session,
+      revokedAt,
+      revokedBy,
+      revokedReason: options.reason || 'Logged out everywhere'
+    });
+    markSessionRevoked(session.id);
+  }
+
+  sessionCache = null;
+  const ids = sessions.map(session => session.id);
+  closeSessionConnections(ids);
+  if (ids.length > 0) {
+    console.log(`[Sessions] ${revokedBy} revoked ${ids.length} session(s) of ${options.userId || butcherId}`);
+  }
+  return ids;
+}
+
+/**
+ * Check a session is still active (used by long-lived SSE streams)
+ * Reads the shared session list at most once per SESSION_CACHE_MS, so revocations on other instances are seen
+ */
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  if (!sessionCache || Date.now() - sessionCache.loadedAt > SESSION_CACHE_MS) {
+    sessionCache = { sessions: await getRepositories().sessions.getSessions(), loadedAt: Date.now() };
+  }
+
+  const session = sessionCache.sessions.find(stored => stored.id === sessionId);
+  if (session && !isActive(session)) {
+    markSessionRevoked(sessionId);
+  }
+  return !!session && isActive(session);
+}
+
+/**
+ * Sessions for the admin view, newest first - active only unless includeInactive
+ */
+export async function listSessions(options: { butcherId?: string; includeInactive?: boolean } = {}): Promise<SessionSummary[]> {
+  const sessions = await getRepositories().sessions.getSessions();
+
+  return sessions
+    .filter(session => options.butcherId === undefined || session.butcherId === options.butcherId)
+    .filter(session => options.includeInactive || isActive(session))
+    .sort((a, b) => b.lastUsedAt.localeCompare(a.lastUsedAt))
+    .map(toSummary);
+}
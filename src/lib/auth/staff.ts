@@ -0,0 +1,295 @@
+/**
+ * Staff Accounts
+ * Per-butcher staff logins (owner, counter staff, cutter) and the permission checks the API routes run
+ * before touching a butcher's menu, orders or earnings
+ *
+ * - Staff log in with the butcher id, their username and their own password; their token carries staffId/staffRole
+ * - Role and active flag are re-read from the staff store (cached briefly) on every check, so a role change or
+ *   deactivation applies straight away instead of when the token expires
+ * - Order actions record the staff id (`<butcherId>:<username>`) and name in the order's statusHistory
+ */
+
+import { getRepositories } from '../repositories';
+import type { StoredStaffMember } from '../repositories/types';
+import { getButcherConfig } from '../butcherConfig';
+import type { UserTokenPayload } from './jwt';
+import {
+  checkPasswordStrength,
+  getFailedAttempts,
+  hashPassword,
+  lockoutRemaining,
+  recordFailure,
+  unlockButcher,
+  verifyPasswordHash
+} from './credentials';
+import {
+  ROLE_PERMISSIONS,
+  getStaffActorId,
+  isStaffRole,
+  roleHasPermission,
+  type StaffPermission,
+  type StaffRole
+} from './staffRoles';
+
+const STAFF_CACHE_MS = 30 * 1000;
+const USERNAME_PATTERN = /^[a-z0-9._-]{2,32}$/;
+
+const staffCache = new Map<string, { members: StoredStaffMember[]; loadedAt: number }>();
+
+export interface StaffMember {
+  id: string; // <butcherId>:<username>
+  butcherId: string;
+  username: string;
+  name: string;
+  role: StaffRole;
+  permissions: StaffPermission[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string;
+  failedAttempts: number;
+  lockedUntil: string | null;
+}
+
+export type StaffLoginResult =
+  | { authenticated: true; member: StoredStaffMember }
+  | { authenticated: false; reason: 'invalid' | 'locked'; retryAfterSeconds?: number };
+
+export type StaffAuthorization =
+  | { allowed: true }
+  | { allowed: false; status: 401 | 403; message: string };
+
+export class StaffError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'StaffError';
+  }
+}
+
+const normalizeUsername = (username: string) => String(username || '').trim().toLowerCase();
+
+async function getStoredMembers(butcherId: string): Promise<StoredStaffMember[]> {
+  const cached = staffCache.get(butcherId);
+  if (cached && Date.now() - cached.loadedAt < STAFF_CACHE_MS) {
+    return cached.members;
+  }
+
+  const members = await getRepositories().staff.getStaff(butcherId);
+  staffCache.set(butcherId, { members, loadedAt: Date.now() });
+  return members;
+}
+
+async function findMember(butcherId: string, username: string): Promise<StoredStaffMember | null> {
+  const members = await getStoredMembers(butcherId);
+  return members.find(member => member.username === normalizeUsername(username)) || null;
+}
+
+async function saveMember(member: StoredStaffMember): Promise<void> {
+  await getRepositories().staff.saveStaffMember(member);
+  staffCache.delete(member.butcherId);
+}
+
+const toStaffMember = (member: StoredStaffMember): StaffMember => {
+  const id = getStaffActorId(member.butcherId, member.username);
+  const lockedFor = lockoutRemaining(id);
+  return {
+    id,
+    butcherId: member.butcherId,
+    username: member.username,
+    name: member.name,
+    role: member.role,
+    active: member.active,
+    createdAt: member.createdAt,
+    updatedAt: member.updatedAt,
+    updatedBy: member.updatedBy,
+    permissions: [...ROLE_PERMISSIONS[member.role]],
+    failedAttempts: getFailedAttempts(id),
+    lockedUntil: lockedFor > 0 ? new Date(Date.now() + lockedFor).toISOString() : null
+  };
+};
+
+/**
+ * A butcher's staff accounts (without password hashes)
+ */
+export async function listStaff(butcherId: string): Promise<StaffMember[]> {
+  return (await getStoredMembers(butcherId)).map(toStaffMember);
+}
+
+/**
+ * The staff account behind a token, or null when it no longer exists or was deactivated
+ */
+export async function getActiveStaffMember(butcherId: string, username: string): Promise<StoredStaffMember | null> {
+  const member = await findMember(butcherId, username);
+  return member?.active ? member : null;
+}
+
+/**
+ * Add a staff account to a butcher
+ */
+export async function createStaffMember(
+  butcherId: string,
+  input: { username: string; name?: string; role: string; password: string },
+  createdBy: string
+): Promise<StaffMember> {
+  if (!getButcherConfig(butcherId)) {
+    throw new StaffError(`Butcher ${butcherId} not found`, 404);
+  }
+
+  const username = normalizeUsername(input.username);
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new StaffError('Username must be 2-32 characters: letters, numbers, dots, dashes or underscores');
+  }
+  if (!isStaffRole(input.role)) {
+    throw new StaffError(`Unknown role: ${input.role}`);
+  }
+  if (await findMember(butcherId, username)) {
+    throw new StaffError(`${username} already exists for ${butcherId}`, 409);
+  }
+  checkPasswordStrength(input.password, username);
+
+  const now = new Date().toISOString();
+  const member: StoredStaffMember = {
+    butcherId,
+    username,
+    name: input.name?.trim() || username,
+    role: input.role,
+    passwordHash: await hashPassword(input.password),
+    active: true,
+    createdAt: now,
+    updatedAt: now,
+    updatedBy: createdBy
+  };
+
+  await saveMember(member);
+  console.log(`[Staff] ${createdBy} added ${member.role} ${username} to ${butcherId}`);
+  return toStaffMember(member);
+}
+
+/**
+ * Change a staff account's name, role or active flag, or set a new password (which also clears its lockout)
+ */
+export async function updateStaffMember(
+  butcherId: string,
+  username: string,
+  changes: { name?: string; role?: string; active?: boolean; password?: string },
+  updatedBy: string
+): Promise<StaffMember> {
+  const member = await findMember(butcherId, username);
+  if (!member) {
+    throw new StaffError(`Staff member ${username} not found`, 404);
+  }
+  if (changes.role !== undefined && !isStaffRole(changes.role)) {
+    throw new StaffError(`Unknown role: ${changes.role}`);
+  }
+
+  const updated: StoredStaffMember = {
+    ...member,
+    ...(changes.name !== undefined ? { name: changes.name.trim() || member.username } : {}),
+    ...(changes.role !== undefined ? { role: changes.role as StaffRole } : {}),
+    ...(changes.active !== undefined ? { active: changes.active } : {}),
+    updatedAt: new Date().toISOString(),
+    updatedBy
+  };
+
+  if (changes.password) {
+    checkPasswordStrength(changes.password, member.username);
+    updated.passwordHash = await hashPassword(changes.password);
+    unlockButcher(getStaffActorId(butcherId, member.username));
+  }
+
+  await saveMember(updated);
+  console.log(`[Staff] ${updatedBy} updated ${butcherId}:${member.username}`);
+  return toStaffMember(updated);
+}
+
+/**
+ * Check a staff member's login, with the same lockout as butcher logins
+ */
+export async function authenticateStaff(butcherId: string, username: string, password: string): Promise<StaffLoginResult> {
+  const loginId = getStaffActorId(butcherId, normalizeUsername(username));
+  const remaining = lockoutRemaining(loginId);
+  if (remaining > 0) {
+    return { authenticated: false, reason: 'locked', retryAfterSeconds: Math.ceil(remaining / 1000) };
+  }
+
+  const member = getButcherConfig(butcherId) ? await getActiveStaffMember(butcherId, username) : null;
+  if (!member) {
+    await hashPassword(password); // Same timing as a wrong password
+  }
+
+  if (!member || !(await verifyPasswordHash(password, member.passwordHash))) {
+    recordFailure(loginId);
+    const lockedFor = lockoutRemaining(loginId);
+    return lockedFor > 0
+      ? { authenticated: false, reason: 'locked', retryAfterSeconds: Math.ceil(lockedFor / 1000) }
+      : { authenticated: false, reason: 'invalid' };
+  }
+
+  unlockButcher(loginId);
+  return { authenticated: true, member };
+}
+
+/**
+ * Change a staff member's own password (the current password must be given)
+ */
+export async function changeStaffPassword(butcherId: string, username: string, currentPassword: string, newPassword: string): Promise<void> {
+  const result = await authenticateStaff(butcherId, username, currentPassword);
+  if (!result.authenticated) {
+    throw result.reason === 'locked'
+      ? new StaffError(`Too many failed attempts, try again in ${Math.ceil((result.retryAfterSeconds || 0) / 60)} minutes`, 429)
+      : new StaffError('Current password is incorrect', 401);
+  }
+  if (newPassword === currentPassword) {
+    throw new StaffError('New password must be different from the current one');
+  }
+
+  checkPasswordStrength(newPassword, result.member.username);
+  await saveMember({
+    ...result.member,
+    passwordHash: await hashPassword(newPassword),
+    updatedAt: new Date().toISOString(),
+    updatedBy: getStaffActorId(butcherId, result.member.username)
+  });
+}
+
+/**
+ * Check a token may do something for a butcher
+ * Admins may do everything; the shop's shared login acts as owner; staff get their current role's permissions
+ */
+export async function authorizeButcherAction(
+  user: UserTokenPayload,
+  butcherId: string,
+  permission: StaffPermission
+): Promise<StaffAuthorization> {
+  if (user.role === 'admin') {
+    return { allowed: true };
+  }
+  if (user.butcherId !== butcherId) {
+    return { allowed: false, status: 403, message: 'Access denied' };
+  }
+
+  let role: StaffRole | undefined;
+  if (user.staffId) {
+    const member = await getActiveStaffMember(butcherId, user.staffId);
+    if (!member) {
+      return { allowed: false, status: 401, message: 'Staff account is no longer active' };
+    }
+    role = member.role;
+  }
+
+  return roleHasPermission(role, permission)
+    ? { allowed: true }
+    : { allowed: false, status: 403, message: `Your role can't do this (${permission})` };
+}
+
+/**
+ * Who an order action is recorded as - the staff member when a staff token is used
+ */
+export function getOrderActor(user: UserTokenPayload | null, fallback: string): { by: string; byName?: string } {
+  if (!user) {
+    return { by: fallback };
+  }
+  return user.staffId
+    ? { by: user.id, byName: user.name }
+    : { by: user.id || fallback };
+}
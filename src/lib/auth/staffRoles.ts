@@ -0,0 +1,44 @@
+/**
+ * Staff Roles
+ * What each staff role of a butcher may do - shared by the API routes and the dashboard (no server imports)
+ *
+ * The shop's shared login (a token without staffRole) acts as the owner, so existing logins keep working
+ */
+
+export type StaffRole = 'owner' | 'counter' | 'cutter';
+
+export type StaffPermission =
+  | 'orders:respond' // Accept, weigh, reject or substitute items on new orders
+  | 'orders:prepare' // Mark orders prepared / completed
+  | 'menu:edit'
+  | 'earnings:view' // Analytics pages and revenue
+  | 'staff:manage';
+
+export const STAFF_ROLES: StaffRole[] = ['owner', 'counter', 'cutter'];
+
+export const STAFF_ROLE_LABELS: Record<StaffRole, string> = {
+  owner: 'Owner',
+  counter: 'Counter staff',
+  cutter: 'Cutter'
+};
+
+export const ROLE_PERMISSIONS: Record<StaffRole, StaffPermission[]> = {
+  owner: ['orders:respond', 'orders:prepare', 'menu:edit', 'earnings:view', 'staff:manage'],
+  counter: ['orders:respond', 'orders:prepare', 'menu:edit'],
+  cutter: ['orders:prepare']
+};
+
+export const isStaffRole = (value: unknown): value is StaffRole =>
+  typeof value === 'string' && (STAFF_ROLES as string[]).includes(value);
+
+/**
+ * Check if a role may do something (no role = the shop's shared login = owner)
+ */
+export function roleHasPermission(role: StaffRole | undefined, permission: StaffPermission): boolean {
+  return ROLE_PERMISSIONS[role || 'owner'].includes(permission);
+}
+
+/**
+ * Id a staff member acts under in tokens and order audit trails
+ */
+export const getStaffActorId = (butcherId: string, username: string) => `${butcherId}:${username}`;
@@ -0,0 +1,145 @@
+/**
+ * Webhook Signature Verification
+ * HMAC-SHA256 signed request bodies for Central API → VCS calls
+ *
+ * Headers:
+ *   X-Webhook-Timestamp: unix seconds
+ *   X-Webhook-Nonce: unique per request
+ *   X-Webhook-Signature: hex HMAC-SHA256 of "<timestamp>.<nonce>.<raw body>"
+ *
+ * Two secrets can be active at once (WEBHOOK_SECRET and WEBHOOK_SECRET_PREVIOUS)
+ * so the Central API can be switched to a new secret without downtime.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { verifyAPISecret, extractTokenFromHeader } from './jwt';
+
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_NONCE_HEADER = 'X-Webhook-Nonce';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+const MAX_CLOCK_SKEW_SECONDS = parseInt(process.env.WEBHOOK_MAX_SKEW_SECONDS || '300', 10);
+
+export type WebhookVerificationResult =
+  | { valid: true }
+  | { valid: false; reason: 'missing-headers' | 'stale-timestamp' | 'bad-signature' | 'replayed-nonce' | 'not-configured' };
+
+// Nonces seen within the skew window: nonce → expiry (ms)
+const seenNonces = new Map<string, number>();
+
+/**
+ * Active signing secrets, newest first
+ */
+function getActiveSecrets(): string[] {
+  return [process.env.WEBHOOK_SECRET, process.env.WEBHOOK_SECRET_PREVIOUS]
+    .filter((secret): secret is string => !!secret);
+}
+
+/**
+ * Whether signed webhooks are configured (otherwise the legacy bearer secret applies)
+ */
+export function isWebhookSigningEnabled(): boolean {
+  return getActiveSecrets().length > 0;
+}
+
+/**
+ * Whether the legacy static bearer is still accepted alongside signatures (rollout only)
+ */
+export function isLegacyBearerAllowed(): boolean {
+  return !isWebhookSigningEnabled() || process.env.WEBHOOK_ALLOW_BEARER === 'true';
+}
+
+/**
+ * Sign a payload (used by tests/tools that simulate the Central API)
+ */
+export function signWebhookPayload(secret: string, timestamp: string, nonce: string, rawBody: string): string {
+  return createHmac('sha256', secret)
+    .update(`${timestamp}.${nonce}.${rawBody}`)
+    .digest('hex');
+}
+
+function pruneNonces(now: number): void {
+  for (const [nonce, expiry] of seenNonces.entries()) {
+    if (expiry <= now) {
+      seenNonces.delete(nonce);
+    }
+  }
+}
+
+/**
+ * Verify a signed webhook request
+ * Checks the timestamp is within the skew window, the signature matches one of the
+ * active secrets (timing-safe), and the nonce hasn't been used before
+ */
+export function verifyWebhookSignature(
+  headers: Headers,
+  rawBody: string
+): WebhookVerificationResult {
+  const secrets = getActiveSecrets();
+  if (secrets.length === 0) {
+    return { valid: false, reason: 'not-configured' };
+  }
+
+  const timestamp = headers.get(WEBHOOK_TIMESTAMP_HEADER);
+  const nonce = headers.get(WEBHOOK_NONCE_HEADER);
+  const signature = headers.get(WEBHOOK_SIGNATURE_HEADER);
+
+  if (!timestamp || !nonce || !signature) {
+    return { valid: false, reason: 'missing-headers' };
+  }
+
+  const now = Date.now();
+  const timestampSeconds = parseInt(timestamp, 10);
+  if (isNaN(timestampSeconds) || Math.abs(now / 1000 - timestampSeconds) > MAX_CLOCK_SKEW_SECONDS) {
+    return { valid: false, reason: 'stale-timestamp' };
+  }
+
+  // Use timing-safe comparison to prevent timing attacks
+  const received = Buffer.from(signature);
+  const matches = secrets.some(secret => {
+    const expected = Buffer.from(signWebhookPayload(secret, timestamp, nonce, rawBody));
+    return received.length === expected.length && timingSafeEqual(received, expected);
+  });
+
+  if (!matches) {
+    return { valid: false, reason: 'bad-signature' };
+  }
+
+  // Only remember nonces of authentic requests, so forged traffic can't fill the map
+  pruneNonces(now);
+  if (seenNonces.has(nonce)) {
+    return { valid: false, reason: 'replayed-nonce' };
+  }
+  seenNonces.set(nonce, now + MAX_CLOCK_SKEW_SECONDS * 2 * 1000);
+
+  return { valid: true };
+}
+
+/**
+ * Authenticate a Central API → VCS request (POST /vcs/...)
+ * Verifies the HMAC signature, or the legacy API secret bearer while it's still allowed
+ */
+export function verifyCentralAPIRequest(
+  headers: Headers,
+  rawBody: string
+): { valid: true } | { valid: false; message: string } {
+  const isSigned = headers.has(WEBHOOK_SIGNATURE_HEADER);
+  if (isWebhookSigningEnabled() && (isSigned || !isLegacyBearerAllowed())) {
+    const verification = verifyWebhookSignature(headers, rawBody);
+    if (!verification.valid) {
+      console.warn(`[Webhook] Rejected request: ${verification.reason}`);
+      return { valid: false, message: `Invalid webhook signature (${verification.reason})` };
+    }
+    return { valid: true };
+  }
+
+  const token = extractTokenFromHeader(headers.get('Authorization'));
+  if (!token || !verifyAPISecret(token)) {
+    return { valid: false, message: 'Invalid API secret' };
+  }
+
+  if (isWebhookSigningEnabled()) {
+    console.warn('[Webhook] Accepted unsigned request via legacy API secret (WEBHOOK_ALLOW_BEARER=true)');
+  }
+  return { valid: true };
+}
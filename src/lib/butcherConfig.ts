@@ -4,6 +4,7 @@
  */
 
 import type { MenuCategory, MenuItem, Butcher } from './types';
+import { getButcherIdFromName, registerButcherMapping } from './butcherMapping';
 
 // Helper to create a default size for items
 const defaultSize = (price: number = 0) => [{ id: `s-${Math.random()}`, size: 'default' as const, price }];
@@ -170,23 +171,6 @@ export const CATEGORIES = {
   }
 } as const;
 
-// ============================================================================
-// BUTCHER PASSWORDS (stored separately for security)
-// ============================================================================
-
-export const BUTCHER_PASSWORDS: Record<string, string> = {
-  'usaj': 'password',
-  'usaj_mutton': 'password',
-  'pkd': 'password',
-  'kak': 'password',
-  'ka_sons': 'password',
-  'alif': 'password',
-  'test_meat': 'test',
-  'test_fish': 'test',
-  'tender_chops': 'password',
-  // Add mixed butcher passwords here when created
-};
-
 // ============================================================================
 // BUTCHER CONFIGURATIONS
 // ============================================================================
@@ -198,9 +182,12 @@ export interface ButcherConfig {
   categories: string[]; // Category IDs from CATEGORIES object
   commissionRates: Record<string, number>; // Category name -> commission rate (decimal)
   markupRates?: Record<string, number>; // Category name -> markup rate (decimal)
+  centralApiName?: string; // Butcher name used by the Central API (onboarded butchers; built-ins are in butcherMapping.ts)
   orderSheetTab: string; // Tab name in ButcherPOS sheet
   meatSheetTab?: string; // Tab name in Menu sheet for meat products (for mixed butchers)
   fishSheetTab?: string; // Tab name in Menu sheet for fish items (for mixed butchers)
+  routingPriority?: number; // Order routing preference, higher wins (default 0)
+  acceptanceSlaMinutes?: number; // Minutes a new order may wait before escalation (default ORDER_ACCEPTANCE_SLA_MINUTES or 10)
 }
 
 export const BUTCHER_CONFIGS: Record<string, ButcherConfig> = {
@@ -327,7 +314,8 @@ export const BUTCHER_CONFIGS: Record<string, ButcherConfig> = {
       'Mutton': 0.00
     },
     orderSheetTab: 'Test_Meat_Butcher',
-    meatSheetTab: 'Test_Meat_Butcher'
+    meatSheetTab: 'Test_Meat_Butcher',
+    routingPriority: -10 // Never preferred over live butchers
   },
   
   test_fish: {
@@ -346,7 +334,8 @@ export const BUTCHER_CONFIGS: Record<string, ButcherConfig> = {
       'Steak Fish': 0.05
     },
     orderSheetTab: 'Test_Fish_Butcher',
-    fishSheetTab: 'Test_Fish_Butcher'
+    fishSheetTab: 'Test_Fish_Butcher',
+    routingPriority: -10 // Never preferred over live butchers
   },
   
   // Mixed Butchers
@@ -396,13 +385,6 @@ export function getButcherType(butcherId: string): 'meat' | 'fish' | 'mixed' | n
   return config?.type || null;
 }
 
-/**
- * Get butcher password
- */
-export function getButcherPassword(butcherId: string): string | null {
-  return BUTCHER_PASSWORDS[butcherId] || null;
-}
-
 /**
  * Extract English name from three-language format
  * Format: "Manglish - English - Malayalam" -> "English"
@@ -480,6 +462,18 @@ export function getPriceSheetTab(butcherId: string, categoryName: string): strin
   return null;
 }
 
+/**
+ * Get the Menu POS tab of a meat or fish butcher (null for mixed butchers, whose tab depends on the category)
+ */
+export function getButcherMenuTab(butcherId: string): string | null {
+  const config = getButcherConfig(butcherId);
+  if (!config) return null;
+
+  if (config.type === 'meat') return config.meatSheetTab || null;
+  if (config.type === 'fish') return config.fishSheetTab || null;
+  return null;
+}
+
 /**
  * Get commission rate for a butcher and category
  * Returns 0 if not found (with error log) - doesn't break flow
@@ -783,36 +777,141 @@ export function getDefaultButcherRates(): ButcherRates[] {
 // FRESH BUTCHERS ARRAY
 // ============================================================================
 
+// Butchers declared in this file (onboarded butchers are added to BUTCHER_CONFIGS at runtime)
+const BUILT_IN_BUTCHER_IDS = new Set(Object.keys(BUTCHER_CONFIGS));
+
+/**
+ * Whether a butcher is declared in this file rather than onboarded at runtime
+ */
+export function isBuiltInButcher(butcherId: string): boolean {
+  return BUILT_IN_BUTCHER_IDS.has(butcherId);
+}
+
 /**
  * Generate butchers array from butcher config
  * Creates Butcher[] objects with menu data from config
  */
 export const freshButchers: Butcher[] = (() => {
-  const butcherIds = [
-    'usaj',
-    'usaj_mutton',
-    'pkd',
-    'kak',
-    'ka_sons',
-    'alif',
-    'test_meat',
-    'test_fish',
-    'tender_chops'
-  ];
+  const butcherIds = Object.keys(BUTCHER_CONFIGS);
 
-  return butcherIds.map(butcherId => {
-    const config = getButcherConfig(butcherId);
-    const password = getButcherPassword(butcherId);
-    
-    if (!config) {
-      throw new Error(`Butcher config not found for: ${butcherId}`);
+  return butcherIds.map(toButcher);
+})();
+
+function toButcher(butcherId: string): Butcher {
+  const config = getButcherConfig(butcherId);
+  
+  if (!config) {
+    throw new Error(`Butcher config not found for: ${butcherId}`);
+  }
+
+  return {
+    id: config.id,
+    name: config.name,
+    menu: getButcherMenuCategories(butcherId)
+  };
+}
+
+// ============================================================================
+// BUTCHER ONBOARDING (butchers stored as data, registered at runtime)
+// ============================================================================
+
+/**
+ * Check a butcher config before it is registered
+ * Returns the problems found (empty when the config is valid)
+ */
+export function validateButcherConfig(config: ButcherConfig): string[] {
+  const problems: string[] = [];
+  const others = Object.values(BUTCHER_CONFIGS).filter(other => other.id !== config.id);
+
+  if (!/^[a-z][a-z0-9_]{1,31}$/.test(config.id || '')) {
+    problems.push('ID must be 2-32 lowercase letters, digits or underscores, starting with a letter');
+  }
+  if (!config.name?.trim()) {
+    problems.push('Display name is required');
+  }
+  if (!config.centralApiName?.trim()) {
+    problems.push('Central API name is required');
+  } else {
+    const mappedId = getButcherIdFromName(config.centralApiName);
+    if (mappedId && mappedId !== config.id) {
+      problems.push(`Central API name "${config.centralApiName}" is already used by ${mappedId}`);
     }
+  }
+  if (!['meat', 'fish', 'mixed'].includes(config.type)) {
+    problems.push('Type must be meat, fish or mixed');
+  }
 
-    return {
-      id: config.id as Butcher['id'],
-      name: config.name,
-      password: password || 'password', // Fallback to 'password' if not found
-      menu: getButcherMenuCategories(butcherId)
-    };
-  });
-})();
+  const knownCategories = Object.values(CATEGORIES);
+  if (!config.categories?.length) {
+    problems.push('At least one category is required');
+  }
+  for (const categoryId of config.categories || []) {
+    const category = knownCategories.find(cat => cat.id === categoryId);
+    if (!category) {
+      problems.push(`Unknown category "${categoryId}"`);
+      continue;
+    }
+
+    const itemType = getItemTypeFromCategory(category.name);
+    if ((config.type === 'meat' || config.type === 'fish') && itemType !== config.type) {
+      problems.push(`${category.name} is not a ${config.type} category`);
+    }
+
+    const commission = config.commissionRates?.[category.name];
+    if (commission === undefined || !validateRate(commission)) {
+      problems.push(`Commission rate for ${category.name} must be between 0% and 100%`);
+    }
+    const markup = config.markupRates?.[category.name];
+    if (markup !== undefined && !validateRate(markup)) {
+      problems.push(`Markup rate for ${category.name} must be between 0% and 100%`);
+    }
+  }
+
+  if (!config.orderSheetTab?.trim()) {
+    problems.push('Butcher POS tab name is required');
+  }
+  if ((config.type === 'meat' || config.type === 'mixed') && !config.meatSheetTab?.trim()) {
+    problems.push('Menu POS meat tab name is required');
+  }
+  if ((config.type === 'fish' || config.type === 'mixed') && !config.fishSheetTab?.trim()) {
+    problems.push('Menu POS fish tab name is required');
+  }
+  if (config.type === 'mixed' && config.meatSheetTab && config.meatSheetTab === config.fishSheetTab) {
+    problems.push('A mixed butcher needs separate meat and fish menu tabs');
+  }
+
+  for (const other of others) {
+    if (other.name.toLowerCase() === config.name?.trim().toLowerCase()) {
+      problems.push(`Display name "${config.name}" is already used by ${other.id}`);
+    }
+    if (other.orderSheetTab === config.orderSheetTab) {
+      problems.push(`Butcher POS tab "${config.orderSheetTab}" is already used by ${other.id}`);
+    }
+    for (const tab of [config.meatSheetTab, config.fishSheetTab]) {
+      if (tab && (tab === other.meatSheetTab || tab === other.fishSheetTab)) {
+        problems.push(`Menu POS tab "${tab}" is already used by ${other.id}`);
+      }
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Register (or replace) a butcher at runtime - helpers, routing and the butchers list pick it up immediately
+ * Passwords are kept by the credential store (auth/credentials.ts), not here
+ */
+export function registerButcherConfig(config: ButcherConfig): void {
+  BUTCHER_CONFIGS[config.id] = config;
+  if (config.centralApiName) {
+    registerButcherMapping(config.centralApiName, config.id, config.orderSheetTab);
+  }
+
+  const butcher = toButcher(config.id);
+  const index = freshButchers.findIndex(existing => existing.id === config.id);
+  if (index === -1) {
+    freshButchers.push(butcher);
+  } else {
+    freshButchers[index] = butcher;
+  }
+}
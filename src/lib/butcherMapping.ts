@@ -90,3 +90,14 @@ export function isValidButcherName(butcherName: string): boolean {
   return butcherName in BUTCHER_MAPPING;
 }
 
+/**
+ * Map a Central API butcher name to a butcher registered at runtime (onboarded butchers)
+ */
+export function registerButcherMapping(butcherName: string, butcherId: string, sheetTab: string): void {
+  for (const [name, mapping] of Object.entries(BUTCHER_MAPPING)) {
+    if (mapping.butcherId === butcherId && name !== butcherName) {
+      delete BUTCHER_MAPPING[name]; // Renamed
+    }
+  }
+  BUTCHER_MAPPING[butcherName] = { butcherId, sheetTab };
+}
@@ -0,0 +1,161 @@
+/**
+ * Butcher Onboarding
+ * Adds a butcher from data instead of a code change:
+ * validate the config -> create its sheet tabs with headers -> register and store it -> seed the default menu
+ * Each step is reported, so a failure part way through shows what was already done (every step can be re-run)
+ */
+
+import {
+  getButcherConfig,
+  getButcherMenuCategories,
+  registerButcherConfig,
+  validateButcherConfig,
+  type ButcherConfig
+} from './butcherConfig';
+import { checkPasswordStrength, setInitialPassword } from './auth/credentials';
+import { ensureButchersLoaded } from './butcherRegistry';
+import { getRepositories } from './repositories';
+import { createSheetTabs, type SheetLayoutId } from './sheetSchema';
+import { populateDefaultItems } from './sheets';
+
+export type OnboardingStepName = 'validate' | 'sheets' | 'register' | 'menu';
+
+export interface OnboardingStep {
+  step: OnboardingStepName;
+  status: 'done' | 'skipped' | 'planned';
+  details: string[];
+}
+
+export interface OnboardingResult {
+  dryRun: boolean;
+  butcherId: string;
+  steps: OnboardingStep[];
+}
+
+export class ButcherOnboardingError extends Error {
+  constructor(message: string, public problems: string[] = [], public steps: OnboardingStep[] = []) {
+    super(message);
+    this.name = 'ButcherOnboardingError';
+  }
+}
+
+const USES_SHEETS = !(process.env.DATA_STORE === 'sqlite' && process.env.SHEET_SYNC === 'off');
+
+/**
+ * Trim the config and drop fields that don't apply to the butcher's type
+ */
+function normalizeConfig(config: ButcherConfig): ButcherConfig {
+  const trim = (value?: string) => value?.trim() || undefined;
+  return {
+    ...config,
+    id: config.id?.trim(),
+    name: config.name?.trim(),
+    centralApiName: trim(config.centralApiName),
+    orderSheetTab: config.orderSheetTab?.trim(),
+    meatSheetTab: config.type === 'fish' ? undefined : trim(config.meatSheetTab),
+    fishSheetTab: config.type === 'meat' ? undefined : trim(config.fishSheetTab)
+  };
+}
+
+/**
+ * Tabs the butcher needs, with the layout each one follows
+ */
+function plannedTabs(config: ButcherConfig): Array<{ layoutId: SheetLayoutId; tab: string }> {
+  const tabs: Array<{ layoutId: SheetLayoutId; tab: string }> = [{ layoutId: 'orders', tab: config.orderSheetTab }];
+  if (config.meatSheetTab) tabs.push({ layoutId: 'menu-meat', tab: config.meatSheetTab });
+  if (config.fishSheetTab) tabs.push({ layoutId: 'menu-fish', tab: config.fishSheetTab });
+  if (process.env.SALES_VCS_SPREADSHEET_ID) tabs.push({ layoutId: 'sales', tab: config.orderSheetTab });
+  return tabs;
+}
+
+/**
+ * Onboard a new butcher
+ * With `dryRun` the config is validated and the planned steps are returned without changing anything
+ * Throws ButcherOnboardingError with the problems found when the config is invalid
+ */
+export async function onboardButcher(
+  input: { config: ButcherConfig; password: string },
+  options: { dryRun?: boolean } = {}
+): Promise<OnboardingResult> {
+  await ensureButchersLoaded();
+
+  const config = normalizeConfig(input.config);
+  const steps: OnboardingStep[] = [];
+
+  const problems = validateButcherConfig(config);
+  if (getButcherConfig(config.id)) {
+    problems.unshift(`Butcher ${config.id} already exists`);
+  }
+  try {
+    checkPasswordStrength(input.password, config.id);
+  } catch (error) {
+    problems.push(error instanceof Error ? error.message : String(error));
+  }
+  if (problems.length > 0) {
+    throw new ButcherOnboardingError(`Butcher config is invalid: ${problems.join('; ')}`, problems);
+  }
+  steps.push({ step: 'validate', status: 'done', details: ['Config is valid'] });
+
+  const tabs = plannedTabs(config);
+  const menuTabs = [config.meatSheetTab, config.fishSheetTab].filter((tab): tab is string => !!tab);
+
+  if (options.dryRun) {
+    steps.push(
+      USES_SHEETS
+        ? { step: 'sheets', status: 'planned', details: tabs.map(({ layoutId, tab }) => `Create ${layoutId} tab "${tab}"`) }
+        : { step: 'sheets', status: 'skipped', details: ['Google Sheets is not in use'] },
+      { step: 'register', status: 'planned', details: [`Register ${config.name} (${config.id}) as "${config.centralApiName}"`] },
+      { step: 'menu', status: 'planned', details: [`Seed the default menu (${menuTabs.join(', ')})`] }
+    );
+    return { dryRun: true, butcherId: config.id, steps };
+  }
+
+  const fail = (step: OnboardingStepName, error: unknown): never => {
+    const message = error instanceof Error ? error.message : String(error);
+    steps.push({ step, status: 'skipped', details: [message] });
+    throw new ButcherOnboardingError(`Onboarding ${config.id} failed at the ${step} step: ${message}`, [message], steps);
+  };
+
+  // Tabs first: a registered butcher without tabs would fail its first order
+  if (USES_SHEETS) {
+    try {
+      const created = await createSheetTabs(tabs);
+      steps.push({
+        step: 'sheets',
+        status: 'done',
+        details: created.map(({ layout, tab, created: isNew }) => `${isNew ? 'Created' : 'Kept existing'} ${layout} tab "${tab}"`)
+      });
+    } catch (error) {
+      fail('sheets', error);
+    }
+  } else {
+    steps.push({ step: 'sheets', status: 'skipped', details: ['Google Sheets is not in use'] });
+  }
+
+  try {
+    const now = new Date().toISOString();
+    await setInitialPassword(config.id, input.password);
+    await getRepositories().butchers.saveButcher({ config, createdAt: now });
+    registerButcherConfig(config);
+    steps.push({ step: 'register', status: 'done', details: [`Registered ${config.name} (${config.id}) as "${config.centralApiName}"`] });
+  } catch (error) {
+    fail('register', error);
+  }
+
+  try {
+    if (process.env.DATA_STORE === 'sqlite') {
+      await getRepositories().menus.saveMenu(config.id, getButcherMenuCategories(config.id));
+    }
+    if (USES_SHEETS) {
+      for (const tab of menuTabs) {
+        await populateDefaultItems(config.id, tab);
+      }
+    }
+    steps.push({ step: 'menu', status: 'done', details: [`Seeded the default menu (${menuTabs.join(', ')})`] });
+  } catch (error) {
+    fail('menu', error);
+  }
+
+  console.log(`[ButcherOnboarding] Onboarded ${config.name} (${config.id})`);
+  return { dryRun: false, butcherId: config.id, steps };
+}
@@ -0,0 +1,288 @@
+/**
+ * Butcher Presence
+ * Online / idle / offline per butcher with last-seen, for the admin live board and the Central API
+ * (which can stop routing orders to a shop whose tablet is off)
+ *
+ * Derived from two signals:
+ * - Stream heartbeats: the order stream reports this instance's live connections for the butcher
+ *   when a stream opens, on every keep-alive and when it closes
+ * - Dashboard activity: the dashboard reports interactions while visible, and when it is hidden (POST /api/presence)
+ *
+ * offline - no live stream, or the instance holding it stopped heartbeating for PRESENCE_HEARTBEAT_TIMEOUT_SECONDS
+ * idle    - stream open, but the dashboard is hidden or untouched for PRESENCE_IDLE_MINUTES
+ * online  - stream open and the dashboard in use
+ *
+ * Signals go through the pub/sub bus, so every instance sees every butcher's connections.
+ * Status changes are reported to the Central API; a failed report is retried on the next check.
+ */
+
+import { randomUUID } from 'crypto';
+import { getPubSubBus } from './pubsub';
+import { createQueueStore } from './queueStore';
+import { getConnectionsForButcher } from './sseConnectionManager';
+import { BUTCHER_CONFIGS, getButcherConfig } from './butcherConfig';
+import { getButcherNameFromId } from './butcherMapping';
+import { centralAPIClient } from './centralAPIClient';
+import type { ButcherPresence, DashboardActivity, PresenceStatus } from './types';
+
+let workerInterval: NodeJS.Timeout | null = null;
+const WORKER_INTERVAL = 15000; // Re-check presence every 15 seconds
+const IDLE_MS = parseFloat(process.env.PRESENCE_IDLE_MINUTES || '10') * 60 * 1000;
+const HEARTBEAT_TIMEOUT_MS = parseInt(process.env.PRESENCE_HEARTBEAT_TIMEOUT_SECONDS || '90', 10) * 1000;
+const LAST_SEEN_PERSIST_MS = 60000; // Last-seen of a connected butcher is saved at most once a minute
+
+const PRESENCE_CHANNEL = 'presence';
+const instanceId = randomUUID();
+const startedAt = Date.now();
+
+type PresenceSignal =
+  | { type: 'heartbeat'; butcherId: string; instanceId: string; connections: number; at: number }
+  | { type: 'activity'; butcherId: string; activity: DashboardActivity; at: number };
+
+interface PresenceRecord {
+  instances: Map<string, { connections: number; heartbeatAt: number }>; // Live streams per instance
+  hidden: boolean;
+  lastActivityAt?: number;
+  lastSeenAt?: number;
+  status: PresenceStatus;
+  since?: number;
+  reported?: PresenceStatus; // Last status the Central API accepted
+  persistedSeenAt?: number;
+}
+
+// Saved so shops that are offline keep their last-seen across restarts
+interface PersistedPresence {
+  butcherId: string;
+  status: PresenceStatus;
+  since?: number;
+  lastSeenAt?: number;
+  reported?: PresenceStatus;
+}
+
+const records = new Map<string, PresenceRecord>();
+const reporting = new Set<string>();
+
+// Persistent backing store (see queueStore.ts for QUEUE_STORE options)
+const store = createQueueStore('presence');
+const PRESENCE = 'presence';
+
+function persist(butcherId: string, record: PresenceRecord): void {
+  record.persistedSeenAt = record.lastSeenAt;
+  store.put<PersistedPresence>(PRESENCE, butcherId, {
+    butcherId,
+    status: record.status,
+    since: record.since,
+    lastSeenAt: record.lastSeenAt,
+    reported: record.reported
+  });
+}
+
+function getRecord(butcherId: string): PresenceRecord {
+  let record = records.get(butcherId);
+  if (!record) {
+    record = { instances: new Map(), hidden: false, status: 'offline' };
+    records.set(butcherId, record);
+  }
+  return record;
+}
+
+// Restore last-seen and the last reported status; dashboards reconnect within a heartbeat timeout
+for (const entry of store.load<PersistedPresence>(PRESENCE)) {
+  records.set(entry.butcherId, {
+    instances: new Map(),
+    hidden: false,
+    status: entry.status,
+    since: entry.since,
+    lastSeenAt: entry.lastSeenAt,
+    reported: entry.reported,
+    persistedSeenAt: entry.lastSeenAt
+  });
+}
+
+// Streams of the butcher's own devices on this instance (admins watching don't count)
+function getLocalConnections(butcherId: string): number {
+  return getConnectionsForButcher(butcherId).filter(conn => !conn.isAdmin).length;
+}
+
+/**
+ * Live streams across instances, forgetting instances that stopped heartbeating
+ */
+function countConnections(record: PresenceRecord, now: number): number {
+  let connections = 0;
+  for (const [id, instance] of record.instances) {
+    if (now - instance.heartbeatAt > HEARTBEAT_TIMEOUT_MS) {
+      record.instances.delete(id);
+      continue;
+    }
+    connections += instance.connections;
+  }
+  return connections;
+}
+
+function updateStatus(butcherId: string, record: PresenceRecord, now: number): void {
+  let status: PresenceStatus = 'offline';
+  if (countConnections(record, now) > 0) {
+    const inUse = !record.hidden && record.lastActivityAt !== undefined && now - record.lastActivityAt < IDLE_MS;
+    status = inUse ? 'online' : 'idle';
+  }
+
+  // Right after a restart streams haven't reconnected yet - don't mark anyone offline for that
+  if (status === 'offline' && record.status !== 'offline' && now - startedAt < HEARTBEAT_TIMEOUT_MS) {
+    return;
+  }
+
+  if (status === record.status) {
+    if (record.lastSeenAt && record.lastSeenAt - (record.persistedSeenAt || 0) > LAST_SEEN_PERSIST_MS) {
+      persist(butcherId, record);
+    }
+    return;
+  }
+
+  console.log(`[Presence] ${butcherId}: ${record.status} → ${status}`);
+  record.status = status;
+  record.since = now;
+  persist(butcherId, record);
+  reportStatus(butcherId, record);
+}
+
+/**
+ * Send the butcher's current status to the Central API unless it already has it
+ */
+async function reportStatus(butcherId: string, record: PresenceRecord): Promise<void> {
+  const butcherName = getButcherNameFromId(butcherId);
+  if (!butcherName || record.reported === record.status || reporting.has(butcherId)) {
+    return;
+  }
+
+  reporting.add(butcherId);
+  const status = record.status;
+  try {
+    await centralAPIClient.updateButcherPresence(butcherName, {
+      status,
+      since: new Date(record.since || Date.now()).toISOString(),
+      ...(record.lastSeenAt ? { lastSeenAt: new Date(record.lastSeenAt).toISOString() } : {})
+    });
+    record.reported = status;
+    persist(butcherId, record);
+  } catch {
+    // Logged by the client - retried on the next check
+  } finally {
+    reporting.delete(butcherId);
+  }
+}
+
+function applySignal(signal: PresenceSignal): void {
+  const record = getRecord(signal.butcherId);
+
+  if (signal.type === 'heartbeat') {
+    const previous = record.instances.get(signal.instanceId);
+    record.instances.set(signal.instanceId, { connections: signal.connections, heartbeatAt: signal.at });
+    // A stream closing is the last time the butcher was seen on it
+    if (signal.connections > 0 || previous?.connections) {
+      record.lastSeenAt = Math.max(record.lastSeenAt || 0, signal.at);
+    }
+  } else if (signal.activity === 'active') {
+    record.hidden = false;
+    record.lastActivityAt = Math.max(record.lastActivityAt || 0, signal.at);
+    record.lastSeenAt = Math.max(record.lastSeenAt || 0, signal.at);
+  } else {
+    record.hidden = true;
+  }
+
+  updateStatus(signal.butcherId, record, Date.now());
+}
+
+// Signals from every instance (this one included) update the same table
+getPubSubBus().subscribe<PresenceSignal>(PRESENCE_CHANNEL, signal => applySignal(signal));
+
+/**
+ * Report this instance's live order streams for a butcher (stream opened, keep-alive, stream closed)
+ */
+export function recordStreamHeartbeat(butcherId: string): void {
+  getPubSubBus().publish<PresenceSignal>(PRESENCE_CHANNEL, {
+    type: 'heartbeat',
+    butcherId,
+    instanceId,
+    connections: getLocalConnections(butcherId),
+    at: Date.now()
+  });
+}
+
+/**
+ * Record the butcher's dashboard being used, or hidden
+ */
+export function recordDashboardActivity(butcherId: string, activity: DashboardActivity): void {
+  getPubSubBus().publish<PresenceSignal>(PRESENCE_CHANNEL, { type: 'activity', butcherId, activity, at: Date.now() });
+}
+
+function toPresence(butcherId: string, record: PresenceRecord | undefined, now: number): ButcherPresence {
+  return {
+    butcherId,
+    butcherName: getButcherConfig(butcherId)?.name || butcherId,
+    status: record?.status || 'offline',
+    since: record?.since ? new Date(record.since) : undefined,
+    lastSeenAt: record?.lastSeenAt ? new Date(record.lastSeenAt) : undefined,
+    lastActivityAt: record?.lastActivityAt ? new Date(record.lastActivityAt) : undefined,
+    connections: record ? countConnections(record, now) : 0
+  };
+}
+
+/**
+ * Presence of one butcher
+ */
+export function getButcherPresence(butcherId: string): ButcherPresence {
+  return toPresence(butcherId, records.get(butcherId), Date.now());
+}
+
+/**
+ * Presence of every configured butcher (and any other that has connected)
+ */
+export function getAllButcherPresence(): ButcherPresence[] {
+  const now = Date.now();
+  const butcherIds = new Set([...Object.keys(BUTCHER_CONFIGS), ...records.keys()]);
+  return Array.from(butcherIds).map(butcherId => toPresence(butcherId, records.get(butcherId), now));
+}
+
+/**
+ * Re-check every butcher: idle and heartbeat timeouts, streams closed without a heartbeat
+ * (revoked sessions, stale cleanup) and reports the Central API hasn't accepted yet
+ */
+function processPresence(): void {
+  const now = Date.now();
+  for (const [butcherId, record] of records) {
+    if ((record.instances.get(instanceId)?.connections || 0) !== getLocalConnections(butcherId)) {
+      recordStreamHeartbeat(butcherId);
+    }
+    updateStatus(butcherId, record, now);
+    reportStatus(butcherId, record);
+  }
+}
+
+/**
+ * Start the presence worker
+ */
+export function startPresenceWorker(): void {
+  if (workerInterval) {
+    return;
+  }
+
+  workerInterval = setInterval(processPresence, WORKER_INTERVAL);
+}
+
+/**
+ * Stop the presence worker
+ */
+export function stopPresenceWorker(): void {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
+
+// Auto-start worker when module is loaded (server-side only)
+if (typeof window === 'undefined') {
+  // Use setTimeout to ensure module is fully loaded
+  setTimeout(() => {
+    startPresenceWorker();
+  }, 1000); // Start after 1 second delay
+}
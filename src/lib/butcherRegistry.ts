@@ -0,0 +1,103 @@
+/**
+ * Butcher Registry
+ * Loads onboarded butchers from the repository and registers them next to the built-in ones in butcherConfig.ts
+ * - Loaded shortly after boot and refreshed every BUTCHER_REGISTRY_REFRESH_SECONDS (default 300),
+ *   so butchers onboarded through another instance show up without a deploy
+ * - Routes that must know every butcher await ensureButchersLoaded() first
+ */
+
+import { registerLegacyPassword } from './auth/credentials';
+import { getButcherConfig, isBuiltInButcher, registerButcherConfig } from './butcherConfig';
+import { getRepositories } from './repositories';
+
+let refreshInterval: NodeJS.Timeout | null = null;
+const REFRESH_INTERVAL = parseInt(process.env.BUTCHER_REGISTRY_REFRESH_SECONDS || '300', 10) * 1000;
+
+let initialLoad: Promise<void> | null = null;
+let lastLoadedAt: string | null = null;
+let registeredCount = 0;
+
+/**
+ * Register every stored butcher (replaces the runtime config of butchers already registered)
+ * Returns the number of onboarded butchers
+ */
+export async function loadRegisteredButchers(): Promise<number> {
+  const stored = await getRepositories().butchers.getButchers();
+  let count = 0;
+
+  for (const { config, password } of stored) {
+    if (isBuiltInButcher(config.id)) {
+      console.warn(`[ButcherRegistry] Ignoring stored butcher ${config.id}: the id belongs to a built-in butcher`);
+      continue;
+    }
+
+    const isNew = !getButcherConfig(config.id);
+    registerButcherConfig(config);
+    if (password) {
+      registerLegacyPassword(config.id, password); // Onboarded before passwords were hashed
+    }
+    if (isNew) {
+      console.log(`[ButcherRegistry] Registered ${config.name} (${config.id})`);
+    }
+    count++;
+  }
+
+  registeredCount = count;
+  lastLoadedAt = new Date().toISOString();
+  return count;
+}
+
+/**
+ * Wait until the stored butchers have been loaded once in this process
+ * A failed load is retried on the next call
+ */
+export function ensureButchersLoaded(): Promise<void> {
+  if (!initialLoad) {
+    initialLoad = loadRegisteredButchers()
+      .then(() => undefined)
+      .catch(error => {
+        initialLoad = null;
+        throw error;
+      });
+  }
+  return initialLoad;
+}
+
+export function getButcherRegistryStatus(): { onboardedButchers: number; lastLoadedAt: string | null } {
+  return { onboardedButchers: registeredCount, lastLoadedAt };
+}
+
+/**
+ * Start refreshing the registry on an interval
+ */
+export function startButcherRegistryRefresh(): void {
+  if (refreshInterval) {
+    return;
+  }
+
+  refreshInterval = setInterval(() => {
+    loadRegisteredButchers().catch(error => {
+      console.error('[ButcherRegistry] Refresh failed:', error instanceof Error ? error.message : error);
+    });
+  }, REFRESH_INTERVAL);
+}
+
+/**
+ * Stop refreshing the registry
+ */
+export function stopButcherRegistryRefresh(): void {
+  if (refreshInterval) {
+    clearInterval(refreshInterval);
+    refreshInterval = null;
+  }
+}
+
+// Load once and keep refreshing (server-side only)
+if (typeof window === 'undefined') {
+  setTimeout(() => {
+    ensureButchersLoaded().catch(error => {
+      console.error('[ButcherRegistry] Initial load failed:', error instanceof Error ? error.message : error);
+    });
+    startButcherRegistryRefresh();
+  }, 1000);
+}
@@ -0,0 +1,155 @@
+/**
+ * Butcher Sheets
+ * Onboarded butchers stored in a `Butchers` tab of the Butcher POS sheet (one row per butcher)
+ * The full config is kept as JSON; id, name, Central API name and type are repeated for people reading the sheet
+ */
+
+import { measureApiCall } from './apiMonitor';
+import type { ButcherConfig } from './butcherConfig';
+import type { StoredButcher } from './repositories/types';
+import { getSheetSheetsClient, getSpreadsheetIds } from './sheets';
+
+const BUTCHERS_TAB_NAME = 'Butchers';
+const BUTCHERS_HEADER = ['Butcher ID', 'Name', 'Central API Name', 'Type', 'Config', 'Password', 'Created At', 'Updated At'];
+const BUTCHERS_RANGE = `${BUTCHERS_TAB_NAME}!A:H`;
+
+const sheetInfo = (spreadsheetId: string) => ({ sheetId: spreadsheetId, sheetName: 'Butcher POS Sheet' });
+
+/**
+ * Create the Butchers tab with its header row if it doesn't exist yet
+ */
+async function ensureButchersTab(): Promise<void> {
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+
+  try {
+    await sheets.spreadsheets.values.get({
+      spreadsheetId: pos,
+      range: `${BUTCHERS_TAB_NAME}!A1:H1`
+    });
+  } catch {
+    await measureApiCall(
+      'butchers:createTab',
+      'POST',
+      () => sheets.spreadsheets.batchUpdate({
+        spreadsheetId: pos,
+        requestBody: { requests: [{ addSheet: { properties: { title: BUTCHERS_TAB_NAME } } }] }
+      }),
+      sheetInfo(pos)
+    );
+    await measureApiCall(
+      'butchers:header',
+      'PUT',
+      () => sheets.spreadsheets.values.update({
+        spreadsheetId: pos,
+        range: `${BUTCHERS_TAB_NAME}!A1:H1`,
+        valueInputOption: 'RAW',
+        requestBody: { values: [BUTCHERS_HEADER] }
+      }),
+      sheetInfo(pos)
+    );
+  }
+}
+
+function toRow(butcher: StoredButcher): string[] {
+  const { config } = butcher;
+  return [
+    config.id,
+    config.name,
+    config.centralApiName || '',
+    config.type,
+    JSON.stringify(config),
+    butcher.password || '',
+    butcher.createdAt,
+    butcher.updatedAt || ''
+  ];
+}
+
+function fromRow(row: string[]): StoredButcher | null {
+  if (!row[0] || !row[4]) return null;
+
+  try {
+    const config = JSON.parse(row[4]) as ButcherConfig;
+    return {
+      config: { ...config, id: row[0] },
+      password: row[5] || '',
+      createdAt: row[6] || '',
+      updatedAt: row[7] || undefined
+    };
+  } catch {
+    console.error(`[Butchers] Skipping butcher ${row[0]}: config column is not valid JSON`);
+    return null;
+  }
+}
+
+async function readRows(): Promise<string[][]> {
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+
+  try {
+    const response = await measureApiCall(
+      'butchers:read',
+      'GET',
+      () => sheets.spreadsheets.values.get({
+        spreadsheetId: pos,
+        range: `${BUTCHERS_TAB_NAME}!A2:H`
+      }),
+      sheetInfo(pos)
+    );
+    return (response.data.values || []) as string[][];
+  } catch (error) {
+    // No Butchers tab yet means nobody has been onboarded
+    const { code, message } = (error || {}) as { code?: number; message?: string };
+    if (code === 400 || /Unable to parse range/i.test(message || '')) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * All onboarded butchers
+ */
+export const getStoredButchers = async (): Promise<StoredButcher[]> => {
+  const rows = await readRows();
+  return rows.map(fromRow).filter((butcher): butcher is StoredButcher => butcher !== null);
+};
+
+/**
+ * Store an onboarded butcher (updates its row when the id is already in the tab)
+ */
+export const saveStoredButcher = async (butcher: StoredButcher): Promise<void> => {
+  await ensureButchersTab();
+
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+  const rowIndex = (await readRows()).findIndex(row => row[0] === butcher.config.id);
+
+  if (rowIndex === -1) {
+    await measureApiCall(
+      'butchers:append',
+      'POST',
+      () => sheets.spreadsheets.values.append({
+        spreadsheetId: pos,
+        range: BUTCHERS_RANGE,
+        valueInputOption: 'RAW',
+        requestBody: { values: [toRow(butcher)] }
+      }),
+      sheetInfo(pos)
+    );
+    return;
+  }
+
+  const rowNumber = rowIndex + 2;
+  await measureApiCall(
+    'butchers:update',
+    'PUT',
+    () => sheets.spreadsheets.values.update({
+      spreadsheetId: pos,
+      range: `${BUTCHERS_TAB_NAME}!A${rowNumber}:H${rowNumber}`,
+      valueInputOption: 'RAW',
+      requestBody: { values: [toRow(butcher)] }
+    }),
+    sheetInfo(pos)
+  );
+};
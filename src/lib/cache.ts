@@ -60,4 +60,5 @@ export const CACHE_KEYS = {
   ORDERS: (butcherId: string) => `orders_${butcherId}`,
   MENU: (butcherId: string) => `menu_${butcherId}`,
   EARNINGS: (butcherId: string) => `earnings_${butcherId}`,
+  PREP_TIME: (butcherId: string) => `prep_time_${butcherId}`,
 } as const;
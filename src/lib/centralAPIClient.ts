@@ -4,6 +4,7 @@
  */
 
 import axios, { AxiosInstance } from 'axios';
+import type { OrderItemStatus, OrderItemSubstitute, OrderAckEvent, PresenceStatus } from './types';
 
 const CENTRAL_API_BASE_URL = process.env.CENTRAL_API_BASE_URL || 'http://localhost:3000';
 
@@ -16,9 +17,51 @@ interface CentralAPIOrderItem {
   itemId: string;
   preparingWeight?: string; // Format: "1.5kg" or "500g"
   rejected?: string; // Rejection reason
+  status?: OrderItemStatus; // accepted / rejected / substituted / short-weight
+  substitute?: OrderItemSubstitute; // Replacement the customer approved
   revenue?: number; // Revenue for accepted items in rupees
 }
 
+// Replacement offered for an item the butcher is out of
+interface CentralAPISubstitutionProposal {
+  itemId: string;
+  substitute: {
+    name: string;
+    size?: string;
+    preparingWeight: string; // Format: "1.5kg" or "500g"
+  };
+}
+
+// Order as delivered to POST /vcs/orders/new (and listed by GET /api/orders/open)
+interface CentralAPIIncomingOrder {
+  orderNo: number;
+  butcher: string; // "Usaj Meat Hub"
+  items: Array<{
+    itemId: string;
+    name: string;
+    size?: string;
+    quantityParsed: { value: number; unit: string };
+    cutType?: string;
+  }>;
+  timestamp?: string;
+}
+
+// Dashboard ack for an order; `acks` repeats every ack so far, so one lost call is made up by the next
+interface CentralAPIOrderAcknowledgement {
+  event: OrderAckEvent;
+  at: string; // ISO timestamp from the device
+  sessionId?: string; // Login session (device) that sent it
+  by?: string; // Staff member's name, or the shop's user ID
+  acks: Partial<Record<OrderAckEvent, string>>;
+}
+
+// Butcher dashboard status; 'offline' means no device is receiving orders
+interface CentralAPIButcherPresence {
+  status: PresenceStatus;
+  since: string; // ISO timestamp the status started
+  lastSeenAt?: string;
+}
+
 interface CentralAPIResponsePayload {
   butcher: string;
   items: CentralAPIOrderItem[];
@@ -124,6 +167,207 @@ class CentralAPIClient {
     }
   }
 
+  /**
+   * Propose substitutes for out-of-stock items
+   * The Central API asks the customer and answers on POST /vcs/orders/{orderNo}/substitution
+   */
+  async sendSubstitutionProposal(
+    orderNo: number,
+    butcher: string,
+    proposals: CentralAPISubstitutionProposal[]
+  ): Promise<void> {
+    try {
+      const token = await this.getToken(butcher);
+
+      console.log(`[CentralAPI] Sending substitution proposal for order ${orderNo} from ${butcher}`);
+
+      const response = await this.axiosInstance.post(
+        `/api/orders/${orderNo}/substitution`,
+        {
+          butcher,
+          items: proposals,
+          timestamp: new Date().toISOString()
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${token}`
+          }
+        }
+      );
+
+      console.log(`[CentralAPI] Substitution proposal sent: Order ${orderNo}`);
+      return response.data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[CentralAPI] Error sending substitution proposal for order ${orderNo}:`, message);
+
+      if (axios.isAxiosError(error) && error.response) {
+        console.error(`[CentralAPI] Response status: ${error.response.status}`);
+        console.error(`[CentralAPI] Response data:`, error.response.data);
+      }
+
+      throw new Error(`Failed to send substitution proposal: ${message}`);
+    }
+  }
+
+  /**
+   * Hand an order over to another butcher
+   * Sent with the current butcher's token - responses for the order will then come from the new butcher
+   */
+  async notifyOrderReassignment(
+    orderNo: number,
+    fromButcher: string,
+    toButcher: string,
+    reason: string
+  ): Promise<void> {
+    try {
+      const token = await this.getToken(fromButcher);
+
+      console.log(`[CentralAPI] Reassigning order ${orderNo} from ${fromButcher} to ${toButcher}`);
+
+      const response = await this.axiosInstance.post(
+        `/api/orders/${orderNo}/reassign`,
+        {
+          butcher: fromButcher,
+          newButcher: toButcher,
+          reason,
+          timestamp: new Date().toISOString()
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${token}`
+          }
+        }
+      );
+
+      console.log(`[CentralAPI] Reassignment sent: Order ${orderNo}`);
+      return response.data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[CentralAPI] Error reassigning order ${orderNo}:`, message);
+
+      if (axios.isAxiosError(error) && error.response) {
+        console.error(`[CentralAPI] Response status: ${error.response.status}`);
+        console.error(`[CentralAPI] Response data:`, error.response.data);
+      }
+
+      throw new Error(`Failed to reassign order: ${message}`);
+    }
+  }
+
+  /**
+   * Report that the butcher's dashboard received, displayed or silenced the alarm for an order
+   * Lets support tell "shop didn't see it" from "shop ignored it"
+   */
+  async sendOrderAcknowledgement(
+    orderNo: number,
+    butcher: string,
+    acknowledgement: CentralAPIOrderAcknowledgement
+  ): Promise<void> {
+    try {
+      const token = await this.getToken(butcher);
+
+      console.log(`[CentralAPI] Sending '${acknowledgement.event}' ack for order ${orderNo} from ${butcher}`);
+
+      const response = await this.axiosInstance.post(
+        `/api/orders/${orderNo}/ack`,
+        {
+          butcher,
+          ...acknowledgement,
+          timestamp: new Date().toISOString()
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${token}`
+          }
+        }
+      );
+
+      console.log(`[CentralAPI] Ack sent: Order ${orderNo} (${acknowledgement.event})`);
+      return response.data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[CentralAPI] Error sending ack for order ${orderNo}:`, message);
+
+      if (axios.isAxiosError(error) && error.response) {
+        console.error(`[CentralAPI] Response status: ${error.response.status}`);
+        console.error(`[CentralAPI] Response data:`, error.response.data);
+      }
+
+      throw new Error(`Failed to send order acknowledgement: ${message}`);
+    }
+  }
+
+  /**
+   * Report a butcher's dashboard going online, idle or offline
+   * The Central API can hold back orders from a shop whose tablet is off
+   */
+  async updateButcherPresence(
+    butcher: string,
+    presence: CentralAPIButcherPresence
+  ): Promise<void> {
+    try {
+      const token = await this.getToken(butcher);
+
+      console.log(`[CentralAPI] Reporting ${butcher} as ${presence.status}`);
+
+      const response = await this.axiosInstance.post(
+        '/api/butcher/presence',
+        {
+          butcher,
+          ...presence,
+          timestamp: new Date().toISOString()
+        },
+        {
+          headers: {
+            'Authorization': `Bearer ${token}`
+          }
+        }
+      );
+
+      console.log(`[CentralAPI] Presence sent: ${butcher} (${presence.status})`);
+      return response.data;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[CentralAPI] Error reporting presence for ${butcher}:`, message);
+
+      if (axios.isAxiosError(error) && error.response) {
+        console.error(`[CentralAPI] Response status: ${error.response.status}`);
+        console.error(`[CentralAPI] Response data:`, error.response.data);
+      }
+
+      throw new Error(`Failed to report butcher presence: ${message}`);
+    }
+  }
+
+  /**
+   * Get orders the Central API is still waiting on a response for
+   * Used to reconcile the order cache after a restart
+   */
+  async getOpenOrders(butcher: string): Promise<CentralAPIIncomingOrder[]> {
+    try {
+      const token = await this.getToken(butcher);
+
+      const response = await this.axiosInstance.get('/api/orders/open', {
+        params: { butcher },
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      return response.data.orders || [];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[CentralAPI] Error fetching open orders for ${butcher}:`, message);
+
+      if (axios.isAxiosError(error) && error.response) {
+        console.error(`[CentralAPI] Response status: ${error.response.status}`);
+      }
+
+      throw new Error(`Failed to fetch open orders: ${message}`);
+    }
+  }
+
   /**
    * Clear token cache for a specific butcher
    */
@@ -202,5 +446,5 @@ class CentralAPIClient {
 export const centralAPIClient = new CentralAPIClient();
 
 // Export types
-export type { CentralAPIOrderItem, CentralAPIResponsePayload };
+export type { CentralAPIOrderItem, CentralAPIResponsePayload, CentralAPIIncomingOrder, CentralAPISubstitutionProposal, CentralAPIOrderAcknowledgement, CentralAPIButcherPresence };
 
@@ -0,0 +1,69 @@
+/**
+ * Central API Order Conversion
+ * Converts orders from the Central API payload format to the VCS Order format
+ */
+
+import { getFishItemFullName, isFishButcher, getItemTypeFromCategory, findCategoryForItem } from './butcherConfig';
+import type { CentralAPIIncomingOrder } from './centralAPIClient';
+import { initialStatusHistory } from './orderStateMachine';
+import type { Order, OrderItem } from './types';
+
+/**
+ * Convert a Central API order into a VCS Order for the given butcher
+ */
+export function convertCentralAPIOrder(payload: CentralAPIIncomingOrder, butcherId: string): Order {
+  const { orderNo, butcher, items, timestamp } = payload;
+
+  const orderId = `ORD-${orderNo}`; // Convert 123 -> "ORD-123"
+  const orderDate = timestamp ? new Date(timestamp) : new Date();
+
+  // Convert items - convert to three-language format for fish items (works for both fish and mixed butchers)
+  const orderItems: OrderItem[] = items.map(item => {
+    let displayName = item.name;
+
+    // Check if the item name already has three languages (contains ' - ')
+    const hasThreeLanguages = item.name.includes(' - ') && item.name.split(' - ').length >= 3;
+
+    if (!hasThreeLanguages) {
+      // Try to determine if this is a fish item by finding its category
+      const category = findCategoryForItem(butcherId, item.name);
+      if (category) {
+        const itemType = getItemTypeFromCategory(category);
+        // If it's a fish item, convert to three-language format
+        if (itemType === 'fish') {
+          displayName = getFishItemFullName(item.name);
+        }
+        // For meat items, keep the single name as is
+      } else {
+        // Fallback: For pure fish butchers, try to convert (backward compatibility)
+        if (isFishButcher(butcherId)) {
+          displayName = getFishItemFullName(item.name);
+        }
+      }
+    }
+    // If already has three-language format, use as is
+
+    return {
+      id: item.itemId, // "57788-1"
+      name: displayName,
+      quantity: item.quantityParsed.value,
+      unit: item.quantityParsed.unit as 'kg' | 'g' | 'nos',
+      size: item.size || undefined,
+      cutType: item.cutType || undefined
+    };
+  });
+
+  return {
+    id: orderId,
+    customerName: 'Unknown', // Not provided by Central API
+    items: orderItems,
+    status: 'new',
+    orderTime: orderDate,
+    butcherId,
+    butcherName: butcher,
+    // Store source information
+    _source: 'central-api',
+    _receivedAt: new Date(),
+    statusHistory: initialStatusHistory('central-api')
+  };
+}
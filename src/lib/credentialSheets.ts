@@ -0,0 +1,153 @@
+/**
+ * Credential Sheets
+ * Butcher password hashes stored in a `Credentials` tab of the Butcher POS sheet (one row per butcher)
+ * Only scrypt hashes are written here - never plaintext passwords
+ */
+
+import type { sheets_v4 } from 'googleapis';
+import { measureApiCall } from './apiMonitor';
+import type { StoredCredential } from './repositories/types';
+import { getSheetSheetsClient, getSpreadsheetIds } from './sheets';
+
+const CREDENTIALS_TAB_NAME = 'Credentials';
+const CREDENTIALS_HEADER = ['Butcher ID', 'Password Hash', 'Updated At', 'Updated By', 'Must Change Password'];
+const CREDENTIALS_RANGE = `${CREDENTIALS_TAB_NAME}!A:E`;
+
+const sheetInfo = (spreadsheetId: string) => ({ sheetId: spreadsheetId, sheetName: 'Butcher POS Sheet' });
+
+const writeHeader = async (sheets: sheets_v4.Sheets, spreadsheetId: string) => {
+  await measureApiCall(
+    'credentials:header',
+    'PUT',
+    () => sheets.spreadsheets.values.update({
+      spreadsheetId,
+      range: `${CREDENTIALS_TAB_NAME}!A1:E1`,
+      valueInputOption: 'RAW',
+      requestBody: { values: [CREDENTIALS_HEADER] }
+    }),
+    sheetInfo(spreadsheetId)
+  );
+};
+
+/**
+ * Create the Credentials tab with its header row if it doesn't exist yet
+ * (a tab from before the Must Change Password column gets the new header)
+ */
+async function ensureCredentialsTab(): Promise<void> {
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+
+  try {
+    const response = await sheets.spreadsheets.values.get({
+      spreadsheetId: pos,
+      range: `${CREDENTIALS_TAB_NAME}!A1:E1`
+    });
+    if ((response.data.values?.[0] || []).length < CREDENTIALS_HEADER.length) {
+      await writeHeader(sheets, pos);
+    }
+  } catch {
+    await measureApiCall(
+      'credentials:createTab',
+      'POST',
+      () => sheets.spreadsheets.batchUpdate({
+        spreadsheetId: pos,
+        requestBody: { requests: [{ addSheet: { properties: { title: CREDENTIALS_TAB_NAME } } }] }
+      }),
+      sheetInfo(pos)
+    );
+    await writeHeader(sheets, pos);
+  }
+}
+
+const toRow = (credential: StoredCredential): string[] => [
+  credential.butcherId,
+  credential.passwordHash,
+  credential.updatedAt,
+  credential.updatedBy,
+  credential.mustChangePassword ? 'yes' : ''
+];
+
+const fromRow = (row: string[]): StoredCredential | null =>
+  row[0] && row[1]
+    ? { butcherId: row[0], passwordHash: row[1], updatedAt: row[2] || '', updatedBy: row[3] || '', mustChangePassword: row[4] === 'yes' }
+    : null;
+
+async function readRows(): Promise<string[][]> {
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+
+  try {
+    const response = await measureApiCall(
+      'credentials:read',
+      'GET',
+      () => sheets.spreadsheets.values.get({
+        spreadsheetId: pos,
+        range: `${CREDENTIALS_TAB_NAME}!A2:E`
+      }),
+      sheetInfo(pos)
+    );
+    return (response.data.values || []) as string[][];
+  } catch (error) {
+    // No Credentials tab yet means no password has been hashed
+    const { code, message } = (error || {}) as { code?: number; message?: string };
+    if (code === 400 || /Unable to parse range/i.test(message || '')) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Every stored credential
+ */
+export const getStoredCredentials = async (): Promise<StoredCredential[]> => {
+  const rows = await readRows();
+  return rows.map(fromRow).filter((credential): credential is StoredCredential => credential !== null);
+};
+
+/**
+ * A butcher's stored credential (null when their password hasn't been hashed yet)
+ */
+export const getStoredCredential = async (butcherId: string): Promise<StoredCredential | null> => {
+  const credentials = await getStoredCredentials();
+  return credentials.find(credential => credential.butcherId === butcherId) || null;
+};
+
+/**
+ * Store a credential (updates the butcher's row when there is one)
+ */
+export const saveStoredCredential = async (credential: StoredCredential): Promise<void> => {
+  await ensureCredentialsTab();
+
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+  const rowIndex = (await readRows()).findIndex(row => row[0] === credential.butcherId);
+
+  if (rowIndex === -1) {
+    await measureApiCall(
+      'credentials:append',
+      'POST',
+      () => sheets.spreadsheets.values.append({
+        spreadsheetId: pos,
+        range: CREDENTIALS_RANGE,
+        valueInputOption: 'RAW',
+        requestBody: { values: [toRow(credential)] }
+      }),
+      sheetInfo(pos)
+    );
+    return;
+  }
+
+  const rowNumber = rowIndex + 2;
+  await measureApiCall(
+    'credentials:update',
+    'PUT',
+    () => sheets.spreadsheets.values.update({
+      spreadsheetId: pos,
+      range: `${CREDENTIALS_TAB_NAME}!A${rowNumber}:E${rowNumber}`,
+      valueInputOption: 'RAW',
+      requestBody: { values: [toRow(credential)] }
+    }),
+    sheetInfo(pos)
+  );
+};
@@ -9,6 +9,7 @@ import {
   removeQueuedMenuUpdate,
   incrementMenuUpdateRetry,
   isMenuUpdateReadyForRetry,
+  deadLetterMenuUpdate,
   MAX_RETRY_COUNT,
   getMenuUpdateRetryDelay
 } from './orderQueue';
@@ -43,12 +44,12 @@ async function processMenuUpdateQueue(): Promise<void> {
       console.error(`[MenuUpdateWorker] Failed to send menu update for ${queued.butcherName}:`, error.message);
       
       // Increment retry count
-      const canRetry = incrementMenuUpdateRetry(queued.butcherId, queued.butcherName);
+      const canRetry = incrementMenuUpdateRetry(queued.butcherId, queued.butcherName, error.message);
       
       if (!canRetry) {
-        // Max retries reached, remove from queue
-        removeQueuedMenuUpdate(queued.butcherId, queued.butcherName);
-        console.error(`[MenuUpdateWorker] Max retries reached for ${queued.butcherName}`);
+        // Max retries reached, park in dead-letter store for admin replay
+        deadLetterMenuUpdate(queued.butcherId, queued.butcherName, error.message);
+        console.error(`[MenuUpdateWorker] Max retries reached for ${queued.butcherName}, moved to dead-letter`);
       }
     }
   }
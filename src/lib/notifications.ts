@@ -0,0 +1,107 @@
+/**
+ * Admin Notifications
+ * In-memory store behind /api/notifications
+ * Server-side code (e.g. the order SLA worker) adds notifications directly instead of calling the route
+ */
+
+export interface AdminNotification {
+  id: string;
+  type: string;
+  butcherId: string;
+  butcherName: string;
+  orderId: string | null;
+  orderNumber: number | null;
+  reason: string | null;
+  timestamp?: string;
+  data: Record<string, unknown> | null;
+  read: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface NewAdminNotification {
+  type: string;
+  butcherId: string;
+  butcherName: string;
+  orderId?: string;
+  orderNumber?: number;
+  reason?: string;
+  timestamp?: string;
+  data?: Record<string, unknown>;
+}
+
+// In a real application, you would store this in a database
+// For now, we'll use a simple in-memory store
+const notifications: AdminNotification[] = [];
+
+/**
+ * Add a notification for the admin
+ */
+export function createNotification(input: NewAdminNotification): AdminNotification {
+  const notification: AdminNotification = {
+    id: `notif-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    type: input.type,
+    butcherId: input.butcherId,
+    butcherName: input.butcherName,
+    orderId: input.orderId || null,
+    orderNumber: input.orderNumber || null,
+    reason: input.reason || null,
+    timestamp: input.timestamp,
+    data: input.data || null,
+    read: false,
+    createdAt: new Date().toISOString()
+  };
+
+  notifications.push(notification);
+
+  // In a real application, you would:
+  // 1. Save to database
+  // 2. Send email notification to admin
+  // 3. Send push notification
+  // 4. Send real-time notification via WebSocket
+
+  return notification;
+}
+
+/**
+ * List notifications (newest first)
+ */
+export function getNotifications(filters: { type?: string | null; read?: boolean; limit?: number } = {}): AdminNotification[] {
+  let filtered = notifications;
+
+  // Filter by type if provided
+  if (filters.type) {
+    filtered = filtered.filter(notif => notif.type === filters.type);
+  }
+
+  // Filter by read status if provided
+  if (filters.read !== undefined) {
+    filtered = filtered.filter(notif => notif.read === filters.read);
+  }
+
+  // Sort by creation date (newest first)
+  return [...filtered]
+    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .slice(0, filters.limit ?? 50);
+}
+
+export function getUnreadNotificationCount(): number {
+  return notifications.filter(n => !n.read).length;
+}
+
+/**
+ * Mark a notification read/unread, returns false if it doesn't exist
+ */
+export function updateNotification(notificationId: string, read?: boolean): boolean {
+  const notificationIndex = notifications.findIndex(notif => notif.id === notificationId);
+  if (notificationIndex === -1) {
+    return false;
+  }
+
+  notifications[notificationIndex] = {
+    ...notifications[notificationIndex],
+    read: read !== undefined ? read : notifications[notificationIndex].read,
+    updatedAt: new Date().toISOString()
+  };
+  return true;
+}
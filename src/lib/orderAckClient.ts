@@ -0,0 +1,40 @@
+/**
+ * Client-Side Order Acks
+ * Tells the server the dashboard received an order, showed it or had its alarm silenced (POST /api/orders/ack)
+ * Each ack goes out once per order per page load; failed ones are tried again on the next chance
+ */
+
+import type { Order, OrderAckEvent } from './types';
+
+const sentAcks = new Set<string>();
+
+export function acknowledgeOrder(order: Pick<Order, 'id' | 'deviceAcks'>, event: OrderAckEvent): void {
+  if (order.deviceAcks?.[event]) {
+    return; // Already on the order (another tab or device got there first)
+  }
+
+  const orderNo = parseInt(order.id.split('-').pop() || '', 10);
+  const key = `${order.id}:${event}`;
+  if (isNaN(orderNo) || sentAcks.has(key)) {
+    return;
+  }
+  sentAcks.add(key);
+
+  fetch('/api/orders/ack', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${localStorage.getItem('jwt_token')}`
+    },
+    body: JSON.stringify({ orderNo, event, at: new Date().toISOString() })
+  })
+    .then(response => {
+      // 404: the order left this butcher - nothing to retry
+      if (!response.ok && response.status !== 404) {
+        sentAcks.delete(key);
+      }
+    })
+    .catch(() => {
+      sentAcks.delete(key);
+    });
+}
@@ -0,0 +1,94 @@
+/**
+ * Order Acknowledgements
+ * The butcher's dashboard acks each order it gets over SSE:
+ * - delivered: the order event reached the device
+ * - seen: the order card was on screen
+ * - alarm-silenced: someone silenced the new order alarm
+ *
+ * The first ack of each kind is kept on the order (deviceAcks) and forwarded to the Central API,
+ * so support can tell a shop that never saw an order from one that ignored it.
+ */
+
+import { updateOrderInCache } from './orderCache';
+import { centralAPIClient } from './centralAPIClient';
+import type { Order, OrderAckEvent, OrderDeviceAck } from './types';
+
+export const ORDER_ACK_EVENTS: OrderAckEvent[] = ['delivered', 'seen', 'alarm-silenced'];
+
+// Device clocks can be off - acks claiming to be from the future or before the order are clamped
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export function isOrderAckEvent(value: unknown): value is OrderAckEvent {
+  return typeof value === 'string' && (ORDER_ACK_EVENTS as string[]).includes(value);
+}
+
+/**
+ * When the ack happened: the device's timestamp if it's plausible, otherwise now
+ */
+function getAckTime(order: Order, deviceTime?: string): Date {
+  const now = Date.now();
+  const at = deviceTime ? new Date(deviceTime).getTime() : NaN;
+  const received = new Date(order._receivedAt || order.orderTime).getTime();
+
+  if (isNaN(at) || at > now + MAX_CLOCK_SKEW_MS) {
+    return new Date(now);
+  }
+  return new Date(Math.max(at, received));
+}
+
+/**
+ * Store an ack on the order
+ * Returns the updated order, or null when this kind was already acked (the first one wins)
+ */
+export function recordOrderAck(
+  butcherId: string,
+  orderNo: number,
+  order: Order,
+  event: OrderAckEvent,
+  device: Omit<OrderDeviceAck, 'at'>,
+  deviceTime?: string
+): Order | null {
+  if (order.deviceAcks?.[event]) {
+    return null;
+  }
+
+  const deviceAcks = {
+    ...order.deviceAcks,
+    [event]: { ...device, at: getAckTime(order, deviceTime) }
+  };
+  updateOrderInCache(butcherId, orderNo, { deviceAcks });
+  return { ...order, deviceAcks };
+}
+
+/**
+ * Forward an ack to the Central API along with the order's earlier ones
+ * Returns false when the Central API couldn't be reached (the next ack carries this one too)
+ */
+export async function forwardOrderAck(butcherName: string, orderNo: number, order: Order, event: OrderAckEvent): Promise<boolean> {
+  const ack = order.deviceAcks?.[event];
+  if (!ack) {
+    return false;
+  }
+
+  const acks: Partial<Record<OrderAckEvent, string>> = {};
+  for (const kind of ORDER_ACK_EVENTS) {
+    const recorded = order.deviceAcks?.[kind];
+    if (recorded) {
+      acks[kind] = recorded.at.toISOString();
+    }
+  }
+
+  try {
+    await centralAPIClient.sendOrderAcknowledgement(orderNo, butcherName, {
+      event,
+      at: ack.at.toISOString(),
+      sessionId: ack.sessionId,
+      by: ack.byName || ack.by,
+      acks
+    });
+    return true;
+  } catch (error) {
+    console.error(`[OrderAck] Could not forward '${event}' for order ${orderNo}:`, error instanceof Error ? error.message : error);
+    return false;
+  }
+}
@@ -3,9 +3,12 @@
  * This module handles intelligent assignment of orders to appropriate butchers
  */
 
-import type { Order, OrderItem } from './types';
-import { saveOrderToSheet } from './sheets';
-import { getButcherConfig, getButcherType, freshButchers, CATEGORIES } from './butcherConfig';
+import type { Order, OrderItem, MenuCategory } from './types';
+import { getRepositories } from './repositories';
+import { getAllOrdersFromCache } from './orderCache';
+import { sheetsCache, CACHE_KEYS } from './cache';
+import { normalizeItemName } from './matchingUtils';
+import { getButcherConfig, getButcherType, freshButchers, CATEGORIES, extractEnglishName } from './butcherConfig';
 
 // Item categorization for smart assignment
 const ITEM_CATEGORIES = {
@@ -25,28 +28,69 @@ const ITEM_CATEGORIES = {
   'seafood': ['nandu', 'crab', 'kakka', 'clam', 'tiger chemmeen', 'tiger prawns']
 };
 
+// Item category → Menu category names that can fulfil it
+const CATEGORY_MAP: Record<string, string[]> = {
+  'chicken': ['chicken'],
+  'mutton': ['mutton'],
+  'beef': ['beef'],
+  'fish': ['sea water fish', 'fresh water fish', 'steak fish'],
+  'seafood': ['sea water fish', 'fresh water fish']
+};
+
+const MEAT_ITEM_TYPES = ['chicken', 'mutton', 'beef'];
+const FISH_ITEM_TYPES = ['fish', 'seafood'];
+
+// Routing score weights (higher score wins)
+const PRIORITY_WEIGHT = 10; // per point of configured routingPriority
+const OPEN_ORDER_PENALTY = 5; // per order the butcher is still working on
+const PREP_MINUTE_PENALTY = 0.5; // per minute of median preparation time
+const UNAVAILABLE_ITEM_PENALTY = 100; // per ordered item missing from the butcher's menu
+const DEFAULT_PREP_MINUTES = 20; // used when a butcher has no sales history yet
+
+const OPEN_ORDER_STATUSES: Order['status'][] = ['new', 'awaiting customer', 'preparing', 'prepared'];
+const PREP_TIME_CACHE_TTL = 30 * 60 * 1000;
+const MENU_CACHE_TTL = 5 * 60 * 1000;
+
+export interface ButcherRoutingScore {
+  butcherId: string;
+  score: number;
+  priority: number;
+  openOrders: number;
+  medianPrepMinutes: number | null;
+  unavailableItems: string[];
+}
+
+export interface OrderRoutingPlan {
+  orderId: string;
+  split: boolean;
+  assignments: Array<{
+    order: Order; // The original order, or a child order when split
+    butcherId: string;
+    scores: ButcherRoutingScore[]; // All candidates, best first
+  }>;
+}
+
 /**
- * Determines which butcher should handle an order based on items
+ * Categorise an item by name (chicken, mutton, beef, fish, seafood)
  */
-export const assignOrderToButcher = (order: Order): string[] => {
-  const possibleButchers: string[] = [];
-  
-  // Analyze each item in the order
-  const itemTypes = new Set<string>();
+const getItemType = (item: OrderItem): string | undefined => {
+  const itemName = item.name.toLowerCase();
   
-  order.items.forEach(item => {
-    const itemName = item.name.toLowerCase();
-    
-    // Check which category this item belongs to
-    for (const [category, items] of Object.entries(ITEM_CATEGORIES)) {
-      if (items.some(categoryItem => itemName.includes(categoryItem.toLowerCase()))) {
-        itemTypes.add(category);
-        break;
-      }
+  // Check which category this item belongs to
+  for (const [category, items] of Object.entries(ITEM_CATEGORIES)) {
+    if (items.some(categoryItem => itemName.includes(categoryItem.toLowerCase()))) {
+      return category;
     }
-  });
-  
-  // Find butchers who can handle these item types using butcher config
+  }
+  return undefined;
+};
+
+/**
+ * Butchers whose configured categories cover every item type
+ */
+const getCapableButchers = (itemTypes: Set<string>): string[] => {
+  const capable: string[] = [];
+
   for (const butcher of freshButchers) {
     const config = getButcherConfig(butcher.id);
     if (!config) continue;
@@ -59,25 +103,45 @@ export const assignOrderToButcher = (order: Order): string[] => {
     
     // Check if butcher can handle all item types
     const canHandle = Array.from(itemTypes).every(itemType => {
-      // Map item types to category names
-      const categoryMap: Record<string, string[]> = {
-        'chicken': ['chicken'],
-        'mutton': ['mutton'],
-        'beef': ['beef'],
-        'fish': ['sea water fish', 'fresh water fish', 'steak fish'],
-        'seafood': ['sea water fish', 'fresh water fish']
-      };
-      
-      const matchingCategories = categoryMap[itemType] || [];
+      const matchingCategories = CATEGORY_MAP[itemType] || [];
       return matchingCategories.some(cat => 
         butcherCategories.some(butcherCat => butcherCat.includes(cat))
       );
     });
     
     if (canHandle) {
-      possibleButchers.push(butcher.id);
+      capable.push(butcher.id);
     }
   }
+
+  return capable;
+};
+
+/**
+ * Number of orders a butcher is currently working on (from the live order cache)
+ */
+const getOpenOrderCount = (butcherId: string): number => {
+  return getAllOrdersFromCache(butcherId).filter(order => OPEN_ORDER_STATUSES.includes(order.status)).length;
+};
+
+/**
+ * Determines which butcher should handle an order based on items
+ * Capable butchers are ordered by configured priority, then current load
+ */
+export const assignOrderToButcher = (order: Order): string[] => {
+  // Analyze each item in the order
+  const itemTypes = new Set<string>();
+  
+  order.items.forEach(item => {
+    const itemType = getItemType(item);
+    if (itemType) itemTypes.add(itemType);
+  });
+  
+  // Find butchers who can handle these item types using butcher config
+  const possibleButchers = getCapableButchers(itemTypes).sort((a, b) =>
+    (getButcherConfig(b)?.routingPriority || 0) - (getButcherConfig(a)?.routingPriority || 0) ||
+    getOpenOrderCount(a) - getOpenOrderCount(b)
+  );
   
   // If no specific match, assign based on item type priority
   if (possibleButchers.length === 0) {
@@ -95,28 +159,186 @@ export const assignOrderToButcher = (order: Order): string[] => {
   return possibleButchers.length > 0 ? possibleButchers : ['usaj']; // Default fallback
 };
 
+/**
+ * Median preparation time (minutes) from the butcher's completed sales history
+ * Returns null when there is no history or the sales sheet can't be read
+ */
+const getMedianPrepMinutes = async (butcherId: string): Promise<number | null> => {
+  const cached = sheetsCache.get<{ minutes: number | null }>(CACHE_KEYS.PREP_TIME(butcherId));
+  if (cached) return cached.minutes;
+
+  let minutes: number | null = null;
+  try {
+    const durations = (await getRepositories().sales.getSalesOrders(butcherId))
+      .filter(order => order.status === 'completed' && order.preparationStartTime && order.preparationEndTime)
+      .map(order => (order.preparationEndTime!.getTime() - order.preparationStartTime!.getTime()) / 60000)
+      .filter(duration => duration > 0)
+      .sort((a, b) => a - b);
+
+    if (durations.length > 0) {
+      const middle = Math.floor(durations.length / 2);
+      minutes = durations.length % 2 === 0
+        ? (durations[middle - 1] + durations[middle]) / 2
+        : durations[middle];
+    }
+  } catch (error) {
+    console.warn(`[Routing] No sales history for ${butcherId}:`, error instanceof Error ? error.message : error);
+  }
+
+  sheetsCache.set(CACHE_KEYS.PREP_TIME(butcherId), { minutes }, PREP_TIME_CACHE_TTL);
+  return minutes;
+};
+
+/**
+ * Ordered items the butcher doesn't have (missing from their menu sheet, or marked unavailable)
+ * Returns an empty list when the menu can't be read, so an outage doesn't skew routing
+ */
+const getUnavailableItems = async (butcherId: string, items: OrderItem[]): Promise<string[]> => {
+  let menu = sheetsCache.get<MenuCategory[]>(CACHE_KEYS.MENU(butcherId));
+  if (!menu) {
+    try {
+      menu = await getRepositories().menus.getMenu(butcherId);
+      sheetsCache.set(CACHE_KEYS.MENU(butcherId), menu, MENU_CACHE_TTL);
+    } catch (error) {
+      console.warn(`[Routing] Could not read menu for ${butcherId}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }
+
+  const menuItems = menu.flatMap(category => category.items);
+  const matchName = (name: string) => normalizeItemName(extractEnglishName(name));
+
+  return items
+    .filter(item => !menuItems.some(menuItem =>
+      menuItem.available && matchName(menuItem.name) === matchName(item.name)
+    ))
+    .map(item => item.name);
+};
+
+/**
+ * Score candidate butchers for a set of items (best first)
+ */
+export const scoreButchers = async (butcherIds: string[], items: OrderItem[]): Promise<ButcherRoutingScore[]> => {
+  const scores = await Promise.all(butcherIds.map(async butcherId => {
+    const priority = getButcherConfig(butcherId)?.routingPriority || 0;
+    const openOrders = getOpenOrderCount(butcherId);
+    const [medianPrepMinutes, unavailableItems] = await Promise.all([
+      getMedianPrepMinutes(butcherId),
+      getUnavailableItems(butcherId, items)
+    ]);
+
+    const score = priority * PRIORITY_WEIGHT
+      - openOrders * OPEN_ORDER_PENALTY
+      - (medianPrepMinutes ?? DEFAULT_PREP_MINUTES) * PREP_MINUTE_PENALTY
+      - unavailableItems.length * UNAVAILABLE_ITEM_PENALTY;
+
+    return { butcherId, score, priority, openOrders, medianPrepMinutes, unavailableItems };
+  }));
+
+  return scores.sort((a, b) => b.score - a.score);
+};
+
+/**
+ * Child order ID for one butcher's part of a split order
+ * Keeps the order number last so extractOrderNumber still works (ORD-2025-01-15-123 -> ORD-2025-01-15-fish-123)
+ */
+const getChildOrderId = (parentOrderId: string, group: string): string => {
+  const lastDash = parentOrderId.lastIndexOf('-');
+  return `${parentOrderId.slice(0, lastDash)}-${group}${parentOrderId.slice(lastDash)}`;
+};
+
+/**
+ * Work out where an order should go
+ * - One butcher when a capable butcher has every item available (best score wins)
+ * - Split into meat and fish child orders when no single butcher can fulfil a mixed order
+ * - Otherwise the first butcher from assignOrderToButcher (previous behaviour)
+ */
+export const routeOrder = async (order: Order): Promise<OrderRoutingPlan> => {
+  const itemTypes = new Set(order.items.map(getItemType).filter((type): type is string => !!type));
+  const capable = getCapableButchers(itemTypes);
+
+  let best: ButcherRoutingScore[] = [];
+  if (capable.length > 0) {
+    best = await scoreButchers(capable, order.items);
+    if (best[0].unavailableItems.length === 0) {
+      return { orderId: order.id, split: false, assignments: [{ order, butcherId: best[0].butcherId, scores: best }] };
+    }
+  }
+
+  const isMixed = Array.from(itemTypes).some(type => MEAT_ITEM_TYPES.includes(type)) &&
+    Array.from(itemTypes).some(type => FISH_ITEM_TYPES.includes(type));
+
+  if (isMixed) {
+    // Unrecognised items travel with the meat part
+    const fishItems = order.items.filter(item => FISH_ITEM_TYPES.includes(getItemType(item) || ''));
+    const meatItems = order.items.filter(item => !fishItems.includes(item));
+    const groups = [{ group: 'meat', items: meatItems }, { group: 'fish', items: fishItems }];
+
+    const assignments: OrderRoutingPlan['assignments'] = [];
+    for (const { group, items } of groups) {
+      const groupTypes = new Set(items.map(getItemType).filter((type): type is string => !!type));
+      const candidates = getCapableButchers(groupTypes);
+      if (candidates.length === 0) {
+        throw new Error(`No butcher can take the ${group} items of order ${order.id}`);
+      }
+
+      const scores = await scoreButchers(candidates, items);
+      const childOrder: Order = {
+        ...order,
+        id: getChildOrderId(order.id, group),
+        items,
+        parentOrderId: order.id,
+        butcherId: scores[0].butcherId
+      };
+      assignments.push({ order: childOrder, butcherId: scores[0].butcherId, scores });
+    }
+
+    console.log(`[Routing] Split order ${order.id}: ${assignments.map(a => `${a.order.id} → ${a.butcherId}`).join(', ')}`);
+    return { orderId: order.id, split: true, assignments };
+  }
+
+  // Single-type order where nobody has everything - best capable butcher, or the static fallback
+  const butcherId = best[0]?.butcherId || assignOrderToButcher(order)[0];
+  return { orderId: order.id, split: false, assignments: [{ order, butcherId, scores: best }] };
+};
+
 /**
  * Automatically assigns and saves an order to the appropriate butcher(s)
+ * Split orders are saved as one child order per butcher, linked to the parent via parentOrderId
  */
-export const autoAssignOrder = async (order: Order): Promise<{ success: boolean; assignments: string[]; errors?: string[] }> => {
-  const possibleButchers = assignOrderToButcher(order);
+export const autoAssignOrder = async (order: Order): Promise<{
+  success: boolean;
+  assignments: string[];
+  childOrderIds?: string[]; // Split orders only - the parent isn't stored, children point to it via parentOrderId
+  errors?: string[];
+}> => {
   const assignments: string[] = [];
   const errors: string[] = [];
   
-  // For MVP, assign to the first suitable butcher
-  // In future, you could implement load balancing or multi-assignment
-  const selectedButcher = possibleButchers[0];
-  
+  let plan: OrderRoutingPlan;
   try {
-    await saveOrderToSheet(order, selectedButcher);
-    assignments.push(selectedButcher);
-  } catch (error: any) {
-    errors.push(`Failed to assign to ${selectedButcher}: ${error.message}`);
+    plan = await routeOrder(order);
+  } catch (error) {
+    return {
+      success: false,
+      assignments,
+      errors: [`Failed to route ${order.id}: ${error instanceof Error ? error.message : 'Unknown error'}`]
+    };
+  }
+  
+  for (const assignment of plan.assignments) {
+    try {
+      await getRepositories().orders.saveOrder(assignment.order, assignment.butcherId);
+      assignments.push(assignment.butcherId);
+    } catch (error) {
+      errors.push(`Failed to assign ${assignment.order.id} to ${assignment.butcherId}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   }
   
   return {
-    success: assignments.length > 0,
+    success: assignments.length === plan.assignments.length,
     assignments,
+    ...(plan.split ? { childOrderIds: plan.assignments.map(a => a.order.id) } : {}),
     errors: errors.length > 0 ? errors : undefined
   };
 };
@@ -1,28 +1,152 @@
 /**
  * In-Memory Order Cache System
  * Stores orders per butcher, only writes to sheets on completion
+ * Every mutation is journaled to a QueueStore so live orders survive restarts
+ * and published on the pub/sub bus so every instance's cache holds the same orders
  */
 
-import type { Order } from './types';
+import type { Order, OrderAckEvent, OrderDeviceAck, OrderDeviceAcks } from './types';
+import { createQueueStore } from './queueStore';
+import { getPubSubBus } from './pubsub';
+
+interface PersistedOrder {
+  butcherId: string;
+  orderNo: number;
+  order: Order;
+}
 
 // Cache structure: butcherId → orderNo (number) → Order
 const orderCache = new Map<string, Map<number, Order>>();
 
+// Persistent backing store (see queueStore.ts for QUEUE_STORE options)
+const store = createQueueStore('order-cache');
+const ORDERS = 'orders';
+
+// Finished orders older than this are dropped from the cache (already saved to sheets)
+const RETENTION_MS = parseInt(process.env.ORDER_CACHE_RETENTION_HOURS || '48', 10) * 60 * 60 * 1000;
+
+function storeKey(butcherId: string, orderNo: number): string {
+  return `${butcherId}:${orderNo}`;
+}
+
+function persist(butcherId: string, orderNo: number, order: Order): void {
+  store.put<PersistedOrder>(ORDERS, storeKey(butcherId, orderNo), { butcherId, orderNo, order });
+}
+
+const CACHE_CHANNEL = 'order-cache';
+
+// Cache mutation as sent to the other instances (puts carry the whole resulting order)
+type OrderCacheChange =
+  | { op: 'put'; butcherId: string; orderNo: number; order: Order }
+  | { op: 'remove'; butcherId: string; orderNo: number }
+  | { op: 'clear'; butcherId: string };
+
+function putOrder(butcherId: string, orderNo: number, order: Order): void {
+  if (!orderCache.has(butcherId)) {
+    orderCache.set(butcherId, new Map());
+  }
+  orderCache.get(butcherId)!.set(orderNo, order);
+  persist(butcherId, orderNo, order);
+}
+
+function deleteOrder(butcherId: string, orderNo: number): void {
+  orderCache.get(butcherId)?.delete(orderNo);
+  store.remove(ORDERS, storeKey(butcherId, orderNo));
+}
+
+function deleteButcherOrders(butcherId: string): void {
+  const butcherCache = orderCache.get(butcherId);
+  if (butcherCache) {
+    for (const orderNo of butcherCache.keys()) {
+      store.remove(ORDERS, storeKey(butcherId, orderNo));
+    }
+  }
+  orderCache.delete(butcherId);
+}
+
+function publishChange(change: OrderCacheChange): void {
+  getPubSubBus().publish<OrderCacheChange>(CACHE_CHANNEL, change);
+}
+
+// Apply other instances' changes (this instance's own were applied when made)
+getPubSubBus().subscribe<OrderCacheChange>(CACHE_CHANNEL, (change, { local }) => {
+  if (local) return;
+  if (change.op === 'put') {
+    putOrder(change.butcherId, change.orderNo, reviveOrder(change.order));
+  } else if (change.op === 'remove') {
+    deleteOrder(change.butcherId, change.orderNo);
+  } else {
+    deleteButcherOrders(change.butcherId);
+  }
+});
+
+/**
+ * Revive Date fields after a JSON round-trip through the store
+ */
+export function reviveOrder(order: Order): Order {
+  return {
+    ...order,
+    orderTime: new Date(order.orderTime),
+    preparationStartTime: order.preparationStartTime ? new Date(order.preparationStartTime) : undefined,
+    preparationEndTime: order.preparationEndTime ? new Date(order.preparationEndTime) : undefined,
+    _receivedAt: order._receivedAt ? new Date(order._receivedAt) : undefined,
+    statusHistory: order.statusHistory?.map(transition => ({ ...transition, at: new Date(transition.at) })),
+    slaEscalation: order.slaEscalation ? { ...order.slaEscalation, at: new Date(order.slaEscalation.at) } : undefined,
+    deviceAcks: order.deviceAcks ? reviveDeviceAcks(order.deviceAcks) : undefined
+  };
+}
+
+function reviveDeviceAcks(acks: OrderDeviceAcks): OrderDeviceAcks {
+  const revived: OrderDeviceAcks = {};
+  for (const [event, ack] of Object.entries(acks) as Array<[OrderAckEvent, OrderDeviceAck]>) {
+    revived[event] = { ...ack, at: new Date(ack.at) };
+  }
+  return revived;
+}
+
+function isExpired(order: Order, now: number): boolean {
+  const isFinished = order.status === 'completed' || order.status === 'rejected';
+  return isFinished && now - new Date(order.orderTime).getTime() > RETENTION_MS;
+}
+
+/**
+ * Rehydrate the cache from the store on startup
+ */
+function hydrateFromStore(): void {
+  const now = Date.now();
+  let restored = 0;
+
+  for (const entry of store.load<PersistedOrder>(ORDERS)) {
+    const order = reviveOrder(entry.order);
+    if (isExpired(order, now)) {
+      store.remove(ORDERS, storeKey(entry.butcherId, entry.orderNo));
+      continue;
+    }
+
+    if (!orderCache.has(entry.butcherId)) {
+      orderCache.set(entry.butcherId, new Map());
+    }
+    orderCache.get(entry.butcherId)!.set(entry.orderNo, order);
+    restored++;
+  }
+
+  if (restored > 0) {
+    console.log(`[OrderCache] Restored ${restored} order(s) from store`);
+  }
+}
+
+hydrateFromStore();
+
 /**
  * Cache an order for a specific butcher
  */
 export function cacheOrder(butcherId: string, order: Order): void {
-  if (!orderCache.has(butcherId)) {
-    orderCache.set(butcherId, new Map());
-  }
-  
-  const butcherCache = orderCache.get(butcherId)!;
-  
   // Extract order number from order ID (ORD-123 -> 123, ORD-1765225237192 -> 1765225237192)
   const orderNo = extractOrderNumber(order.id);
   
   if (orderNo) {
-    butcherCache.set(orderNo, order);
+    putOrder(butcherId, orderNo, order);
+    publishChange({ op: 'put', butcherId, orderNo, order });
   } else {
     console.error(`[OrderCache] Failed to extract order number from order ID: ${order.id}`);
   }
@@ -67,7 +191,8 @@ export function updateOrderInCache(butcherId: string, orderNo: number, updates:
       ...existingOrder,
       ...updates
     };
-    butcherCache.set(orderNo, updatedOrder);
+    putOrder(butcherId, orderNo, updatedOrder);
+    publishChange({ op: 'put', butcherId, orderNo, order: updatedOrder });
   }
 }
 
@@ -75,9 +200,9 @@ export function updateOrderInCache(butcherId: string, orderNo: number, updates:
  * Remove an order from cache (after completion/storage)
  */
 export function removeOrderFromCache(butcherId: string, orderNo: number): void {
-  const butcherCache = orderCache.get(butcherId);
-  if (butcherCache) {
-    butcherCache.delete(orderNo);
+  if (orderCache.has(butcherId)) {
+    deleteOrder(butcherId, orderNo);
+    publishChange({ op: 'remove', butcherId, orderNo });
   }
 }
 
@@ -85,7 +210,28 @@ export function removeOrderFromCache(butcherId: string, orderNo: number): void {
  * Clear all orders for a specific butcher
  */
 export function clearButcherCache(butcherId: string): void {
-  orderCache.delete(butcherId);
+  deleteButcherOrders(butcherId);
+  publishChange({ op: 'clear', butcherId });
+}
+
+/**
+ * Drop finished orders older than the retention window
+ */
+export function pruneExpiredOrders(): number {
+  const now = Date.now();
+  let pruned = 0;
+
+  for (const [butcherId, butcherCache] of orderCache.entries()) {
+    for (const [orderNo, order] of butcherCache.entries()) {
+      if (isExpired(order, now)) {
+        butcherCache.delete(orderNo);
+        store.remove(ORDERS, storeKey(butcherId, orderNo));
+        pruned++;
+      }
+    }
+  }
+
+  return pruned;
 }
 
 /**
@@ -103,10 +249,15 @@ export function getCacheStats(): { butcherId: string; orderCount: number }[] {
  * ORD-123 -> 123
  * ORD-2025-01-15-123 -> 123
  */
-function extractOrderNumber(orderId: string): number | null {
+export function extractOrderNumber(orderId: string): number | null {
   const parts = orderId.replace('ORD-', '').split('-');
   const lastPart = parts[parts.length - 1];
   const orderNo = parseInt(lastPart, 10);
   return isNaN(orderNo) ? null : orderNo;
 }
 
+
+// Prune finished orders every hour
+if (typeof setInterval !== 'undefined') {
+  setInterval(pruneExpiredOrders, 60 * 60 * 1000);
+}
@@ -0,0 +1,120 @@
+/**
+ * Order Delivery Idempotency
+ * Detects Central API re-deliveries of the same order to POST /vcs/orders/new
+ * Key: butcher + orderNo, fingerprinted with a hash of the payload
+ */
+
+import { createHash } from 'crypto';
+import { createQueueStore } from './queueStore';
+
+interface DeliveryRecord {
+  orderNo: number;
+  butcher: string;
+  payloadHash: string;
+  status: number; // HTTP status of the original response
+  body: Record<string, unknown>; // Original response body
+  receivedAt: number;
+}
+
+type DeliveryCheck =
+  | { result: 'new'; payloadHash: string }
+  | { result: 'duplicate'; record: DeliveryRecord }
+  | { result: 'conflict'; record: DeliveryRecord; payloadHash: string };
+
+// Persistent backing store (see queueStore.ts for QUEUE_STORE options)
+const store = createQueueStore('order-idempotency');
+const DELIVERIES = 'deliveries';
+
+// How long a delivery is remembered (Central API retries happen within minutes)
+const RETENTION_MS = parseInt(process.env.ORDER_IDEMPOTENCY_RETENTION_HOURS || '24', 10) * 60 * 60 * 1000;
+
+const deliveries = new Map<string, DeliveryRecord>(
+  store.load<DeliveryRecord>(DELIVERIES).map(record => [deliveryKey(record.butcher, record.orderNo), record])
+);
+
+function deliveryKey(butcher: string, orderNo: number): string {
+  return `${butcher}:${orderNo}`;
+}
+
+/**
+ * JSON with sorted object keys so field order doesn't change the hash
+ */
+function canonicalJSON(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJSON).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJSON((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * SHA-256 fingerprint of an order payload
+ */
+export function hashOrderPayload(payload: unknown): string {
+  return createHash('sha256').update(canonicalJSON(payload)).digest('hex');
+}
+
+/**
+ * Check whether an order delivery has been seen before
+ */
+export function checkOrderDelivery(orderNo: number, butcher: string, payload: unknown): DeliveryCheck {
+  const payloadHash = hashOrderPayload(payload);
+  const record = deliveries.get(deliveryKey(butcher, orderNo));
+
+  if (!record || Date.now() - record.receivedAt > RETENTION_MS) {
+    return { result: 'new', payloadHash };
+  }
+
+  if (record.payloadHash === payloadHash) {
+    return { result: 'duplicate', record };
+  }
+
+  return { result: 'conflict', record, payloadHash };
+}
+
+/**
+ * Remember the response given for an order delivery
+ */
+export function recordOrderDelivery(
+  orderNo: number,
+  butcher: string,
+  payloadHash: string,
+  status: number,
+  body: Record<string, unknown>
+): void {
+  const key = deliveryKey(butcher, orderNo);
+  const record: DeliveryRecord = { orderNo, butcher, payloadHash, status, body, receivedAt: Date.now() };
+
+  deliveries.set(key, record);
+  store.put(DELIVERIES, key, record);
+}
+
+/**
+ * Forget deliveries older than the retention window
+ */
+export function pruneOrderDeliveries(): number {
+  const now = Date.now();
+  let pruned = 0;
+
+  for (const [key, record] of deliveries.entries()) {
+    if (now - record.receivedAt > RETENTION_MS) {
+      deliveries.delete(key);
+      store.remove(DELIVERIES, key);
+      pruned++;
+    }
+  }
+
+  return pruned;
+}
+
+pruneOrderDeliveries();
+
+// Prune expired deliveries every hour
+if (typeof setInterval !== 'undefined') {
+  setInterval(pruneOrderDeliveries, 60 * 60 * 1000);
+}
@@ -0,0 +1,135 @@
+/**
+ * Order Item Status
+ * Per-item outcome of a butcher's response (accepted / rejected / substituted / short-weight)
+ * Also owns the "item: weight (status)" cell format used in the Butcher POS "Preparing weight" column
+ */
+
+import type { OrderItem, OrderItemStatus, OrderItemSubstitute } from './types';
+
+// Preparing weight may be this far under the ordered quantity before the item counts as short-weight
+const SHORT_WEIGHT_TOLERANCE = 0.05;
+
+export const ITEM_STATUS_LABELS: Record<OrderItemStatus, string> = {
+  'accepted': 'Accepted',
+  'rejected': 'Rejected',
+  'substituted': 'Substituted',
+  'short-weight': 'Short Weight'
+};
+
+/**
+ * Parse a weight string into the item's unit (e.g. "500g" -> 0.5 for kg items, "2nos" -> 2)
+ */
+export function parseItemWeight(weightStr: string, unit: OrderItem['unit']): number {
+  if (!weightStr) return 0;
+
+  const value = parseFloat(weightStr.replace(/[^0-9.]/g, '')) || 0;
+  const lower = weightStr.toLowerCase();
+  const isGrams = lower.includes('g') && !lower.includes('kg');
+
+  if (unit === 'kg' && isGrams) return value / 1000;
+  if (unit === 'g' && lower.includes('kg')) return value * 1000;
+  return value;
+}
+
+/**
+ * Unit written in a weight string ("1.5kg", "500g", "2nos"), null for a bare number
+ */
+function getWeightUnit(weightStr: string): OrderItem['unit'] | null {
+  const lower = weightStr.toLowerCase();
+  if (lower.includes('kg')) return 'kg';
+  if (lower.includes('g')) return 'g';
+  if (lower.includes('no')) return 'nos';
+  return null;
+}
+
+/**
+ * Check if the preparing weight falls short of what the customer ordered
+ * A weight that can't be compared with the ordered quantity (pieces against kg/g) is never short
+ */
+export function isShortWeight(item: OrderItem, preparingWeight: string): boolean {
+  const weightUnit = getWeightUnit(preparingWeight);
+  if (weightUnit && (weightUnit === 'nos') !== (item.unit === 'nos')) return false;
+
+  const weight = parseItemWeight(preparingWeight, item.unit);
+  if (weight <= 0 || item.quantity <= 0) return false;
+  return weight < item.quantity * (1 - SHORT_WEIGHT_TOLERANCE);
+}
+
+/**
+ * Resolve an item's status, deriving it for items saved before per-item status existed
+ */
+export function getItemStatus(item: OrderItem): OrderItemStatus | undefined {
+  if (item.status) return item.status;
+  if (item.rejected) return 'rejected';
+  if (item.preparingWeight) return 'accepted';
+  return undefined;
+}
+
+export function isItemRejected(item: OrderItem): boolean {
+  return getItemStatus(item) === 'rejected';
+}
+
+/**
+ * Status for an item the butcher accepted with the given weight
+ */
+export function getAcceptedItemStatus(item: OrderItem, preparingWeight: string): OrderItemStatus {
+  if (item.substitutedWith) return 'substituted';
+  return isShortWeight(item, preparingWeight) ? 'short-weight' : 'accepted';
+}
+
+/**
+ * Format one entry of the "Preparing weight" column
+ * "item: 1.5kg", "item: rejected", "item: 1.2kg (short-weight)", "item: 1kg (substituted: Other Item)"
+ */
+export function formatPreparingWeightEntry(item: OrderItem, weight: string): string {
+  const status = getItemStatus(item);
+
+  if (status === 'rejected') {
+    return `${item.name}: rejected`;
+  }
+  if (!weight) {
+    return '';
+  }
+  if (status === 'short-weight') {
+    return `${item.name}: ${weight} (short-weight)`;
+  }
+  if (status === 'substituted' && item.substitutedWith) {
+    const substitute = item.substitutedWith.size && item.substitutedWith.size !== 'default'
+      ? `${item.substitutedWith.name} / ${item.substitutedWith.size}`
+      : item.substitutedWith.name;
+    return `${item.name}: ${weight} (substituted: ${substitute})`;
+  }
+  return `${item.name}: ${weight}`;
+}
+
+/**
+ * Parse the value part of a "Preparing weight" entry (everything after "item: ")
+ */
+export function parsePreparingWeightValue(value: string): {
+  status: OrderItemStatus;
+  weight?: string;
+  substitutedWith?: OrderItemSubstitute;
+} {
+  const trimmed = value.trim();
+
+  if (trimmed.toLowerCase() === 'rejected') {
+    return { status: 'rejected' };
+  }
+
+  const match = trimmed.match(/^(.*?)\s*\((short-weight|substituted)(?::\s*(.+))?\)$/i);
+  if (!match) {
+    return { status: 'accepted', weight: trimmed };
+  }
+
+  const weight = match[1].trim();
+  if (match[2].toLowerCase() === 'short-weight') {
+    return { status: 'short-weight', weight };
+  }
+
+  const [name, size] = (match[3] || '').split(' / ').map(part => part.trim());
+  return {
+    status: 'substituted',
+    weight,
+    ...(name ? { substitutedWith: { name, ...(size ? { size } : {}) } } : {})
+  };
+}
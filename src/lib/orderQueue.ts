@@ -1,14 +1,18 @@
 /**
  * Order Queue System
  * Queues orders and responses when Central API is unavailable
+ * Entries are written through to a QueueStore and replayed on boot
  */
 
-import type { Order } from './types';
+import type { Order, OrderItemStatus, OrderItemSubstitute } from './types';
+import { createQueueStore } from './queueStore';
 
 interface QueuedOrder {
   order: Order;
   receivedAt: Date;
   retryCount: number;
+  lastRetryAt?: Date;
+  lastError?: string;
 }
 
 interface QueuedResponse {
@@ -18,10 +22,14 @@ interface QueuedResponse {
     itemId: string;
     preparingWeight?: string;
     rejected?: string;
+    status?: OrderItemStatus;
+    substitute?: OrderItemSubstitute;
     revenue?: number; // Revenue for accepted items in rupees
   }>;
   timestamp: Date;
   retryCount: number;
+  lastRetryAt?: Date;
+  lastError?: string;
 }
 
 interface QueuedMenuUpdate {
@@ -30,13 +38,91 @@ interface QueuedMenuUpdate {
   timestamp: Date;
   retryCount: number;
   lastRetryAt?: Date;
+  lastError?: string;
   menuType?: 'meat' | 'fish';
 }
 
-// In-memory queues (in production, use Redis or database)
-const orderQueue: QueuedOrder[] = [];
-const responseQueue: QueuedResponse[] = [];
-const menuUpdateQueue: QueuedMenuUpdate[] = [];
+type DeadLetterType = 'order' | 'response' | 'menuUpdate';
+
+interface DeadLetterPayloads {
+  order: QueuedOrder;
+  response: QueuedResponse;
+  menuUpdate: QueuedMenuUpdate;
+}
+
+// Entry that exhausted its retries, kept for admin inspection and manual replay
+type DeadLetterEntry = {
+  [K in DeadLetterType]: {
+    id: string; // "<type>:<queue key>"
+    type: K;
+    payload: DeadLetterPayloads[K];
+    reason: string;
+    failedAt: Date;
+  };
+}[DeadLetterType];
+
+// Persistent backing store (see queueStore.ts for QUEUE_STORE options)
+const store = createQueueStore('order-queue');
+
+const ORDERS = 'orders';
+const RESPONSES = 'responses';
+const MENU_UPDATES = 'menuUpdates';
+const DEAD_LETTERS = 'deadLetters';
+
+// Revive Date fields after a JSON round-trip through the store
+function reviveOrder(q: QueuedOrder): QueuedOrder {
+  return {
+    ...q,
+    order: { ...q.order, orderTime: new Date(q.order.orderTime) },
+    receivedAt: new Date(q.receivedAt),
+    lastRetryAt: q.lastRetryAt ? new Date(q.lastRetryAt) : undefined
+  };
+}
+
+function reviveResponse(q: QueuedResponse): QueuedResponse {
+  return {
+    ...q,
+    timestamp: new Date(q.timestamp),
+    lastRetryAt: q.lastRetryAt ? new Date(q.lastRetryAt) : undefined
+  };
+}
+
+function reviveMenuUpdate(q: QueuedMenuUpdate): QueuedMenuUpdate {
+  return {
+    ...q,
+    timestamp: new Date(q.timestamp),
+    lastRetryAt: q.lastRetryAt ? new Date(q.lastRetryAt) : undefined
+  };
+}
+
+function reviveDeadLetter(entry: DeadLetterEntry): DeadLetterEntry {
+  const failedAt = new Date(entry.failedAt);
+  switch (entry.type) {
+    case 'order':
+      return { ...entry, failedAt, payload: reviveOrder(entry.payload) };
+    case 'response':
+      return { ...entry, failedAt, payload: reviveResponse(entry.payload) };
+    case 'menuUpdate':
+      return { ...entry, failedAt, payload: reviveMenuUpdate(entry.payload) };
+  }
+}
+
+// Working copies, replayed from the store on boot
+const orderQueue: QueuedOrder[] = store.load<QueuedOrder>(ORDERS).map(reviveOrder);
+const responseQueue: QueuedResponse[] = store.load<QueuedResponse>(RESPONSES).map(reviveResponse);
+const menuUpdateQueue: QueuedMenuUpdate[] = store.load<QueuedMenuUpdate>(MENU_UPDATES).map(reviveMenuUpdate);
+const deadLetters: DeadLetterEntry[] = store.load<DeadLetterEntry>(DEAD_LETTERS).map(reviveDeadLetter);
+
+if (orderQueue.length + responseQueue.length + menuUpdateQueue.length + deadLetters.length > 0) {
+  console.log(
+    `[OrderQueue] Restored ${orderQueue.length} order(s), ${responseQueue.length} response(s), ` +
+    `${menuUpdateQueue.length} menu update(s), ${deadLetters.length} dead letter(s) from store`
+  );
+}
+
+function menuUpdateKey(butcherId: string, butcherName: string): string {
+  return `${butcherId}:${butcherName}`;
+}
 
 export const MAX_RETRY_COUNT = 5;
 const RETRY_DELAY = 60000; // 1 minute
@@ -51,7 +137,14 @@ export function queueOrder(order: Order): void {
     retryCount: 0
   };
   
+  // Replace any earlier queued copy of the same order
+  const existingIndex = orderQueue.findIndex(q => q.order.id === order.id);
+  if (existingIndex !== -1) {
+    orderQueue.splice(existingIndex, 1);
+  }
+
   orderQueue.push(queuedOrder);
+  store.put(ORDERS, order.id, queuedOrder);
 }
 
 /**
@@ -64,6 +157,8 @@ export function queueResponse(
     itemId: string;
     preparingWeight?: string;
     rejected?: string;
+    status?: OrderItemStatus;
+    substitute?: OrderItemSubstitute;
     revenue?: number; // Revenue for accepted items in rupees
   }>
 ): void {
@@ -75,7 +170,14 @@ export function queueResponse(
     retryCount: 0
   };
   
+  // Replace any earlier queued response for the same order
+  const existingIndex = responseQueue.findIndex(q => q.orderNo === orderNo);
+  if (existingIndex !== -1) {
+    responseQueue.splice(existingIndex, 1);
+  }
+
   responseQueue.push(queuedResponse);
+  store.put(RESPONSES, String(orderNo), queuedResponse);
 }
 
 /**
@@ -99,6 +201,7 @@ export function removeQueuedOrder(orderId: string): void {
   const index = orderQueue.findIndex(q => q.order.id === orderId);
   if (index !== -1) {
     orderQueue.splice(index, 1);
+    store.remove(ORDERS, orderId);
   }
 }
 
@@ -109,16 +212,20 @@ export function removeQueuedResponse(orderNo: number): void {
   const index = responseQueue.findIndex(q => q.orderNo === orderNo);
   if (index !== -1) {
     responseQueue.splice(index, 1);
+    store.remove(RESPONSES, String(orderNo));
   }
 }
 
 /**
  * Increment retry count for a queued order
  */
-export function incrementOrderRetry(orderId: string): boolean {
+export function incrementOrderRetry(orderId: string, lastError?: string): boolean {
   const queued = orderQueue.find(q => q.order.id === orderId);
   if (queued) {
     queued.retryCount++;
+    queued.lastRetryAt = new Date();
+    queued.lastError = lastError;
+    store.put(ORDERS, orderId, queued);
     return queued.retryCount < MAX_RETRY_COUNT;
   }
   return false;
@@ -127,15 +234,30 @@ export function incrementOrderRetry(orderId: string): boolean {
 /**
  * Increment retry count for a queued response
  */
-export function incrementResponseRetry(orderNo: number): boolean {
+export function incrementResponseRetry(orderNo: number, lastError?: string): boolean {
   const queued = responseQueue.find(q => q.orderNo === orderNo);
   if (queued) {
     queued.retryCount++;
+    queued.lastRetryAt = new Date();
+    queued.lastError = lastError;
+    store.put(RESPONSES, String(orderNo), queued);
     return queued.retryCount < MAX_RETRY_COUNT;
   }
   return false;
 }
 
+/**
+ * Check if queued response is ready for retry (same backoff as menu updates)
+ */
+export function isResponseReadyForRetry(queued: QueuedResponse): boolean {
+  if (queued.retryCount === 0 || !queued.lastRetryAt) {
+    return true;
+  }
+
+  const delay = getMenuUpdateRetryDelay(queued.retryCount - 1);
+  return Date.now() - queued.lastRetryAt.getTime() >= delay;
+}
+
 /**
  * Queue a menu update notification when Central API is unavailable
  */
@@ -152,7 +274,16 @@ export function queueMenuUpdate(
     menuType
   };
   
+  // Replace any earlier queued update for the same butcher
+  const existingIndex = menuUpdateQueue.findIndex(
+    q => q.butcherId === butcherId && q.butcherName === butcherName
+  );
+  if (existingIndex !== -1) {
+    menuUpdateQueue.splice(existingIndex, 1);
+  }
+
   menuUpdateQueue.push(queuedUpdate);
+  store.put(MENU_UPDATES, menuUpdateKey(butcherId, butcherName), queuedUpdate);
 }
 
 /**
@@ -171,19 +302,22 @@ export function removeQueuedMenuUpdate(butcherId: string, butcherName: string):
   );
   if (index !== -1) {
     menuUpdateQueue.splice(index, 1);
+    store.remove(MENU_UPDATES, menuUpdateKey(butcherId, butcherName));
   }
 }
 
 /**
  * Increment retry count for a queued menu update
  */
-export function incrementMenuUpdateRetry(butcherId: string, butcherName: string): boolean {
+export function incrementMenuUpdateRetry(butcherId: string, butcherName: string, lastError?: string): boolean {
   const queued = menuUpdateQueue.find(
     q => q.butcherId === butcherId && q.butcherName === butcherName
   );
   if (queued) {
     queued.retryCount++;
     queued.lastRetryAt = new Date();
+    queued.lastError = lastError;
+    store.put(MENU_UPDATES, menuUpdateKey(butcherId, butcherName), queued);
     return queued.retryCount < MAX_RETRY_COUNT;
   }
   return false;
@@ -217,14 +351,135 @@ export function isMenuUpdateReadyForRetry(queued: QueuedMenuUpdate): boolean {
   return timeSinceLastRetry >= delay;
 }
 
+/**
+ * Check if queued order is ready for retry (same backoff as menu updates)
+ */
+export function isOrderReadyForRetry(queued: QueuedOrder): boolean {
+  if (queued.retryCount === 0 || !queued.lastRetryAt) {
+    return true;
+  }
+
+  const delay = getMenuUpdateRetryDelay(queued.retryCount - 1);
+  return Date.now() - queued.lastRetryAt.getTime() >= delay;
+}
+
+function addDeadLetter(entry: DeadLetterEntry): DeadLetterEntry {
+  const existingIndex = deadLetters.findIndex(d => d.id === entry.id);
+  if (existingIndex !== -1) {
+    deadLetters.splice(existingIndex, 1);
+  }
+
+  deadLetters.push(entry);
+  store.put(DEAD_LETTERS, entry.id, entry);
+  return entry;
+}
+
+/**
+ * Move a queued order to the dead-letter store (after max retries)
+ */
+export function deadLetterOrder(orderId: string, reason: string): DeadLetterEntry | null {
+  const index = orderQueue.findIndex(q => q.order.id === orderId);
+  if (index === -1) {
+    return null;
+  }
+
+  const [queued] = orderQueue.splice(index, 1);
+  store.remove(ORDERS, orderId);
+  return addDeadLetter({ id: `order:${orderId}`, type: 'order', payload: queued, reason, failedAt: new Date() });
+}
+
+/**
+ * Move a queued response to the dead-letter store (after max retries)
+ */
+export function deadLetterResponse(orderNo: number, reason: string): DeadLetterEntry | null {
+  const index = responseQueue.findIndex(q => q.orderNo === orderNo);
+  if (index === -1) {
+    return null;
+  }
+
+  const [queued] = responseQueue.splice(index, 1);
+  store.remove(RESPONSES, String(orderNo));
+  return addDeadLetter({ id: `response:${orderNo}`, type: 'response', payload: queued, reason, failedAt: new Date() });
+}
+
+/**
+ * Move a queued menu update to the dead-letter store (after max retries)
+ */
+export function deadLetterMenuUpdate(butcherId: string, butcherName: string, reason: string): DeadLetterEntry | null {
+  const index = menuUpdateQueue.findIndex(
+    q => q.butcherId === butcherId && q.butcherName === butcherName
+  );
+  if (index === -1) {
+    return null;
+  }
+
+  const key = menuUpdateKey(butcherId, butcherName);
+  const [queued] = menuUpdateQueue.splice(index, 1);
+  store.remove(MENU_UPDATES, key);
+  return addDeadLetter({ id: `menuUpdate:${key}`, type: 'menuUpdate', payload: queued, reason, failedAt: new Date() });
+}
+
+/**
+ * Get all dead-letter entries (newest first)
+ */
+export function getDeadLetters(): DeadLetterEntry[] {
+  return [...deadLetters].sort((a, b) => b.failedAt.getTime() - a.failedAt.getTime());
+}
+
+/**
+ * Get a single dead-letter entry
+ */
+export function getDeadLetter(id: string): DeadLetterEntry | null {
+  return deadLetters.find(d => d.id === id) || null;
+}
+
+/**
+ * Remove a dead-letter entry without replaying it
+ */
+export function discardDeadLetter(id: string): boolean {
+  const index = deadLetters.findIndex(d => d.id === id);
+  if (index === -1) {
+    return false;
+  }
+
+  deadLetters.splice(index, 1);
+  store.remove(DEAD_LETTERS, id);
+  return true;
+}
+
+/**
+ * Put a dead-letter entry back on its queue with a fresh retry budget
+ */
+export function replayDeadLetter(id: string): boolean {
+  const entry = getDeadLetter(id);
+  if (!entry) {
+    return false;
+  }
+
+  switch (entry.type) {
+    case 'order':
+      queueOrder(entry.payload.order);
+      break;
+    case 'response':
+      queueResponse(entry.payload.orderNo, entry.payload.butcher, entry.payload.items);
+      break;
+    case 'menuUpdate':
+      queueMenuUpdate(entry.payload.butcherId, entry.payload.butcherName, entry.payload.menuType);
+      break;
+  }
+
+  return discardDeadLetter(id);
+}
+
 /**
  * Get queue statistics
  */
-export function getQueueStats(): { orders: number; responses: number; menuUpdates: number } {
+export function getQueueStats(): { orders: number; responses: number; menuUpdates: number; deadLetters: number } {
   return {
     orders: orderQueue.length,
     responses: responseQueue.length,
-    menuUpdates: menuUpdateQueue.length
+    menuUpdates: menuUpdateQueue.length,
+    deadLetters: deadLetters.length
   };
 }
 
@@ -235,8 +490,10 @@ export function clearQueues(): void {
   orderQueue.length = 0;
   responseQueue.length = 0;
   menuUpdateQueue.length = 0;
+  deadLetters.length = 0;
+  store.clear();
 }
 
 // Export types for use in other modules
-export type { QueuedOrder, QueuedResponse, QueuedMenuUpdate };
+export type { QueuedOrder, QueuedResponse, QueuedMenuUpdate, DeadLetterType, DeadLetterEntry };
 
@@ -0,0 +1,101 @@
+/**
+ * Order Queue Worker
+ * Background worker to retry caching orders that failed on arrival
+ */
+
+import { cacheOrder } from './orderCache';
+import { sendOrderUpdate } from './sseConnectionManager';
+import {
+  getQueuedOrders,
+  removeQueuedOrder,
+  incrementOrderRetry,
+  isOrderReadyForRetry,
+  deadLetterOrder
+} from './orderQueue';
+
+let workerInterval: NodeJS.Timeout | null = null;
+const WORKER_INTERVAL = 30000; // Process queue every 30 seconds
+
+/**
+ * Process queued order queue
+ */
+function processOrderQueue(): void {
+  const queuedOrders = getQueuedOrders();
+
+  if (queuedOrders.length === 0) {
+    return; // Nothing to process
+  }
+
+  for (const queued of queuedOrders) {
+    // Check if ready for retry
+    if (!isOrderReadyForRetry(queued)) {
+      continue; // Not ready yet, skip
+    }
+
+    const butcherId = queued.order.butcherId;
+    if (!butcherId) {
+      deadLetterOrder(queued.order.id, 'Order has no butcherId');
+      continue;
+    }
+
+    try {
+      cacheOrder(butcherId, queued.order);
+      removeQueuedOrder(queued.order.id);
+      console.log(`[OrderQueueWorker] Cached queued order ${queued.order.id} for ${butcherId}`);
+
+      // SSE failure shouldn't put the order back on the queue
+      try {
+        sendOrderUpdate(butcherId, queued.order);
+      } catch {
+        // Dashboard will pick it up from the cache on next fetch
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[OrderQueueWorker] Failed to cache order ${queued.order.id}:`, message);
+
+      // Increment retry count
+      const canRetry = incrementOrderRetry(queued.order.id, message);
+
+      if (!canRetry) {
+        // Max retries reached, park in dead-letter store for admin replay
+        deadLetterOrder(queued.order.id, message);
+        console.error(`[OrderQueueWorker] Max retries reached for ${queued.order.id}, moved to dead-letter`);
+      }
+    }
+  }
+}
+
+/**
+ * Start the order queue worker
+ */
+export function startOrderQueueWorker(): void {
+  if (workerInterval) {
+    return;
+  }
+
+  // Process immediately on start (replays orders restored from the queue store)
+  processOrderQueue();
+
+  // Then process every 30 seconds
+  workerInterval = setInterval(() => {
+    processOrderQueue();
+  }, WORKER_INTERVAL);
+}
+
+/**
+ * Stop the order queue worker
+ */
+export function stopOrderQueueWorker(): void {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
+
+// Auto-start worker when module is loaded (server-side only)
+if (typeof window === 'undefined') {
+  // Use setTimeout to ensure module is fully loaded
+  setTimeout(() => {
+    startOrderQueueWorker();
+  }, 1000); // Start after 1 second delay
+}
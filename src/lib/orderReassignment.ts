@@ -0,0 +1,122 @@
+/**
+ * Order Reassignment
+ * Hands a new order to another butcher: the Central API is told first, then the order
+ * moves between butcher caches and both dashboards are updated over SSE.
+ * Used by the acceptance SLA worker and the admin reassign route, and by order intake when
+ * the routing engine (ORDER_ROUTING=on) picks another butcher than the Central API did.
+ */
+
+import { getOrderFromCache, cacheOrder, removeOrderFromCache } from './orderCache';
+import { assignOrderToButcher, routeOrder } from './orderAssignment';
+import { getButcherConfig } from './butcherConfig';
+import { centralAPIClient } from './centralAPIClient';
+import { sendOrderUpdate, sendOrderReassigned } from './sseConnectionManager';
+import type { Order } from './types';
+
+const ORDER_ROUTING = process.env.ORDER_ROUTING === 'on';
+
+/**
+ * Thrown when an order can't be handed over (wrong status, nobody to take it)
+ */
+export class OrderReassignmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OrderReassignmentError';
+  }
+}
+
+/**
+ * Butchers who could take the order next, best first
+ * Skips the current butcher and anyone the order was already taken away from
+ */
+export function getReassignmentCandidates(butcherId: string, order: Order): string[] {
+  const excluded = new Set([butcherId, ...(order.reassignedFrom || [])]);
+  return assignOrderToButcher(order).filter(candidate => !excluded.has(candidate));
+}
+
+/**
+ * Move a new order from one butcher to another
+ * Picks the next candidate from assignOrderToButcher unless toButcherId is given
+ * Throws if the Central API rejects the handover - the order then stays where it is
+ */
+export async function reassignOrder(
+  butcherId: string,
+  orderNo: number,
+  options: { reason: string; toButcherId?: string }
+): Promise<Order> {
+  const order = getOrderFromCache(butcherId, orderNo);
+  if (!order) {
+    throw new OrderReassignmentError(`Order ${orderNo} not found for ${butcherId}`);
+  }
+
+  if (order.status !== 'new') {
+    throw new OrderReassignmentError(`Order ${orderNo} is already '${order.status}' and can't be reassigned`);
+  }
+
+  const toButcherId = options.toButcherId || getReassignmentCandidates(butcherId, order)[0];
+  if (!toButcherId || toButcherId === butcherId) {
+    throw new OrderReassignmentError(`No other butcher can take order ${orderNo}`);
+  }
+
+  const fromConfig = getButcherConfig(butcherId);
+  const toConfig = getButcherConfig(toButcherId);
+  if (!fromConfig || !toConfig) {
+    throw new OrderReassignmentError(`Unknown butcher ${!fromConfig ? butcherId : toButcherId}`);
+  }
+
+  // Central API first - if it doesn't accept the handover the order must stay with the current butcher
+  await centralAPIClient.notifyOrderReassignment(orderNo, fromConfig.name, toConfig.name, options.reason);
+
+  const reassignedOrder: Order = {
+    ...order,
+    butcherId: toButcherId,
+    butcherName: toConfig.name,
+    reassignedFrom: [...(order.reassignedFrom || []), butcherId],
+    slaEscalation: undefined,
+    deviceAcks: undefined, // The new butcher's dashboard acks it afresh
+    _receivedAt: new Date() // Acceptance SLA restarts for the new butcher
+  };
+
+  removeOrderFromCache(butcherId, orderNo);
+  cacheOrder(toButcherId, reassignedOrder);
+
+  sendOrderReassigned(butcherId, order.id, options.reason);
+  sendOrderUpdate(toButcherId, reassignedOrder);
+
+  console.log(`[Reassignment] Order ${orderNo} moved from ${butcherId} to ${toButcherId}: ${options.reason}`);
+  return reassignedOrder;
+}
+
+/**
+ * Butcher a just-received order should go to (before it is cached)
+ * With ORDER_ROUTING=on the routing engine scores the candidates, and the Central API is told
+ * about a handover first - if it refuses, or routing fails, the order stays with the butcher it named.
+ * Orders the engine would split stay too: the Central API has no child orders
+ */
+export async function routeIncomingOrder(butcherId: string, orderNo: number, order: Order): Promise<string> {
+  if (!ORDER_ROUTING) {
+    return butcherId;
+  }
+
+  try {
+    const plan = await routeOrder(order);
+    if (plan.split) {
+      console.log(`[Routing] Order ${orderNo} would be split (${plan.assignments.map(a => a.butcherId).join(', ')}), kept with ${butcherId}`);
+      return butcherId;
+    }
+
+    const toButcherId = plan.assignments[0].butcherId;
+    const fromConfig = getButcherConfig(butcherId);
+    const toConfig = getButcherConfig(toButcherId);
+    if (toButcherId === butcherId || !fromConfig || !toConfig) {
+      return butcherId;
+    }
+
+    await centralAPIClient.notifyOrderReassignment(orderNo, fromConfig.name, toConfig.name, 'Routed to the best-placed butcher');
+    console.log(`[Routing] Order ${orderNo} routed from ${butcherId} to ${toButcherId}`);
+    return toButcherId;
+  } catch (error) {
+    console.error(`[Routing] Failed to route order ${orderNo}, kept with ${butcherId}:`, error instanceof Error ? error.message : error);
+    return butcherId;
+  }
+}
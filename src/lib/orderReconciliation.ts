@@ -0,0 +1,65 @@
+/**
+ * Order Reconciliation
+ * After a restart, asks the Central API which orders it still expects a response on
+ * and restores any that are missing from the (rehydrated) order cache
+ */
+
+import { centralAPIClient } from './centralAPIClient';
+import { getAllButcherNames, getButcherIdFromName } from './butcherMapping';
+import { convertCentralAPIOrder } from './centralAPIOrder';
+import { cacheOrder, getOrderFromCache } from './orderCache';
+import { sendOrderUpdate } from './sseConnectionManager';
+
+/**
+ * Reconcile the order cache with the Central API's open orders
+ * Returns the number of orders restored
+ */
+export async function reconcileOrderCache(): Promise<number> {
+  let restored = 0;
+
+  for (const butcherName of getAllButcherNames()) {
+    const butcherId = getButcherIdFromName(butcherName);
+    if (!butcherId) continue;
+
+    try {
+      const openOrders = await centralAPIClient.getOpenOrders(butcherName);
+
+      for (const openOrder of openOrders) {
+        if (getOrderFromCache(butcherId, openOrder.orderNo)) {
+          continue; // Already cached (restored from store or delivered normally)
+        }
+
+        const order = convertCentralAPIOrder(openOrder, butcherId);
+        cacheOrder(butcherId, order);
+        restored++;
+
+        try {
+          sendOrderUpdate(butcherId, order);
+        } catch {
+          // SSE failure shouldn't break reconciliation
+        }
+      }
+    } catch (error) {
+      // Central API unreachable for this butcher - cache keeps what the store restored
+      console.error(
+        `[OrderReconciliation] Skipped ${butcherName}:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  if (restored > 0) {
+    console.log(`[OrderReconciliation] Restored ${restored} open order(s) from Central API`);
+  }
+
+  return restored;
+}
+
+// Reconcile once per process, shortly after boot (server-side only)
+if (typeof window === 'undefined') {
+  setTimeout(() => {
+    reconcileOrderCache().catch(error => {
+      console.error('[OrderReconciliation] Failed:', error);
+    });
+  }, 5000); // Give the server a moment to finish starting
+}
@@ -0,0 +1,91 @@
+/**
+ * Order Response
+ * Final leg of a butcher's response to an order: save to the Butcher POS sheet,
+ * send the item outcomes to the Central API (queued for retry when unavailable)
+ * and push the updated order to the dashboard.
+ * Shared by POST /api/orders/respond and the substitution callback.
+ */
+
+import { updateOrderInCache } from './orderCache';
+import { centralAPIClient, type CentralAPIOrderItem } from './centralAPIClient';
+import { queueResponse, removeQueuedResponse } from './orderQueue';
+import { getRepositories } from './repositories';
+import { isMeatButcher } from './butcherConfig';
+import { getItemStatus, isItemRejected } from './orderItemStatus';
+import { sendOrderStatusUpdate } from './sseConnectionManager';
+import type { Order } from './types';
+
+/**
+ * Copy accepted items' preparing weights into itemWeights (fish) / itemQuantities (meat)
+ * so they are available when the order is marked as prepared
+ */
+export function withPreparingWeights(order: Order, butcherId: string): Order {
+  const weights: { [itemName: string]: string } = {};
+
+  order.items.forEach(item => {
+    if (item.preparingWeight && !isItemRejected(item)) {
+      weights[item.name] = item.preparingWeight;
+    }
+  });
+
+  return isMeatButcher(butcherId)
+    ? { ...order, itemQuantities: weights }
+    : { ...order, itemWeights: weights };
+}
+
+/**
+ * Save the responded order and deliver the response to the Central API
+ * Returns the order with revenue, and whether the Central API call was queued
+ */
+export async function deliverOrderResponse(
+  butcherId: string,
+  butcherName: string,
+  orderNo: number,
+  order: Order
+): Promise<{ order: Order; queued: boolean }> {
+  // Step 1: Calculate revenue and save to sheet immediately (before Central API call)
+  // For completely rejected orders, revenue will be 0
+  const { totalRevenue, itemRevenues } = await getRepositories().orders.saveAcceptedOrder(order, butcherId);
+
+  const orderWithRevenue: Order = {
+    ...order,
+    revenue: totalRevenue,
+    itemRevenues
+  };
+  updateOrderInCache(butcherId, orderNo, orderWithRevenue);
+
+  // Step 2: Build Central API items (only items the butcher responded to) with revenue
+  const centralAPIItems: CentralAPIOrderItem[] = order.items
+    .filter(item => getItemStatus(item))
+    .map(item => {
+      const itemKey = `${item.name}_${item.size || 'default'}`;
+      const itemRevenue = itemRevenues[itemKey];
+      return {
+        itemId: item.id,
+        ...(item.preparingWeight && !isItemRejected(item) && { preparingWeight: item.preparingWeight }),
+        ...(item.rejected && { rejected: item.rejected }),
+        status: getItemStatus(item),
+        ...(item.substitutedWith && { substitute: item.substitutedWith }),
+        ...(itemRevenue !== undefined && itemRevenue > 0 && { revenue: parseFloat(itemRevenue.toFixed(2)) })
+      };
+    });
+
+  // Step 3: Send response to Central API (after saving to sheet)
+  let queued = false;
+  try {
+    await centralAPIClient.sendOrderResponse(orderNo, butcherName, centralAPIItems);
+    console.log(`[Order] Status updated: ${order.status} - Order ${orderNo}`);
+
+    // Remove from queue if it was queued
+    removeQueuedResponse(orderNo);
+  } catch {
+    // Queue the response for retry (sheet already saved)
+    queueResponse(orderNo, butcherName, centralAPIItems);
+    queued = true;
+  }
+
+  // Send SSE update with full order data (includes preparing weights, revenue, etc.)
+  sendOrderStatusUpdate(butcherId, orderWithRevenue);
+
+  return { order: orderWithRevenue, queued };
+}
@@ -0,0 +1,155 @@
+/**
+ * Order SLA Worker
+ * Escalates new orders a butcher hasn't accepted within their acceptance SLA:
+ * 1. After 1× SLA - re-alert the butcher's dashboard
+ * 2. After 2× SLA - notify admin (with the next candidate butchers)
+ * 3. After 3× SLA - reassign to the next candidate and tell the Central API
+ *    (ORDER_AUTO_REASSIGN=false stops at step 2 - admin reassigns via POST /api/orders/reassign)
+ */
+
+import { getCacheStats, getAllOrdersFromCache, updateOrderInCache, extractOrderNumber } from './orderCache';
+import { getButcherConfig } from './butcherConfig';
+import { createNotification } from './notifications';
+import { getReassignmentCandidates, reassignOrder } from './orderReassignment';
+import { sendOrderReminder } from './sseConnectionManager';
+import type { Order, OrderSlaEscalationStage } from './types';
+
+let workerInterval: NodeJS.Timeout | null = null;
+const WORKER_INTERVAL = 30000; // Check SLAs every 30 seconds
+const DEFAULT_SLA_MINUTES = parseFloat(process.env.ORDER_ACCEPTANCE_SLA_MINUTES || '10');
+const AUTO_REASSIGN = process.env.ORDER_AUTO_REASSIGN !== 'false';
+
+// Orders being handed over right now, or that nobody else can take (admin already told)
+const inFlight = new Set<string>();
+const unassignable = new Set<string>();
+
+/**
+ * Acceptance SLA for a butcher in milliseconds
+ */
+export function getAcceptanceSlaMs(butcherId: string): number {
+  const minutes = getButcherConfig(butcherId)?.acceptanceSlaMinutes ?? DEFAULT_SLA_MINUTES;
+  return minutes * 60 * 1000;
+}
+
+/**
+ * How long a new order has been waiting for the butcher
+ */
+function getWaitingMs(order: Order): number {
+  const since = new Date(order._receivedAt || order.orderTime).getTime();
+  return Date.now() - since;
+}
+
+function markEscalated(butcherId: string, orderNo: number, stage: OrderSlaEscalationStage): void {
+  updateOrderInCache(butcherId, orderNo, { slaEscalation: { stage, at: new Date() } });
+}
+
+function notifyAdmin(butcherId: string, order: Order, orderNo: number, type: string, reason: string, data?: Record<string, unknown>): void {
+  createNotification({
+    type,
+    butcherId,
+    butcherName: getButcherConfig(butcherId)?.name || butcherId,
+    orderId: order.id,
+    orderNumber: orderNo,
+    reason,
+    timestamp: new Date().toISOString(),
+    data
+  });
+}
+
+async function escalateOrder(butcherId: string, order: Order, slaMs: number): Promise<void> {
+  const orderNo = extractOrderNumber(order.id);
+  if (!orderNo) return;
+
+  const waitingMs = getWaitingMs(order);
+  const waitingMinutes = Math.round(waitingMs / 60000);
+  const stage = order.slaEscalation?.stage;
+
+  if (waitingMs >= slaMs * 3 && stage === 'admin-notified') {
+    if (!AUTO_REASSIGN || inFlight.has(order.id) || unassignable.has(order.id)) return;
+
+    inFlight.add(order.id);
+    try {
+      await reassignOrder(butcherId, orderNo, {
+        reason: `Not accepted within ${waitingMinutes} minutes`
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[OrderSLA] Failed to reassign order ${order.id}:`, message);
+      if (getReassignmentCandidates(butcherId, order).length === 0) {
+        unassignable.add(order.id);
+        notifyAdmin(butcherId, order, orderNo, 'order-reassignment-failed', message);
+      }
+    } finally {
+      inFlight.delete(order.id);
+    }
+    return;
+  }
+
+  if (waitingMs >= slaMs * 2 && stage === 'reminded') {
+    const candidates = getReassignmentCandidates(butcherId, order);
+    notifyAdmin(
+      butcherId,
+      order,
+      orderNo,
+      'order-sla-breach',
+      `Order not accepted after ${waitingMinutes} minutes`,
+      { candidates, autoReassign: AUTO_REASSIGN }
+    );
+    markEscalated(butcherId, orderNo, 'admin-notified');
+    console.warn(`[OrderSLA] Admin notified: order ${order.id} waiting ${waitingMinutes}m at ${butcherId}`);
+    return;
+  }
+
+  if (waitingMs >= slaMs && !stage) {
+    markEscalated(butcherId, orderNo, 'reminded');
+    sendOrderReminder(butcherId, order);
+    console.log(`[OrderSLA] Reminded ${butcherId} about order ${order.id} (${waitingMinutes}m)`);
+  }
+}
+
+/**
+ * Check every cached new order against its butcher's acceptance SLA
+ */
+async function processSlaChecks(): Promise<void> {
+  for (const { butcherId } of getCacheStats()) {
+    const slaMs = getAcceptanceSlaMs(butcherId);
+    const waitingOrders = getAllOrdersFromCache(butcherId).filter(order => order.status === 'new');
+
+    for (const order of waitingOrders) {
+      await escalateOrder(butcherId, order, slaMs);
+    }
+  }
+}
+
+/**
+ * Start the order SLA worker
+ */
+export function startOrderSlaWorker(): void {
+  if (workerInterval) {
+    return;
+  }
+
+  workerInterval = setInterval(() => {
+    processSlaChecks().catch(error => {
+      console.error('[OrderSLA] SLA check failed:', error);
+    });
+  }, WORKER_INTERVAL);
+}
+
+/**
+ * Stop the order SLA worker
+ */
+export function stopOrderSlaWorker(): void {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
+
+// Auto-start worker when module is loaded (server-side only)
+if (typeof window === 'undefined') {
+  // Use setTimeout to ensure module is fully loaded
+  setTimeout(() => {
+    startOrderSlaWorker();
+  }, 1000); // Start after 1 second delay
+}
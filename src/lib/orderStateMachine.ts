@@ -0,0 +1,114 @@
+/**
+ * Order State Machine
+ * Single source of truth for which Order.status transitions are legal
+ * Every transition is recorded on the order's statusHistory (who/when/why)
+ */
+
+import { getOrderFromCache, extractOrderNumber } from './orderCache';
+import { getRepositories } from './repositories';
+import type { Order, OrderStatus, OrderStatusTransition } from './types';
+
+// Allowed transitions: from → possible next statuses
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  'new': ['awaiting customer', 'preparing', 'rejected'],
+  'awaiting customer': ['preparing', 'rejected'], // Customer answered a substitution proposal
+  'preparing': ['prepared', 'ready to pick up', 'completed', 'rejected'],
+  'prepared': ['ready to pick up', 'completed'],
+  'ready to pick up': ['completed'],
+  'completed': [],
+  'rejected': []
+};
+
+/**
+ * Thrown when a route tries to move an order into a status it can't reach
+ */
+export class InvalidOrderTransitionError extends Error {
+  readonly orderId: string;
+  readonly from: OrderStatus;
+  readonly to: OrderStatus;
+
+  constructor(orderId: string, from: OrderStatus, to: OrderStatus) {
+    super(`Order ${orderId} cannot move from '${from}' to '${to}'`);
+    this.name = 'InvalidOrderTransitionError';
+    this.orderId = orderId;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Check if an order can move from one status to another
+ */
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Get the statuses an order can move to next
+ */
+export function getNextStatuses(from: OrderStatus): OrderStatus[] {
+  return [...TRANSITIONS[from]];
+}
+
+/**
+ * Throw if the order can't move to the target status
+ */
+export function assertTransition(order: Order, to: OrderStatus): void {
+  if (!canTransition(order.status, to)) {
+    throw new InvalidOrderTransitionError(order.id, order.status, to);
+  }
+}
+
+/**
+ * Move an order to a new status, returning a new order with the transition recorded
+ */
+export function transitionOrder(
+  order: Order,
+  to: OrderStatus,
+  actor: { by: string; byName?: string; reason?: string }
+): Order {
+  assertTransition(order, to);
+
+  const transition: OrderStatusTransition = {
+    from: order.status,
+    to,
+    at: new Date(),
+    by: actor.by,
+    ...(actor.byName ? { byName: actor.byName } : {}),
+    ...(actor.reason ? { reason: actor.reason } : {})
+  };
+
+  return {
+    ...order,
+    status: to,
+    statusHistory: [...(order.statusHistory || []), transition]
+  };
+}
+
+/**
+ * Start the audit trail for a freshly received order
+ */
+export function initialStatusHistory(by: string): OrderStatusTransition[] {
+  return [{ from: null, to: 'new', at: new Date(), by }];
+}
+
+/**
+ * The order as the server knows it - the order cache, else the order store - so transitions are
+ * checked against the stored status, never one a client sent. Null when the server doesn't know the order
+ */
+export async function findServerOrder(butcherId: string, orderId: string): Promise<Order | null> {
+  const orderNo = extractOrderNumber(orderId);
+  if (orderNo === null) {
+    return null;
+  }
+
+  const cached = getOrderFromCache(butcherId, orderNo);
+  if (cached) {
+    return cached;
+  }
+
+  const stored = await getRepositories().orders.getOrders(butcherId);
+  return stored.find(order => order.id === orderId)
+    || stored.find(order => extractOrderNumber(order.id) === orderNo)
+    || null;
+}
@@ -0,0 +1,298 @@
+/**
+ * Pub/Sub Bus
+ * Fans out live order events (SSE) and order cache changes to every app instance
+ * In-process by default (one instance), Redis PUBLISH/SUBSCRIBE when PUBSUB=redis
+ *
+ * The Redis adapter speaks the Redis protocol directly, so any compatible server works
+ * (Redis, Valkey, KeyDB, Upstash with rediss://). Messages are delivered to this instance's
+ * subscribers synchronously and to other instances through Redis, so a Redis outage only
+ * stops cross-instance delivery.
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { randomUUID } from 'crypto';
+
+export interface BusMessageMeta {
+  local: boolean; // Published by this instance (mirrors like the order cache have already applied it)
+}
+
+export type BusHandler<T> = (message: T, meta: BusMessageMeta) => void;
+
+export interface PubSubBus {
+  /**
+   * Deliver a message to the channel's subscribers on every instance (this one synchronously)
+   */
+  publish<T>(channel: string, message: T): void;
+  /**
+   * Receive a channel's messages; returns the unsubscribe function
+   */
+  subscribe<T>(channel: string, handler: BusHandler<T>): () => void;
+}
+
+/**
+ * Single-process bus - enough while one instance serves every dashboard (and in dev)
+ */
+export class InProcessPubSubBus implements PubSubBus {
+  protected handlers = new Map<string, Set<BusHandler<unknown>>>();
+
+  publish<T>(channel: string, message: T): void {
+    this.deliver(channel, message, { local: true });
+  }
+
+  subscribe<T>(channel: string, handler: BusHandler<T>): () => void {
+    if (!this.handlers.has(channel)) {
+      this.handlers.set(channel, new Set());
+    }
+    const registered = handler as BusHandler<unknown>;
+    this.handlers.get(channel)!.add(registered);
+    return () => {
+      this.handlers.get(channel)?.delete(registered);
+    };
+  }
+
+  protected deliver(channel: string, message: unknown, meta: BusMessageMeta): void {
+    for (const handler of this.handlers.get(channel) || []) {
+      try {
+        handler(message, meta);
+      } catch (error) {
+        console.error(`[PubSub] Handler for '${channel}' failed:`, error instanceof Error ? error.message : error);
+      }
+    }
+  }
+}
+
+type RespValue = string | number | null | Error | RespValue[];
+
+const MAX_PENDING_COMMANDS = 1000; // Commands kept while Redis is unreachable (oldest dropped)
+const MAX_RETRY_DELAY_MS = 30000;
+
+function encodeCommand(args: string[]): string {
+  return `*${args.length}\r\n` + args.map(arg => `$${Buffer.byteLength(arg)}\r\n${arg}\r\n`).join('');
+}
+
+/**
+ * Parse one RESP2 reply starting at offset; null when the buffer doesn't hold all of it yet
+ */
+function parseReply(buffer: Buffer, offset: number): { value: RespValue; next: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new Error(line), next };
+    case ':':
+      return { value: parseInt(line, 10), next };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length === -1) return { value: null, next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), next: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count === -1) return { value: null, next };
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.value);
+        position = item.next;
+      }
+      return { value: items, next: position };
+    }
+    default:
+      throw new Error(`Unexpected reply type '${type}'`);
+  }
+}
+
+/**
+ * One Redis connection that reconnects with backoff (pub/sub needs two: publish and subscribe)
+ */
+class RedisConnection {
+  private socket: net.Socket | null = null;
+  private buffer = Buffer.alloc(0);
+  private pending: string[][] = [];
+  private ready = false;
+  private retryDelay = 1000;
+
+  constructor(
+    private url: URL,
+    private name: string,
+    private onReply: (reply: RespValue) => void,
+    private onReady: () => void = () => {}
+  ) {
+    this.connect();
+  }
+
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Send a command now, or once connected
+   */
+  send(args: string[]): void {
+    if (this.ready && this.socket) {
+      this.socket.write(encodeCommand(args));
+      return;
+    }
+    this.pending.push(args);
+    if (this.pending.length > MAX_PENDING_COMMANDS) {
+      this.pending.shift();
+    }
+  }
+
+  private connect(): void {
+    const host = this.url.hostname;
+    const port = parseInt(this.url.port || '6379', 10);
+    const secure = this.url.protocol === 'rediss:';
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    this.socket = socket;
+    socket.setKeepAlive(true, 30000);
+
+    socket.once(secure ? 'secureConnect' : 'connect', () => {
+      this.buffer = Buffer.alloc(0);
+      this.retryDelay = 1000;
+
+      const password = decodeURIComponent(this.url.password);
+      if (password) {
+        const username = decodeURIComponent(this.url.username);
+        socket.write(encodeCommand(username ? ['AUTH', username, password] : ['AUTH', password]));
+      }
+
+      this.ready = true;
+      console.log(`[PubSub] Redis ${this.name} connection open (${host}:${port})`);
+      this.onReady();
+
+      const queued = this.pending;
+      this.pending = [];
+      queued.forEach(args => this.send(args));
+    });
+
+    socket.on('data', chunk => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.drain();
+    });
+
+    socket.on('error', error => {
+      console.warn(`[PubSub] Redis ${this.name} connection error: ${error.message}`);
+    });
+
+    socket.on('close', () => {
+      this.ready = false;
+      this.socket = null;
+      setTimeout(() => this.connect(), this.retryDelay);
+      this.retryDelay = Math.min(this.retryDelay * 2, MAX_RETRY_DELAY_MS);
+    });
+  }
+
+  private drain(): void {
+    let offset = 0;
+    try {
+      let reply = parseReply(this.buffer, offset);
+      while (reply) {
+        offset = reply.next;
+        this.onReply(reply.value);
+        reply = offset < this.buffer.length ? parseReply(this.buffer, offset) : null;
+      }
+      this.buffer = this.buffer.subarray(offset);
+    } catch (error) {
+      console.error(`[PubSub] Redis ${this.name} sent an unreadable reply, reconnecting:`, error instanceof Error ? error.message : error);
+      this.socket?.destroy();
+    }
+  }
+}
+
+/**
+ * Bus shared by every instance through Redis PUBLISH/SUBSCRIBE
+ * Each message carries the publishing instance's ID, so instances skip their own echoes
+ */
+export class RedisPubSubBus extends InProcessPubSubBus {
+  private instanceId = randomUUID();
+  private publisher: RedisConnection;
+  private subscriber: RedisConnection;
+
+  constructor(redisUrl: string, private channelPrefix: string) {
+    super();
+    const url = new URL(redisUrl);
+    this.publisher = new RedisConnection(url, 'publish', reply => {
+      if (reply instanceof Error) {
+        console.error(`[PubSub] Redis publish failed: ${reply.message}`);
+      }
+    });
+    this.subscriber = new RedisConnection(url, 'subscribe', reply => this.handleReply(reply), () => {
+      // (Re)subscribe every channel after connecting
+      const channels = Array.from(this.handlers.keys()).map(channel => this.redisChannel(channel));
+      if (channels.length > 0) {
+        this.subscriber.send(['SUBSCRIBE', ...channels]);
+      }
+    });
+  }
+
+  publish<T>(channel: string, message: T): void {
+    super.publish(channel, message);
+    this.publisher.send(['PUBLISH', this.redisChannel(channel), JSON.stringify({ origin: this.instanceId, message })]);
+  }
+
+  subscribe<T>(channel: string, handler: BusHandler<T>): () => void {
+    const isNewChannel = !this.handlers.has(channel);
+    const unsubscribe = super.subscribe(channel, handler);
+    if (isNewChannel && this.subscriber.isReady) {
+      this.subscriber.send(['SUBSCRIBE', this.redisChannel(channel)]);
+    }
+    return unsubscribe;
+  }
+
+  private redisChannel(channel: string): string {
+    return `${this.channelPrefix}:${channel}`;
+  }
+
+  private handleReply(reply: RespValue): void {
+    if (reply instanceof Error) {
+      console.error(`[PubSub] Redis subscribe failed: ${reply.message}`);
+      return;
+    }
+    if (!Array.isArray(reply) || reply[0] !== 'message' || typeof reply[1] !== 'string' || typeof reply[2] !== 'string') {
+      return; // Subscribe confirmations
+    }
+
+    try {
+      const envelope = JSON.parse(reply[2]) as { origin: string; message: unknown };
+      if (envelope.origin === this.instanceId) return;
+      this.deliver(reply[1].slice(this.channelPrefix.length + 1), envelope.message, { local: false });
+    } catch (error) {
+      console.error(`[PubSub] Dropped unreadable message on ${reply[1]}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+const PUBSUB = process.env.PUBSUB || 'memory';
+const PUBSUB_CHANNEL_PREFIX = process.env.PUBSUB_CHANNEL_PREFIX || 'vcs';
+
+let bus: PubSubBus | null = null;
+
+/**
+ * Get the configured bus (created once per process)
+ */
+export function getPubSubBus(): PubSubBus {
+  if (!bus) {
+    if (PUBSUB === 'redis' && process.env.REDIS_URL) {
+      bus = new RedisPubSubBus(process.env.REDIS_URL, PUBSUB_CHANNEL_PREFIX);
+      console.log('[PubSub] Using Redis - live orders reach dashboards on every instance');
+    } else {
+      if (PUBSUB === 'redis') {
+        console.error('[PubSub] PUBSUB=redis but REDIS_URL is not set - falling back to the in-process bus');
+      }
+      bus = new InProcessPubSubBus();
+    }
+  }
+  return bus;
+}
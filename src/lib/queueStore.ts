@@ -0,0 +1,180 @@
+/**
+ * Queue Store
+ * Pluggable persistence for the order/response/menu-update queues
+ * In-memory by default, file-backed journal when QUEUE_STORE=file
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+export interface QueueStore {
+  /**
+   * Load all persisted entries for a collection (in insertion order)
+   */
+  load<T>(collection: string): T[];
+  /**
+   * Insert or replace an entry
+   */
+  put<T>(collection: string, key: string, entry: T): void;
+  /**
+   * Remove an entry
+   */
+  remove(collection: string, key: string): void;
+  /**
+   * Clear a collection, or every collection when none is given
+   */
+  clear(collection?: string): void;
+}
+
+type JournalRecord =
+  | { op: 'put'; collection: string; key: string; entry: unknown }
+  | { op: 'remove'; collection: string; key: string }
+  | { op: 'clear'; collection?: string };
+
+const COMPACT_THRESHOLD = 500; // Rewrite journal after this many appended records
+
+/**
+ * Volatile store - entries are lost on restart (previous behaviour)
+ */
+export class InMemoryQueueStore implements QueueStore {
+  protected collections = new Map<string, Map<string, unknown>>();
+
+  load<T>(collection: string): T[] {
+    const entries = this.collections.get(collection);
+    return entries ? (Array.from(entries.values()) as T[]) : [];
+  }
+
+  put<T>(collection: string, key: string, entry: T): void {
+    if (!this.collections.has(collection)) {
+      this.collections.set(collection, new Map());
+    }
+    this.collections.get(collection)!.set(key, entry);
+  }
+
+  remove(collection: string, key: string): void {
+    this.collections.get(collection)?.delete(key);
+  }
+
+  clear(collection?: string): void {
+    if (collection) {
+      this.collections.delete(collection);
+    } else {
+      this.collections.clear();
+    }
+  }
+}
+
+/**
+ * Append-only JSONL journal, replayed on boot and compacted periodically
+ */
+export class FileQueueStore extends InMemoryQueueStore {
+  private filePath: string;
+  private appendedSinceCompact = 0;
+
+  constructor(filePath: string) {
+    super();
+    this.filePath = filePath;
+    this.replay();
+    this.compact();
+  }
+
+  put<T>(collection: string, key: string, entry: T): void {
+    super.put(collection, key, entry);
+    this.append({ op: 'put', collection, key, entry });
+  }
+
+  remove(collection: string, key: string): void {
+    if (!this.collections.get(collection)?.has(key)) {
+      return;
+    }
+    super.remove(collection, key);
+    this.append({ op: 'remove', collection, key });
+  }
+
+  clear(collection?: string): void {
+    super.clear(collection);
+    this.append({ op: 'clear', collection });
+  }
+
+  /**
+   * Rebuild in-memory state from the journal file
+   */
+  private replay(): void {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const lines = fs.readFileSync(this.filePath, 'utf8').split('\n');
+    let skipped = 0;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+
+      try {
+        const record = JSON.parse(line) as JournalRecord;
+        if (record.op === 'put') {
+          super.put(record.collection, record.key, record.entry);
+        } else if (record.op === 'remove') {
+          super.remove(record.collection, record.key);
+        } else if (record.op === 'clear') {
+          super.clear(record.collection);
+        }
+      } catch {
+        // Torn write from a crash mid-append - ignore the partial line
+        skipped++;
+      }
+    }
+
+    if (skipped > 0) {
+      console.warn(`[QueueStore] Skipped ${skipped} corrupt journal line(s) in ${this.filePath}`);
+    }
+  }
+
+  private append(record: JournalRecord): void {
+    try {
+      fs.appendFileSync(this.filePath, JSON.stringify(record) + '\n');
+      this.appendedSinceCompact++;
+      if (this.appendedSinceCompact >= COMPACT_THRESHOLD) {
+        this.compact();
+      }
+    } catch (error) {
+      console.error(`[QueueStore] Failed to append to ${this.filePath}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Rewrite the journal with only the live entries (write to temp file, then rename)
+   */
+  private compact(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+      const lines: string[] = [];
+      for (const [collection, entries] of this.collections.entries()) {
+        for (const [key, entry] of entries.entries()) {
+          lines.push(JSON.stringify({ op: 'put', collection, key, entry }));
+        }
+      }
+
+      const tempPath = `${this.filePath}.tmp`;
+      fs.writeFileSync(tempPath, lines.length > 0 ? lines.join('\n') + '\n' : '');
+      fs.renameSync(tempPath, this.filePath);
+      this.appendedSinceCompact = 0;
+    } catch (error) {
+      console.error(`[QueueStore] Failed to compact ${this.filePath}:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+const QUEUE_STORE = process.env.QUEUE_STORE || 'memory';
+const QUEUE_STORE_DIR = process.env.QUEUE_STORE_DIR || path.join(process.cwd(), '.data');
+
+/**
+ * Create the configured store for a named journal (e.g. 'order-queue')
+ */
+export function createQueueStore(name: string): QueueStore {
+  if (QUEUE_STORE === 'file') {
+    return new FileQueueStore(path.join(QUEUE_STORE_DIR, `${name}.jsonl`));
+  }
+  return new InMemoryQueueStore();
+}
@@ -0,0 +1,81 @@
+/**
+ * Repositories
+ * Storage backend for orders, menus, rates, sales, support requests, onboarded butchers, butcher credentials, staff accounts and login sessions
+ * Google Sheets by default, local SQLite when DATA_STORE=sqlite (runs fully offline)
+ */
+
+import path from 'path';
+import type Database from 'better-sqlite3';
+import { createSheetsRepositories } from './sheets';
+import type { Repositories } from './types';
+
+export type {
+  OrderRepository,
+  MenuRepository,
+  RatesRepository,
+  SalesRepository,
+  SupportRepository,
+  ButcherRepository,
+  StoredButcher,
+  CredentialRepository,
+  StoredCredential,
+  StaffRepository,
+  StoredStaffMember,
+  SessionRepository,
+  StoredSession,
+  StoredSessionCutoff,
+  Repositories,
+  OrderRevenue
+} from './types';
+
+const DATA_STORE = process.env.DATA_STORE || 'sheets';
+const SQLITE_PATH = process.env.SQLITE_PATH || path.join(process.cwd(), '.data', 'vcs.sqlite');
+
+let repositories: Repositories | null = null;
+let sqliteDatabase: Database.Database | null = null;
+
+/**
+ * Open the configured store (called once at server start from src/instrumentation.ts)
+ * The SQLite backend is imported only here so the native better-sqlite3 binding isn't needed when Sheets is the store
+ */
+export async function initRepositories(): Promise<Repositories> {
+  if (!repositories) {
+    if (DATA_STORE === 'sqlite') {
+      const { openDatabase, createSqliteRepositories } = await import('./sqlite');
+      sqliteDatabase = openDatabase(SQLITE_PATH);
+      repositories = createSqliteRepositories(sqliteDatabase);
+      console.log(`[Repositories] Using SQLite at ${SQLITE_PATH}`);
+    } else {
+      repositories = createSheetsRepositories();
+    }
+  }
+  return repositories;
+}
+
+/**
+ * Get the configured repositories (created once per process)
+ */
+export function getRepositories(): Repositories {
+  if (!repositories) {
+    if (DATA_STORE === 'sqlite') {
+      throw new Error('SQLite store is not open yet - initRepositories() must run first');
+    }
+    repositories = createSheetsRepositories();
+  }
+  return repositories;
+}
+
+/**
+ * The SQLite database behind the repositories (null when Google Sheets is the store)
+ */
+export function getSqliteDatabase(): Database.Database | null {
+  getRepositories();
+  return sqliteDatabase;
+}
+
+/**
+ * Swap the repositories (tests / scripts that bring their own backend)
+ */
+export function setRepositories(next: Repositories): void {
+  repositories = next;
+}
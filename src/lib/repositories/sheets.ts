@@ -0,0 +1,118 @@
+/**
+ * Google Sheets Repositories
+ * Thin adapters over sheets.ts, salesSheets.ts, supportSheets.ts, butcherSheets.ts and credentialSheets.ts (the existing Sheets backend)
+ */
+
+import {
+  getOrdersFromSheet,
+  saveOrderToSheet,
+  saveOrderToSheetAfterAccept,
+  updateOrderInSheet,
+  prepareOrder,
+  completeOrder,
+  getMenuFromSheet,
+  saveMenuToSheet,
+  getPurchasePriceFromMenu,
+  getItemPurchasePricesFromSheet,
+  getRatesFromSheet,
+  saveRatesToSheet
+} from '../sheets';
+import {
+  saveSalesDataToSheet,
+  getSalesDataFromSheet,
+  getOrdersFromSalesSheet,
+  getDAMTargetFromSheet,
+  saveDAMTargetToSheet,
+  calculateWeeklyTargets
+} from '../salesSheets';
+import {
+  saveSupportRequest,
+  getSupportRequests,
+  updateSupportRequest,
+  deleteSupportRequest
+} from '../supportSheets';
+import { getStoredButchers, saveStoredButcher } from '../butcherSheets';
+import { getStoredCredential, getStoredCredentials, saveStoredCredential } from '../credentialSheets';
+import { getStoredStaff, saveStoredStaffMember } from '../staffSheets';
+import { getStoredSession, getStoredSessions, saveStoredSession, getStoredSessionCutoffs, saveStoredSessionCutoff } from '../sessionSheets';
+import type {
+  OrderRepository,
+  MenuRepository,
+  RatesRepository,
+  SalesRepository,
+  SupportRepository,
+  ButcherRepository,
+  CredentialRepository,
+  StaffRepository,
+  SessionRepository,
+  Repositories
+} from './types';
+
+const orders: OrderRepository = {
+  getOrders: getOrdersFromSheet,
+  saveOrder: async (order, butcherId) => {
+    await saveOrderToSheet(order, butcherId);
+  },
+  saveAcceptedOrder: saveOrderToSheetAfterAccept,
+  updateOrder: async (order, butcherId) => {
+    await updateOrderInSheet(order, butcherId);
+  },
+  prepareOrder,
+  completeOrder
+};
+
+const menus: MenuRepository = {
+  getMenu: getMenuFromSheet,
+  saveMenu: saveMenuToSheet,
+  getPurchasePrice: getPurchasePriceFromMenu,
+  getPurchasePrices: getItemPurchasePricesFromSheet
+};
+
+const rates: RatesRepository = {
+  getRates: getRatesFromSheet,
+  saveRates: saveRatesToSheet
+};
+
+const sales: SalesRepository = {
+  saveSale: saveSalesDataToSheet,
+  getSales: getSalesDataFromSheet,
+  getSalesOrders: getOrdersFromSalesSheet,
+  getMonthlyTarget: getDAMTargetFromSheet,
+  saveMonthlyTarget: saveDAMTargetToSheet,
+  getWeeklyTargets: calculateWeeklyTargets
+};
+
+const support: SupportRepository = {
+  saveRequest: saveSupportRequest,
+  getRequests: getSupportRequests,
+  updateRequest: updateSupportRequest,
+  deleteRequest: deleteSupportRequest
+};
+
+const butchers: ButcherRepository = {
+  getButchers: getStoredButchers,
+  saveButcher: saveStoredButcher
+};
+
+const credentials: CredentialRepository = {
+  getCredential: getStoredCredential,
+  getCredentials: getStoredCredentials,
+  saveCredential: saveStoredCredential
+};
+
+const staff: StaffRepository = {
+  getStaff: getStoredStaff,
+  saveStaffMember: saveStoredStaffMember
+};
+
+const sessions: SessionRepository = {
+  getSession: getStoredSession,
+  getSessions: getStoredSessions,
+  saveSession: saveStoredSession,
+  getCutoffs: getStoredSessionCutoffs,
+  saveCutoff: saveStoredSessionCutoff
+};
+
+export function createSheetsRepositories(): Repositories {
+  return { orders, menus, rates, sales, support, butchers, credentials, staff, sessions };
+}
@@ -0,0 +1,618 @@
+/**
+ * SQLite Repositories
+ * Local, offline backend for development and tests (DATA_STORE=sqlite)
+ * Records are stored as JSON documents keyed the same way the Sheets backend keys its rows
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { format } from 'date-fns';
+import { reviveOrder } from '../orderCache';
+import { buildWeeklyTargets } from '../salesSheets';
+import type { SalesData, MonthlyTarget, ButcherTarget, WeeklyTarget } from '../salesSheets';
+import type { SupportRequest } from '../supportSheets';
+import {
+  getButcherConfig,
+  getButcherType,
+  getCommissionRate,
+  getPriceSheetTab,
+  extractEnglishName
+} from '../butcherConfig';
+import { normalizeItemName } from '../matchingUtils';
+import { formatPreparingWeightEntry, isItemRejected, parseItemWeight } from '../orderItemStatus';
+import type { Order, MenuCategory, ButcherRates } from '../types';
+import type {
+  OrderRepository,
+  MenuRepository,
+  RatesRepository,
+  SalesRepository,
+  SupportRepository,
+  ButcherRepository,
+  StoredButcher,
+  CredentialRepository,
+  StoredCredential,
+  StaffRepository,
+  StoredStaffMember,
+  SessionRepository,
+  StoredSession,
+  StoredSessionCutoff,
+  Repositories,
+  OrderRevenue
+} from './types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS orders (
+    butcher_id TEXT NOT NULL,
+    order_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (butcher_id, order_id)
+  );
+  CREATE TABLE IF NOT EXISTS menu_categories (
+    butcher_id TEXT NOT NULL,
+    category_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (butcher_id, category_id)
+  );
+  CREATE TABLE IF NOT EXISTS rates (
+    butcher_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS sales (
+    butcher_id TEXT NOT NULL,
+    order_id TEXT NOT NULL,
+    month INTEGER NOT NULL,
+    year INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    sold_at TEXT NOT NULL,
+    PRIMARY KEY (butcher_id, order_id)
+  );
+  CREATE TABLE IF NOT EXISTS monthly_targets (
+    month INTEGER NOT NULL,
+    year INTEGER NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (month, year)
+  );
+  CREATE TABLE IF NOT EXISTS support_requests (
+    id TEXT PRIMARY KEY,
+    butcher_id TEXT NOT NULL,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS butchers (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS credentials (
+    butcher_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS staff (
+    butcher_id TEXT NOT NULL,
+    username TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (butcher_id, username)
+  );
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    butcher_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS session_cutoffs (
+    scope TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+`;
+
+interface StoredSale {
+  order: Order;
+  soldAt: string;
+}
+
+interface StoredTarget {
+  totalTarget: number;
+  weeklyTargets: WeeklyTarget[];
+  butcherTargets?: Array<{ butcherId: string; butcherName: string; target: number }>;
+}
+
+/**
+ * Open (and create if needed) the SQLite database file
+ */
+export function openDatabase(filePath: string): Database.Database {
+  if (filePath !== ':memory:') {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+  return db;
+}
+
+const itemKey = (name: string, size?: string) => `${name}_${size || 'default'}`;
+
+const matchName = (name: string) => normalizeItemName(extractEnglishName(name));
+
+/**
+ * Weight the butcher prepared for an item, in the item's unit (falls back to the ordered quantity)
+ */
+function getPreparedWeight(order: Order, butcherId: string, itemIndex: number): number {
+  const item = order.items[itemIndex];
+  const recorded = getButcherType(butcherId) === 'fish'
+    ? order.itemWeights?.[item.name]
+    : order.itemQuantities?.[item.name];
+  const weightStr = item.preparingWeight ?? recorded;
+  return weightStr ? parseItemWeight(String(weightStr), item.unit) : item.quantity;
+}
+
+class SqliteMenuRepository implements MenuRepository {
+  constructor(private db: Database.Database) {}
+
+  async getMenu(butcherId: string, tabName?: string | null): Promise<MenuCategory[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM menu_categories WHERE butcher_id = ? ORDER BY rowid')
+      .all(butcherId) as Array<{ data: string }>;
+    const menu = rows.map(row => JSON.parse(row.data) as MenuCategory);
+
+    return tabName
+      ? menu.filter(category => getPriceSheetTab(butcherId, category.name) === tabName)
+      : menu;
+  }
+
+  async saveMenu(butcherId: string, menu: MenuCategory[]): Promise<void> {
+    // Upserts keep their rowid, so categories stay in the order they were first saved
+    const upsert = this.db.prepare(`
+      INSERT INTO menu_categories (butcher_id, category_id, data) VALUES (?, ?, ?)
+      ON CONFLICT (butcher_id, category_id) DO UPDATE SET data = excluded.data
+    `);
+    const remove = this.db.prepare('DELETE FROM menu_categories WHERE butcher_id = ? AND category_id = ?');
+
+    // The saved menu replaces the old one on its own tab - a mixed butcher saves its meat and fish
+    // menus separately, so categories of the other tab are kept
+    const tabs = new Set(menu.map(category => getPriceSheetTab(butcherId, category.name)));
+    const ids = new Set(menu.map(category => category.id));
+    const removed = (await this.getMenu(butcherId))
+      .filter(category => !ids.has(category.id) && tabs.has(getPriceSheetTab(butcherId, category.name)));
+
+    this.db.transaction(() => {
+      removed.forEach(category => remove.run(butcherId, category.id));
+      menu.forEach(category => upsert.run(butcherId, category.id, JSON.stringify(category)));
+    })();
+  }
+
+  async getPurchasePrice(butcherId: string, itemName: string, size: string = 'default'): Promise<{ price: number; category: string }> {
+    const menu = await this.getMenu(butcherId);
+    const name = matchName(itemName);
+
+    for (const category of menu) {
+      const menuItem = category.items.find(item => matchName(item.name) === name);
+      if (!menuItem) continue;
+
+      // Meat items have a single price, fish items are priced per size (any size when 'default')
+      const sized = size === 'default'
+        ? menuItem.sizes.find(s => s.price > 0)
+        : menuItem.sizes.find(s => s.size === size && s.price > 0) || menuItem.sizes.find(s => s.size === 'default' && s.price > 0);
+      return { price: sized?.price || 0, category: category.name };
+    }
+
+    return { price: 0, category: 'default' };
+  }
+
+  async getPurchasePrices(butcherId: string, itemNames: string[]): Promise<{ [itemName: string]: number }> {
+    const prices: { [itemName: string]: number } = {};
+    for (const itemName of itemNames) {
+      prices[itemName] = (await this.getPurchasePrice(butcherId, itemName)).price;
+    }
+    return prices;
+  }
+}
+
+class SqliteOrderRepository implements OrderRepository {
+  constructor(
+    private db: Database.Database,
+    private menus: MenuRepository,
+    private sales: SalesRepository
+  ) {}
+
+  async getOrders(butcherId: string): Promise<Order[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM orders WHERE butcher_id = ? ORDER BY updated_at DESC')
+      .all(butcherId) as Array<{ data: string }>;
+    return rows.map(row => reviveOrder(JSON.parse(row.data)));
+  }
+
+  async saveOrder(order: Order, butcherId: string): Promise<void> {
+    this.db
+      .prepare(`
+        INSERT INTO orders (butcher_id, order_id, data, updated_at) VALUES (?, ?, ?, ?)
+        ON CONFLICT (butcher_id, order_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at
+      `)
+      .run(butcherId, order.id, JSON.stringify(order), new Date().toISOString());
+  }
+
+  async saveAcceptedOrder(order: Order, butcherId: string): Promise<OrderRevenue> {
+    const revenue = await this.calculateRevenue(order, butcherId);
+    await this.saveOrder({ ...order, revenue: revenue.totalRevenue, itemRevenues: revenue.itemRevenues }, butcherId);
+    return revenue;
+  }
+
+  async updateOrder(order: Order, butcherId: string): Promise<void> {
+    await this.saveOrder(order, butcherId);
+  }
+
+  async prepareOrder(order: Order, butcherId: string): Promise<Order> {
+    const { totalRevenue, itemRevenues } = await this.calculateRevenue(order, butcherId);
+    const updatedOrder: Order = {
+      ...order,
+      revenue: totalRevenue,
+      itemRevenues,
+      status: 'preparing',
+      preparationStartTime: new Date()
+    };
+    await this.updateOrder(updatedOrder, butcherId);
+    return updatedOrder;
+  }
+
+  async completeOrder(order: Order, butcherId: string): Promise<void> {
+    if (!order.items || order.items.length === 0) {
+      throw new Error(`Order ${order.id} has no items. Cannot complete order without items.`);
+    }
+
+    const stored = (await this.getOrders(butcherId)).find(existing => existing.id === order.id);
+    const now = new Date();
+    const completedOrder: Order = {
+      ...stored,
+      ...order,
+      status: 'completed',
+      completionTime: Date.now(),
+      preparationStartTime: order.preparationStartTime || stored?.preparationStartTime || now,
+      preparationEndTime: now
+    };
+
+    await this.updateOrder(completedOrder, butcherId);
+    await this.sales.saveSale(order.id, butcherId, completedOrder);
+  }
+
+  /**
+   * (Purchase price × prepared weight) less the butcher's commission, per item
+   */
+  private async calculateRevenue(order: Order, butcherId: string): Promise<OrderRevenue> {
+    let totalRevenue = 0;
+    const itemRevenues: { [itemKey: string]: number } = {};
+
+    for (let i = 0; i < order.items.length; i++) {
+      const item = order.items[i];
+      const key = itemKey(item.name, item.size);
+      const weight = isItemRejected(item) ? 0 : getPreparedWeight(order, butcherId, i);
+
+      if (weight <= 0) {
+        itemRevenues[key] = 0;
+        continue;
+      }
+
+      // Substituted items are priced as the replacement the customer agreed to
+      const { price, category } = item.substitutedWith
+        ? await this.menus.getPurchasePrice(butcherId, item.substitutedWith.name, item.substitutedWith.size || 'default')
+        : await this.menus.getPurchasePrice(butcherId, item.name, item.size || 'default');
+      const commissionRate = getCommissionRate(butcherId, category || item.category || 'default');
+      const itemRevenue = (price * weight) - (commissionRate * price * weight);
+
+      itemRevenues[key] = itemRevenue;
+      totalRevenue += itemRevenue;
+    }
+
+    return { totalRevenue, itemRevenues };
+  }
+}
+
+class SqliteRatesRepository implements RatesRepository {
+  constructor(private db: Database.Database) {}
+
+  async getRates(): Promise<ButcherRates[]> {
+    const rows = this.db.prepare('SELECT data FROM rates ORDER BY butcher_id').all() as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as ButcherRates);
+  }
+
+  async saveRates(butcherRates: ButcherRates[]): Promise<void> {
+    const upsert = this.db.prepare(`
+      INSERT INTO rates (butcher_id, data) VALUES (?, ?)
+      ON CONFLICT (butcher_id) DO UPDATE SET data = excluded.data
+    `);
+    this.db.transaction(() => {
+      butcherRates.forEach(rates => upsert.run(rates.butcherId, JSON.stringify(rates)));
+    })();
+  }
+}
+
+class SqliteSalesRepository implements SalesRepository {
+  constructor(private db: Database.Database) {}
+
+  async saveSale(orderId: string, butcherId: string, order: Order): Promise<void> {
+    if (!orderId || !butcherId || !order) {
+      throw new Error('Missing required parameters: orderId, butcherId, or orderData');
+    }
+
+    const soldAt = new Date();
+    const stored: StoredSale = { order, soldAt: soldAt.toISOString() };
+    this.db
+      .prepare(`
+        INSERT INTO sales (butcher_id, order_id, month, year, data, sold_at) VALUES (?, ?, ?, ?, ?, ?)
+        ON CONFLICT (butcher_id, order_id) DO UPDATE SET data = excluded.data, sold_at = excluded.sold_at
+      `)
+      .run(butcherId, orderId, soldAt.getMonth() + 1, soldAt.getFullYear(), JSON.stringify(stored), stored.soldAt);
+  }
+
+  async getSales(month: number, year: number): Promise<SalesData[]> {
+    const rows = this.db
+      .prepare('SELECT butcher_id, data FROM sales WHERE month = ? AND year = ? ORDER BY sold_at')
+      .all(month, year) as Array<{ butcher_id: string; data: string }>;
+
+    return rows.map(row => {
+      const { order: rawOrder, soldAt } = JSON.parse(row.data) as StoredSale;
+      return this.toSalesData(row.butcher_id, reviveOrder(rawOrder), new Date(soldAt));
+    });
+  }
+
+  async getSalesOrders(butcherId: string): Promise<Order[]> {
+    const rows = this.db
+      .prepare('SELECT data FROM sales WHERE butcher_id = ? ORDER BY sold_at DESC')
+      .all(butcherId) as Array<{ data: string }>;
+    return rows.map(row => reviveOrder((JSON.parse(row.data) as StoredSale).order));
+  }
+
+  async getMonthlyTarget(month: number, year: number): Promise<MonthlyTarget | null> {
+    const row = this.db
+      .prepare('SELECT data FROM monthly_targets WHERE month = ? AND year = ?')
+      .get(month, year) as { data: string } | undefined;
+    if (!row) {
+      return null;
+    }
+
+    const stored = JSON.parse(row.data) as StoredTarget;
+    const sales = await this.getSales(month, year);
+    const totalAchieved = sales.reduce((sum, sale) => sum + sale.butcherRevenue, 0);
+
+    let butcherTargets: ButcherTarget[] | undefined;
+    if (stored.butcherTargets && stored.butcherTargets.length > 0) {
+      butcherTargets = stored.butcherTargets.map(target => {
+        const achieved = sales
+          .filter(sale => sale.butcherId === target.butcherId)
+          .reduce((sum, sale) => sum + sale.butcherRevenue, 0);
+        return {
+          ...target,
+          achieved,
+          percentage: target.target > 0 ? (achieved / target.target) * 100 : 0
+        };
+      });
+    }
+
+    return {
+      month: format(new Date(year, month - 1, 1), 'MMMM'),
+      year,
+      totalTarget: stored.totalTarget,
+      weeklyTargets: buildWeeklyTargets(sales, stored, month, year),
+      totalAchieved,
+      overallPercentage: stored.totalTarget > 0 ? (totalAchieved / stored.totalTarget) * 100 : 0,
+      butcherTargets,
+      isButcherSpecific: !!butcherTargets
+    };
+  }
+
+  async saveMonthlyTarget(
+    month: number,
+    year: number,
+    totalTarget: number,
+    butcherTargets?: Array<{ butcherId: string; butcherName: string; target: number }>
+  ): Promise<void> {
+    // Weekly targets split equally, as in the Sheets backend
+    const weeklyTargets: WeeklyTarget[] = [1, 2, 3, 4].map(week => ({
+      week,
+      target: totalTarget / 4,
+      achieved: 0,
+      percentage: 0,
+      status: 'pending'
+    }));
+    const stored: StoredTarget = {
+      totalTarget,
+      weeklyTargets,
+      ...(butcherTargets && butcherTargets.length > 0 ? { butcherTargets } : {})
+    };
+
+    this.db
+      .prepare(`
+        INSERT INTO monthly_targets (month, year, data) VALUES (?, ?, ?)
+        ON CONFLICT (month, year) DO UPDATE SET data = excluded.data
+      `)
+      .run(month, year, JSON.stringify(stored));
+  }
+
+  async getWeeklyTargets(month: number, year: number): Promise<WeeklyTarget[]> {
+    const target = await this.getMonthlyTarget(month, year);
+    return target ? target.weeklyTargets : [];
+  }
+
+  /**
+   * Same shape the Sales VCS sheet produces, so the DAM analysis works unchanged
+   */
+  private toSalesData(butcherId: string, order: Order, soldAt: Date): SalesData {
+    const salesRevenue = Object.values(order.itemRevenues || {}).reduce((sum, revenue) => sum + revenue, 0);
+    const butcherRevenue = order.revenue ?? salesRevenue;
+    const allItemsRejected = order.items.every(isItemRejected);
+    const completionMinutes = order.preparationStartTime && order.preparationEndTime
+      ? Math.round((order.preparationEndTime.getTime() - order.preparationStartTime.getTime()) / 60000)
+      : null;
+
+    return {
+      orderId: order.id,
+      butcherId,
+      butcherName: getButcherConfig(butcherId)?.name || butcherId,
+      orderDate: format(soldAt, 'dd/MM/yyyy'),
+      items: order.items.map(item => item.name).join(', '),
+      quantity: order.items.map(item => item.quantity.toString()).join(', '),
+      cutType: order.items.map(item => item.cutType || '').join(', '),
+      preparingWeight: order.items
+        .map(item => formatPreparingWeightEntry(item, item.preparingWeight || ''))
+        .filter(entry => entry)
+        .join(', '),
+      completionTime: completionMinutes !== null ? `${completionMinutes}min` : '',
+      startTime: order.preparationStartTime ? format(order.preparationStartTime, 'dd/MM/yyyy HH:mm:ss') : '',
+      status: order.status === 'rejected' || allItemsRejected ? 'rejected' : 'completed',
+      salesRevenue,
+      butcherRevenue,
+      margin: salesRevenue - butcherRevenue
+    };
+  }
+}
+
+class SqliteSupportRepository implements SupportRepository {
+  constructor(private db: Database.Database) {}
+
+  async saveRequest(request: Omit<SupportRequest, 'id' | 'createdAt'>): Promise<string> {
+    const requestId = `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const fullRequest: SupportRequest = {
+      ...request,
+      id: requestId,
+      createdAt: new Date().toISOString()
+    };
+
+    this.db
+      .prepare('INSERT INTO support_requests (id, butcher_id, data, created_at) VALUES (?, ?, ?, ?)')
+      .run(requestId, request.butcherId, JSON.stringify(fullRequest), fullRequest.createdAt);
+    return requestId;
+  }
+
+  async getRequests(butcherId?: string): Promise<SupportRequest[]> {
+    const rows = (butcherId
+      ? this.db.prepare('SELECT data FROM support_requests WHERE butcher_id = ? ORDER BY created_at DESC').all(butcherId)
+      : this.db.prepare('SELECT data FROM support_requests ORDER BY created_at DESC').all()) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as SupportRequest);
+  }
+
+  async updateRequest(requestId: string, updates: Partial<SupportRequest>): Promise<void> {
+    const row = this.db.prepare('SELECT data FROM support_requests WHERE id = ?').get(requestId) as { data: string } | undefined;
+    if (!row) {
+      throw new Error(`Support request ${requestId} not found`);
+    }
+
+    const updated: SupportRequest = {
+      ...(JSON.parse(row.data) as SupportRequest),
+      ...updates,
+      id: requestId,
+      updatedAt: new Date().toISOString()
+    };
+    this.db.prepare('UPDATE support_requests SET data = ? WHERE id = ?').run(JSON.stringify(updated), requestId);
+  }
+
+  async deleteRequest(requestId: string): Promise<void> {
+    const result = this.db.prepare('DELETE FROM support_requests WHERE id = ?').run(requestId);
+    if (result.changes === 0) {
+      throw new Error(`Support request ${requestId} not found`);
+    }
+  }
+}
+
+class SqliteButcherRepository implements ButcherRepository {
+  constructor(private db: Database.Database) {}
+
+  async getButchers(): Promise<StoredButcher[]> {
+    const rows = this.db.prepare('SELECT data FROM butchers ORDER BY created_at').all() as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as StoredButcher);
+  }
+
+  async saveButcher(butcher: StoredButcher): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO butchers (id, data, created_at) VALUES (?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data
+    `).run(butcher.config.id, JSON.stringify(butcher), butcher.createdAt);
+  }
+}
+
+class SqliteCredentialRepository implements CredentialRepository {
+  constructor(private db: Database.Database) {}
+
+  async getCredential(butcherId: string): Promise<StoredCredential | null> {
+    const row = this.db.prepare('SELECT data FROM credentials WHERE butcher_id = ?').get(butcherId) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as StoredCredential) : null;
+  }
+
+  async getCredentials(): Promise<StoredCredential[]> {
+    const rows = this.db.prepare('SELECT data FROM credentials ORDER BY butcher_id').all() as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as StoredCredential);
+  }
+
+  async saveCredential(credential: StoredCredential): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO credentials (butcher_id, data) VALUES (?, ?)
+      ON CONFLICT (butcher_id) DO UPDATE SET data = excluded.data
+    `).run(credential.butcherId, JSON.stringify(credential));
+  }
+}
+
+class SqliteStaffRepository implements StaffRepository {
+  constructor(private db: Database.Database) {}
+
+  async getStaff(butcherId?: string): Promise<StoredStaffMember[]> {
+    const rows = (butcherId
+      ? this.db.prepare('SELECT data FROM staff WHERE butcher_id = ? ORDER BY username').all(butcherId)
+      : this.db.prepare('SELECT data FROM staff ORDER BY butcher_id, username').all()) as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as StoredStaffMember);
+  }
+
+  async saveStaffMember(member: StoredStaffMember): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO staff (butcher_id, username, data) VALUES (?, ?, ?)
+      ON CONFLICT (butcher_id, username) DO UPDATE SET data = excluded.data
+    `).run(member.butcherId, member.username, JSON.stringify(member));
+  }
+}
+
+class SqliteSessionRepository implements SessionRepository {
+  constructor(private db: Database.Database) {}
+
+  async getSession(id: string): Promise<StoredSession | null> {
+    const row = this.db.prepare('SELECT data FROM sessions WHERE id = ?').get(id) as { data: string } | undefined;
+    return row ? (JSON.parse(row.data) as StoredSession) : null;
+  }
+
+  async getSessions(): Promise<StoredSession[]> {
+    const rows = this.db.prepare('SELECT data FROM sessions ORDER BY butcher_id, id').all() as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as StoredSession);
+  }
+
+  async saveSession(session: StoredSession): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO sessions (id, butcher_id, data) VALUES (?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data
+    `).run(session.id, session.butcherId, JSON.stringify(session));
+  }
+
+  async getCutoffs(): Promise<StoredSessionCutoff[]> {
+    const rows = this.db.prepare('SELECT data FROM session_cutoffs ORDER BY scope').all() as Array<{ data: string }>;
+    return rows.map(row => JSON.parse(row.data) as StoredSessionCutoff);
+  }
+
+  async saveCutoff(cutoff: StoredSessionCutoff): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO session_cutoffs (scope, data) VALUES (?, ?)
+      ON CONFLICT (scope) DO UPDATE SET data = excluded.data
+    `).run(cutoff.scope, JSON.stringify(cutoff));
+  }
+}
+
+export function createSqliteRepositories(db: Database.Database): Repositories {
+  const menus = new SqliteMenuRepository(db);
+  const sales = new SqliteSalesRepository(db);
+
+  return {
+    orders: new SqliteOrderRepository(db, menus, sales),
+    menus,
+    rates: new SqliteRatesRepository(db),
+    sales,
+    support: new SqliteSupportRepository(db),
+    butchers: new SqliteButcherRepository(db),
+    credentials: new SqliteCredentialRepository(db),
+    staff: new SqliteStaffRepository(db),
+    sessions: new SqliteSessionRepository(db)
+  };
+}
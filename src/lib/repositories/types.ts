@@ -0,0 +1,215 @@
+/**
+ * Repository Interfaces
+ * Storage-agnostic access to orders, menus, rates, sales, support requests, onboarded butchers, butcher credentials, staff accounts and login sessions
+ * Implemented by the Google Sheets backend (sheets.ts) and the local SQLite backend (sqlite.ts)
+ */
+
+import type { Order, OrderItem, MenuCategory, ButcherRates } from '../types';
+import type { SalesData, MonthlyTarget, WeeklyTarget } from '../salesSheets';
+import type { SupportRequest } from '../supportSheets';
+import type { ButcherConfig } from '../butcherConfig';
+import type { StaffRole } from '../auth/staffRoles';
+
+export interface OrderRevenue {
+  totalRevenue: number;
+  itemRevenues: { [itemKey: string]: number }; // Keyed by `${itemName}_${size || 'default'}`
+}
+
+export interface OrderRepository {
+  /**
+   * All stored orders for a butcher
+   */
+  getOrders(butcherId: string): Promise<Order[]>;
+  /**
+   * Store a new order
+   */
+  saveOrder(order: Order, butcherId: string): Promise<void>;
+  /**
+   * Store an order the butcher has responded to, pricing it from the preparing weights
+   */
+  saveAcceptedOrder(order: Order, butcherId: string): Promise<OrderRevenue>;
+  /**
+   * Update a stored order (status, weights, revenue)
+   */
+  updateOrder(order: Order, butcherId: string): Promise<void>;
+  /**
+   * Price the order and move it to preparing
+   */
+  prepareOrder(order: Order, butcherId: string): Promise<Order>;
+  /**
+   * Mark the order completed and record the sale
+   */
+  completeOrder(order: Order, butcherId: string): Promise<void>;
+}
+
+export interface MenuRepository {
+  /**
+   * Menu for a butcher (tabName selects the meat/fish menu of a mixed butcher)
+   */
+  getMenu(butcherId: string, tabName?: string | null): Promise<MenuCategory[]>;
+  /**
+   * Replace the saved categories (a mixed butcher saves its meat and fish menus separately)
+   */
+  saveMenu(butcherId: string, menu: MenuCategory[]): Promise<void>;
+  /**
+   * Purchase price and menu category for one item/size
+   */
+  getPurchasePrice(butcherId: string, itemName: string, size?: string): Promise<{ price: number; category: string }>;
+  /**
+   * Purchase prices for several items, keyed by item name
+   */
+  getPurchasePrices(butcherId: string, itemNames: string[], orderItems?: OrderItem[]): Promise<{ [itemName: string]: number }>;
+}
+
+export interface RatesRepository {
+  getRates(): Promise<ButcherRates[]>;
+  saveRates(rates: ButcherRates[]): Promise<void>;
+}
+
+export interface SalesRepository {
+  /**
+   * Record a completed order as a sale
+   */
+  saveSale(orderId: string, butcherId: string, order: Order): Promise<void>;
+  /**
+   * Sales across all butchers for a month
+   */
+  getSales(month: number, year: number): Promise<SalesData[]>;
+  /**
+   * Completed/rejected orders for a butcher (admin history, prep-time stats)
+   */
+  getSalesOrders(butcherId: string): Promise<Order[]>;
+  getMonthlyTarget(month: number, year: number): Promise<MonthlyTarget | null>;
+  saveMonthlyTarget(
+    month: number,
+    year: number,
+    totalTarget: number,
+    butcherTargets?: Array<{ butcherId: string; butcherName: string; target: number }>
+  ): Promise<void>;
+  /**
+   * Weekly targets for a month with achieved amounts filled in from sales
+   */
+  getWeeklyTargets(month: number, year: number): Promise<WeeklyTarget[]>;
+}
+
+export interface SupportRepository {
+  saveRequest(request: Omit<SupportRequest, 'id' | 'createdAt'>): Promise<string>;
+  getRequests(butcherId?: string): Promise<SupportRequest[]>;
+  updateRequest(requestId: string, updates: Partial<SupportRequest>): Promise<void>;
+  deleteRequest(requestId: string): Promise<void>;
+}
+
+export interface StoredButcher {
+  config: ButcherConfig;
+  password?: string; // Plaintext password of butchers onboarded before credentials were hashed (cleared once migrated)
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface ButcherRepository {
+  /**
+   * Butchers onboarded at runtime (built-in butchers live in butcherConfig.ts)
+   */
+  getButchers(): Promise<StoredButcher[]>;
+  /**
+   * Store a new butcher or replace an existing one
+   */
+  saveButcher(butcher: StoredButcher): Promise<void>;
+}
+
+export interface StoredCredential {
+  butcherId: string;
+  passwordHash: string; // scrypt$N$r$p$salt$hash (see auth/credentials.ts)
+  updatedAt: string;
+  updatedBy: string; // Butcher id for a password change, `admin:<id>` for a reset, `migration` for a migrated password
+  mustChangePassword?: boolean; // Migrated or admin-set password - no session until the butcher picks their own
+}
+
+export interface CredentialRepository {
+  getCredential(butcherId: string): Promise<StoredCredential | null>;
+  getCredentials(): Promise<StoredCredential[]>;
+  /**
+   * Store a butcher's password hash (replaces the previous one)
+   */
+  saveCredential(credential: StoredCredential): Promise<void>;
+}
+
+export interface StoredStaffMember {
+  butcherId: string;
+  username: string; // Lowercase, unique within the butcher
+  name: string;
+  role: StaffRole;
+  passwordHash: string; // scrypt$N$r$p$salt$hash (see auth/credentials.ts)
+  active: boolean; // Deactivated staff can't log in or act on orders
+  createdAt: string;
+  updatedAt: string;
+  updatedBy: string; // Staff id (`<butcherId>:<username>`), butcher id for the shared login, or `admin:<id>`
+}
+
+export interface StaffRepository {
+  /**
+   * Staff accounts of one butcher, or of every butcher without an id
+   */
+  getStaff(butcherId?: string): Promise<StoredStaffMember[]>;
+  /**
+   * Store a new staff account or replace an existing one (keyed by butcher id and username)
+   */
+  saveStaffMember(member: StoredStaffMember): Promise<void>;
+}
+
+export interface StoredSession {
+  id: string;
+  butcherId: string; // Empty for admin sessions
+  userId: string; // Token id: butcher id, `<butcherId>:<username>` for staff, or the admin id
+  name: string;
+  role: 'butcher' | 'admin';
+  staffId?: string;
+  staffRole?: StaffRole;
+  refreshTokenHash: string; // sha256 of the current refresh token (see auth/sessions.ts)
+  rotatedTokenHashes: string[]; // Hashes of earlier refresh tokens - presenting one again revokes the session
+  rotatedAt: string | null;
+  userAgent: string;
+  ip: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  revokedBy: string | null;
+  revokedReason: string | null;
+  legacyTokenKey?: string; // `<userId>:<iat>` of the pre-session token exchanged to start it - each is exchanged once
+}
+
+export interface StoredSessionCutoff {
+  scope: string; // `butcher:<butcherId>` for every login of a butcher, `user:<userId>` for one user
+  revokedAt: string; // Pre-session tokens issued before this can't be exchanged for a session
+  revokedBy: string;
+}
+
+export interface SessionRepository {
+  getSession(id: string): Promise<StoredSession | null>;
+  /**
+   * Every stored session, including expired and revoked ones
+   */
+  getSessions(): Promise<StoredSession[]>;
+  /**
+   * Store a new session or replace an existing one
+   */
+  saveSession(session: StoredSession): Promise<void>;
+  getCutoffs(): Promise<StoredSessionCutoff[]>;
+  /**
+   * Store a "log out everywhere" time (replaces the scope's previous one)
+   */
+  saveCutoff(cutoff: StoredSessionCutoff): Promise<void>;
+}
+
+export interface Repositories {
+  orders: OrderRepository;
+  menus: MenuRepository;
+  rates: RatesRepository;
+  sales: SalesRepository;
+  support: SupportRepository;
+  butchers: ButcherRepository;
+  credentials: CredentialRepository;
+  staff: StaffRepository;
+  sessions: SessionRepository;
+}
@@ -0,0 +1,113 @@
+/**
+ * Response Worker
+ * Background worker to retry queued order responses to the Central API
+ */
+
+import { centralAPIClient } from './centralAPIClient';
+import { getButcherIdFromName } from './butcherMapping';
+import { sendResponseDeliveryUpdate } from './sseConnectionManager';
+import {
+  getQueuedResponses,
+  removeQueuedResponse,
+  incrementResponseRetry,
+  isResponseReadyForRetry,
+  deadLetterResponse
+} from './orderQueue';
+
+let workerInterval: NodeJS.Timeout | null = null;
+let isProcessing = false;
+const WORKER_INTERVAL = 30000; // Process queue every 30 seconds
+
+/**
+ * Process order response queue
+ */
+async function processResponseQueue(): Promise<void> {
+  // Skip if previous run is still sending (Central API timeout is 20s)
+  if (isProcessing) {
+    return;
+  }
+
+  const queuedResponses = getQueuedResponses();
+
+  if (queuedResponses.length === 0) {
+    return; // Nothing to process
+  }
+
+  isProcessing = true;
+
+  try {
+    for (const queued of queuedResponses) {
+      // Check if ready for retry
+      if (!isResponseReadyForRetry(queued)) {
+        continue; // Not ready yet, skip
+      }
+
+      const butcherId = getButcherIdFromName(queued.butcher);
+
+      try {
+        await centralAPIClient.sendOrderResponse(queued.orderNo, queued.butcher, queued.items);
+
+        // Success! Remove from queue
+        removeQueuedResponse(queued.orderNo);
+        console.log(`[ResponseWorker] Delivered queued response for order ${queued.orderNo}`);
+
+        if (butcherId) {
+          sendResponseDeliveryUpdate(butcherId, queued.orderNo, 'delivered');
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[ResponseWorker] Failed to send response for order ${queued.orderNo}:`, message);
+
+        // Increment retry count
+        const canRetry = incrementResponseRetry(queued.orderNo, message);
+
+        if (!canRetry) {
+          // Max retries reached, park in dead-letter list
+          deadLetterResponse(queued.orderNo, message);
+          console.error(`[ResponseWorker] Max retries reached for order ${queued.orderNo}, moved to dead-letter`);
+
+          if (butcherId) {
+            sendResponseDeliveryUpdate(butcherId, queued.orderNo, 'failed', message);
+          }
+        }
+      }
+    }
+  } finally {
+    isProcessing = false;
+  }
+}
+
+/**
+ * Start the response worker
+ */
+export function startResponseWorker(): void {
+  if (workerInterval) {
+    return;
+  }
+
+  // Process immediately on start (replays responses restored from the queue store)
+  processResponseQueue();
+
+  // Then process every 30 seconds
+  workerInterval = setInterval(() => {
+    processResponseQueue();
+  }, WORKER_INTERVAL);
+}
+
+/**
+ * Stop the response worker
+ */
+export function stopResponseWorker(): void {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
+
+// Auto-start worker when module is loaded (server-side only)
+if (typeof window === 'undefined') {
+  // Use setTimeout to ensure module is fully loaded
+  setTimeout(() => {
+    startResponseWorker();
+  }, 1000); // Start after 1 second delay
+}
@@ -1,7 +1,10 @@
 import { getSheetSheetsClient, getPurchasePriceFromMenu } from './sheets';
 import { calculateItemRevenue } from './revenueService';
-import { getCommissionRate, getButcherType, isFishButcher, getFishItemFullName } from './butcherConfig';
+import { getCommissionRate, getButcherType, isFishButcher, getFishItemFullName, getButcherConfig, BUTCHER_CONFIGS } from './butcherConfig';
 import type { Order, OrderItem } from './types';
+import { isItemRejected } from './orderItemStatus';
+import { queueSheetAppend } from './sheetWriteBuffer';
+import { findOrderRowByNumber, invalidateRowIndex } from './sheetRowIndex';
 
 // IST Helper Functions (matching Butcher POS format)
 const getISTDate = (): string => {
@@ -132,7 +135,7 @@ export const getOrdersFromButcherPOSForMonth = async (
     }
 
     const sheets = await getSheetSheetsClient('pos');
-    const butcherIds = ['usaj', 'usaj_mutton', 'pkd', 'kak', 'ka_sons', 'alif', 'tender_chops', 'test_meat', 'test_fish'];
+    const butcherIds = Object.keys(BUTCHER_CONFIGS);
     const orders: Array<{
       butcherId: string;
       butcherName: string;
@@ -235,20 +238,8 @@ export const getOrdersFromButcherPOSForMonth = async (
 };
 
 // Get butcher name by ID (matching Sales VCS sheet tab names)
-const getButcherName = (butcherId: string): string => {
-  const butcherNames: { [key: string]: string } = {
-    'usaj': 'Usaj_Meat_Hub',
-    'usaj_mutton': 'Usaj_Mutton_Shop',
-    'pkd': 'PKD_Stall',
-    'kak': 'KAK',
-    'ka_sons': 'KA_Sons',
-    'alif': 'Alif',
-    'tender_chops': 'Tender_Chops',
-    'test_fish': 'Test_Fish_Butcher',
-    'test_meat': 'Test_Meat_Butcher'
-  };
-  const mappedName = butcherNames[butcherId] || butcherId;
-  return mappedName;
+export const getButcherName = (butcherId: string): string => {
+  return getButcherConfig(butcherId)?.orderSheetTab || butcherId;
 };
 
 // Calculate sales revenue using selling price (no commission deduction)
@@ -259,6 +250,26 @@ export const calculateSalesRevenue = (
   return preparingWeight * sellingPrice;
 };
 
+// Build a Sales VCS row (A:J) from stored sales data
+// Revenue is written as the order total when per-item revenue isn't available
+export const buildSalesSheetRow = (sale: SalesData): string[] => {
+  const orderIdParts = sale.orderId.replace('ORD-', '').split('-');
+  const orderNo = parseInt(orderIdParts[orderIdParts.length - 1], 10).toString();
+
+  return [
+    sale.orderDate,
+    orderNo,
+    sale.items,
+    sale.quantity,
+    sale.cutType,
+    sale.preparingWeight,
+    sale.completionTime,
+    sale.startTime,
+    sale.status,
+    sale.salesRevenue.toFixed(2)
+  ];
+};
+
 // Main function for saving sales data to Sales VCS sheet
 // This function saves order data to the Sales VCS sheet when an order is marked as prepared/completed.
 // It uses cached order data (with revenue and preparing weights) from when the order was accepted.
@@ -279,9 +290,6 @@ export const saveSalesDataToSheet = async (
     throw new Error('SALES_VCS_SPREADSHEET_ID environment variable is not set');
   }
 
-  // Get Google Sheets client using sheet-specific service account
-  const sheets = await getSheetSheetsClient('sales');
-  
   // Get butcher name mapping
   const butcherName = getButcherName(butcherId);
 
@@ -307,7 +315,7 @@ export const saveSalesDataToSheet = async (
   for (const item of orderData.items) {
     const itemName = item.name;
     // Use fishButcher from above
-    const rejected = (item as any).rejected;
+    const rejected = isItemRejected(item);
 
     // Preparing Weight: Format as item: weight or item: rejected (no curly braces)
     if (rejected) {
@@ -408,15 +416,16 @@ export const saveSalesDataToSheet = async (
     revenueForSheet               // J: Revenue (item: revenue, item: revenue)
   ];
 
-  // Save to Google Sheets
+  // Save to Google Sheets (batched with other Sales VCS appends by the write buffer)
   try {
-    await sheets.spreadsheets.values.append({
+    await queueSheetAppend({
       spreadsheetId,
+      clientKey: 'sheet:sales',
+      getClient: () => getSheetSheetsClient('sales'),
       range: `${butcherName}!A:J`,
+      values: [rowData],
       valueInputOption: 'RAW',
-      requestBody: {
-        values: [rowData]
-      }
+      sheetName: 'Sales VCS'
     });
     
   } catch (error) {
@@ -438,7 +447,7 @@ export const getSalesDataFromSheet = async (
     }
 
     const salesData: SalesData[] = [];
-    const butcherIds = ['usaj', 'usaj_mutton', 'pkd', 'kak', 'ka_sons', 'alif', 'tender_chops', 'test_meat', 'test_fish'];
+    const butcherIds = Object.keys(BUTCHER_CONFIGS);
     
     for (const butcherId of butcherIds) {
       try {
@@ -1310,128 +1319,107 @@ export const calculateWeeklyTargets = async (
       return [];
     }
 
-    // If we have stored weekly targets, use them as base
-    if (target.weeklyTargets && target.weeklyTargets.length > 0) {
-      // Group sales by week to update achieved amounts
-    const weeklySales = new Map<number, number>();
-    
-    salesData.forEach(order => {
-        // Parse the order date properly
-        let orderDate: Date;
-        try {
-          // Try to parse DD/MM/YYYY format first
-          if (order.orderDate.includes('/')) {
-            const [day, monthStr, yearStr] = order.orderDate.split('/');
-            if (day && monthStr && yearStr) {
-              orderDate = new Date(parseInt(yearStr), parseInt(monthStr) - 1, parseInt(day));
-            } else {
-              orderDate = new Date(order.orderDate);
-            }
-          } else {
-            orderDate = new Date(order.orderDate);
-          }
-        } catch {
-          orderDate = new Date();
-        }
-        
-        // Calculate week number (1-4 for the month)
-        const dayOfMonth = orderDate.getDate();
-        const week = Math.ceil(dayOfMonth / 7);
-        
-      const currentSales = weeklySales.get(week) || 0;
-      weeklySales.set(week, currentSales + order.salesRevenue);
-    });
-
-      // Update the stored weekly targets with current achieved amounts
-      const updatedWeeklyTargets = target.weeklyTargets.map(week => {
-        const achieved = weeklySales.get(week.week) || 0;
-        const percentage = week.target > 0 ? (achieved / week.target) * 100 : 0;
-        const currentDate = new Date();
-        const isCurrentMonth = currentDate.getMonth() + 1 === month && currentDate.getFullYear() === year;
-        const weekEndDate = new Date(year, month - 1, week.week * 7);
-        
-        let status: 'pending' | 'achieved' | 'missed' = 'pending';
-        if (percentage >= 100) {
-          status = 'achieved';
-        } else if (isCurrentMonth && currentDate > weekEndDate) {
-          status = 'missed';
-        }
+    const weeklyTargets = buildWeeklyTargets(salesData, target, month, year);
 
-        return {
-          ...week,
-          achieved,
-          percentage,
-          status
-        };
-      });
-
-      // Update the sheet with the new achieved amounts
-      await updateWeeklyTargetsInSheet(month, year, updatedWeeklyTargets);
-
-      return updatedWeeklyTargets;
+    // If we have stored weekly targets, update the sheet with the new achieved amounts
+    if (target.weeklyTargets && target.weeklyTargets.length > 0) {
+      await updateWeeklyTargetsInSheet(month, year, weeklyTargets);
     }
 
-    // Fallback: Create new weekly targets if none exist
-    const weeklySales = new Map<number, number>();
-    
-    salesData.forEach(order => {
-      // Parse the order date properly
-      let orderDate: Date;
-      try {
-        // Try to parse DD/MM/YYYY format first
-        if (order.orderDate.includes('/')) {
-          const [day, monthStr, yearStr] = order.orderDate.split('/');
-          if (day && monthStr && yearStr) {
-            orderDate = new Date(parseInt(yearStr), parseInt(monthStr) - 1, parseInt(day));
-          } else {
-            orderDate = new Date(order.orderDate);
-          }
+    return weeklyTargets;
+  } catch {
+    return [];
+  }
+};
+
+// Sum sales revenue per week of the month (week 1-4, days 29+ count as week 5)
+const getWeeklySales = (salesData: SalesData[]): Map<number, number> => {
+  const weeklySales = new Map<number, number>();
+
+  salesData.forEach(order => {
+    // Parse the order date properly
+    let orderDate: Date;
+    try {
+      // Try to parse DD/MM/YYYY format first
+      if (order.orderDate.includes('/')) {
+        const [day, monthStr, yearStr] = order.orderDate.split('/');
+        if (day && monthStr && yearStr) {
+          orderDate = new Date(parseInt(yearStr), parseInt(monthStr) - 1, parseInt(day));
         } else {
           orderDate = new Date(order.orderDate);
         }
-      } catch {
-        orderDate = new Date();
+      } else {
+        orderDate = new Date(order.orderDate);
       }
-      
-      // Calculate week number (1-4 for the month)
-      const dayOfMonth = orderDate.getDate();
-      const week = Math.ceil(dayOfMonth / 7);
-      
-      const currentSales = weeklySales.get(week) || 0;
-      weeklySales.set(week, currentSales + order.salesRevenue);
-    });
+    } catch {
+      orderDate = new Date();
+    }
+    
+    // Calculate week number (1-4 for the month)
+    const dayOfMonth = orderDate.getDate();
+    const week = Math.ceil(dayOfMonth / 7);
+    
+    const currentSales = weeklySales.get(week) || 0;
+    weeklySales.set(week, currentSales + order.salesRevenue);
+  });
 
-    // Create 4 weekly targets
-    const weeklyTargets: WeeklyTarget[] = [];
-    const baseWeeklyTarget = target.totalTarget / 4;
+  return weeklySales;
+};
 
-    for (let week = 1; week <= 4; week++) {
-      const achieved = weeklySales.get(week) || 0;
-      const percentage = baseWeeklyTarget > 0 ? (achieved / baseWeeklyTarget) * 100 : 0;
-      const currentDate = new Date();
-      const isCurrentMonth = currentDate.getMonth() + 1 === month && currentDate.getFullYear() === year;
-      const weekEndDate = new Date(year, month - 1, week * 7);
-      
-      let status: 'pending' | 'achieved' | 'missed' = 'pending';
-      if (percentage >= 100) {
-        status = 'achieved';
-      } else if (isCurrentMonth && currentDate > weekEndDate) {
-        status = 'missed';
-      }
-      
-      weeklyTargets.push({
-        week,
-        target: baseWeeklyTarget,
+const getWeekStatus = (percentage: number, week: number, month: number, year: number): WeeklyTarget['status'] => {
+  const currentDate = new Date();
+  const isCurrentMonth = currentDate.getMonth() + 1 === month && currentDate.getFullYear() === year;
+  const weekEndDate = new Date(year, month - 1, week * 7);
+
+  if (percentage >= 100) {
+    return 'achieved';
+  }
+  if (isCurrentMonth && currentDate > weekEndDate) {
+    return 'missed';
+  }
+  return 'pending';
+};
+
+// Weekly targets for a month with achieved amounts filled in from sales
+// Uses the stored weekly split when there is one, otherwise splits the monthly target into 4 weeks
+export const buildWeeklyTargets = (
+  salesData: SalesData[],
+  target: Pick<MonthlyTarget, 'totalTarget' | 'weeklyTargets'>,
+  month: number,
+  year: number
+): WeeklyTarget[] => {
+  const weeklySales = getWeeklySales(salesData);
+
+  if (target.weeklyTargets && target.weeklyTargets.length > 0) {
+    return target.weeklyTargets.map(week => {
+      const achieved = weeklySales.get(week.week) || 0;
+      const percentage = week.target > 0 ? (achieved / week.target) * 100 : 0;
+      return {
+        ...week,
         achieved,
         percentage,
-        status
-      });
-    }
+        status: getWeekStatus(percentage, week.week, month, year)
+      };
+    });
+  }
 
-    return weeklyTargets;
-  } catch {
-    return [];
+  // Create 4 weekly targets
+  const weeklyTargets: WeeklyTarget[] = [];
+  const baseWeeklyTarget = target.totalTarget / 4;
+
+  for (let week = 1; week <= 4; week++) {
+    const achieved = weeklySales.get(week) || 0;
+    const percentage = baseWeeklyTarget > 0 ? (achieved / baseWeeklyTarget) * 100 : 0;
+    weeklyTargets.push({
+      week,
+      target: baseWeeklyTarget,
+      achieved,
+      percentage,
+      status: getWeekStatus(percentage, week, month, year)
+    });
   }
+
+  return weeklyTargets;
 };
 
 // Update weekly targets in the sheet (now uses Butcher POS sheet)
@@ -1517,53 +1505,63 @@ export const getButcherRevenueFromMainSheet = async (orderId: string, butcherId:
     
     const butcherName = getButcherName(butcherId);
     
-    const response = await mainSheets.spreadsheets.values.get({
+    // Extract simple order number from full order ID
+    // Full order ID format: ORD-YYYY-MM-DD-NNNN
+    // Simple order number: NNNN (last part after the last dash)
+    const simpleOrderId = orderId.includes('-') ? orderId.split('-').pop() || orderId : orderId;
+    
+    // Locate the order's row through the row index instead of scanning the whole tab
+    const rowNumber = await findOrderRowByNumber(spreadsheetId, butcherName, simpleOrderId, async () => {
+      const keys = await mainSheets.spreadsheets.values.get({
+        spreadsheetId,
+        range: `${butcherName}!A2:B`,
+      });
+      return keys.data.values || [];
+    });
+    
+    if (!rowNumber) {
+      return 0;
+    }
+    
+    // Header row (to find the Revenue column) and the order row in one call
+    const response = await mainSheets.spreadsheets.values.batchGet({
       spreadsheetId,
-      range: `${butcherName}!A:Z`, // Read more columns to find the Revenue column
+      ranges: [`${butcherName}!A1:Z1`, `${butcherName}!A${rowNumber}:Z${rowNumber}`],
     });
 
-    const rows = response.data.values || [];
+    const [headerRange, orderRange] = response.data.valueRanges || [];
+    const headerRow = headerRange?.values?.[0] || [];
+    const row = orderRange?.values?.[0] || [];
     
     // Find the Revenue column index
     let revenueColumnIndex = -1;
-    if (rows.length > 0) {
-      const headerRow = rows[0];
-      for (let i = 0; i < headerRow.length; i++) {
-        if (headerRow[i] && headerRow[i].toLowerCase().includes('revenue')) {
-          revenueColumnIndex = i;
-          break;
-        }
+    for (let i = 0; i < headerRow.length; i++) {
+      if (headerRow[i] && headerRow[i].toLowerCase().includes('revenue')) {
+        revenueColumnIndex = i;
+        break;
       }
     }
     
+    if (String(row[1] || '').trim() !== simpleOrderId) {
+      // Rows moved since the index was built - rebuild it on the next lookup
+      invalidateRowIndex(spreadsheetId, butcherName);
+      return 0;
+    }
+    
     if (revenueColumnIndex === -1) {
       return 0;
     }
     
-    // Extract simple order number from full order ID
-    // Full order ID format: ORD-YYYY-MM-DD-NNNN
-    // Simple order number: NNNN (last part after the last dash)
-    const simpleOrderId = orderId.includes('-') ? orderId.split('-').pop() : orderId;
+    const revenueStr = row[revenueColumnIndex] || '';
     
-    // Find the order by simple ID and extract revenue
-    for (let i = 1; i < rows.length; i++) {
-      const row = rows[i];
-      if (row.length > 1 && row[1] === simpleOrderId) {
-        const revenueStr = row[revenueColumnIndex] || '';
-        
-        // Handle comma-separated revenues for multiple items
-        if (revenueStr.includes(',')) {
-          const revenues = revenueStr.split(',').map((r: string) => parseFloat(r.trim()) || 0);
-          const totalRevenue = revenues.reduce((sum: number, rev: number) => sum + rev, 0);
-          return totalRevenue;
-        } else {
-          const revenue = parseFloat(revenueStr) || 0;
-          return revenue;
-        }
-      }
+    // Handle comma-separated revenues for multiple items
+    if (revenueStr.includes(',')) {
+      const revenues = revenueStr.split(',').map((r: string) => parseFloat(r.trim()) || 0);
+      const totalRevenue = revenues.reduce((sum: number, rev: number) => sum + rev, 0);
+      return totalRevenue;
     }
     
-    return 0;
+    return parseFloat(revenueStr) || 0;
   } catch {
     return 0;
   }
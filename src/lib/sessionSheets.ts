@@ -0,0 +1,211 @@
+/**
+ * Session Sheets
+ * Login sessions stored in a `Sessions` tab of the Butcher POS sheet (one row per session)
+ * The full session is kept as JSON; butcher, user, device and dates are repeated for people reading the sheet.
+ * Refresh tokens are only stored as hashes
+ * "Log out everywhere" times go in a `Session Cutoffs` tab (one row per butcher or user)
+ */
+
+import { measureApiCall } from './apiMonitor';
+import type { StoredSession, StoredSessionCutoff } from './repositories/types';
+import { getSheetSheetsClient, getSpreadsheetIds } from './sheets';
+
+const SESSIONS_TAB_NAME = 'Sessions';
+const SESSIONS_HEADER = ['Session ID', 'Butcher ID', 'User', 'Device', 'Session', 'Created At', 'Last Used At', 'Revoked At'];
+const SESSIONS_RANGE = `${SESSIONS_TAB_NAME}!A:H`;
+
+const CUTOFFS_TAB_NAME = 'Session Cutoffs';
+const CUTOFFS_HEADER = ['Scope', 'Revoked At', 'Revoked By'];
+
+const sheetInfo = (spreadsheetId: string) => ({ sheetId: spreadsheetId, sheetName: 'Butcher POS Sheet' });
+
+const lastColumn = (header: string[]) => String.fromCharCode(64 + header.length);
+
+/**
+ * Create a tab with its header row if it doesn't exist yet
+ */
+async function ensureTab(tabName: string, header: string[]): Promise<void> {
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+  const headerRange = `'${tabName}'!A1:${lastColumn(header)}1`;
+
+  try {
+    await sheets.spreadsheets.values.get({
+      spreadsheetId: pos,
+      range: headerRange
+    });
+  } catch {
+    await measureApiCall(
+      'sessions:createTab',
+      'POST',
+      () => sheets.spreadsheets.batchUpdate({
+        spreadsheetId: pos,
+        requestBody: { requests: [{ addSheet: { properties: { title: tabName } } }] }
+      }),
+      sheetInfo(pos)
+    );
+    await measureApiCall(
+      'sessions:header',
+      'PUT',
+      () => sheets.spreadsheets.values.update({
+        spreadsheetId: pos,
+        range: headerRange,
+        valueInputOption: 'RAW',
+        requestBody: { values: [header] }
+      }),
+      sheetInfo(pos)
+    );
+  }
+}
+
+const toRow = (session: StoredSession): string[] => [
+  session.id,
+  session.butcherId,
+  session.userId,
+  session.userAgent,
+  JSON.stringify(session),
+  session.createdAt,
+  session.lastUsedAt,
+  session.revokedAt || ''
+];
+
+function fromRow(row: string[]): StoredSession | null {
+  if (!row[0] || !row[4]) return null;
+
+  try {
+    return { ...(JSON.parse(row[4]) as StoredSession), id: row[0] };
+  } catch {
+    console.error(`[Sessions] Skipping session ${row[0]}: session column is not valid JSON`);
+    return null;
+  }
+}
+
+async function readRows(tabName: string = SESSIONS_TAB_NAME, header: string[] = SESSIONS_HEADER): Promise<string[][]> {
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+
+  try {
+    const response = await measureApiCall(
+      'sessions:read',
+      'GET',
+      () => sheets.spreadsheets.values.get({
+        spreadsheetId: pos,
+        range: `'${tabName}'!A2:${lastColumn(header)}`
+      }),
+      sheetInfo(pos)
+    );
+    return (response.data.values || []) as string[][];
+  } catch (error) {
+    // No tab yet means nobody has logged in (or been logged out everywhere) since sessions were introduced
+    const { code, message } = (error || {}) as { code?: number; message?: string };
+    if (code === 400 || /Unable to parse range/i.test(message || '')) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Every stored session
+ */
+export const getStoredSessions = async (): Promise<StoredSession[]> => {
+  const rows = await readRows();
+  return rows.map(fromRow).filter((session): session is StoredSession => session !== null);
+};
+
+/**
+ * A stored session by id
+ */
+export const getStoredSession = async (id: string): Promise<StoredSession | null> => {
+  const sessions = await getStoredSessions();
+  return sessions.find(session => session.id === id) || null;
+};
+
+/**
+ * Store a session (updates its row when there is one)
+ */
+export const saveStoredSession = async (session: StoredSession): Promise<void> => {
+  await ensureTab(SESSIONS_TAB_NAME, SESSIONS_HEADER);
+
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+  const rowIndex = (await readRows()).findIndex(row => row[0] === session.id);
+
+  if (rowIndex === -1) {
+    await measureApiCall(
+      'sessions:append',
+      'POST',
+      () => sheets.spreadsheets.values.append({
+        spreadsheetId: pos,
+        range: SESSIONS_RANGE,
+        valueInputOption: 'RAW',
+        requestBody: { values: [toRow(session)] }
+      }),
+      sheetInfo(pos)
+    );
+    return;
+  }
+
+  const rowNumber = rowIndex + 2;
+  await measureApiCall(
+    'sessions:update',
+    'PUT',
+    () => sheets.spreadsheets.values.update({
+      spreadsheetId: pos,
+      range: `${SESSIONS_TAB_NAME}!A${rowNumber}:H${rowNumber}`,
+      valueInputOption: 'RAW',
+      requestBody: { values: [toRow(session)] }
+    }),
+    sheetInfo(pos)
+  );
+};
+
+/**
+ * Every stored "log out everywhere" time
+ */
+export const getStoredSessionCutoffs = async (): Promise<StoredSessionCutoff[]> => {
+  const rows = await readRows(CUTOFFS_TAB_NAME, CUTOFFS_HEADER);
+  return rows
+    .filter(row => row[0] && row[1])
+    .map(row => ({ scope: row[0], revokedAt: row[1], revokedBy: row[2] || '' }));
+};
+
+/**
+ * Store a "log out everywhere" time (updates the scope's row when there is one)
+ */
+export const saveStoredSessionCutoff = async (cutoff: StoredSessionCutoff): Promise<void> => {
+  await ensureTab(CUTOFFS_TAB_NAME, CUTOFFS_HEADER);
+
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+  const rowIndex = (await readRows(CUTOFFS_TAB_NAME, CUTOFFS_HEADER)).findIndex(row => row[0] === cutoff.scope);
+  const values = [[cutoff.scope, cutoff.revokedAt, cutoff.revokedBy]];
+
+  if (rowIndex === -1) {
+    await measureApiCall(
+      'sessions:cutoffAppend',
+      'POST',
+      () => sheets.spreadsheets.values.append({
+        spreadsheetId: pos,
+        range: `'${CUTOFFS_TAB_NAME}'!A:C`,
+        valueInputOption: 'RAW',
+        requestBody: { values }
+      }),
+      sheetInfo(pos)
+    );
+    return;
+  }
+
+  const rowNumber = rowIndex + 2;
+  await measureApiCall(
+    'sessions:cutoffUpdate',
+    'PUT',
+    () => sheets.spreadsheets.values.update({
+      spreadsheetId: pos,
+      range: `'${CUTOFFS_TAB_NAME}'!A${rowNumber}:C${rowNumber}`,
+      valueInputOption: 'RAW',
+      requestBody: { values }
+    }),
+    sheetInfo(pos)
+  );
+};
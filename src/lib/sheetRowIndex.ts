@@ -0,0 +1,189 @@
+/**
+ * Sheet Row Index
+ * Order -> sheet row lookup per Butcher POS tab, so an order update writes straight to its row
+ * instead of reading the whole tab first
+ * - Built from one read of the tab's date/order number columns (or from a full read that already happened)
+ * - Extended from appends that go through the write buffer
+ * - Dropped when an append lands anywhere but the next expected row (rows inserted or deleted by hand),
+ *   when a lookup misses or a hit no longer holds the order, and after ROW_INDEX_TTL_MINUTES
+ * - Rebuilt from sheet sync's full reads, which catch rows edited by hand
+ */
+
+import { onSheetAppend } from './sheetWriteBuffer';
+
+interface TabIndex {
+  rows: Map<string, number>; // `${date}|${orderNo}` -> sheet row
+  byOrderNo: Map<string, number>; // orderNo -> first sheet row with that number
+  nextRow: number; // Row the next append should land on
+  builtAt: number;
+}
+
+export interface RowIndexStats {
+  tabs: number;
+  rows: number;
+  hits: number;
+  misses: number;
+  rebuilds: number;
+  invalidations: number;
+}
+
+const INDEX_TTL = parseFloat(process.env.ROW_INDEX_TTL_MINUTES || '30') * 60 * 1000;
+const FIRST_DATA_ROW = 2; // Row 1 holds the headers
+
+const indexes = new Map<string, TabIndex>();
+const stats = { hits: 0, misses: 0, rebuilds: 0, invalidations: 0 };
+
+const indexKey = (spreadsheetId: string, tab: string) => `${spreadsheetId}|${tab}`;
+
+/**
+ * Normalize a sheet date so "1/1/2025" and "01/01/2025" match
+ */
+export function normalizeSheetDate(dateStr: string): string {
+  if (!dateStr) return '';
+  const parts = String(dateStr).split(/[/-]/);
+  if (parts.length >= 3) {
+    return `${parseInt(parts[0], 10)}/${parseInt(parts[1], 10)}/${parseInt(parts[2], 10)}`;
+  }
+  return String(dateStr);
+}
+
+const rowKey = (orderDate: string, orderNo: string | number) =>
+  `${normalizeSheetDate(orderDate)}|${String(orderNo).trim()}`;
+
+function addRow(index: TabIndex, row: unknown[], rowNumber: number): void {
+  const orderNo = String(row[1] ?? '').trim();
+  if (!orderNo) return;
+
+  const key = rowKey(String(row[0] ?? ''), orderNo);
+  if (!index.rows.has(key)) {
+    index.rows.set(key, rowNumber);
+  }
+  if (!index.byOrderNo.has(orderNo)) {
+    index.byOrderNo.set(orderNo, rowNumber);
+  }
+}
+
+/**
+ * (Re)build a tab's index from its rows (column A = order date, column B = order number)
+ * `rows[0]` is sheet row `firstRow`
+ */
+export function indexSheetRows(spreadsheetId: string, tab: string, rows: unknown[][], firstRow: number = FIRST_DATA_ROW): void {
+  const index: TabIndex = {
+    rows: new Map(),
+    byOrderNo: new Map(),
+    nextRow: firstRow + rows.length,
+    builtAt: Date.now()
+  };
+  rows.forEach((row, i) => addRow(index, row, firstRow + i));
+  indexes.set(indexKey(spreadsheetId, tab), index);
+  stats.rebuilds++;
+}
+
+/**
+ * Drop the index of one tab, or of every tab in the spreadsheet
+ */
+export function invalidateRowIndex(spreadsheetId: string, tab?: string): void {
+  for (const key of Array.from(indexes.keys())) {
+    if (tab ? key === indexKey(spreadsheetId, tab) : key.startsWith(`${spreadsheetId}|`)) {
+      indexes.delete(key);
+      stats.invalidations++;
+    }
+  }
+}
+
+async function getIndex(spreadsheetId: string, tab: string, load: () => Promise<unknown[][]>): Promise<TabIndex> {
+  const key = indexKey(spreadsheetId, tab);
+  const index = indexes.get(key);
+  if (index && Date.now() - index.builtAt < INDEX_TTL) {
+    return index;
+  }
+
+  indexSheetRows(spreadsheetId, tab, await load());
+  return indexes.get(key) as TabIndex;
+}
+
+/**
+ * Find the sheet row of an order
+ * `orderDates` are the date spellings the row may use; `load` reads A2:B of the tab when the index needs (re)building
+ * `readRow` reads A:B of one row - an index hit is only returned once that row still holds the order,
+ * so a write never lands on a row that moved since the index was built
+ * A miss rebuilds the index once before giving up, so rows added outside this process are still found
+ */
+export async function findOrderRow(
+  spreadsheetId: string,
+  tab: string,
+  orderNo: string | number,
+  orderDates: string[],
+  load: () => Promise<unknown[][]>,
+  readRow: (row: number) => Promise<unknown[]>
+): Promise<number | null> {
+  const keys = new Set(orderDates.map(orderDate => rowKey(orderDate, orderNo)));
+  const lookup = (index: TabIndex) => {
+    for (const key of keys) {
+      const row = index.rows.get(key);
+      if (row) return row;
+    }
+    return null;
+  };
+
+  const cached = lookup(await getIndex(spreadsheetId, tab, load));
+  if (cached) {
+    const cells = await readRow(cached);
+    if (keys.has(rowKey(String(cells[0] ?? ''), String(cells[1] ?? '')))) {
+      stats.hits++;
+      return cached;
+    }
+    // Rows moved outside this process (inserted, deleted or sorted by hand)
+    console.warn(`[RowIndex] ${tab}: row ${cached} no longer holds order ${orderNo} - rebuilding`);
+  }
+
+  stats.misses++;
+  invalidateRowIndex(spreadsheetId, tab);
+  return lookup(await getIndex(spreadsheetId, tab, load));
+}
+
+/**
+ * Find the first sheet row with an order number (any date)
+ */
+export async function findOrderRowByNumber(
+  spreadsheetId: string,
+  tab: string,
+  orderNo: string | number,
+  load: () => Promise<unknown[][]>
+): Promise<number | null> {
+  const key = String(orderNo).trim();
+  const cached = (await getIndex(spreadsheetId, tab, load)).byOrderNo.get(key);
+  if (cached) {
+    stats.hits++;
+    return cached;
+  }
+
+  stats.misses++;
+  invalidateRowIndex(spreadsheetId, tab);
+  return (await getIndex(spreadsheetId, tab, load)).byOrderNo.get(key) ?? null;
+}
+
+export function getRowIndexStats(): RowIndexStats {
+  let rows = 0;
+  for (const index of indexes.values()) {
+    rows += index.rows.size;
+  }
+  return { tabs: indexes.size, rows, ...stats };
+}
+
+// Keep indexes in step with buffered appends
+onSheetAppend(({ spreadsheetId, range, firstRow, values }) => {
+  const tab = range.split('!')[0].replace(/^'|'$/g, '');
+  const index = indexes.get(indexKey(spreadsheetId, tab));
+  if (!index) return;
+
+  if (firstRow !== index.nextRow) {
+    // Someone added or removed rows outside this process - row numbers can't be trusted any more
+    console.warn(`[RowIndex] ${tab}: append landed on row ${firstRow}, expected ${index.nextRow} - rebuilding on next lookup`);
+    invalidateRowIndex(spreadsheetId, tab);
+    return;
+  }
+
+  values.forEach((row, i) => addRow(index, row, firstRow + i));
+  index.nextRow += values.length;
+});
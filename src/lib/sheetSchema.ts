@@ -0,0 +1,600 @@
+/**
+ * Sheet Schema
+ * Declared column layout of every spreadsheet tab the app reads and writes, with versioning
+ * - Each tab stores the layout version it was last migrated to as developer metadata (`sheetSchemaVersion`)
+ * - On startup the header row of every butcher tab is checked against its layout and mismatches are logged
+ * - The migration runner brings tabs to the declared layout by inserting and moving whole columns
+ *   (one atomic batchUpdate per spreadsheet), so existing data, formats and formulas move with their header
+ *   and columns the layout doesn't know about are kept, to the right of the declared ones
+ * Bump `version` and edit `columns` (plus a `migrations` entry) when a layout changes, then run the migration
+ */
+
+import type { sheets_v4 } from 'googleapis';
+import { measureApiCall } from './apiMonitor';
+import { BUTCHER_CONFIGS } from './butcherConfig';
+import { getButcherName } from './salesSheets';
+import { invalidateRowIndex } from './sheetRowIndex';
+import { flushSheetWrites } from './sheetWriteBuffer';
+import { getSheetSheetsClient, getSpreadsheetIds } from './sheets';
+
+export type SheetLayoutId = 'orders' | 'menu-meat' | 'menu-fish' | 'sales';
+export type SheetType = 'pos' | 'menu' | 'sales';
+
+export interface SheetMigration {
+  version: number; // Version this migration brings the tab to
+  description: string;
+  renames?: Record<string, string>; // Old header -> new header
+}
+
+export interface SheetLayout {
+  id: SheetLayoutId;
+  label: string;
+  sheetType: SheetType;
+  version: number;
+  columns: string[];
+  migrations: SheetMigration[];
+}
+
+export type SheetSchemaStatus = 'ok' | 'unversioned' | 'outdated' | 'newer' | 'missing' | 'invalid';
+
+export interface SheetSchemaCheck {
+  layout: SheetLayoutId;
+  spreadsheetId: string;
+  tab: string;
+  expectedVersion: number;
+  foundVersion: number | null;
+  status: SheetSchemaStatus;
+  problems: string[]; // Header differences, or why the tab can't be migrated
+  changes: string[]; // What the migration runner would do
+}
+
+export interface SheetSchemaReport {
+  checkedAt: string;
+  valid: boolean; // No tab needs a column change and none is missing, invalid or newer than the code
+  tabs: SheetSchemaCheck[];
+}
+
+export interface SheetMigrationResult {
+  dryRun: boolean;
+  migrated: SheetSchemaCheck[];
+  skipped: SheetSchemaCheck[];
+  report: SheetSchemaReport;
+}
+
+export class SheetSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SheetSchemaError';
+  }
+}
+
+export const SHEET_LAYOUTS: Record<SheetLayoutId, SheetLayout> = {
+  orders: {
+    id: 'orders',
+    label: 'Butcher POS orders',
+    sheetType: 'pos',
+    version: 2,
+    columns: ['Order Date', 'Order No', 'Items', 'Quantity', 'Size', 'Cut type', 'Preparing weight', 'Completion Time', 'Start time', 'Status', 'Revenue'],
+    migrations: [
+      { version: 2, description: 'Add Size column after Quantity' }
+    ]
+  },
+  'menu-meat': {
+    id: 'menu-meat',
+    label: 'Menu POS meat items',
+    sheetType: 'menu',
+    version: 1,
+    columns: ['Item Name', 'Category', 'Purchase Price', 'Selling Price', 'Unit', 'nos weight', 'Date'],
+    migrations: []
+  },
+  'menu-fish': {
+    id: 'menu-fish',
+    label: 'Menu POS fish items',
+    sheetType: 'menu',
+    version: 1,
+    columns: ['Item Name', 'Category', 'Size', 'Purchase Price', 'Selling Price', 'Unit', 'nos weight', 'Date'],
+    migrations: []
+  },
+  sales: {
+    id: 'sales',
+    label: 'Sales VCS',
+    sheetType: 'sales',
+    version: 1,
+    columns: ['Order Date', 'Order No', 'Items', 'Quantity', 'Cut type', 'Preparing weight', 'Completion Time', 'Start time', 'Status', 'Revenue'],
+    migrations: []
+  }
+};
+
+const VERSION_METADATA_KEY = 'sheetSchemaVersion';
+const HEADER_SCAN_RANGE = 'A1:Z2'; // Header row plus the first data row (to tell an empty tab from a headerless one)
+const SCHEMA_CHECK_ENABLED =
+  process.env.SHEET_SCHEMA_CHECK !== 'off' &&
+  !(process.env.DATA_STORE === 'sqlite' && process.env.SHEET_SYNC === 'off'); // No sheets in use
+
+let lastReport: SheetSchemaReport | null = null;
+let migrating = false;
+
+/**
+ * Column letter for a zero-based index (0 -> A, 26 -> AA)
+ */
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+/**
+ * A1 range covering a layout's columns, e.g. `Usaj_Meat_Hub!A2:G` for the meat menu
+ */
+export function layoutRange(layoutId: SheetLayoutId, tab: string, fromRow: number = 2): string {
+  const layout = SHEET_LAYOUTS[layoutId];
+  return `${tab}!A${fromRow}:${columnLetter(layout.columns.length - 1)}`;
+}
+
+/**
+ * Zero-based position of a column in a layout
+ */
+export function layoutColumn(layoutId: SheetLayoutId, column: string): number {
+  const index = SHEET_LAYOUTS[layoutId].columns.indexOf(column);
+  if (index === -1) {
+    throw new SheetSchemaError(`Column "${column}" is not part of the ${SHEET_LAYOUTS[layoutId].label} layout`);
+  }
+  return index;
+}
+
+const headerKey = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+/**
+ * Every tab that should follow a layout, per spreadsheet
+ */
+async function getSchemaTabs(): Promise<Array<{ layout: SheetLayout; spreadsheetId: string; tab: string }>> {
+  const { pos, menu } = await getSpreadsheetIds();
+  const sales = process.env.SALES_VCS_SPREADSHEET_ID;
+  const tabs: Array<{ layout: SheetLayout; spreadsheetId: string; tab: string }> = [];
+  const seen = new Set<string>();
+
+  const add = (layout: SheetLayout, spreadsheetId: string | undefined, tab: string | undefined) => {
+    if (!spreadsheetId || !tab || seen.has(`${spreadsheetId}|${tab}`)) return;
+    seen.add(`${spreadsheetId}|${tab}`);
+    tabs.push({ layout, spreadsheetId, tab });
+  };
+
+  for (const config of Object.values(BUTCHER_CONFIGS)) {
+    add(SHEET_LAYOUTS.orders, pos, config.orderSheetTab);
+    add(SHEET_LAYOUTS['menu-meat'], menu, config.meatSheetTab);
+    add(SHEET_LAYOUTS['menu-fish'], menu, config.fishSheetTab);
+    add(SHEET_LAYOUTS.sales, sales, getButcherName(config.id));
+  }
+
+  return tabs;
+}
+
+/**
+ * Work out the batchUpdate requests that turn `header` into the layout's columns
+ * Requests run in order, so each index refers to the columns as left by the previous request
+ */
+function planColumnChanges(layout: SheetLayout, header: string[], sheetId: number): { requests: sheets_v4.Schema$Request[]; changes: string[] } {
+  const requests: sheets_v4.Schema$Request[] = [];
+  const changes: string[] = [];
+  const setHeader = (index: number, value: string) => {
+    requests.push({
+      updateCells: {
+        range: { sheetId, startRowIndex: 0, endRowIndex: 1, startColumnIndex: index, endColumnIndex: index + 1 },
+        rows: [{ values: [{ userEnteredValue: { stringValue: value } }] }],
+        fields: 'userEnteredValue'
+      }
+    });
+  };
+
+  // Tab without a header row: just write one
+  if (header.every(cell => headerKey(cell) === '')) {
+    layout.columns.forEach((column, index) => setHeader(index, column));
+    changes.push(`Write header row (${layout.columns.join(' | ')})`);
+    return { requests, changes };
+  }
+
+  const current = header.map(headerKey);
+
+  // Renamed headers keep their column
+  const renames = new Map<string, string>();
+  for (const migration of layout.migrations) {
+    for (const [from, to] of Object.entries(migration.renames || {})) {
+      renames.set(headerKey(from), to);
+    }
+  }
+  current.forEach((key, index) => {
+    const renamed = renames.get(key);
+    if (renamed && !current.includes(headerKey(renamed))) {
+      setHeader(index, renamed);
+      current[index] = headerKey(renamed);
+      changes.push(`Rename "${header[index]}" to "${renamed}" in column ${columnLetter(index)}`);
+    }
+  });
+
+  layout.columns.forEach((column, index) => {
+    const key = headerKey(column);
+    const found = current.findIndex((value, position) => position >= index && value === key);
+
+    if (found === index) return;
+
+    if (found > index) {
+      requests.push({
+        moveDimension: {
+          source: { sheetId, dimension: 'COLUMNS', startIndex: found, endIndex: found + 1 },
+          destinationIndex: index
+        }
+      });
+      current.splice(index, 0, ...current.splice(found, 1));
+      changes.push(`Move "${column}" from column ${columnLetter(found)} to ${columnLetter(index)}`);
+    } else {
+      requests.push({
+        insertDimension: {
+          range: { sheetId, dimension: 'COLUMNS', startIndex: index, endIndex: index + 1 },
+          inheritFromBefore: index > 0
+        }
+      });
+      setHeader(index, column);
+      current.splice(index, 0, key);
+      changes.push(`Insert "${column}" as column ${columnLetter(index)}`);
+    }
+  });
+
+  return { requests, changes };
+}
+
+interface SpreadsheetPlan {
+  spreadsheetId: string;
+  sheetType: SheetType;
+  checks: SheetSchemaCheck[];
+  requests: Map<string, sheets_v4.Schema$Request[]>; // tab -> column changes
+  metadata: Map<string, { sheetId: number; metadataId?: number }>; // tab -> where its version marker lives
+}
+
+/**
+ * Read the header rows and version markers of one spreadsheet (two API calls) and check every tab
+ */
+async function checkSpreadsheet(
+  sheetType: SheetType,
+  spreadsheetId: string,
+  tabs: Array<{ layout: SheetLayout; tab: string }>
+): Promise<SpreadsheetPlan> {
+  const sheets = await getSheetSheetsClient(sheetType);
+  const sheetInfo = { sheetId: spreadsheetId, sheetName: `Sheet Schema (${sheetType})` };
+  const plan: SpreadsheetPlan = { spreadsheetId, sheetType, checks: [], requests: new Map(), metadata: new Map() };
+
+  const spreadsheet = await measureApiCall(
+    `sheetSchema:metadata:${sheetType}`,
+    'GET',
+    () => sheets.spreadsheets.get({
+      spreadsheetId,
+      fields: 'sheets(properties(sheetId,title),developerMetadata)'
+    }),
+    sheetInfo
+  );
+
+  const sheetsByTitle = new Map((spreadsheet.data.sheets || []).map(sheet => [sheet.properties?.title || '', sheet]));
+  const existing = tabs.filter(({ tab }) => sheetsByTitle.has(tab));
+
+  const headers = existing.length > 0
+    ? await measureApiCall(
+        `sheetSchema:headers:${sheetType}`,
+        'GET',
+        () => sheets.spreadsheets.values.batchGet({
+          spreadsheetId,
+          ranges: existing.map(({ tab }) => `'${tab.replace(/'/g, "''")}'!${HEADER_SCAN_RANGE}`)
+        }),
+        sheetInfo
+      )
+    : null;
+  const valueRanges = headers?.data.valueRanges || [];
+
+  for (const { layout, tab } of tabs) {
+    const check: SheetSchemaCheck = {
+      layout: layout.id,
+      spreadsheetId,
+      tab,
+      expectedVersion: layout.version,
+      foundVersion: null,
+      status: 'ok',
+      problems: [],
+      changes: []
+    };
+    plan.checks.push(check);
+
+    const sheet = sheetsByTitle.get(tab);
+    if (!sheet) {
+      check.status = 'missing';
+      check.problems.push(`Tab "${tab}" does not exist`);
+      continue;
+    }
+
+    const marker = (sheet.developerMetadata || []).find(metadata => metadata.metadataKey === VERSION_METADATA_KEY);
+    check.foundVersion = marker?.metadataValue ? parseInt(marker.metadataValue, 10) : null;
+    plan.metadata.set(tab, { sheetId: sheet.properties?.sheetId ?? 0, metadataId: marker?.metadataId ?? undefined });
+
+    if (check.foundVersion !== null && check.foundVersion > layout.version) {
+      check.status = 'newer';
+      check.problems.push(`Tab is at schema version ${check.foundVersion} but this build only knows version ${layout.version} - deploy a newer build`);
+      continue;
+    }
+
+    const values = (valueRanges[existing.findIndex(entry => entry.tab === tab)]?.values || []) as string[][];
+    const header = values[0] || [];
+    const hasData = (values[1] || []).some(cell => headerKey(cell) !== '');
+
+    const headerEmpty = header.every(cell => headerKey(cell) === '');
+    if (headerEmpty && hasData) {
+      check.status = 'invalid';
+      check.problems.push('Header row is empty but the tab has data - add the header row by hand so columns can be identified');
+      continue;
+    }
+
+    // A header sharing few columns with the layout is probably the wrong tab - don't rearrange it
+    const known = layout.columns.filter(column => header.some(cell => headerKey(cell) === headerKey(column))).length;
+    if (!headerEmpty && known < Math.ceil(layout.columns.length / 2)) {
+      check.status = 'invalid';
+      check.problems.push(`Only ${known} of ${layout.columns.length} ${layout.label} columns found (${header.join(' | ')}) - check the tab by hand`);
+      continue;
+    }
+
+    if (headerEmpty) {
+      check.problems.push('Header row is missing');
+    }
+    layout.columns.forEach((column, index) => {
+      if (!headerEmpty && headerKey(header[index]) !== headerKey(column)) {
+        check.problems.push(`Column ${columnLetter(index)}: expected "${column}", found "${header[index] ?? ''}"`);
+      }
+    });
+
+    const { requests, changes } = planColumnChanges(layout, header, sheet.properties?.sheetId ?? 0);
+    check.changes = changes;
+    if (requests.length > 0) {
+      plan.requests.set(tab, requests);
+    }
+
+    if (requests.length > 0 || (check.foundVersion !== null && check.foundVersion < layout.version)) {
+      check.status = 'outdated';
+    } else if (check.foundVersion === null) {
+      check.status = 'unversioned';
+    }
+    if (check.status !== 'ok') {
+      check.changes.push(`Set schema version to ${layout.version}`);
+    }
+  }
+
+  return plan;
+}
+
+async function planSchemas(): Promise<SpreadsheetPlan[]> {
+  const grouped = new Map<string, { sheetType: SheetType; tabs: Array<{ layout: SheetLayout; tab: string }> }>();
+  for (const { layout, spreadsheetId, tab } of await getSchemaTabs()) {
+    const group = grouped.get(spreadsheetId) || { sheetType: layout.sheetType, tabs: [] };
+    group.tabs.push({ layout, tab });
+    grouped.set(spreadsheetId, group);
+  }
+
+  const plans: SpreadsheetPlan[] = [];
+  for (const [spreadsheetId, { sheetType, tabs }] of grouped) {
+    plans.push(await checkSpreadsheet(sheetType, spreadsheetId, tabs));
+  }
+  return plans;
+}
+
+function buildReport(plans: SpreadsheetPlan[]): SheetSchemaReport {
+  const tabs = plans.flatMap(plan => plan.checks);
+  lastReport = {
+    checkedAt: new Date().toISOString(),
+    valid: tabs.every(check => check.status === 'ok' || check.status === 'unversioned' || (check.status === 'outdated' && check.problems.length === 0)),
+    tabs
+  };
+  return lastReport;
+}
+
+/**
+ * Check the header row and schema version of every butcher tab
+ */
+export async function validateSheetSchemas(): Promise<SheetSchemaReport> {
+  return buildReport(await planSchemas());
+}
+
+/**
+ * Bring every outdated or unversioned tab to its declared layout
+ * With `dryRun` only the planned changes are returned
+ * Tabs that are missing, have no header row or are newer than this build are skipped
+ */
+export async function migrateSheetSchemas(options: { dryRun?: boolean } = {}): Promise<SheetMigrationResult> {
+  if (migrating) {
+    throw new SheetSchemaError('A sheet migration is already running');
+  }
+
+  migrating = true;
+  try {
+    const plans = await planSchemas();
+    const migrated: SheetSchemaCheck[] = [];
+    const skipped: SheetSchemaCheck[] = [];
+
+    for (const plan of plans) {
+      const pending = plan.checks.filter(check => check.status === 'outdated' || check.status === 'unversioned');
+      skipped.push(...plan.checks.filter(check => check.status !== 'ok' && !pending.includes(check)));
+      if (pending.length === 0) continue;
+
+      if (options.dryRun) {
+        migrated.push(...pending);
+        continue;
+      }
+
+      const requests: sheets_v4.Schema$Request[] = [];
+      for (const check of pending) {
+        requests.push(...(plan.requests.get(check.tab) || []));
+
+        const { sheetId, metadataId } = plan.metadata.get(check.tab) as { sheetId: number; metadataId?: number };
+        if (metadataId !== undefined) {
+          requests.push({
+            updateDeveloperMetadata: {
+              dataFilters: [{ developerMetadataLookup: { metadataId } }],
+              developerMetadata: { metadataValue: String(check.expectedVersion) },
+              fields: 'metadataValue'
+            }
+          });
+        } else {
+          requests.push({
+            createDeveloperMetadata: {
+              developerMetadata: {
+                metadataKey: VERSION_METADATA_KEY,
+                metadataValue: String(check.expectedVersion),
+                location: { sheetId },
+                visibility: 'DOCUMENT'
+              }
+            }
+          });
+        }
+      }
+
+      // Buffered rows were built for the declared layout - let them land before columns move
+      await flushSheetWrites({ force: true, spreadsheetId: plan.spreadsheetId });
+
+      const sheets = await getSheetSheetsClient(plan.sheetType);
+      await measureApiCall(
+        `sheetSchema:migrate:${plan.sheetType}`,
+        'POST',
+        () => sheets.spreadsheets.batchUpdate({
+          spreadsheetId: plan.spreadsheetId,
+          requestBody: { requests }
+        }),
+        { sheetId: plan.spreadsheetId, sheetName: `Sheet Schema (${plan.sheetType})` }
+      );
+
+      invalidateRowIndex(plan.spreadsheetId);
+      for (const check of pending) {
+        console.log(`[SheetSchema] Migrated ${check.tab} to ${SHEET_LAYOUTS[check.layout].label} v${check.expectedVersion}: ${check.changes.join('; ')}`);
+      }
+      migrated.push(...pending);
+    }
+
+    const report = options.dryRun ? buildReport(plans) : await validateSheetSchemas();
+    return { dryRun: !!options.dryRun, migrated, skipped, report };
+  } finally {
+    migrating = false;
+  }
+}
+
+/**
+ * Create tabs with their layout's header row and current schema version (butcher onboarding)
+ * One batchUpdate per spreadsheet; tabs that already exist are left untouched
+ */
+export async function createSheetTabs(
+  tabs: Array<{ layoutId: SheetLayoutId; tab: string }>
+): Promise<Array<{ layout: SheetLayoutId; tab: string; spreadsheetId: string; created: boolean }>> {
+  const { pos, menu } = await getSpreadsheetIds();
+  const spreadsheetIds: Record<SheetType, string | undefined> = { pos, menu, sales: process.env.SALES_VCS_SPREADSHEET_ID };
+  const results: Array<{ layout: SheetLayoutId; tab: string; spreadsheetId: string; created: boolean }> = [];
+
+  for (const sheetType of ['pos', 'menu', 'sales'] as SheetType[]) {
+    const wanted = tabs.filter(({ layoutId }) => SHEET_LAYOUTS[layoutId].sheetType === sheetType);
+    const spreadsheetId = spreadsheetIds[sheetType];
+    if (wanted.length === 0) continue;
+    if (!spreadsheetId) {
+      throw new SheetSchemaError(`No spreadsheet configured for ${sheetType} tabs (${wanted.map(({ tab }) => tab).join(', ')})`);
+    }
+
+    const sheets = await getSheetSheetsClient(sheetType);
+    const sheetInfo = { sheetId: spreadsheetId, sheetName: `Sheet Schema (${sheetType})` };
+    const spreadsheet = await measureApiCall(
+      `sheetSchema:metadata:${sheetType}`,
+      'GET',
+      () => sheets.spreadsheets.get({ spreadsheetId, fields: 'sheets(properties(sheetId,title))' }),
+      sheetInfo
+    );
+    const titles = new Set((spreadsheet.data.sheets || []).map(sheet => sheet.properties?.title || ''));
+    const usedIds = new Set((spreadsheet.data.sheets || []).map(sheet => sheet.properties?.sheetId ?? 0));
+
+    const requests: sheets_v4.Schema$Request[] = [];
+    for (const { layoutId, tab } of wanted) {
+      const layout = SHEET_LAYOUTS[layoutId];
+      if (titles.has(tab)) {
+        results.push({ layout: layoutId, tab, spreadsheetId, created: false });
+        continue;
+      }
+
+      // Pick the sheetId up front so the header and version marker can go in the same batch
+      let sheetId = Math.floor(Math.random() * 1_000_000_000) + 1;
+      while (usedIds.has(sheetId)) sheetId++;
+      usedIds.add(sheetId);
+      titles.add(tab);
+
+      requests.push(
+        { addSheet: { properties: { sheetId, title: tab, gridProperties: { frozenRowCount: 1 } } } },
+        {
+          updateCells: {
+            range: { sheetId, startRowIndex: 0, endRowIndex: 1, startColumnIndex: 0, endColumnIndex: layout.columns.length },
+            rows: [{ values: layout.columns.map(column => ({ userEnteredValue: { stringValue: column } })) }],
+            fields: 'userEnteredValue'
+          }
+        },
+        {
+          createDeveloperMetadata: {
+            developerMetadata: {
+              metadataKey: VERSION_METADATA_KEY,
+              metadataValue: String(layout.version),
+              location: { sheetId },
+              visibility: 'DOCUMENT'
+            }
+          }
+        }
+      );
+      results.push({ layout: layoutId, tab, spreadsheetId, created: true });
+    }
+
+    if (requests.length === 0) continue;
+
+    await measureApiCall(
+      `sheetSchema:createTabs:${sheetType}`,
+      'POST',
+      () => sheets.spreadsheets.batchUpdate({ spreadsheetId, requestBody: { requests } }),
+      sheetInfo
+    );
+    console.log(`[SheetSchema] Created ${requests.length / 3} tab(s) in the ${sheetType} spreadsheet`);
+  }
+
+  return results;
+}
+
+/**
+ * Result of the last schema check (null until the startup check has run)
+ */
+export function getLastSheetSchemaReport(): SheetSchemaReport | null {
+  return lastReport;
+}
+
+/**
+ * Check all tabs and log a clear error for every one that doesn't match its layout
+ */
+async function checkSheetSchemasOnStartup(): Promise<void> {
+  const report = await validateSheetSchemas();
+
+  for (const check of report.tabs) {
+    const label = `${SHEET_LAYOUTS[check.layout].label} tab "${check.tab}"`;
+    if (check.status === 'unversioned') {
+      console.warn(`[SheetSchema] ${label} has no schema version yet - POST /api/sheet-schema to stamp it`);
+    } else if (check.status === 'outdated' && check.problems.length === 0) {
+      console.warn(`[SheetSchema] ${label} is at v${check.foundVersion}, expected v${check.expectedVersion} - POST /api/sheet-schema to migrate`);
+    } else if (check.status !== 'ok') {
+      console.error(
+        `[SheetSchema] ${label} does not match schema v${check.expectedVersion}:\n` +
+        check.problems.map(problem => `  - ${problem}`).join('\n') +
+        (check.status === 'outdated' ? '\n  Reads and writes to this tab will use the wrong columns until it is migrated (POST /api/sheet-schema)' : '')
+      );
+    }
+  }
+}
+
+// Check once per process, shortly after boot (server-side only)
+if (typeof window === 'undefined' && SCHEMA_CHECK_ENABLED) {
+  setTimeout(() => {
+    checkSheetSchemasOnStartup().catch(error => {
+      console.error('[SheetSchema] Startup check failed:', error instanceof Error ? error.message : error);
+    });
+  }, 3000);
+}
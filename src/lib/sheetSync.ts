@@ -0,0 +1,736 @@
+/**
+ * Sheet Sync
+ * Two-way sync between the local SQLite store (DATA_STORE=sqlite, the source of truth) and Google Sheets
+ * - Local changes are pushed in batches (one read + one batchUpdate per spreadsheet, one append per tab)
+ * - Rows edited by hand in the sheet are detected by comparing row hashes with the last synced version
+ * - Sheet edits to orders and menus are adopted locally; edits to the push-only Sales VCS become conflicts
+ * - A row changed on both sides becomes a conflict for an admin to resolve - neither side is overwritten
+ * Calls stay within the Google Sheets quota tracked by apiMonitor (SHEET_SYNC_QUOTA_RESERVE is left for live traffic)
+ */
+
+import crypto from 'crypto';
+import type Database from 'better-sqlite3';
+import { apiMonitor, measureApiCall } from './apiMonitor';
+import { BUTCHER_CONFIGS, getButcherType, extractEnglishName } from './butcherConfig';
+import { normalizeItemName } from './matchingUtils';
+import { parsePreparingWeightValue } from './orderItemStatus';
+import { canTransition, transitionOrder } from './orderStateMachine';
+import { getRepositories, getSqliteDatabase } from './repositories';
+import { buildSalesSheetRow, getButcherName } from './salesSheets';
+import { indexSheetRows, invalidateRowIndex } from './sheetRowIndex';
+import { SHEET_LAYOUTS } from './sheetSchema';
+import { buildMenuSheetRows, buildOrderSheetRow, getSheetSheetsClient, getSpreadsheetIds } from './sheets';
+import type { Order } from './types';
+
+export type SyncEntity = 'order' | 'menu' | 'sale';
+
+export type SheetRow = string[];
+
+export interface SyncConflict {
+  id: number;
+  tableId: string;
+  entity: SyncEntity;
+  butcherId: string;
+  rowKey: string;
+  headers: string[];
+  localRow: SheetRow | null; // null when the record no longer exists locally
+  sheetRow: SheetRow | null; // null when the row was deleted from the sheet
+  detectedAt: string;
+}
+
+export type SyncResolution = 'local' | 'sheet';
+
+export interface SheetSyncResult {
+  startedAt: string;
+  finishedAt: string;
+  pushed: number; // Rows written to the sheet
+  adopted: number; // Sheet edits applied to the local store
+  conflicts: number; // New conflicts found this run
+  deferred: number; // Spreadsheets left for the next run (quota)
+  errors: string[];
+}
+
+export interface SheetSyncStatus {
+  enabled: boolean;
+  running: boolean;
+  lastResult: SheetSyncResult | null;
+  openConflicts: number;
+}
+
+export class SheetSyncError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SheetSyncError';
+  }
+}
+
+/**
+ * One sheet tab kept in sync with local records
+ */
+interface SyncTable {
+  id: string; // `${entity}:${tab}`
+  entity: SyncEntity;
+  butcherId: string;
+  spreadsheetId: string;
+  sheetType: 'pos' | 'menu' | 'sales';
+  tab: string;
+  lastColumn: string; // Data lives in A2:<lastColumn>
+  headers: string[];
+  ignoreColumns?: number[]; // Columns left out of the row hash (e.g. "last updated" dates)
+  removeMissing?: boolean; // Clear sheet rows whose local record is gone
+  keyOf(row: SheetRow): string | null;
+  loadLocal(): Promise<SheetRow[]>;
+  adopt?(rowKey: string, row: SheetRow): Promise<void>; // Apply a sheet edit locally (two-way tables only)
+}
+
+interface SyncState {
+  localHash: string;
+  sheetHash: string;
+}
+
+interface TablePlan {
+  updates: Array<{ range: string; values: SheetRow[] }>;
+  appends: SheetRow[];
+  written: Map<string, string>; // rowKey -> hash of the row written
+}
+
+const SYNC_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sheet_sync_state (
+    table_id TEXT NOT NULL,
+    row_key TEXT NOT NULL,
+    local_hash TEXT NOT NULL,
+    sheet_hash TEXT NOT NULL,
+    synced_at TEXT NOT NULL,
+    PRIMARY KEY (table_id, row_key)
+  );
+  CREATE TABLE IF NOT EXISTS sheet_sync_conflicts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    table_id TEXT NOT NULL,
+    row_key TEXT NOT NULL,
+    local_row TEXT,
+    sheet_row TEXT,
+    detected_at TEXT NOT NULL,
+    resolved_at TEXT,
+    resolution TEXT
+  );
+  CREATE INDEX IF NOT EXISTS sheet_sync_conflicts_open ON sheet_sync_conflicts (table_id, row_key) WHERE resolved_at IS NULL;
+`;
+
+const QUOTA_RESERVE = parseFloat(process.env.SHEET_SYNC_QUOTA_RESERVE || '0.3');
+const SYNC_ACTOR = 'sheet-sync';
+
+const ORDER_HEADERS = SHEET_LAYOUTS.orders.columns;
+const MEAT_MENU_HEADERS = SHEET_LAYOUTS['menu-meat'].columns;
+const FISH_MENU_HEADERS = SHEET_LAYOUTS['menu-fish'].columns;
+const SALES_HEADERS = SHEET_LAYOUTS.sales.columns;
+
+let running = false;
+let lastResult: SheetSyncResult | null = null;
+let schemaReady = false;
+
+function getDatabase(): Database.Database | null {
+  const db = getSqliteDatabase();
+  if (db && !schemaReady) {
+    db.exec(SYNC_SCHEMA);
+    schemaReady = true;
+  }
+  return db;
+}
+
+function requireDatabase(): Database.Database {
+  const db = getDatabase();
+  if (!db) {
+    throw new SheetSyncError('Sheet sync needs the local store (DATA_STORE=sqlite)');
+  }
+  return db;
+}
+
+/**
+ * Sheets returns strings and drops trailing empty cells - compare rows the same way
+ */
+function normalizeRow(row: unknown[], ignoreColumns: number[] = []): SheetRow {
+  const cells = row.map((cell, index) => (ignoreColumns.includes(index) ? '' : String(cell ?? '').trim()));
+  while (cells.length > 0 && cells[cells.length - 1] === '') {
+    cells.pop();
+  }
+  return cells;
+}
+
+function hashRow(row: SheetRow | null | undefined, ignoreColumns?: number[]): string {
+  if (!row) return '';
+  return crypto.createHash('sha1').update(JSON.stringify(normalizeRow(row, ignoreColumns))).digest('hex');
+}
+
+function padRow(row: SheetRow, width: number): SheetRow {
+  return Array.from({ length: width }, (_, index) => row[index] ?? '');
+}
+
+/**
+ * "1/1/2025" and "01/01/2025" are the same order date
+ */
+function normalizeDate(value: string): string {
+  const parts = (value || '').split(/[/-]/);
+  if (parts.length < 3) return value || '';
+  return parts.slice(0, 3).map(part => String(parseInt(part, 10))).join('/');
+}
+
+const orderRowKey = (row: SheetRow) => (row[1] ? `${normalizeDate(row[0])}|${String(row[1]).trim()}` : null);
+
+const menuItemKey = (name: string, size?: string) =>
+  `${normalizeItemName(extractEnglishName(name))}|${size || 'default'}`;
+
+/**
+ * Split "a: 1, b: 2" cells (preparing weight / revenue) into name -> value
+ */
+function parseItemCell(cell: string): Map<string, string> {
+  const entries = new Map<string, string>();
+  for (const part of (cell || '').split(',')) {
+    const separator = part.indexOf(':');
+    if (separator === -1) continue;
+    entries.set(part.slice(0, separator).trim(), part.slice(separator + 1).trim());
+  }
+  return entries;
+}
+
+// ========== Sync tables ==========
+
+function getOrderTable(butcherId: string, tab: string, spreadsheetId: string): SyncTable {
+  const isFish = getButcherType(butcherId) === 'fish';
+
+  // Orders by row key, built once per run by loadLocal and used by adopt
+  let ordersByKey: Map<string, Order> | null = null;
+
+  const loadOrders = async (): Promise<SheetRow[]> => {
+    const orders = await getRepositories().orders.getOrders(butcherId);
+    const rows = await Promise.all(orders.map(async order => normalizeRow(await buildOrderSheetRow(order, butcherId))));
+    const byKey = new Map<string, Order>();
+    rows.forEach((row, index) => {
+      const rowKey = orderRowKey(row);
+      if (rowKey && !byKey.has(rowKey)) {
+        byKey.set(rowKey, orders[index]);
+      }
+    });
+    ordersByKey = byKey;
+    return rows;
+  };
+
+  const findOrder = async (rowKey: string): Promise<Order | undefined> => {
+    if (!ordersByKey) {
+      await loadOrders();
+    }
+    return ordersByKey?.get(rowKey);
+  };
+
+  return {
+    id: `order:${tab}`,
+    entity: 'order',
+    butcherId,
+    spreadsheetId,
+    sheetType: 'pos',
+    tab,
+    lastColumn: 'K',
+    headers: ORDER_HEADERS,
+    ignoreColumns: [7], // Completion time - a live "Nmin" count while the order is open
+    keyOf: orderRowKey,
+    loadLocal: loadOrders,
+    // Hand edits to preparing weights, status (rejection) and revenue are taken over
+    adopt: async (rowKey, row) => {
+      const order = await findOrder(rowKey);
+      if (!order) return;
+
+      let updated: Order = { ...order, items: order.items.map(item => ({ ...item })) };
+      const weights = parseItemCell(row[6]);
+      const weightField = isFish ? 'itemWeights' : 'itemQuantities';
+      const recordedWeights = { ...(updated[weightField] || {}) };
+
+      for (const item of updated.items) {
+        const value = weights.get(item.name);
+        if (value === undefined) continue;
+        const parsed = parsePreparingWeightValue(value);
+        item.status = parsed.status;
+        if (parsed.weight) {
+          item.preparingWeight = parsed.weight;
+          recordedWeights[item.name] = parsed.weight;
+        }
+        if (parsed.substitutedWith) {
+          item.substitutedWith = parsed.substitutedWith;
+        }
+      }
+      updated[weightField] = recordedWeights;
+
+      const revenue = parseItemCell(row[10]);
+      if (revenue.size > 0) {
+        updated.itemRevenues = Object.fromEntries(
+          Array.from(revenue.entries()).map(([itemKey, value]) => [itemKey, parseFloat(value) || 0])
+        );
+        updated.revenue = Object.values(updated.itemRevenues).reduce((sum, value) => sum + value, 0);
+      } else if (row[10] && !isNaN(parseFloat(row[10]))) {
+        updated.revenue = parseFloat(row[10]);
+      }
+
+      if ((row[9] || '').toLowerCase() === 'rejected' && canTransition(updated.status, 'rejected')) {
+        updated = transitionOrder(updated, 'rejected', { by: SYNC_ACTOR, reason: 'Rejected in Butcher POS sheet' });
+      }
+
+      await getRepositories().orders.updateOrder(updated, butcherId);
+    }
+  };
+}
+
+function getMenuTable(butcherId: string, tab: string, spreadsheetId: string, isMeatTab: boolean): SyncTable {
+  const keyOf = (row: SheetRow) => (row[0] ? menuItemKey(row[0], isMeatTab ? undefined : row[2] || undefined) : null);
+  const priceColumn = isMeatTab ? 2 : 3;
+  const nosWeightColumn = isMeatTab ? 5 : 6;
+
+  return {
+    id: `menu:${tab}`,
+    entity: 'menu',
+    butcherId,
+    spreadsheetId,
+    sheetType: 'menu',
+    tab,
+    lastColumn: isMeatTab ? 'G' : 'H',
+    headers: isMeatTab ? MEAT_MENU_HEADERS : FISH_MENU_HEADERS,
+    ignoreColumns: [isMeatTab ? 6 : 7], // Date the row was written
+    removeMissing: true,
+    keyOf,
+    loadLocal: async () => {
+      const menu = await getRepositories().menus.getMenu(butcherId, tab);
+      const rows = await buildMenuSheetRows(butcherId, menu, isMeatTab);
+      return rows.map(row => normalizeRow(row));
+    },
+    // Purchase price and nos weight edits are taken over
+    adopt: async (rowKey, row) => {
+      const menu = await getRepositories().menus.getMenu(butcherId, tab);
+      const price = parseFloat(row[priceColumn]);
+      const [minWeight, maxWeight] = (row[nosWeightColumn] || '').split('-').map(value => parseFloat(value));
+      let changed = false;
+
+      for (const category of menu) {
+        for (const item of category.items) {
+          for (const size of item.sizes) {
+            if (menuItemKey(item.name, isMeatTab ? undefined : size.size) !== rowKey) continue;
+            if (!isNaN(price) && price > 0) size.price = price;
+            if (!isNaN(minWeight) && !isNaN(maxWeight)) {
+              size.minWeight = minWeight;
+              size.maxWeight = maxWeight;
+            }
+            changed = true;
+          }
+        }
+      }
+
+      // The whole tab is saved back - saveMenu replaces the tab's menu with what it is given
+      if (changed) {
+        await getRepositories().menus.saveMenu(butcherId, menu);
+      }
+    }
+  };
+}
+
+function getSalesTable(butcherId: string, spreadsheetId: string): SyncTable {
+  const tab = getButcherName(butcherId);
+
+  return {
+    id: `sale:${tab}`,
+    entity: 'sale',
+    butcherId,
+    spreadsheetId,
+    sheetType: 'sales',
+    tab,
+    lastColumn: 'J',
+    headers: SALES_HEADERS,
+    keyOf: orderRowKey,
+    // Current and previous month - older sales are final
+    loadLocal: async () => {
+      const now = new Date();
+      const previous = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+      const sales = [
+        ...(await getRepositories().sales.getSales(previous.getMonth() + 1, previous.getFullYear())),
+        ...(await getRepositories().sales.getSales(now.getMonth() + 1, now.getFullYear()))
+      ];
+      return sales.filter(sale => sale.butcherId === butcherId).map(sale => normalizeRow(buildSalesSheetRow(sale)));
+    }
+  };
+}
+
+async function getSyncTables(): Promise<SyncTable[]> {
+  const { pos, menu } = await getSpreadsheetIds();
+  const salesSpreadsheetId = process.env.SALES_VCS_SPREADSHEET_ID;
+  const tables: SyncTable[] = [];
+
+  for (const config of Object.values(BUTCHER_CONFIGS)) {
+    if (pos && config.orderSheetTab) {
+      tables.push(getOrderTable(config.id, config.orderSheetTab, pos));
+    }
+    if (menu && config.meatSheetTab) {
+      tables.push(getMenuTable(config.id, config.meatSheetTab, menu, true));
+    }
+    if (menu && config.fishSheetTab && config.fishSheetTab !== config.meatSheetTab) {
+      tables.push(getMenuTable(config.id, config.fishSheetTab, menu, false));
+    }
+    if (salesSpreadsheetId) {
+      tables.push(getSalesTable(config.id, salesSpreadsheetId));
+    }
+  }
+
+  return tables;
+}
+
+// ========== State & conflicts ==========
+
+function getStates(db: Database.Database, tableId: string): Map<string, SyncState> {
+  const rows = db
+    .prepare('SELECT row_key, local_hash, sheet_hash FROM sheet_sync_state WHERE table_id = ?')
+    .all(tableId) as Array<{ row_key: string; local_hash: string; sheet_hash: string }>;
+  return new Map(rows.map(row => [row.row_key, { localHash: row.local_hash, sheetHash: row.sheet_hash }]));
+}
+
+function saveState(db: Database.Database, tableId: string, rowKey: string, state: SyncState): void {
+  db.prepare(`
+    INSERT INTO sheet_sync_state (table_id, row_key, local_hash, sheet_hash, synced_at) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (table_id, row_key) DO UPDATE SET
+      local_hash = excluded.local_hash, sheet_hash = excluded.sheet_hash, synced_at = excluded.synced_at
+  `).run(tableId, rowKey, state.localHash, state.sheetHash, new Date().toISOString());
+}
+
+function deleteState(db: Database.Database, tableId: string, rowKey: string): void {
+  db.prepare('DELETE FROM sheet_sync_state WHERE table_id = ? AND row_key = ?').run(tableId, rowKey);
+}
+
+function getOpenConflictKeys(db: Database.Database, tableId: string): Set<string> {
+  const rows = db
+    .prepare('SELECT row_key FROM sheet_sync_conflicts WHERE table_id = ? AND resolved_at IS NULL')
+    .all(tableId) as Array<{ row_key: string }>;
+  return new Set(rows.map(row => row.row_key));
+}
+
+function recordConflict(db: Database.Database, tableId: string, rowKey: string, localRow: SheetRow | null, sheetRow: SheetRow | null): void {
+  db.prepare(`
+    INSERT INTO sheet_sync_conflicts (table_id, row_key, local_row, sheet_row, detected_at) VALUES (?, ?, ?, ?, ?)
+  `).run(
+    tableId,
+    rowKey,
+    localRow ? JSON.stringify(localRow) : null,
+    sheetRow ? JSON.stringify(sheetRow) : null,
+    new Date().toISOString()
+  );
+  console.warn(`[SheetSync] Conflict on ${tableId} row ${rowKey} - waiting for admin`);
+}
+
+// ========== Sync ==========
+
+/**
+ * Compare one tab with the local records and plan the writes
+ */
+async function planTable(
+  db: Database.Database,
+  table: SyncTable,
+  sheetValues: unknown[][],
+  result: SheetSyncResult
+): Promise<TablePlan> {
+  const plan: TablePlan = { updates: [], appends: [], written: new Map() };
+  const width = table.headers.length;
+  const ignore = table.ignoreColumns;
+
+  // First occurrence wins when the sheet has duplicate keys
+  const sheetRows = new Map<string, { rowNumber: number; row: SheetRow }>();
+  sheetValues.forEach((values, index) => {
+    const row = normalizeRow(values);
+    const rowKey = table.keyOf(row);
+    if (rowKey && !sheetRows.has(rowKey)) {
+      sheetRows.set(rowKey, { rowNumber: index + 2, row });
+    }
+  });
+
+  const localRows = new Map<string, SheetRow>();
+  for (const row of await table.loadLocal()) {
+    const rowKey = table.keyOf(row);
+    if (rowKey && !localRows.has(rowKey)) {
+      localRows.set(rowKey, row);
+    }
+  }
+
+  const states = getStates(db, table.id);
+  const openConflicts = getOpenConflictKeys(db, table.id);
+  const rowKeys = new Set([...localRows.keys(), ...(table.removeMissing ? states.keys() : [])]);
+
+  const write = (rowKey: string, row: SheetRow) => {
+    const sheet = sheetRows.get(rowKey);
+    if (sheet) {
+      plan.updates.push({ range: `${table.tab}!A${sheet.rowNumber}:${table.lastColumn}${sheet.rowNumber}`, values: [padRow(row, width)] });
+    } else {
+      plan.appends.push(padRow(row, width));
+    }
+    plan.written.set(rowKey, row.length > 0 ? hashRow(row, ignore) : '');
+  };
+
+  for (const rowKey of rowKeys) {
+    if (openConflicts.has(rowKey)) continue;
+
+    const local = localRows.get(rowKey) || null;
+    const sheet = sheetRows.get(rowKey)?.row || null;
+    const localHash = hashRow(local, ignore);
+    const sheetHash = hashRow(sheet, ignore);
+    const state = states.get(rowKey);
+
+    if (!local) {
+      // Record removed locally (menu item made unavailable) - clear the row unless someone edited it
+      if (!sheet) {
+        deleteState(db, table.id, rowKey);
+      } else if (state && sheetHash === state.sheetHash) {
+        write(rowKey, []);
+      } else {
+        recordConflict(db, table.id, rowKey, null, sheet);
+        result.conflicts++;
+      }
+      continue;
+    }
+
+    if (!state) {
+      // Never synced - the local store is the source of truth
+      if (localHash === sheetHash) {
+        saveState(db, table.id, rowKey, { localHash, sheetHash });
+      } else {
+        write(rowKey, local);
+      }
+      continue;
+    }
+
+    const localChanged = localHash !== state.localHash;
+    const sheetChanged = sheetHash !== state.sheetHash;
+
+    if (!sheetChanged) {
+      if (localChanged) write(rowKey, local);
+      continue;
+    }
+
+    if (localHash === sheetHash) {
+      // Both sides ended up the same
+      saveState(db, table.id, rowKey, { localHash, sheetHash });
+    } else if (!localChanged && sheet && table.adopt) {
+      await table.adopt(rowKey, sheet);
+      saveState(db, table.id, rowKey, { localHash: sheetHash, sheetHash });
+      result.adopted++;
+    } else {
+      recordConflict(db, table.id, rowKey, local, sheet);
+      result.conflicts++;
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Sync every table of one spreadsheet: one read, one batchUpdate, one append per tab
+ */
+async function syncSpreadsheet(db: Database.Database, tables: SyncTable[], result: SheetSyncResult): Promise<boolean> {
+  const { spreadsheetId, sheetType } = tables[0];
+  const sheetInfo = { sheetId: spreadsheetId, sheetName: `Sheet Sync (${sheetType})` };
+
+  if (apiMonitor.getRemainingQuota(QUOTA_RESERVE) < 2) {
+    return false;
+  }
+
+  const sheets = await getSheetSheetsClient(sheetType);
+  const response = await measureApiCall(
+    `sheetSync:read:${sheetType}`,
+    'GET',
+    () => sheets.spreadsheets.values.batchGet({
+      spreadsheetId,
+      ranges: tables.map(table => `${table.tab}!A2:${table.lastColumn}`)
+    }),
+    sheetInfo
+  );
+  const valueRanges = response.data.valueRanges || [];
+
+  const plans: TablePlan[] = [];
+  for (const [index, table] of tables.entries()) {
+    const values = (valueRanges[index]?.values || []) as unknown[][];
+    if (table.entity === 'order') {
+      indexSheetRows(spreadsheetId, table.tab, values); // Picks up rows inserted, deleted or moved by hand
+    }
+    plans.push(await planTable(db, table, values, result));
+  }
+
+  const saveWritten = (table: SyncTable, plan: TablePlan, rowKeys: string[]) => {
+    for (const rowKey of rowKeys) {
+      const hash = plan.written.get(rowKey);
+      if (hash) {
+        saveState(db, table.id, rowKey, { localHash: hash, sheetHash: hash });
+      } else {
+        deleteState(db, table.id, rowKey); // Cleared row
+      }
+    }
+  };
+
+  const updates = plans.flatMap(plan => plan.updates);
+  if (updates.length > 0) {
+    await measureApiCall(
+      `sheetSync:update:${sheetType}`,
+      'POST',
+      () => sheets.spreadsheets.values.batchUpdate({
+        spreadsheetId,
+        requestBody: { valueInputOption: 'RAW', data: updates }
+      }),
+      sheetInfo
+    );
+    result.pushed += updates.length;
+  }
+
+  for (const [index, table] of tables.entries()) {
+    const plan = plans[index];
+    const appendedKeys = plan.appends.map(row => table.keyOf(normalizeRow(row)) as string);
+    saveWritten(table, plan, Array.from(plan.written.keys()).filter(rowKey => !appendedKeys.includes(rowKey)));
+
+    if (plan.appends.length === 0) continue;
+    if (apiMonitor.getRemainingQuota(QUOTA_RESERVE) < 1) {
+      // New rows go out on the next run; their keys have no state yet so they're planned again
+      result.deferred++;
+      continue;
+    }
+
+    await measureApiCall(
+      `sheetSync:append:${table.tab}`,
+      'POST',
+      () => sheets.spreadsheets.values.append({
+        spreadsheetId,
+        range: `${table.tab}!A:${table.lastColumn}`,
+        valueInputOption: 'RAW',
+        insertDataOption: 'INSERT_ROWS',
+        requestBody: { values: plan.appends }
+      }),
+      sheetInfo
+    );
+    saveWritten(table, plan, appendedKeys);
+    result.pushed += plan.appends.length;
+    if (table.entity === 'order') {
+      invalidateRowIndex(spreadsheetId, table.tab); // Appended outside the write buffer
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Run one sync pass over all tables
+ */
+export async function runSheetSync(): Promise<SheetSyncResult> {
+  const db = requireDatabase();
+  if (running) {
+    throw new SheetSyncError('Sheet sync is already running');
+  }
+
+  running = true;
+  const result: SheetSyncResult = {
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    pushed: 0,
+    adopted: 0,
+    conflicts: 0,
+    deferred: 0,
+    errors: []
+  };
+
+  try {
+    const bySpreadsheet = new Map<string, SyncTable[]>();
+    for (const table of await getSyncTables()) {
+      const group = bySpreadsheet.get(table.spreadsheetId) || [];
+      group.push(table);
+      bySpreadsheet.set(table.spreadsheetId, group);
+    }
+
+    for (const tables of bySpreadsheet.values()) {
+      try {
+        if (!(await syncSpreadsheet(db, tables, result))) {
+          result.deferred++;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`[SheetSync] Failed to sync ${tables[0].sheetType} sheet:`, error);
+        result.errors.push(`${tables[0].sheetType}: ${message}`);
+      }
+    }
+  } finally {
+    result.finishedAt = new Date().toISOString();
+    lastResult = result;
+    running = false;
+  }
+
+  return result;
+}
+
+/**
+ * Open conflicts, oldest first
+ */
+export async function getSyncConflicts(): Promise<SyncConflict[]> {
+  const db = getDatabase();
+  if (!db) return [];
+
+  const tables = new Map((await getSyncTables()).map(table => [table.id, table]));
+  const rows = db
+    .prepare('SELECT * FROM sheet_sync_conflicts WHERE resolved_at IS NULL ORDER BY id')
+    .all() as Array<{ id: number; table_id: string; row_key: string; local_row: string | null; sheet_row: string | null; detected_at: string }>;
+
+  return rows.map(row => {
+    const table = tables.get(row.table_id);
+    return {
+      id: row.id,
+      tableId: row.table_id,
+      entity: (table?.entity || row.table_id.split(':')[0]) as SyncEntity,
+      butcherId: table?.butcherId || '',
+      rowKey: row.row_key,
+      headers: table?.headers || [],
+      localRow: row.local_row ? JSON.parse(row.local_row) : null,
+      sheetRow: row.sheet_row ? JSON.parse(row.sheet_row) : null,
+      detectedAt: row.detected_at
+    };
+  });
+}
+
+/**
+ * Resolve a conflict
+ * - 'local': the local record wins and is pushed on the next run
+ * - 'sheet': the sheet wins - adopted locally where the table is two-way, otherwise left as it is in the sheet
+ */
+export async function resolveSyncConflict(conflictId: number, resolution: SyncResolution): Promise<void> {
+  const db = requireDatabase();
+  const conflict = (await getSyncConflicts()).find(item => item.id === conflictId);
+  if (!conflict) {
+    throw new SheetSyncError(`Conflict ${conflictId} not found or already resolved`);
+  }
+
+  const table = (await getSyncTables()).find(item => item.id === conflict.tableId);
+  const ignore = table?.ignoreColumns;
+  const sheetHash = hashRow(conflict.sheetRow, ignore);
+
+  if (resolution === 'local') {
+    // Empty local hash marks the local row as changed, so the next run writes it over the sheet row
+    saveState(db, conflict.tableId, conflict.rowKey, { localHash: '', sheetHash });
+  } else if (conflict.sheetRow && table?.adopt) {
+    await table.adopt(conflict.rowKey, conflict.sheetRow);
+    saveState(db, conflict.tableId, conflict.rowKey, { localHash: sheetHash, sheetHash });
+  } else {
+    saveState(db, conflict.tableId, conflict.rowKey, { localHash: hashRow(conflict.localRow, ignore), sheetHash });
+  }
+
+  db.prepare('UPDATE sheet_sync_conflicts SET resolved_at = ?, resolution = ? WHERE id = ?')
+    .run(new Date().toISOString(), resolution, conflictId);
+}
+
+/**
+ * Sync status for the admin dashboard
+ */
+export function getSheetSyncStatus(): SheetSyncStatus {
+  const db = getDatabase();
+  const openConflicts = db
+    ? (db.prepare('SELECT COUNT(*) AS count FROM sheet_sync_conflicts WHERE resolved_at IS NULL').get() as { count: number }).count
+    : 0;
+
+  return {
+    enabled: db !== null,
+    running,
+    lastResult,
+    openConflicts
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Sheet Sync Worker
+ * Runs the two-way Google Sheets sync on an interval when the local store is the source of truth (DATA_STORE=sqlite)
+ * SHEET_SYNC_INTERVAL_SECONDS sets the interval (default 120), SHEET_SYNC=off disables it
+ */
+
+import { runSheetSync, getSheetSyncStatus } from './sheetSync';
+
+let workerInterval: NodeJS.Timeout | null = null;
+const WORKER_INTERVAL = parseInt(process.env.SHEET_SYNC_INTERVAL_SECONDS || '120', 10) * 1000;
+const SYNC_ENABLED = process.env.DATA_STORE === 'sqlite' && process.env.SHEET_SYNC !== 'off';
+
+async function processSheetSync(): Promise<void> {
+  const status = getSheetSyncStatus();
+  if (status.running) {
+    return;
+  }
+
+  const result = await runSheetSync();
+  if (result.pushed > 0 || result.adopted > 0 || result.conflicts > 0) {
+    console.log(`[SheetSync] Pushed ${result.pushed}, adopted ${result.adopted}, ${result.conflicts} new conflicts`);
+  }
+  if (result.deferred > 0) {
+    console.warn(`[SheetSync] ${result.deferred} writes deferred to stay within the Sheets quota`);
+  }
+}
+
+/**
+ * Start the sheet sync worker
+ */
+export function startSheetSyncWorker(): void {
+  if (workerInterval || !SYNC_ENABLED) {
+    return;
+  }
+
+  workerInterval = setInterval(() => {
+    processSheetSync().catch(error => {
+      console.error('[SheetSync] Sync failed:', error);
+    });
+  }, WORKER_INTERVAL);
+}
+
+/**
+ * Stop the sheet sync worker
+ */
+export function stopSheetSyncWorker(): void {
+  if (workerInterval) {
+    clearInterval(workerInterval);
+    workerInterval = null;
+  }
+}
+
+// Auto-start worker when module is loaded (server-side only)
+if (typeof window === 'undefined') {
+  // Use setTimeout to ensure module is fully loaded
+  setTimeout(() => {
+    startSheetSyncWorker();
+  }, 1000); // Start after 1 second delay
+}
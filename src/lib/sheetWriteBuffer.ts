@@ -0,0 +1,377 @@
+/**
+ * Sheet Write Buffer
+ * Write-behind buffer for Google Sheets writes:
+ * - Row updates for the same spreadsheet are coalesced into one values.batchUpdate (last write to a range wins)
+ * - Appends to the same range are combined into one values.append
+ * - Calls are paced by a token bucket sized from GOOGLE_SHEETS_QUOTA that also backs off when
+ *   live usage (reads and other writes tracked by apiMonitor) leaves no room
+ * - Pending writes are flushed on SIGTERM/SIGINT (see instrumentation.ts) and before the process exits
+ * Callers get a promise that settles when their write reaches the sheet (appends resolve with the row they landed on)
+ */
+
+import type { sheets_v4 } from 'googleapis';
+import { apiMonitor, measureApiCall, GOOGLE_SHEETS_QUOTA } from './apiMonitor';
+
+type ValueInputOption = 'RAW' | 'USER_ENTERED';
+
+export interface SheetWrite {
+  spreadsheetId: string;
+  clientKey: string; // Service account the write goes through, e.g. "butcher:usaj" or "sheet:sales"
+  getClient: () => Promise<sheets_v4.Sheets>;
+  range: string;
+  values: unknown[][];
+  valueInputOption: ValueInputOption;
+  sheetName?: string; // For apiMonitor
+}
+
+interface Waiter {
+  offset: number; // Index of the caller's first row within the combined values
+  resolve: (row: number | null) => void;
+  reject: (error: Error) => void;
+}
+
+interface PendingWrite {
+  values: unknown[][];
+  waiters: Waiter[];
+}
+
+export interface SheetAppendEvent {
+  spreadsheetId: string;
+  range: string;
+  firstRow: number | null; // Sheet row of the first appended row (null if Sheets didn't report it)
+  values: unknown[][];
+}
+
+interface WriteGroup {
+  spreadsheetId: string;
+  clientKey: string;
+  getClient: () => Promise<sheets_v4.Sheets>;
+  valueInputOption: ValueInputOption;
+  sheetName?: string;
+  updates: Map<string, PendingWrite>; // range -> latest values
+  appends: Map<string, PendingWrite>; // range -> rows in arrival order
+  attempts: number;
+}
+
+export interface SheetWriteBufferStats {
+  pendingUpdates: number;
+  pendingAppends: number;
+  coalescedWrites: number; // Writes merged into another write since start
+  batchesSent: number;
+  tokens: number;
+  throttled: number; // Flush ticks that had to wait for quota
+}
+
+const FLUSH_INTERVAL = parseInt(process.env.SHEET_WRITE_FLUSH_MS || '1000', 10);
+const QUOTA_RESERVE = parseFloat(process.env.SHEET_WRITE_QUOTA_RESERVE || '0.1'); // Share of the quota kept for reads
+const MAX_ATTEMPTS = 5; // Rate-limited (429) batches are retried this many times
+
+/**
+ * Token bucket refilled at the Sheets per-minute quota
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private readonly capacity: number, private readonly refillPerSecond: number) {
+    this.tokens = capacity;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Take a token if the bucket and live quota usage both allow a call
+   */
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1 || apiMonitor.getRemainingQuota(QUOTA_RESERVE) < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  /**
+   * Milliseconds until the next token is available
+   */
+  waitTime(): number {
+    this.refill();
+    return this.tokens >= 1 ? FLUSH_INTERVAL : Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+  }
+
+  available(): number {
+    this.refill();
+    return Math.floor(this.tokens);
+  }
+}
+
+const bucket = new TokenBucket(
+  Math.floor(GOOGLE_SHEETS_QUOTA.requestsPerMinute * (1 - QUOTA_RESERVE)),
+  GOOGLE_SHEETS_QUOTA.requestsPerMinute / 60
+);
+
+const groups = new Map<string, WriteGroup>();
+let flushTimer: NodeJS.Timeout | null = null;
+let flushing: Promise<void> | null = null;
+const stats = { coalescedWrites: 0, batchesSent: 0, throttled: 0 };
+const appendListeners: Array<(event: SheetAppendEvent) => void> = [];
+
+function getGroup(write: SheetWrite): WriteGroup {
+  const key = `${write.spreadsheetId}|${write.clientKey}|${write.valueInputOption}`;
+  let group = groups.get(key);
+  if (!group) {
+    group = {
+      spreadsheetId: write.spreadsheetId,
+      clientKey: write.clientKey,
+      getClient: write.getClient,
+      valueInputOption: write.valueInputOption,
+      sheetName: write.sheetName,
+      updates: new Map(),
+      appends: new Map(),
+      attempts: 0
+    };
+    groups.set(key, group);
+  }
+  return group;
+}
+
+function scheduleFlush(): void {
+  if (flushTimer) return;
+  flushTimer = setTimeout(() => {
+    flushTimer = null;
+    flushSheetWrites().catch(error => console.error('[SheetWriteBuffer] Flush failed:', error));
+  }, FLUSH_INTERVAL);
+  flushTimer.unref?.();
+}
+
+function enqueue(write: SheetWrite, kind: 'updates' | 'appends'): Promise<number | null> {
+  return new Promise((resolve, reject) => {
+    const pending = getGroup(write)[kind];
+    const existing = pending.get(write.range);
+
+    if (existing) {
+      stats.coalescedWrites++;
+      const offset = kind === 'appends' ? existing.values.length : 0;
+      existing.values = kind === 'updates' ? write.values : [...existing.values, ...write.values];
+      existing.waiters.push({ offset, resolve, reject });
+    } else {
+      pending.set(write.range, { values: write.values, waiters: [{ offset: 0, resolve, reject }] });
+    }
+
+    scheduleFlush();
+  });
+}
+
+/**
+ * Queue a range update (replaces any pending update to the same range)
+ */
+export async function queueSheetUpdate(write: SheetWrite): Promise<void> {
+  await enqueue(write, 'updates');
+}
+
+/**
+ * Queue rows to append to a range, resolves with the sheet row of the first row (null if unknown)
+ */
+export function queueSheetAppend(write: SheetWrite): Promise<number | null> {
+  return enqueue(write, 'appends');
+}
+
+/**
+ * Get told about every append that reaches a sheet (keeps the row index in step)
+ */
+export function onSheetAppend(listener: (event: SheetAppendEvent) => void): void {
+  appendListeners.push(listener);
+}
+
+function settle(writes: PendingWrite[], error?: Error, firstRow: number | null = null): void {
+  for (const write of writes) {
+    for (const waiter of write.waiters) {
+      if (error) {
+        waiter.reject(error);
+      } else {
+        waiter.resolve(firstRow === null ? null : firstRow + waiter.offset);
+      }
+    }
+  }
+}
+
+/**
+ * First row number of an append's updatedRange ("'Tab'!A15:K16" -> 15)
+ */
+function getFirstRow(response: unknown): number | null {
+  const updatedRange = (response as { data?: sheets_v4.Schema$AppendValuesResponse })?.data?.updates?.updatedRange;
+  const match = updatedRange?.match(/![A-Z]+(\d+)/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+const isRateLimited = (error: unknown) => {
+  const status = (error as { status?: number; code?: number })?.status ?? (error as { code?: number })?.code;
+  return status === 429;
+};
+
+/**
+ * Send one call for a group, putting the writes back if Sheets rate-limits it
+ */
+async function send(
+  group: WriteGroup,
+  kind: 'updates' | 'appends',
+  taken: Map<string, PendingWrite>,
+  call: (sheets: sheets_v4.Sheets) => Promise<unknown>,
+  endpoint: string
+): Promise<void> {
+  try {
+    const sheets = await group.getClient();
+    const response = await measureApiCall(endpoint, 'POST', () => call(sheets), { sheetId: group.spreadsheetId, sheetName: group.sheetName });
+    stats.batchesSent++;
+    group.attempts = 0;
+
+    if (kind === 'updates') {
+      settle(Array.from(taken.values()));
+      return;
+    }
+
+    const [[range, write]] = Array.from(taken.entries());
+    const firstRow = getFirstRow(response);
+    for (const listener of appendListeners) {
+      try {
+        listener({ spreadsheetId: group.spreadsheetId, range, firstRow, values: write.values });
+      } catch (error) {
+        console.error('[SheetWriteBuffer] Append listener failed:', error);
+      }
+    }
+    settle([write], undefined, firstRow);
+  } catch (error) {
+    if (isRateLimited(error) && ++group.attempts < MAX_ATTEMPTS) {
+      // Newer writes to the same range win over the ones being retried
+      for (const [range, write] of taken) {
+        const newer = group[kind].get(range);
+        if (!newer) {
+          group[kind].set(range, write);
+        } else if (kind === 'appends') {
+          const shifted = newer.waiters.map(waiter => ({ ...waiter, offset: waiter.offset + write.values.length }));
+          group[kind].set(range, { values: [...write.values, ...newer.values], waiters: [...write.waiters, ...shifted] });
+        } else {
+          newer.waiters.push(...write.waiters);
+        }
+      }
+      console.warn(`[SheetWriteBuffer] Rate limited on ${endpoint}, retrying (attempt ${group.attempts})`);
+      return;
+    }
+    settle(Array.from(taken.values()), error instanceof Error ? error : new Error(String(error)));
+  }
+}
+
+/**
+ * Send what the quota allows for every group, returns true when nothing is left
+ */
+async function flushOnce(force: boolean): Promise<boolean> {
+  for (const group of groups.values()) {
+    if (group.updates.size > 0) {
+      if (!force && !bucket.tryTake()) {
+        stats.throttled++;
+        return false;
+      }
+      const taken = new Map(group.updates);
+      group.updates.clear();
+      const data = Array.from(taken.entries()).map(([range, write]) => ({ range, values: write.values }));
+      await send(
+        group,
+        'updates',
+        taken,
+        sheets => sheets.spreadsheets.values.batchUpdate({
+          spreadsheetId: group.spreadsheetId,
+          requestBody: { valueInputOption: group.valueInputOption, data }
+        }),
+        `batchWrite:${group.clientKey}`
+      );
+    }
+
+    for (const [range, write] of Array.from(group.appends.entries())) {
+      if (!force && !bucket.tryTake()) {
+        stats.throttled++;
+        return false;
+      }
+      group.appends.delete(range);
+      await send(
+        group,
+        'appends',
+        new Map([[range, write]]),
+        sheets => sheets.spreadsheets.values.append({
+          spreadsheetId: group.spreadsheetId,
+          range,
+          valueInputOption: group.valueInputOption,
+          requestBody: { values: write.values }
+        }),
+        `batchAppend:${group.clientKey}`
+      );
+    }
+  }
+
+  return Array.from(groups.values()).every(group => group.updates.size === 0 && group.appends.size === 0);
+}
+
+/**
+ * Flush pending writes
+ * Waits for quota between calls; `force` sends everything right away (shutdown)
+ * `spreadsheetId` limits the wait to writes for one spreadsheet (e.g. before reading rows back)
+ */
+export async function flushSheetWrites(options: { force?: boolean; spreadsheetId?: string } = {}): Promise<void> {
+  const hasPending = () => Array.from(groups.values()).some(group =>
+    (!options.spreadsheetId || group.spreadsheetId === options.spreadsheetId) &&
+    (group.updates.size > 0 || group.appends.size > 0)
+  );
+
+  while (hasPending()) {
+    if (flushing) {
+      await flushing;
+      continue;
+    }
+
+    flushing = flushOnce(!!options.force).then(done => {
+      if (!done && !options.force) {
+        return new Promise<void>(resolve => setTimeout(resolve, bucket.waitTime()));
+      }
+    });
+    try {
+      await flushing;
+    } finally {
+      flushing = null;
+    }
+  }
+}
+
+/**
+ * Buffer statistics for the rate monitor
+ */
+export function getSheetWriteBufferStats(): SheetWriteBufferStats {
+  let pendingUpdates = 0;
+  let pendingAppends = 0;
+  for (const group of groups.values()) {
+    pendingUpdates += group.updates.size;
+    pendingAppends += Array.from(group.appends.values()).reduce((sum, write) => sum + write.values.length, 0);
+  }
+
+  return {
+    pendingUpdates,
+    pendingAppends,
+    coalescedWrites: stats.coalescedWrites,
+    batchesSent: stats.batchesSent,
+    tokens: bucket.available(),
+    throttled: stats.throttled
+  };
+}
+
+// Flush before the process exits on its own (server-side only)
+// SIGTERM/SIGINT are handled in instrumentation.ts, which flushes with a timeout and exits
+if (typeof window === 'undefined' && typeof process !== 'undefined' && typeof process.on === 'function') {
+  process.on('beforeExit', () => {
+    const { pendingUpdates, pendingAppends } = getSheetWriteBufferStats();
+    if (pendingUpdates + pendingAppends > 0) {
+      flushSheetWrites({ force: true }).catch(error => console.error('[SheetWriteBuffer] Flush before exit failed:', error));
+    }
+  });
+}
@@ -9,30 +9,24 @@ import {
   getButcherConfig,
   findCategoryForItem,
   getPriceSheetTab,
+  getButcherMenuTab,
   getCommissionRate,
   getMarkupRate,
   getItemTypeFromCategory,
   getDefaultButcherRates
 } from './butcherConfig';
 import { measureApiCall } from './apiMonitor';
+import { queueSheetAppend, queueSheetUpdate, flushSheetWrites } from './sheetWriteBuffer';
+import { findOrderRow, indexSheetRows } from './sheetRowIndex';
+import { layoutColumn, layoutRange } from './sheetSchema';
 import {normalizeItemName} from './matchingUtils';
+import { formatPreparingWeightEntry, getItemStatus, isItemRejected, parsePreparingWeightValue } from './orderItemStatus';
 // Note: Caching removed from server actions due to Next.js restrictions
 
 // Sheet configurations
 const BUTCHER_POS_SHEET_ID = process.env.BUTCHER_POS_SHEET_ID || process.env.GOOGLE_SPREADSHEET_ID || '1QYABLczgHKIXC_shTG_xrBXiLWuqziRjkaujLhg9Sl4';
 const MENU_POS_SHEET_ID = process.env.MENU_POS_SHEET_ID || '1hOoZtKuyhO5H206mm3RPoHUtuMcYdoGGnARkm_plT1M';
 
-// Tab names mapping
-const BUTCHER_TABS = {
-  'usaj': 'Usaj_Meat_Hub',
-  'pkd': 'PKD_Stall', 
-  'alif': 'Alif',
-  'kak': 'KAK',
-  'ka_sons': 'KA_Sons',
-  'usaj_mutton': 'Usaj_Mutton_Shop',
-  'test_meat': 'Test_Meat_Butcher',
-  'test_fish': 'Test_Fish_Butcher'
-} as const;
 
 export const getGoogleSheetsClient = async () => {
     const clientEmail = process.env.GOOGLE_SHEETS_CLIENT_EMAIL;
@@ -123,6 +117,11 @@ const SERVICE_ACCOUNT_MAPPING = {
   }
 };
 
+// Spreadsheet IDs of the Butcher POS and Menu POS sheets (for the sheet sync engine)
+export const getSpreadsheetIds = async (): Promise<{ pos: string; menu: string }> => {
+    return { pos: BUTCHER_POS_SHEET_ID, menu: MENU_POS_SHEET_ID };
+};
+
 // Get butcher-specific Google Sheets client
 export const getButcherSheetsClient = async (butcherId: string) => {
     try {
@@ -294,31 +293,33 @@ const getCompletionTime = (startTime?: Date | string | number, endTime?: Date |
 };
 
 // Function to populate empty sheets with default items
-const populateDefaultItems = async (butcherId: string) => {
+// tabNameOverride picks the meat or fish menu tab of a mixed butcher
+export const populateDefaultItems = async (butcherId: string, tabNameOverride?: string) => {
     try {
         if (!MENU_POS_SHEET_ID) {
             return;
         }
 
         const sheets = await getButcherSheetsClient(butcherId);
-        const tabName = BUTCHER_TABS[butcherId as keyof typeof BUTCHER_TABS];
+        const tabName = tabNameOverride || getButcherMenuTab(butcherId);
         
         if (!tabName) {
             return;
         }
 
+        // Determine if this is a meat tab (no size column)
+        const isMeatButcher = getButcherType(butcherId) === 'meat' ||
+            (getButcherType(butcherId) === 'mixed' && getButcherConfig(butcherId)?.meatSheetTab === tabName);
+
         // Default items for each butcher type
-        const defaultItems = getDefaultItemsForButcher(butcherId);
+        const defaultItems = getDefaultItemsForButcher(butcherId, isMeatButcher);
         
         if (defaultItems.length === 0) {
             return;
         }
-
-        // Determine if this is a meat butcher (no size column)
-        const isMeatButcher = getButcherType(butcherId) === 'meat';
         
         // Different column structures based on butcher type
-        const range = isMeatButcher ? `${tabName}!A2:F` : `${tabName}!A2:G`;
+        const range = layoutRange(isMeatButcher ? 'menu-meat' : 'menu-fish', tabName);
         const values = defaultItems.map(item => {
             if (isMeatButcher) {
                 // Meat butchers: Item Name, Category, Purchase Price, Selling Price, Unit, nos weight
@@ -359,7 +360,7 @@ const populateDefaultItems = async (butcherId: string) => {
 };
 
 // Get default items for each butcher
-const getDefaultItemsForButcher = (butcherId: string) => {
+const getDefaultItemsForButcher = (butcherId: string, isMeatTab: boolean = getButcherType(butcherId) !== 'fish') => {
     const commonItems = [
         { name: 'Chicken Leg', category: 'Chicken', size: 'default', purchasePrice: 200, sellingPrice: 220, unit: 'kg', nosWeight: '' },
         { name: 'Chicken Whole', category: 'Chicken', size: 'default', purchasePrice: 180, sellingPrice: 200, unit: 'kg', nosWeight: '' },
@@ -372,8 +373,8 @@ const getDefaultItemsForButcher = (butcherId: string) => {
         { name: 'Sardine', category: 'Sea Fish', size: 'small', purchasePrice: 120, sellingPrice: 140, unit: 'kg', nosWeight: '' },
     ];
 
-    // Return appropriate items based on butcher type
-    if (getButcherType(butcherId) === 'fish') {
+    // Return appropriate items based on butcher type (or menu tab for mixed butchers)
+    if (!isMeatTab) {
         return fishItems;
     } else {
         return commonItems;
@@ -387,7 +388,7 @@ const getDefaultItemsForButcher = (butcherId: string) => {
 const fetchPurchasePrices = async (butcherId: string): Promise<Record<string, number>> => {
     try {
         const sheets = await getButcherSheetsClient(butcherId);
-        const tabName = BUTCHER_TABS[butcherId as keyof typeof BUTCHER_TABS];
+        const tabName = getButcherMenuTab(butcherId);
         
         if (!tabName) {
             throw new Error(`No tab found for butcher: ${butcherId}`);
@@ -396,10 +397,11 @@ const fetchPurchasePrices = async (butcherId: string): Promise<Record<string, nu
         // Determine if this is a meat butcher (no size column)
         const isMeatButcher = getButcherType(butcherId) === 'meat';
         
-        // Different column structures based on butcher type
-        // Meat butchers: Item Name | Category | Purchase Price | Selling Price | Unit | nos weight (6 columns)
-        // Fish butchers: Item Name | Category | Size | Purchase Price | Selling Price | Unit | nos weight (7 columns)
-        const range = isMeatButcher ? `${tabName}!A2:F` : `${tabName}!A2:G`;
+        // Column structures are declared per butcher type in sheetSchema.ts
+        // Meat butchers: Item Name | Category | Purchase Price | Selling Price | Unit | nos weight | Date
+        // Fish butchers: Item Name | Category | Size | Purchase Price | Selling Price | Unit | nos weight | Date
+        const layoutId = isMeatButcher ? 'menu-meat' : 'menu-fish';
+        const range = layoutRange(layoutId, tabName);
         const response = await sheets.spreadsheets.values.get({
             spreadsheetId: MENU_POS_SHEET_ID,
             range,
@@ -407,18 +409,14 @@ const fetchPurchasePrices = async (butcherId: string): Promise<Record<string, nu
 
         const rows = response.data.values || [];
         const purchasePrices: Record<string, number> = {};
+        const itemNameColumn = layoutColumn(layoutId, 'Item Name');
+        const purchasePriceColumn = layoutColumn(layoutId, 'Purchase Price');
 
         for (const row of rows) {
-            let itemName, size, purchasePriceStr;
-            
-            if (isMeatButcher) {
-                // Meat butchers: Item Name, Category, Purchase Price, Selling Price, Unit, nos weight
-                [itemName, , purchasePriceStr] = row;
-                size = 'default'; // Meat products don't have sizes
-            } else {
-                // Fish butchers: Item Name, Category, Size, Purchase Price, Selling Price, Unit, nos weight
-                [itemName, , size, purchasePriceStr] = row;
-            }
+            const itemName = row[itemNameColumn];
+            const purchasePriceStr = row[purchasePriceColumn];
+            // Meat products don't have sizes
+            const size = isMeatButcher ? 'default' : row[layoutColumn(layoutId, 'Size')];
             
             if (!itemName || !purchasePriceStr) continue;
 
@@ -521,7 +519,7 @@ export const getItemPurchasePricesFromSheet = async (butcherId: string, itemName
         }
 
         const sheets = await getButcherSheetsClient(butcherId);
-        const tabName = BUTCHER_TABS[butcherId as keyof typeof BUTCHER_TABS];
+        const tabName = getButcherMenuTab(butcherId);
         
         if (!tabName) {
             throw new Error(`No tab found for butcher: ${butcherId}`);
@@ -533,7 +531,7 @@ export const getItemPurchasePricesFromSheet = async (butcherId: string, itemName
         // Updated column structures based on butcher type
         // Meat butchers: Item Name | Category | Purchase Price | Selling Price | Unit | nos weight (6 columns)
         // Fish butchers: Item Name | Category | Size | Purchase Price | Selling Price | Unit | nos weight (7 columns)
-        const range = isMeatButcher ? `${tabName}!A2:F` : `${tabName}!A2:G`;
+        const range = layoutRange(isMeatButcher ? 'menu-meat' : 'menu-fish', tabName);
         const response = await measureApiCall(
             `getOrders:${butcherId}`,
             'GET',
@@ -805,7 +803,7 @@ export const getOrdersFromSheet = async (butcherId: string): Promise<Order[]> =>
 
         // Get data from the specific butcher's tab
         // Columns: Order Date | Order No | Items | Quantity | Size | Cut type | Preparing weight | Completion Time | Start time | Status | Revenue
-        const range = `${tabName}!A2:K`;
+        const range = layoutRange('orders', tabName);
         const response = await measureApiCall(
             `getOrders:${butcherId}`,
             'GET',
@@ -819,6 +817,9 @@ export const getOrdersFromSheet = async (butcherId: string): Promise<Order[]> =>
         const rows = response.data.values || [];
         const orders: Order[] = [];
 
+        // We already have the whole tab - refresh the row index for free
+        indexSheetRows(BUTCHER_POS_SHEET_ID, tabName, rows);
+
         for (const row of rows) {
             // Determine butcher type for column structure
             const isMeat = isMeatButcher(butcherId);
@@ -839,9 +840,10 @@ export const getOrdersFromSheet = async (butcherId: string): Promise<Order[]> =>
             let preparingWeights: string[] = [];
             const preparingWeightsMap: { [itemName: string]: string } = {}; // Map item name to weight
             const rejectedItemNames = new Set<string>(); // Track rejected items
+            const itemStatusMap: { [itemName: string]: ReturnType<typeof parsePreparingWeightValue> } = {}; // Per-item status
             
             // Parse preparing weight column
-            // New format: "item: weight" or "item: rejected" (colon format, no curly braces)
+            // New format: "item: weight", "item: rejected", "item: weight (short-weight)" or "item: weight (substituted: other)"
             // Old format: "1.5kg, 500g" (comma-separated weights) - for backward compatibility
             if (preparingWeight && preparingWeight.trim()) {
                 const weightStr = preparingWeight.trim();
@@ -855,14 +857,15 @@ export const getOrdersFromSheet = async (butcherId: string): Promise<Order[]> =>
                         if (part.includes(': ')) {
                             const colonIndex = part.indexOf(': ');
                             const itemName = part.substring(0, colonIndex).trim();
-                            const value = part.substring(colonIndex + 2).trim();
+                            const parsed = parsePreparingWeightValue(part.substring(colonIndex + 2));
+                            itemStatusMap[itemName] = parsed;
                             
-                            if (value.toLowerCase() === 'rejected') {
+                            if (parsed.status === 'rejected') {
                                 // Item is rejected
                                 rejectedItemNames.add(itemName);
-                            } else {
+                            } else if (parsed.weight) {
                                 // Item is accepted with weight - store in map
-                                preparingWeightsMap[itemName] = value;
+                                preparingWeightsMap[itemName] = parsed.weight;
                             }
                         }
                     });
@@ -935,9 +938,17 @@ export const getOrdersFromSheet = async (butcherId: string): Promise<Order[]> =>
                     size: itemSize || undefined
                 };
                 
-                // Mark item as rejected if found in rejectedItemNames
+                // Restore per-item status from the preparing weight column
+                const itemStatus = itemStatusMap[itemName];
                 if (rejectedItemNames.has(itemName)) {
-                    (orderItem as any).rejected = 'Item rejected';
+                    orderItem.status = 'rejected';
+                    orderItem.rejected = 'Item rejected';
+                } else if (itemStatus) {
+                    orderItem.status = itemStatus.status;
+                    orderItem.preparingWeight = itemStatus.weight;
+                    if (itemStatus.substitutedWith) {
+                        orderItem.substitutedWith = itemStatus.substitutedWith;
+                    }
                 }
 
                 return orderItem;
@@ -1265,7 +1276,6 @@ export const saveOrderToSheet = async (order: Order, butcherId: string) => {
             throw new Error("BUTCHER_POS_SHEET_ID or GOOGLE_SPREADSHEET_ID not configured");
         }
 
-        const sheets = await getButcherSheetsClient(butcherId);
         const butcherConfig = getButcherConfig(butcherId);
         const tabName = butcherConfig?.orderSheetTab;
         
@@ -1306,20 +1316,16 @@ export const saveOrderToSheet = async (order: Order, butcherId: string) => {
             '' // revenue (empty initially)
         ];
 
-        // Append to the specific tab
-        await measureApiCall(
-            `saveOrder:${butcherId}`,
-            'POST',
-            () => sheets.spreadsheets.values.append({
-                spreadsheetId: BUTCHER_POS_SHEET_ID,
-                range: `${tabName}!A:K`,
-                valueInputOption: 'USER_ENTERED',
-                requestBody: {
-                    values: [rowData]
-                }
-            }),
-            { sheetId: BUTCHER_POS_SHEET_ID, sheetName: 'Butcher POS Sheet' }
-        );
+        // Append to the specific tab (batched with other writes by the write buffer)
+        await queueSheetAppend({
+            spreadsheetId: BUTCHER_POS_SHEET_ID,
+            clientKey: `butcher:${butcherId}`,
+            getClient: () => getButcherSheetsClient(butcherId),
+            range: `${tabName}!A:K`,
+            values: [rowData],
+            valueInputOption: 'USER_ENTERED',
+            sheetName: 'Butcher POS Sheet'
+        });
 
     } catch (error: any) {
         console.error('Error saving order to sheet:', error);
@@ -1341,7 +1347,6 @@ export const saveOrderToSheetAfterAccept = async (order: Order, butcherId: strin
             throw new Error("BUTCHER_POS_SHEET_ID or GOOGLE_SPREADSHEET_ID not configured");
         }
 
-        const sheets = await getButcherSheetsClient(butcherId);
         const butcherConfig = getButcherConfig(butcherId);
         const tabName = butcherConfig?.orderSheetTab;
         
@@ -1362,24 +1367,17 @@ export const saveOrderToSheetAfterAccept = async (order: Order, butcherId: strin
         const sizes = order.items.map(item => item.size || '').join(', ');
         const cutTypes = order.items.map(item => item.cutType || '').join(', ');
 
-        // Preparing weights: Format as item: weight or item: rejected (no curly braces)
-        const preparingWeights = order.items.map(item => {
-            const preparingWeight = (item as any).preparingWeight;
-            const rejected = (item as any).rejected;
-            
-            if (rejected) {
-                return `${item.name}: rejected`;
-            } else if (preparingWeight) {
-                return `${item.name}: ${preparingWeight}`;
-            }
-            return '';
-        }).filter(w => w).join(', ');
+        // Preparing weights: Format as item: weight, item: rejected or item: weight (short-weight) (no curly braces)
+        const preparingWeights = order.items
+            .map(item => formatPreparingWeightEntry(item, item.preparingWeight || ''))
+            .filter(w => w)
+            .join(', ');
 
         // Calculate revenue using preparing weights (or fall back to original weights)
         const { totalRevenue, itemRevenues } = await calculateRevenueFromPreparingWeights(order, butcherId);
 
         // Status: Only "completed" or "rejected"
-        const allItemsRejected = order.items.every(item => (item as any).rejected);
+        const allItemsRejected = order.items.every(isItemRejected);
         const sheetStatus = allItemsRejected ? 'rejected' : 'completed';
 
         // Start Time: IST format, human-readable (when order was accepted)
@@ -1413,20 +1411,16 @@ export const saveOrderToSheetAfterAccept = async (order: Order, butcherId: strin
             revenueForSheet // Format: item: revenue, item: revenue (no curly braces)
         ];
 
-        // Append to the specific tab
-        await measureApiCall(
-            `saveOrderAfterAccept:${butcherId}`,
-            'POST',
-            () => sheets.spreadsheets.values.append({
-                spreadsheetId: BUTCHER_POS_SHEET_ID,
-                range: `${tabName}!A:K`,
-                valueInputOption: 'USER_ENTERED',
-                requestBody: {
-                    values: [rowData]
-                }
-            }),
-            { sheetId: BUTCHER_POS_SHEET_ID, sheetName: 'Butcher POS Sheet' }
-        );
+        // Append to the specific tab (batched with other writes by the write buffer)
+        await queueSheetAppend({
+            spreadsheetId: BUTCHER_POS_SHEET_ID,
+            clientKey: `butcher:${butcherId}`,
+            getClient: () => getButcherSheetsClient(butcherId),
+            range: `${tabName}!A:K`,
+            values: [rowData],
+            valueInputOption: 'USER_ENTERED',
+            sheetName: 'Butcher POS Sheet'
+        });
 
         console.log(`[Order] Saved to Butcher POS sheet: Order ${orderNo}`);
 
@@ -1438,6 +1432,151 @@ export const saveOrderToSheetAfterAccept = async (order: Order, butcherId: strin
     }
 };
 
+/**
+ * Build the Butcher POS row for an order (A:K)
+ * Order Date | Order No | Items | Quantity | Size | Cut type | Preparing weight | Completion Time | Start time | Status | Revenue
+ * Orders the butcher hasn't responded to yet get the same row saveOrderToSheet appends (status "New")
+ */
+export const buildOrderSheetRow = async (order: Order, butcherId: string): Promise<any[]> => {
+    // Extract order number from order ID (ORD-2024-01-15-123 -> 123, ORD-143 -> 143)
+    const orderIdParts = order.id.replace('ORD-', '').split('-');
+    const orderNo = parseInt(orderIdParts[orderIdParts.length - 1], 10);
+    const isMeat = isMeatButcher(butcherId);
+
+    const items = formatArrayForSheet(order.items.map(item => item.name));
+    const quantities = formatArrayForSheet(order.items.map(item => `${item.quantity}${item.unit}`));
+    const sizes = formatArrayForSheet(order.items.map(item => item.size || ''));
+    const cutTypes = formatArrayForSheet(order.items.map(item => item.cutType || ''));
+
+    const orderDateForSheet = order.orderTime 
+        ? (() => {
+            const date = new Date(order.orderTime);
+            const day = String(date.getDate()).padStart(2, '0');
+            const month = String(date.getMonth() + 1).padStart(2, '0');
+            const year = date.getFullYear();
+            return `${day}/${month}/${year}`;
+        })()
+        : getISTDate();
+
+    if (order.status === 'new' && !order.items.some(item => item.status || item.preparingWeight)) {
+        return [orderDateForSheet, orderNo, items, quantities, sizes, cutTypes, '', '', '', 'New', ''];
+    }
+
+    // Format preparing weight: item: weight or item: rejected (no curly braces)
+    let preparingWeight = '';
+    
+    // Build preparing weight string in format: item: weight or item: rejected (no curly braces)
+    // Short-weight and substituted items carry their status after the weight, e.g. item: 1.2kg (short-weight)
+    // Preparing weights are keyed by item.name in order.itemWeights (fish) or order.itemQuantities (meat)
+    // Values are already formatted with units (e.g., "2.1kg") from the dashboard dialog
+    const preparingWeightParts: string[] = [];
+    order.items.forEach(item => {
+        if (isItemRejected(item)) {
+            // Item rejected: item: rejected
+            preparingWeightParts.push(formatPreparingWeightEntry(item, ''));
+        } else {
+            // Item accepted: get preparing weight from multiple sources
+            // Priority 1: order.itemWeights/itemQuantities (set when marked as prepared)
+            // Priority 2: item.preparingWeight (set when order was accepted)
+            // Priority 3: original item.quantity (fallback)
+            let weight = '';
+            if (isMeat) {
+                weight = order.itemQuantities?.[item.name] || '';
+            } else {
+                weight = order.itemWeights?.[item.name] || '';
+            }
+            
+            // Fallback to item.preparingWeight if not found in order.itemWeights/itemQuantities
+            // This handles orders that were accepted but itemWeights/itemQuantities weren't set
+            if (!weight) {
+                weight = item.preparingWeight || '';
+            }
+            
+            // If still no weight, use original quantity with unit (shouldn't happen for prepared orders)
+            if (!weight) {
+                weight = `${item.quantity}${item.unit}`;
+            }
+            
+            if (weight) {
+                // Weight already includes unit from dashboard (e.g., "2.1kg" or "2.65kg"), use as is
+                preparingWeightParts.push(formatPreparingWeightEntry(item, weight));
+            }
+        }
+    });
+    preparingWeight = preparingWeightParts.join(', ');
+        
+    // Completion Time: 
+    // - For preparing orders: Show elapsed minutes countdown (e.g., "5min")
+    // - For completed orders: Time taken if within 20min, or actual IST time if exceeded
+    let completionTime = '';
+    if (order.status === 'preparing' || order.status === 'prepared') {
+        // Order is still preparing - calculate elapsed time from start to now
+        if (order.preparationStartTime) {
+            const now = new Date();
+            const start = order.preparationStartTime instanceof Date 
+                ? order.preparationStartTime 
+                : new Date(order.preparationStartTime);
+            const diffMs = now.getTime() - start.getTime();
+            const diffMinutes = Math.floor(diffMs / (1000 * 60));
+            // Show elapsed minutes (countdown) for preparing orders
+            completionTime = `${diffMinutes}min`;
+        }
+    } else {
+        // Order is completed - use normal completion time calculation
+        completionTime = getCompletionTime(order.preparationStartTime, order.preparationEndTime);
+    }
+    
+    // Start Time: IST format, human-readable (when order was accepted)
+    const startTime = order.preparationStartTime ? getISTDateTime(order.preparationStartTime) : '';
+    
+    // Status: Only "completed" or "rejected"
+    // - "completed" if any items completed (partial or full)
+    // - "rejected" only if entire order is rejected
+    let sheetStatus = '';
+    const allItemsRejected = order.items.every(isItemRejected);
+    const hasAcceptedItems = order.items.some(item => !isItemRejected(item));
+    
+    if (order.status === 'rejected' || allItemsRejected) {
+        sheetStatus = 'rejected';
+    } else if (order.status === 'completed' || order.status === 'prepared' || hasAcceptedItems) {
+        sheetStatus = 'completed';
+            } else {
+        // Default to completed if status is unclear
+        sheetStatus = 'completed';
+    }
+    
+    // Revenue: Format as item: revenue for multiple items, comma-separated (no curly braces)
+    // Reuse calculated revenue from order.itemRevenues - no recalculation
+    let revenueForSheet = '';
+    if (order.itemRevenues && Object.keys(order.itemRevenues).length > 0) {
+        // Format: item: revenue, item: revenue (no curly braces)
+        const revenueParts = Object.entries(order.itemRevenues)
+            .filter(([itemName, revenue]) => revenue > 0) // Only include items with revenue
+            .map(([itemName, revenue]) => `${itemName}: ${revenue.toFixed(2)}`);
+        revenueForSheet = revenueParts.join(', ');
+    } else if (order.revenue && order.revenue > 0) {
+        // Fallback: If only total revenue available, use total
+        revenueForSheet = order.revenue.toFixed(2);
+    } else {
+        // No revenue calculated yet (should not happen for completed orders)
+        revenueForSheet = '';
+    }
+
+    return [
+        orderDateForSheet,  // A: Order Date
+        orderNo,            // B: Order No
+        items,              // C: Items
+        quantities,         // D: Quantity
+        sizes,              // E: Size
+        cutTypes,           // F: Cut type
+        preparingWeight,    // G: Preparing weight
+        completionTime,     // H: Completion Time
+        startTime,          // I: Start time
+        sheetStatus,        // J: Status
+        revenueForSheet     // K: Revenue
+    ];
+};
+
 /**
  * Update order status in the Butcher POS sheet
  */
@@ -1472,22 +1611,6 @@ export const updateOrderInSheet = async (order: Order, butcherId: string) => {
             })()
             : getISTDate(); // Fallback to today if orderTime is not available
         
-        // Helper function to normalize dates for comparison
-        // Handles both "1/1/2025" and "01/01/2025" formats
-        const normalizeDateForComparison = (dateStr: string): string => {
-            if (!dateStr) return '';
-            // Split by / or - and normalize each part
-            const parts = dateStr.split(/[\/\-]/);
-            if (parts.length >= 3) {
-                // Remove leading zeros for consistent comparison
-                const day = parseInt(parts[0], 10);
-                const month = parseInt(parts[1], 10);
-                const year = parseInt(parts[2], 10);
-                return `${day}/${month}/${year}`; // Normalized format without leading zeros
-            }
-            return dateStr;
-        };
-        
         // Generate all possible date formats for the order
         const orderDateVariants = [
             orderDate, // DD/MM/YYYY with leading zeros (01/01/2025)
@@ -1497,54 +1620,38 @@ export const updateOrderInSheet = async (order: Order, butcherId: string) => {
             orderTimeDate.toISOString().split('T')[0], // ISO format: YYYY-MM-DD
         ];
         
-        // Normalized version of order date for flexible matching
-        const normalizedOrderDate = normalizeDateForComparison(orderDate);
-        
-        // Determine butcher type for column structure
-        const isMeat = isMeatButcher(butcherId);
-        
-        // Butcher POS Sheet structure: A2:K (11 columns)
-        // Order Date | Order No | Items | Quantity | Size | Cut type | Preparing weight | Completion Time | Start time | Status | Revenue
-        const range = `${tabName}!A2:K`;
-        const response = await measureApiCall(
-            `findOrder:${butcherId}`,
-            'GET',
-            () => sheets.spreadsheets.values.get({
-                spreadsheetId: BUTCHER_POS_SHEET_ID,
-                range,
-            }),
-            { sheetId: BUTCHER_POS_SHEET_ID, sheetName: 'Butcher POS Sheet' }
-        );
+        // Rows still waiting in the write buffer must land before we look the order up
+        await flushSheetWrites({ spreadsheetId: BUTCHER_POS_SHEET_ID });
+
+        // Order No -> row comes from the row index (checked against the row's date/order cells before writing);
+        // the tab's date/order columns are only read when the index is missing, stale, wrong or doesn't know the order yet
+        const loadOrderKeys = async () => {
+            const response = await measureApiCall(
+                `findOrder:${butcherId}`,
+                'GET',
+                () => sheets.spreadsheets.values.get({
+                    spreadsheetId: BUTCHER_POS_SHEET_ID,
+                    range: `${tabName}!A2:B`,
+                }),
+                { sheetId: BUTCHER_POS_SHEET_ID, sheetName: 'Butcher POS Sheet' }
+            );
+            return response.data.values || [];
+        };
+        const readOrderKey = async (row: number) => {
+            const response = await measureApiCall(
+                `findOrder:${butcherId}`,
+                'GET',
+                () => sheets.spreadsheets.values.get({
+                    spreadsheetId: BUTCHER_POS_SHEET_ID,
+                    range: `${tabName}!A${row}:B${row}`,
+                }),
+                { sheetId: BUTCHER_POS_SHEET_ID, sheetName: 'Butcher POS Sheet' }
+            );
+            return response.data.values?.[0] || [];
+        };
+        const findRow = () => findOrderRow(BUTCHER_POS_SHEET_ID, tabName, orderNo, orderDateVariants, loadOrderKeys, readOrderKey);
 
-        const rows = response.data.values || [];
-        let rowIndex = -1;
-        
-        const orderNoStr = String(orderNo);
-        // CRITICAL FIX: Range A2:G means rows start from sheet row 2
-        // rows[0] = sheet row 2, rows[1] = sheet row 3, etc.
-        // So rowIndex = i + 2 (not i + 1)
-        for (let i = 0; i < rows.length; i++) { // Start from 0 since range already starts at row 2
-            const rowDate = rows[i][0]; // Order Date is in column A (index 0)
-            const rowOrderNo = rows[i][1]; // Order No is in column B (index 1)
-            
-            // Convert both to strings for comparison (sheet values are strings)
-            const rowOrderNoStr = String(rowOrderNo || '').trim();
-            
-            // Match order number first
-            if (rowOrderNoStr === orderNoStr) {
-                // Normalize the row date for flexible comparison (handles 1/1/2025 vs 01/01/2025)
-                const normalizedRowDate = normalizeDateForComparison(rowDate);
-                
-                // Check if dates match (either exact match or normalized match)
-                if (rowDate === orderDate || 
-                    normalizedRowDate === normalizedOrderDate ||
-                    orderDateVariants.includes(rowDate) ||
-                    orderDateVariants.map(d => normalizeDateForComparison(d)).includes(normalizedRowDate)) {
-                        rowIndex = i + 2; // Range starts at row 2, so add 2 (not 1)
-                        break;
-                    }
-            }
-        }
+        let rowIndex = (await findRow()) ?? -1;
         
         if (rowIndex === -1) {
             // CRITICAL: Never create duplicate rows for completed/prepared orders
@@ -1570,7 +1677,7 @@ export const updateOrderInSheet = async (order: Order, butcherId: string) => {
                 // Check if order has been accepted (has weights, or item data)
                 const hasOrderData = (order.itemWeights && Object.keys(order.itemWeights).length > 0) ||
                                    (order.itemQuantities && Object.keys(order.itemQuantities).length > 0) ||
-                                   order.items.some(item => (item as any).preparingWeight || (item as any).rejected);
+                                   order.items.some(item => item.preparingWeight || isItemRejected(item));
                 
                 if (hasOrderData && (order.status === 'preparing' || order.status === 'new')) {
                     // Order has been accepted/prepared - use saveOrderToSheetAfterAccept
@@ -1583,37 +1690,9 @@ export const updateOrderInSheet = async (order: Order, butcherId: string) => {
                     return; // Exit early - don't create
                 }
                 
-                // Now try to find it again
-                const newResponse = await measureApiCall(
-                    `findOrderAfterSave:${butcherId}`,
-                    'GET',
-                    () => sheets.spreadsheets.values.get({
-                        spreadsheetId: BUTCHER_POS_SHEET_ID,
-                        range,
-                    }),
-                    { sheetId: BUTCHER_POS_SHEET_ID, sheetName: 'Butcher POS Sheet' }
-                );
-                
-                const newRows = newResponse.data.values || [];
-                // CRITICAL FIX: Range A2:G means rows start from sheet row 2
-                // rows[0] = sheet row 2, rows[1] = sheet row 3, etc.
-                for (let i = 0; i < newRows.length; i++) {
-                    const rowDate = newRows[i][0];
-                    const rowOrderNo = newRows[i][1];
-                    const rowOrderNoStr = String(rowOrderNo || '').trim();
-                    
-                    // Match order number first, then use flexible date matching
-                    if (rowOrderNoStr === orderNoStr) {
-                        const normalizedRowDate = normalizeDateForComparison(rowDate);
-                        if (rowDate === orderDate || 
-                            normalizedRowDate === normalizedOrderDate ||
-                            orderDateVariants.includes(rowDate) ||
-                            orderDateVariants.map(d => normalizeDateForComparison(d)).includes(normalizedRowDate)) {
-                        rowIndex = i + 2; // Range starts at row 2, so add 2 (not 1)
-                        break;
-                        }
-                    }
-                }
+                // Now try to find it again - the append has updated the row index
+                await flushSheetWrites({ spreadsheetId: BUTCHER_POS_SHEET_ID });
+                rowIndex = (await findRow()) ?? -1;
                 
                 if (rowIndex === -1) {
                     return; // Exit early - don't throw error, just skip update
@@ -1624,154 +1703,19 @@ export const updateOrderInSheet = async (order: Order, butcherId: string) => {
             }
         }
 
-        // Prepare update data based on butcher type
-        // Format preparing weight: item: weight or item: rejected (no curly braces)
-        let preparingWeight = '';
-        
-        // Build preparing weight string in format: item: weight or item: rejected (no curly braces)
-        // Preparing weights are keyed by item.name in order.itemWeights (fish) or order.itemQuantities (meat)
-        // Values are already formatted with units (e.g., "2.1kg") from the dashboard dialog
-        const preparingWeightParts: string[] = [];
-        order.items.forEach(item => {
-            const rejected = (item as any).rejected;
-            if (rejected) {
-                // Item rejected: item: rejected
-                preparingWeightParts.push(`${item.name}: rejected`);
-            } else {
-                // Item accepted: get preparing weight from multiple sources
-                // Priority 1: order.itemWeights/itemQuantities (set when marked as prepared)
-                // Priority 2: item.preparingWeight (set when order was accepted)
-                // Priority 3: original item.quantity (fallback)
-                let weight = '';
-                if (isMeat) {
-                    weight = order.itemQuantities?.[item.name] || '';
-                } else {
-                    weight = order.itemWeights?.[item.name] || '';
-                }
-                
-                // Fallback to item.preparingWeight if not found in order.itemWeights/itemQuantities
-                // This handles orders that were accepted but itemWeights/itemQuantities weren't set
-                if (!weight) {
-                    weight = (item as any).preparingWeight || '';
-                }
-                
-                // If still no weight, use original quantity with unit (shouldn't happen for prepared orders)
-                if (!weight) {
-                    weight = `${item.quantity}${item.unit}`;
-                }
-                
-                if (weight) {
-                    // Weight already includes unit from dashboard (e.g., "2.1kg" or "2.65kg"), use as is
-                    preparingWeightParts.push(`${item.name}: ${weight}`);
-                }
-            }
-        });
-        preparingWeight = preparingWeightParts.join(', ');
-            
-        // Completion Time: 
-        // - For preparing orders: Show elapsed minutes countdown (e.g., "5min")
-        // - For completed orders: Time taken if within 20min, or actual IST time if exceeded
-        let completionTime = '';
-        if (order.status === 'preparing' || order.status === 'prepared') {
-            // Order is still preparing - calculate elapsed time from start to now
-            if (order.preparationStartTime) {
-                const now = new Date();
-                const start = order.preparationStartTime instanceof Date 
-                    ? order.preparationStartTime 
-                    : new Date(order.preparationStartTime);
-                const diffMs = now.getTime() - start.getTime();
-                const diffMinutes = Math.floor(diffMs / (1000 * 60));
-                // Show elapsed minutes (countdown) for preparing orders
-                completionTime = `${diffMinutes}min`;
-            }
-        } else {
-            // Order is completed - use normal completion time calculation
-            completionTime = getCompletionTime(order.preparationStartTime, order.preparationEndTime);
-        }
-        
-        // Start Time: IST format, human-readable (when order was accepted)
-        const startTime = order.preparationStartTime ? getISTDateTime(order.preparationStartTime) : '';
-        
-        // Status: Only "completed" or "rejected"
-        // - "completed" if any items completed (partial or full)
-        // - "rejected" only if entire order is rejected
-        let sheetStatus = '';
-        const allItemsRejected = order.items.every(item => (item as any).rejected);
-        const hasAcceptedItems = order.items.some(item => !(item as any).rejected);
-        
-        if (order.status === 'rejected' || allItemsRejected) {
-            sheetStatus = 'rejected';
-        } else if (order.status === 'completed' || order.status === 'prepared' || hasAcceptedItems) {
-            sheetStatus = 'completed';
-                } else {
-            // Default to completed if status is unclear
-            sheetStatus = 'completed';
-        }
-        
-        // Revenue: Format as item: revenue for multiple items, comma-separated (no curly braces)
-        // Reuse calculated revenue from order.itemRevenues - no recalculation
-        let revenueForSheet = '';
-        if (order.itemRevenues && Object.keys(order.itemRevenues).length > 0) {
-            // Format: item: revenue, item: revenue (no curly braces)
-            const revenueParts = Object.entries(order.itemRevenues)
-                .filter(([itemName, revenue]) => revenue > 0) // Only include items with revenue
-                .map(([itemName, revenue]) => `${itemName}: ${revenue.toFixed(2)}`);
-            revenueForSheet = revenueParts.join(', ');
-        } else if (order.revenue && order.revenue > 0) {
-            // Fallback: If only total revenue available, use total
-            revenueForSheet = order.revenue.toFixed(2);
-        } else {
-            // No revenue calculated yet (should not happen for completed orders)
-            revenueForSheet = '';
-        }
-
-        const items = formatArrayForSheet(order.items.map(item => item.name));
-        const quantities = formatArrayForSheet(order.items.map(item => `${item.quantity}${item.unit}`));
-        const sizes = formatArrayForSheet(order.items.map(item => item.size || ''));
-        const cutTypes = formatArrayForSheet(order.items.map(item => item.cutType || ''));
-        
-        const orderDateForSheet = order.orderTime 
-            ? (() => {
-                const date = new Date(order.orderTime);
-                const day = String(date.getDate()).padStart(2, '0');
-                const month = String(date.getMonth() + 1).padStart(2, '0');
-                const year = date.getFullYear();
-                return `${day}/${month}/${year}`;
-            })()
-            : getISTDate();
-        
         const updateRange = `${tabName}!A${rowIndex}:K${rowIndex}`;
-        const updateValues = [[
-            orderDateForSheet,  // A: Order Date
-            orderNo,            // B: Order No
-            items,              // C: Items
-            quantities,         // D: Quantity
-            sizes,              // E: Size
-            cutTypes,           // F: Cut type
-            preparingWeight,   // G: Preparing weight
-            completionTime,     // H: Completion Time
-            startTime,          // I: Start time
-            sheetStatus,        // J: Status
-            revenueForSheet     // K: Revenue
-        ]];
+        const updateValues = [await buildOrderSheetRow(order, butcherId)];
         
-        const updateResponse = await measureApiCall(
-            `updateOrder:${butcherId}`,
-            'PUT',
-            () => sheets.spreadsheets.values.update({
-                spreadsheetId: BUTCHER_POS_SHEET_ID,
-                range: updateRange,
-                valueInputOption: 'USER_ENTERED',
-                requestBody: {
-                    values: updateValues
-                }
-            }),
-            { sheetId: BUTCHER_POS_SHEET_ID, sheetName: 'Butcher POS Sheet' }
-        );
-        
-        if (updateResponse.status !== 200) {
-            throw new Error(`Google Sheets update failed with status ${updateResponse.status}`);
-        }
+        // Coalesced with other row updates into one batchUpdate by the write buffer
+        await queueSheetUpdate({
+            spreadsheetId: BUTCHER_POS_SHEET_ID,
+            clientKey: `butcher:${butcherId}`,
+            getClient: () => getButcherSheetsClient(butcherId),
+            range: updateRange,
+            values: updateValues,
+            valueInputOption: 'USER_ENTERED',
+            sheetName: 'Butcher POS Sheet'
+        });
 
     } catch (error: any) {
         console.error('Error updating order in sheet:', error);
@@ -1803,6 +1747,53 @@ export const updateOrderInSheet = async (order: Order, butcherId: string) => {
 /**
  * Save menu items to the Menu POS sheet
  */
+/**
+ * Build Menu POS rows for the available items of a menu
+ * Meat tabs: Item Name | Category | Purchase Price | Selling Price | Unit | nos weight | Date (A:G)
+ * Fish tabs: Item Name | Category | Size | Purchase Price | Selling Price | Unit | nos weight | Date (A:H)
+ */
+export const buildMenuSheetRows = async (butcherId: string, menu: MenuCategory[], isMeatTab: boolean): Promise<any[][]> => {
+    const rows: any[][] = [];
+    const currentDate = new Date().toLocaleDateString('en-GB'); // DD/MM/YYYY format
+
+    for (const category of menu) {
+        for (const item of category.items) {
+            if (!item.available) continue;
+
+            for (const size of item.sizes) {
+                if (size.price <= 0) continue;
+
+                let itemName = item.name;
+                if (item.name.includes(' - ') && item.name.split(' - ').length >= 3) {
+                    const nameParts = item.name.split(' - ');
+                    itemName = nameParts[1].trim(); // Extract English name
+                }
+
+                const markupRate = getMarkupRate(butcherId, category.name);
+                const sellingPrice = Math.round(size.price * (1 + markupRate));
+                const nosWeight = size.minWeight && size.maxWeight ? `${size.minWeight}-${size.maxWeight}` : '';
+
+                if (isMeatTab) {
+                    rows.push([itemName, category.name, size.price, sellingPrice, item.unit, nosWeight, currentDate]);
+                } else {
+                    rows.push([
+                        itemName,
+                        category.name,
+                        size.size === 'default' ? '' : size.size,
+                        size.price,
+                        sellingPrice,
+                        item.unit,
+                        nosWeight,
+                        currentDate
+                    ]);
+                }
+            }
+        }
+    }
+
+    return rows;
+};
+
 export const saveMenuToSheet = async (butcherId: string, menu: MenuCategory[]): Promise<void> => {
     try {
         if (!MENU_POS_SHEET_ID) {
@@ -1822,7 +1813,7 @@ export const saveMenuToSheet = async (butcherId: string, menu: MenuCategory[]):
                 throw new Error(`No tab found for mixed butcher: ${butcherId}`);
             }
         } else {
-            tabName = BUTCHER_TABS[butcherId as keyof typeof BUTCHER_TABS] || null;
+            tabName = getButcherMenuTab(butcherId);
         if (!tabName) {
             throw new Error(`No tab found for butcher: ${butcherId}`);
             }
@@ -1831,64 +1822,16 @@ export const saveMenuToSheet = async (butcherId: string, menu: MenuCategory[]):
         const isMeatButcher = butcherType === 'meat' || (butcherType === 'mixed' && menu.length > 0 && getItemTypeFromCategory(menu[0].name) === 'meat');
         const isFishButcher = butcherType === 'fish' || (butcherType === 'mixed' && menu.length > 0 && getItemTypeFromCategory(menu[0].name) === 'fish');
         
-        const clearRange = isMeatButcher ? `${tabName}!A2:G` : `${tabName}!A2:H`;
+        const clearRange = layoutRange(isMeatButcher ? 'menu-meat' : 'menu-fish', tabName);
             await sheets.spreadsheets.values.clear({
                 spreadsheetId: MENU_POS_SHEET_ID,
                 range: clearRange,
             });
 
-        const rows: any[][] = [];
-        const currentDate = new Date().toLocaleDateString('en-GB'); // DD/MM/YYYY format
-        
-        for (const category of menu) {
-            for (const item of category.items) {
-                if (!item.available) continue;
-                
-                for (const size of item.sizes) {
-                    if (size.price <= 0) continue;
-
-                    let itemName = item.name;
-                    if (item.name.includes(' - ') && item.name.split(' - ').length >= 3) {
-                        const nameParts = item.name.split(' - ');
-                        itemName = nameParts[1].trim(); // Extract English name
-                    }
-                    
-                    const categoryName = category.name;
-                    const markupRate = getMarkupRate(butcherId, categoryName);
-                    const sellingPrice = Math.round(size.price * (1 + markupRate));
-                    
-                    const row: any[] = [];
-                    
-                    if (isMeatButcher) {
-                        row.push(
-                            itemName,
-                            category.name,
-                            size.price,
-                            sellingPrice,
-                            item.unit,
-                            size.minWeight && size.maxWeight ? `${size.minWeight}-${size.maxWeight}` : '',
-                            currentDate
-                        );
-                    } else {
-                        row.push(
-                            itemName,
-                            category.name,
-                            size.size === 'default' ? '' : size.size,
-                            size.price,
-                            sellingPrice,
-                            item.unit,
-                            size.minWeight && size.maxWeight ? `${size.minWeight}-${size.maxWeight}` : '',
-                            currentDate
-                        );
-                    }
-                    
-                    rows.push(row);
-                }
-            }
-        }
+        const rows = await buildMenuSheetRows(butcherId, menu, isMeatButcher);
 
         if (rows.length > 0) {
-            const range = isMeatButcher ? `${tabName}!A2:G` : `${tabName}!A2:H`;
+            const range = layoutRange(isMeatButcher ? 'menu-meat' : 'menu-fish', tabName);
             await sheets.spreadsheets.values.update({
                 spreadsheetId: MENU_POS_SHEET_ID,
                 range,
@@ -1952,7 +1895,7 @@ export const getMenuFromSheet = async (butcherId: string, tabNameOverride?: stri
             if (butcherType === 'mixed') {
                 throw new Error(`Tab name required for mixed butcher: ${butcherId}`);
             }
-            tabName = BUTCHER_TABS[butcherId as keyof typeof BUTCHER_TABS] || null;
+            tabName = getButcherMenuTab(butcherId);
         }
         
         if (!tabName) {
@@ -1962,7 +1905,7 @@ export const getMenuFromSheet = async (butcherId: string, tabNameOverride?: stri
         const butcherType = getButcherType(butcherId);
         const isMeatButcher = butcherType === 'meat' || (butcherType === 'mixed' && tabName && getButcherConfig(butcherId)?.meatSheetTab === tabName);
         
-        const range = isMeatButcher ? `${tabName}!A2:G` : `${tabName}!A2:H`;
+        const range = layoutRange(isMeatButcher ? 'menu-meat' : 'menu-fish', tabName);
         const response = await sheets.spreadsheets.values.get({
             spreadsheetId: MENU_POS_SHEET_ID,
             range,
@@ -2173,7 +2116,7 @@ export const getButcherEarnings = async (butcherId: string, orderItems: OrderIte
         }
 
         const sheets = await getButcherSheetsClient(butcherId);
-        const tabName = BUTCHER_TABS[butcherId as keyof typeof BUTCHER_TABS];
+        const tabName = getButcherMenuTab(butcherId);
         
         if (!tabName) {
             throw new Error(`No tab found for butcher: ${butcherId}`);
@@ -2181,7 +2124,7 @@ export const getButcherEarnings = async (butcherId: string, orderItems: OrderIte
 
         const isMeatButcher = getButcherType(butcherId) === 'meat';
         
-        const range = isMeatButcher ? `${tabName}!A2:F` : `${tabName}!A2:G`;
+        const range = layoutRange(isMeatButcher ? 'menu-meat' : 'menu-fish', tabName);
         const response = await sheets.spreadsheets.values.get({
             spreadsheetId: MENU_POS_SHEET_ID,
             range,
@@ -2361,16 +2304,16 @@ const calculateRevenueFromPreparingWeights = async (
     const itemName = item.name;
     const itemSize = item.size || 'default'; // Get size from order item, default to 'default' if not present
     const itemKey = `${itemName}_${itemSize}`; // Use itemName_size as key for revenue tracking
-    const rejected = (item as any).rejected;
     
     // Skip rejected items (no revenue)
-    if (rejected) {
+    if (isItemRejected(item)) {
       itemRevenues[itemKey] = 0;
       continue;
     }
     
     // Get preparing weight from item, or fall back to original quantity
-    const preparingWeightStr = (item as any).preparingWeight;
+    // Short-weight items are billed on the weight actually prepared
+    const preparingWeightStr = item.preparingWeight;
     let weight = 0;
     
     if (preparingWeightStr) {
@@ -2388,7 +2331,10 @@ const calculateRevenueFromPreparingWeights = async (
     
     try {
       // Get purchase price and category from menu (pass size parameter)
-      const { price: purchasePrice, category: menuCategory } = await getPurchasePriceFromMenu(butcherId, itemName, itemSize);
+      // Substituted items are priced as the replacement the customer agreed to
+      const { price: purchasePrice, category: menuCategory } = item.substitutedWith
+        ? await getPurchasePriceFromMenu(butcherId, item.substitutedWith.name, item.substitutedWith.size || 'default')
+        : await getPurchasePriceFromMenu(butcherId, itemName, itemSize);
       // Use category from menu (found when looking up price) instead of item.category
       const category = menuCategory || item.category || 'default';
       // Get commission rate from butcherConfig (no need for custom rates parameter)
@@ -2441,26 +2387,29 @@ export const calculateOrderRevenue = async (order: Order, butcherId: string): Pr
     const itemName = item.name;
     const itemSize = item.size || 'default'; // Get size from order item, default to 'default' if not present
     const itemKey = `${itemName}_${itemSize}`; // Use itemName_size as key for revenue tracking
-    const rejected = (item as any).rejected;
     
     // ✅ FIX: Skip rejected items (no revenue for rejected items)
-    if (rejected) {
-      console.log(`Skipping ${itemName} (${itemSize}) - rejected: ${rejected}`);
+    if (isItemRejected(item)) {
+      console.log(`Skipping ${itemName} (${itemSize}) - rejected: ${item.rejected}`);
       itemRevenues[itemKey] = 0;
       continue;
     }
     
     // Get preparing weight (fish butchers use itemWeights, meat butchers use itemQuantities)
+    // Short-weight items are billed on the weight actually prepared, not the ordered quantity
     const preparingWeight = parseFloat(
       String(fishButcher
-        ? order.itemWeights?.[itemName] ?? item.quantity
-        : order.itemQuantities?.[itemName] ?? item.quantity)
+        ? order.itemWeights?.[itemName] ?? item.preparingWeight ?? item.quantity
+        : order.itemQuantities?.[itemName] ?? item.preparingWeight ?? item.quantity)
     );
     
-    console.log(`Calculating revenue for ${itemName} (${itemSize}): ${preparingWeight}kg (${fishButcher ? 'fish' : 'meat'} butcher)`);
+    console.log(`Calculating revenue for ${itemName} (${itemSize}): ${preparingWeight}kg (${fishButcher ? 'fish' : 'meat'} butcher, ${getItemStatus(item) || 'pending'})`);
     
     // Get purchase price and category from menu (pass size parameter)
-    const { price: purchasePrice, category: menuCategory } = await getPurchasePriceFromMenu(butcherId, itemName, itemSize);
+    // Substituted items are priced as the replacement the customer agreed to
+    const { price: purchasePrice, category: menuCategory } = item.substitutedWith
+      ? await getPurchasePriceFromMenu(butcherId, item.substitutedWith.name, item.substitutedWith.size || 'default')
+      : await getPurchasePriceFromMenu(butcherId, itemName, itemSize);
     // Use category from menu (found when looking up price) instead of item.category
     const category = menuCategory || item.category || 'default';
     const commissionRate = getCommissionRate(butcherId, category);
@@ -2,15 +2,20 @@
  * SSE Connection Manager
  * Manages Server-Sent Events connections for real-time order updates
  * Security: Authentication, authorization, connection limits
+ * Resume: order events carry per-butcher IDs and the latest ones are kept for Last-Event-ID replay
+ * Fan-out: events go through the pub/sub bus, so every instance delivers them to its own connections
  */
 
 import type { Order } from './types';
+import { getPubSubBus } from './pubsub';
 
 // Connection type: ReadableStreamController for SSE
 type SSEConnection = {
   controller: ReadableStreamDefaultController;
   butcherId: string;
   userId: string;
+  sessionId?: string; // Login session the stream was opened with (closed when it is revoked)
+  isAdmin?: boolean; // Admin watching the butcher's stream (doesn't count towards the butcher's presence)
   connectedAt: Date;
 };
 
@@ -24,6 +29,25 @@ const userConnections = new Map<string, Set<SSEConnection>>();
 const MAX_CONNECTIONS_PER_USER = 3;
 const MAX_CONNECTIONS_PER_BUTCHER = 50; // Safety limit
 
+// Event IDs are "<epoch>-<sequence>": the sequence increases per butcher, the epoch changes on every restart
+// so an ID from before a restart is never mistaken for a current one
+const STREAM_EPOCH = Date.now().toString(36);
+const REPLAY_BUFFER_SIZE = Math.max(1, parseInt(process.env.SSE_REPLAY_BUFFER_SIZE || '200', 10));
+
+type BufferedEvent = { sequence: number; message: string };
+
+// Per butcher: last sequence used, and the most recent events (oldest first)
+const eventSequences = new Map<string, number>();
+const replayBuffers = new Map<string, BufferedEvent[]>();
+
+export type ReplayResult =
+  | { resync: false; messages: string[] }
+  | { resync: true; reason: string };
+
+const SSE_CHANNEL = 'sse';
+
+type SSEBusMessage = { butcherId: string; data: unknown };
+
 /**
  * Clean up stale connections for a specific user (older than 1 minute)
  */
@@ -60,7 +84,9 @@ function cleanupStaleConnectionsForUser(userId: string): void {
 export function addConnection(
   butcherId: string,
   userId: string,
-  controller: ReadableStreamDefaultController
+  controller: ReadableStreamDefaultController,
+  sessionId?: string,
+  isAdmin?: boolean
 ): boolean {
   // ✅ FIX: Clean up stale connections before checking limit
   cleanupStaleConnectionsForUser(userId);
@@ -90,6 +116,8 @@ export function addConnection(
     controller,
     butcherId,
     userId,
+    ...(sessionId ? { sessionId } : {}),
+    ...(isAdmin ? { isAdmin } : {}),
     connectedAt: new Date()
   };
 
@@ -145,6 +173,34 @@ export function removeConnection(butcherId: string, userId: string, controller:
   }
 }
 
+/**
+ * Close every stream opened with one of the given sessions, telling the client why first
+ */
+export function closeSessionConnections(sessionIds: string[]): number {
+  if (sessionIds.length === 0) return 0;
+
+  const ids = new Set(sessionIds);
+  const message = new TextEncoder().encode(`data: ${JSON.stringify({ type: 'session-revoked', timestamp: new Date().toISOString() })}\n\n`);
+  const closing = Array.from(connections.values())
+    .flatMap(connSet => Array.from(connSet))
+    .filter(conn => conn.sessionId && ids.has(conn.sessionId));
+
+  for (const conn of closing) {
+    try {
+      conn.controller.enqueue(message);
+      conn.controller.close();
+    } catch {
+      // Connection already closed
+    }
+    removeConnection(conn.butcherId, conn.userId, conn.controller);
+  }
+
+  if (closing.length > 0) {
+    console.log(`[SSE] Closed ${closing.length} stream(s) of revoked sessions`);
+  }
+  return closing.length;
+}
+
 /**
  * Get all connections for a specific butcher
  */
@@ -153,16 +209,75 @@ export function getConnectionsForButcher(butcherId: string): SSEConnection[] {
   return connSet ? Array.from(connSet) : [];
 }
 
+function formatEventId(sequence: number): string {
+  return `${STREAM_EPOCH}-${sequence}`;
+}
+
+/**
+ * ID of the butcher's latest event (a stream that starts from a snapshot resumes after it)
+ */
+export function getLastEventId(butcherId: string): string {
+  return formatEventId(eventSequences.get(butcherId) || 0);
+}
+
 /**
- * Send SSE message to all connections for a butcher
+ * Events a reconnecting client missed after lastEventId
+ * Resync is required when the ID is from before a restart or older than the replay buffer
+ */
+export function getReplayEvents(butcherId: string, lastEventId: string): ReplayResult {
+  const [epoch, rawSequence] = lastEventId.split('-');
+  const sequence = parseInt(rawSequence, 10);
+  if (epoch !== STREAM_EPOCH || isNaN(sequence)) {
+    return { resync: true, reason: 'Server restarted since the last event' };
+  }
+
+  const current = eventSequences.get(butcherId) || 0;
+  if (sequence > current) {
+    return { resync: true, reason: 'Unknown event ID' };
+  }
+  if (sequence === current) {
+    return { resync: false, messages: [] };
+  }
+
+  const buffer = replayBuffers.get(butcherId) || [];
+  if (buffer.length === 0 || buffer[0].sequence > sequence + 1) {
+    return { resync: true, reason: `Missed more than the last ${REPLAY_BUFFER_SIZE} events` };
+  }
+  return {
+    resync: false,
+    messages: buffer.filter(event => event.sequence > sequence).map(event => event.message)
+  };
+}
+
+/**
+ * Send SSE message to all connections for a butcher, on every instance
  */
 export function sendMessageToButcher(butcherId: string, data: any): void {
+  getPubSubBus().publish<SSEBusMessage>(SSE_CHANNEL, { butcherId, data });
+}
+
+/**
+ * Deliver an event to this instance's connections for a butcher
+ * The event gets the butcher's next ID and is kept for replay, even when nobody is connected
+ * (IDs are per instance - a client that reconnects to another instance gets a full resync)
+ */
+function deliverToButcher(butcherId: string, data: unknown): void {
+  const sequence = (eventSequences.get(butcherId) || 0) + 1;
+  eventSequences.set(butcherId, sequence);
+
+  const message = `id: ${formatEventId(sequence)}\ndata: ${JSON.stringify(data)}\n\n`;
+  const buffer = replayBuffers.get(butcherId) || [];
+  buffer.push({ sequence, message });
+  if (buffer.length > REPLAY_BUFFER_SIZE) {
+    buffer.splice(0, buffer.length - REPLAY_BUFFER_SIZE);
+  }
+  replayBuffers.set(butcherId, buffer);
+
   const connSet = connections.get(butcherId);
   if (!connSet || connSet.size === 0) {
     return; // No connections
   }
 
-  const message = `data: ${JSON.stringify(data)}\n\n`;
   const deadConnections: SSEConnection[] = [];
 
   for (const conn of connSet) {
@@ -180,6 +295,8 @@ export function sendMessageToButcher(butcherId: string, data: any): void {
   }
 }
 
+getPubSubBus().subscribe<SSEBusMessage>(SSE_CHANNEL, ({ butcherId, data }) => deliverToButcher(butcherId, data));
+
 /**
  * Send order update via SSE
  */
@@ -202,6 +319,47 @@ export function sendOrderStatusUpdate(butcherId: string, order: Order): void {
   });
 }
 
+/**
+ * Re-alert the butcher about an order that is past its acceptance SLA
+ */
+export function sendOrderReminder(butcherId: string, order: Order): void {
+  sendMessageToButcher(butcherId, {
+    type: 'order-reminder',
+    order,
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * Tell the butcher an order was handed to someone else (dashboard drops it)
+ */
+export function sendOrderReassigned(butcherId: string, orderId: string, reason: string): void {
+  sendMessageToButcher(butcherId, {
+    type: 'order-reassigned',
+    orderId,
+    reason,
+    timestamp: new Date().toISOString()
+  });
+}
+
+/**
+ * Send the outcome of a queued Central API response retry
+ */
+export function sendResponseDeliveryUpdate(
+  butcherId: string,
+  orderNo: number,
+  status: 'delivered' | 'failed',
+  error?: string
+): void {
+  sendMessageToButcher(butcherId, {
+    type: 'response-delivery',
+    orderNo,
+    status,
+    ...(error ? { error } : {}),
+    timestamp: new Date().toISOString()
+  });
+}
+
 /**
  * Get connection statistics
  */
@@ -0,0 +1,153 @@
+/**
+ * Staff Sheets
+ * Butcher staff accounts stored in a `Staff` tab of the Butcher POS sheet (one row per butcher and username)
+ * Passwords are stored as scrypt hashes only
+ */
+
+import { measureApiCall } from './apiMonitor';
+import type { StoredStaffMember } from './repositories/types';
+import { isStaffRole } from './auth/staffRoles';
+import { getSheetSheetsClient, getSpreadsheetIds } from './sheets';
+
+const STAFF_TAB_NAME = 'Staff';
+const STAFF_HEADER = ['Butcher ID', 'Username', 'Name', 'Role', 'Password Hash', 'Active', 'Created At', 'Updated At', 'Updated By'];
+const STAFF_RANGE = `${STAFF_TAB_NAME}!A:I`;
+
+const sheetInfo = (spreadsheetId: string) => ({ sheetId: spreadsheetId, sheetName: 'Butcher POS Sheet' });
+
+/**
+ * Create the Staff tab with its header row if it doesn't exist yet
+ */
+async function ensureStaffTab(): Promise<void> {
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+
+  try {
+    await sheets.spreadsheets.values.get({
+      spreadsheetId: pos,
+      range: `${STAFF_TAB_NAME}!A1:I1`
+    });
+  } catch {
+    await measureApiCall(
+      'staff:createTab',
+      'POST',
+      () => sheets.spreadsheets.batchUpdate({
+        spreadsheetId: pos,
+        requestBody: { requests: [{ addSheet: { properties: { title: STAFF_TAB_NAME } } }] }
+      }),
+      sheetInfo(pos)
+    );
+    await measureApiCall(
+      'staff:header',
+      'PUT',
+      () => sheets.spreadsheets.values.update({
+        spreadsheetId: pos,
+        range: `${STAFF_TAB_NAME}!A1:I1`,
+        valueInputOption: 'RAW',
+        requestBody: { values: [STAFF_HEADER] }
+      }),
+      sheetInfo(pos)
+    );
+  }
+}
+
+const toRow = (member: StoredStaffMember): string[] => [
+  member.butcherId,
+  member.username,
+  member.name,
+  member.role,
+  member.passwordHash,
+  member.active ? 'TRUE' : 'FALSE',
+  member.createdAt,
+  member.updatedAt,
+  member.updatedBy
+];
+
+const fromRow = (row: string[]): StoredStaffMember | null =>
+  row[0] && row[1] && row[4] && isStaffRole(row[3])
+    ? {
+        butcherId: row[0],
+        username: row[1],
+        name: row[2] || row[1],
+        role: row[3],
+        passwordHash: row[4],
+        active: String(row[5]).toUpperCase() !== 'FALSE',
+        createdAt: row[6] || '',
+        updatedAt: row[7] || '',
+        updatedBy: row[8] || ''
+      }
+    : null;
+
+async function readRows(): Promise<string[][]> {
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+
+  try {
+    const response = await measureApiCall(
+      'staff:read',
+      'GET',
+      () => sheets.spreadsheets.values.get({
+        spreadsheetId: pos,
+        range: `${STAFF_TAB_NAME}!A2:I`
+      }),
+      sheetInfo(pos)
+    );
+    return (response.data.values || []) as string[][];
+  } catch (error) {
+    // No Staff tab yet means no staff accounts have been created
+    const { code, message } = (error || {}) as { code?: number; message?: string };
+    if (code === 400 || /Unable to parse range/i.test(message || '')) {
+      return [];
+    }
+    throw error;
+  }
+}
+
+/**
+ * Stored staff accounts, of one butcher or of every butcher
+ */
+export const getStoredStaff = async (butcherId?: string): Promise<StoredStaffMember[]> => {
+  const rows = await readRows();
+  return rows
+    .map(fromRow)
+    .filter((member): member is StoredStaffMember => member !== null && (!butcherId || member.butcherId === butcherId));
+};
+
+/**
+ * Store a staff account (updates its row when there is one)
+ */
+export const saveStoredStaffMember = async (member: StoredStaffMember): Promise<void> => {
+  await ensureStaffTab();
+
+  const { pos } = await getSpreadsheetIds();
+  const sheets = await getSheetSheetsClient('pos');
+  const rowIndex = (await readRows()).findIndex(row => row[0] === member.butcherId && row[1] === member.username);
+
+  if (rowIndex === -1) {
+    await measureApiCall(
+      'staff:append',
+      'POST',
+      () => sheets.spreadsheets.values.append({
+        spreadsheetId: pos,
+        range: STAFF_RANGE,
+        valueInputOption: 'RAW',
+        requestBody: { values: [toRow(member)] }
+      }),
+      sheetInfo(pos)
+    );
+    return;
+  }
+
+  const rowNumber = rowIndex + 2;
+  await measureApiCall(
+    'staff:update',
+    'PUT',
+    () => sheets.spreadsheets.values.update({
+      spreadsheetId: pos,
+      range: `${STAFF_TAB_NAME}!A${rowNumber}:I${rowNumber}`,
+      valueInputOption: 'RAW',
+      requestBody: { values: [toRow(member)] }
+    }),
+    sheetInfo(pos)
+  );
+};
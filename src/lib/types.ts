@@ -22,9 +22,8 @@ export interface MenuCategory {
 }
 
 export interface Butcher {
-  id: 'usaj' | 'usaj_mutton' | 'pkd' | 'kak' | 'ka_sons' | 'alif' | 'test_meat' | 'test_fish' | 'tender_chops';
+  id: string; // Built-in ids live in butcherConfig.ts, onboarded butchers are registered at runtime
   name: string;
-  password: string;
   menu: MenuCategory[];
 }
 
@@ -36,13 +35,41 @@ export interface OrderItem {
   cutType?: string;
   size?: string;
   category?: string; // Add category information for better matching
+  status?: OrderItemStatus; // Set when the butcher responds to the order
+  preparingWeight?: string; // Weight entered by the butcher, e.g. "1.5kg"
+  rejected?: string; // Rejection reason
+  substitutedWith?: OrderItemSubstitute; // Replacement item the customer agreed to
+  proposedSubstitute?: OrderItemSubstitutionProposal; // Replacement waiting for the customer's answer
+}
+
+export type OrderItemStatus = 'accepted' | 'rejected' | 'substituted' | 'short-weight';
+
+export interface OrderItemSubstitute {
+  name: string;
+  size?: string;
+}
+
+export interface OrderItemSubstitutionProposal extends OrderItemSubstitute {
+  preparingWeight: string; // e.g. "1.5kg"
+  proposedAt: Date;
+}
+
+export type OrderStatus = 'new' | 'awaiting customer' | 'preparing' | 'prepared' | 'completed' | 'ready to pick up' | 'rejected';
+
+export interface OrderStatusTransition {
+  from: OrderStatus | null; // null for the initial 'new' entry
+  to: OrderStatus;
+  at: Date;
+  by: string; // User ID (staff: `<butcherId>:<username>`), or 'central-api' / 'system'
+  byName?: string; // Staff member's name, when a staff login made the change
+  reason?: string;
 }
 
 export interface Order {
   id: string;
   customerName: string;
   items: OrderItem[];
-  status: 'new' | 'preparing' | 'prepared' | 'completed' | 'ready to pick up' | 'rejected';
+  status: OrderStatus;
   orderTime: Date;
   preparationStartTime?: Date;
   preparationEndTime?: Date;
@@ -59,6 +86,47 @@ export interface Order {
   finalWeight?: number; // Final weight after preparation
   _source?: 'central-api' | 'sheet'; // Source of the order
   _receivedAt?: Date; // When order was received
+  statusHistory?: OrderStatusTransition[]; // Audit trail, see orderStateMachine.ts
+  parentOrderId?: string; // Set on the per-butcher parts of a split order (the parent itself is not stored)
+  slaEscalation?: OrderSlaEscalation; // Last acceptance SLA escalation step, see orderSlaWorker.ts
+  reassignedFrom?: string[]; // Butcher IDs this order was taken away from
+  deviceAcks?: OrderDeviceAcks; // First ack of each kind from the butcher's dashboard, see orderAcknowledgement.ts
+}
+
+// What a dashboard device confirms about an order: the SSE event arrived, the order was on screen, the alarm was silenced
+export type OrderAckEvent = 'delivered' | 'seen' | 'alarm-silenced';
+
+export interface OrderDeviceAck {
+  at: Date;
+  sessionId?: string; // Login session (device) that sent the ack, absent for legacy tokens
+  by: string; // User ID
+  byName?: string; // Staff member's name
+}
+
+export type OrderDeviceAcks = Partial<Record<OrderAckEvent, OrderDeviceAck>>;
+
+// Whether a butcher's dashboard is up, see butcherPresence.ts
+export type PresenceStatus = 'online' | 'idle' | 'offline';
+
+// What the dashboard reports: in use while visible, or put away
+export type DashboardActivity = 'active' | 'hidden';
+
+export interface ButcherPresence {
+  butcherId: string;
+  butcherName: string;
+  status: PresenceStatus;
+  since?: Date; // When the current status started (absent for a butcher never seen)
+  lastSeenAt?: Date; // Last heartbeat or activity from any of the butcher's devices
+  lastActivityAt?: Date; // Last interaction on a visible dashboard
+  connections: number; // Live order streams across all instances
+}
+
+// Escalation steps for an order the butcher hasn't accepted in time
+export type OrderSlaEscalationStage = 'reminded' | 'admin-notified';
+
+export interface OrderSlaEscalation {
+  stage: OrderSlaEscalationStage;
+  at: Date;
 }
 
 export interface CommissionRate {
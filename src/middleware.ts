@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { authorizeRoute } from '@/lib/auth/routePolicies';
+
+/**
+ * Route authorization for every /api and /vcs request (policies in src/lib/auth/routePolicies.ts)
+ * Runs on the Node.js runtime so tokens are verified with the same crypto code as the route handlers
+ */
+export function middleware(request: NextRequest) {
+  return authorizeRoute(request) || NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/api/:path*', '/vcs/:path*'],
+  runtime: 'nodejs'
+};